@@ -35,8 +35,8 @@ contract LPStaking is Initializable, ReentrancyGuardUpgradeable, Ownable2StepUpg
      *************/
 
     address public hexagate;
-    uint256 public unlockDuration = 1 weeks;
-    bool public paused = false;
+    uint256 public unlockDuration;
+    bool public paused;
 
     mapping(address => bool) public supportedLPTokens;
     mapping(address => bool) public supportedERC1155Tokens;
@@ -90,10 +90,11 @@ contract LPStaking is Initializable, ReentrancyGuardUpgradeable, Ownable2StepUpg
     function initialize(address _hexagate) external initializer {
         require(_hexagate != address(0), "zero address");
         __ReentrancyGuard_init();
+        __Ownable_init(msg.sender); // Set the initial owner
         __Ownable2Step_init();
 
         hexagate = _hexagate;
-        _transferOwnership(msg.sender); // Set the initial owner
+        unlockDuration = 1 weeks;
     }
 
     function pause() external onlyHexagate {
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+import { LPStaking } from "../LPTokenStaking.sol";
+
+/// @custom:oz-upgrades-unsafe-allow missing-initializer
+contract MockLPStakingV2 is LPStaking {
+    uint256 public upgradedAt;
+
+    function initializeV2() external reinitializer(2) {
+        upgradedAt = block.timestamp;
+    }
+
+    function version() external pure returns (string memory) {
+        return "v2";
+    }
+}
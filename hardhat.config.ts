@@ -1,5 +1,4 @@
 import * as dotenv from "dotenv";
-import { ProxyAgent, setGlobalDispatcher } from "undici";
 
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-verify";
@@ -7,18 +6,22 @@ import "@nomicfoundation/hardhat-ethers";
 import "@nomicfoundation/hardhat-chai-matchers";
 import "@nomiclabs/hardhat-vyper";
 import "@typechain/hardhat";
+import "@openzeppelin/hardhat-upgrades";
 import "hardhat-gas-reporter";
 import "solidity-coverage";
 import * as tenderly from "@tenderly/hardhat-tenderly";
 
+import { loadNetworks, toHardhatNetworks } from "./scripts/networks/networks";
+import { registerNetworks } from "./scripts/networks/register";
+import "./scripts/tasks";
+
 // tenderly.setup({ automaticVerifications: true });
 
 dotenv.config();
 
-if (process.env.PROXY) {
-  const proxyAgent = new ProxyAgent(process.env.PROXY);
-  setGlobalDispatcher(proxyAgent);
-}
+// the networks of NETWORKS_FILE are added to the default ones, their variables are only read once selected
+const networks = loadNetworks(process.env.NETWORKS_FILE || undefined);
+registerNetworks(networks);
 
 // You need to export an object to set up your config
 // Go to https://hardhat.org/config/ to learn more
@@ -38,25 +41,11 @@ const config: HardhatUserConfig = {
       },
     ],
   },
-  networks: {
-    fuji: {
-      url: process.env.FUJI_RPC_URL || "https://api.avax-test.network/ext/bc/C/rpc",
-      chainId: 43113,
-      accounts: [process.env.PRIVATE_KEY_MAINNET!],
-    },
-    avalanche: {
-      url: process.env.AVALANCHE_RPC_URL || "https://api.avax.network/ext/bc/C/rpc",
-      chainId: 43114,
-      accounts: [process.env.PRIVATE_KEY_MAINNET!],
-    },
-    virtualAvalancheCChain: {
-      url: "https://virtual.avalanche.rpc.tenderly.co/2c42db45-5f38-4eb0-a2d3-e7c036531d5b",
-    },
-  },
+  networks: toHardhatNetworks(networks),
   tenderly: {
     // https://docs.tenderly.co/account/projects/account-project-slug
-    project: "project",
-    username: "solomonNSI",
+    project: process.env.TENDERLY_PROJECT ?? "",
+    username: process.env.TENDERLY_USERNAME ?? "",
   },
   typechain: {
     outDir: "./scripts/@types",
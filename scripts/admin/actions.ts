@@ -0,0 +1,61 @@
+import { isAddress } from "ethers";
+
+export const ADMIN_METHODS = [
+  "addLPTokenSupport",
+  "addERC1155TokenSupport",
+  "removeLPTokenSupport",
+  "removeERC1155TokenSupport",
+  "updateUnlockDuration",
+  "updateHexagateAddress",
+  "transferOwnership",
+  "acceptOwnership",
+] as const;
+
+export type AdminMethod = (typeof ADMIN_METHODS)[number];
+
+/**
+ * One LPStaking owner call, with its arguments as strings the way they are written on the command line.
+ */
+export interface AdminAction {
+  method: AdminMethod;
+  args: string[];
+}
+
+const ARGUMENT_KINDS: { [method in AdminMethod]: ("address" | "uint256")[] } = {
+  addLPTokenSupport: ["address"],
+  addERC1155TokenSupport: ["address"],
+  removeLPTokenSupport: ["address"],
+  removeERC1155TokenSupport: ["address"],
+  updateUnlockDuration: ["uint256"],
+  updateHexagateAddress: ["address"],
+  transferOwnership: ["address"],
+  acceptOwnership: [],
+};
+
+/**
+ * Parse an action written as a call, e.g. `removeLPTokenSupport(0x...)` or `acceptOwnership()`.
+ */
+export function parseAdminAction(text: string): AdminAction {
+  const match = /^\s*(\w+)\s*\((.*)\)\s*$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid action ${text}, expected method(arg, ...)`);
+  }
+  const method = match[1] as AdminMethod;
+  if (!ADMIN_METHODS.includes(method)) {
+    throw new Error(`Unknown admin method ${match[1]}, expected one of ${ADMIN_METHODS.join(", ")}`);
+  }
+  const args = match[2].trim() === "" ? [] : match[2].split(",").map((arg) => arg.trim());
+  const kinds = ARGUMENT_KINDS[method];
+  if (args.length !== kinds.length) {
+    throw new Error(`${method} takes ${kinds.length} argument(s), got ${args.length}`);
+  }
+  kinds.forEach((kind, index) => {
+    const valid = kind === "address" ? isAddress(args[index]) : /^\d+$/.test(args[index]);
+    if (!valid) throw new Error(`Invalid ${kind} ${args[index]} for ${method}`);
+  });
+  return { method, args };
+}
+
+export function formatAdminAction(action: AdminAction): string {
+  return `${action.method}(${action.args.join(", ")})`;
+}
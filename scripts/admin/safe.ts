@@ -0,0 +1,88 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Interface } from "ethers";
+
+interface SafeMethodInput {
+  internalType: string;
+  name: string;
+  type: string;
+}
+
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  // left null when the call is described by `contractMethod`, as the transaction builder exports it
+  data: string | null;
+  contractMethod: { inputs: SafeMethodInput[]; name: string; payable: boolean };
+  contractInputsValues: { [name: string]: string };
+}
+
+/**
+ * A batch in the JSON format imported by the Safe transaction builder app.
+ */
+export interface SafeBatch {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeTransaction[];
+}
+
+/**
+ * A contract call with its arguments as strings, admin actions are one kind of them.
+ */
+export interface ContractCall {
+  method: string;
+  args: string[];
+}
+
+export function toSafeTransaction(iface: Interface, to: string, call: ContractCall): SafeTransaction {
+  const fragment = iface.getFunction(call.method);
+  if (!fragment) {
+    throw new Error(`No ${call.method} function in the contract ABI`);
+  }
+  return {
+    to,
+    value: "0",
+    data: null,
+    contractMethod: {
+      inputs: fragment.inputs.map((input) => ({ internalType: input.type, name: input.name, type: input.type })),
+      name: fragment.name,
+      payable: fragment.payable,
+    },
+    contractInputsValues: Object.fromEntries(fragment.inputs.map((input, index) => [input.name, call.args[index]])),
+  };
+}
+
+export function buildSafeBatch(options: {
+  chainId: bigint;
+  safe: string;
+  name: string;
+  description?: string;
+  transactions: SafeTransaction[];
+}): SafeBatch {
+  return {
+    version: "1.0",
+    chainId: options.chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: options.name,
+      description: options.description ?? "",
+      txBuilderVersion: "1.16.5",
+      createdFromSafeAddress: options.safe,
+      createdFromOwnerAddress: "",
+    },
+    transactions: options.transactions,
+  };
+}
+
+export function saveSafeBatch(file: string, batch: SafeBatch) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(batch, null, 2) + "\n");
+}
@@ -0,0 +1,118 @@
+import { ZeroAddress } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { LPStaking } from "@/types/index";
+import { LPStakingStorage } from "@/utils/lpstaking-storage";
+
+import { extractRevertReason } from "../contracts/LPStakingErrors";
+import { AdminAction } from "./actions";
+
+export interface PreflightIssue {
+  action: AdminAction;
+  message: string;
+}
+
+export interface SimulationResult {
+  issues: PreflightIssue[];
+  // gas used by every action that was executed, in batch order
+  gasUsed: bigint[];
+}
+
+function same(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Check one action against the current state, returning a message for every problem found.
+ */
+export async function preflight(
+  contract: LPStaking,
+  storage: LPStakingStorage,
+  safe: string,
+  action: AdminAction
+): Promise<string[]> {
+  const provider = contract.runner!.provider!;
+  const problems: string[] = [];
+  const [arg] = action.args;
+
+  if (action.method === "acceptOwnership") {
+    const pending = await contract.pendingOwner();
+    if (!same(pending, safe)) problems.push(`the Safe is not the pending owner (pending owner is ${pending})`);
+    return problems;
+  }
+  const owner = await contract.owner();
+  if (!same(owner, safe)) problems.push(`the Safe is not the owner (owner is ${owner})`);
+
+  switch (action.method) {
+    case "addLPTokenSupport":
+    case "addERC1155TokenSupport":
+      if (arg === ZeroAddress) problems.push("token is the zero address");
+      if ((await provider.getCode(arg)) === "0x") problems.push(`${arg} is not a contract`);
+      if (await contract.supportedLPTokens(arg)) problems.push(`${arg} is already supported as an LP token`);
+      if (await contract.supportedERC1155Tokens(arg)) problems.push(`${arg} is already supported as an ERC1155 token`);
+      break;
+    case "removeLPTokenSupport":
+    case "removeERC1155TokenSupport": {
+      const supported =
+        action.method === "removeLPTokenSupport"
+          ? await contract.supportedLPTokens(arg)
+          : await contract.supportedERC1155Tokens(arg);
+      if (!supported) problems.push(`${arg} is not supported`);
+      // removing support while users are staked would lock their tokens, the contract reverts anyway
+      const stakers = await storage.tokenUserCount(arg);
+      if (stakers !== 0n) problems.push(`${stakers} user position(s) are still staked in ${arg}`);
+      break;
+    }
+    case "updateUnlockDuration":
+      if (BigInt(arg) === 0n) problems.push("unlock duration is zero");
+      break;
+    case "updateHexagateAddress":
+      if (arg === ZeroAddress) problems.push("hexagate is the zero address");
+      if (same(await contract.hexagate(), arg)) problems.push(`${arg} already is the hexagate`);
+      break;
+    case "transferOwnership":
+      if (arg === ZeroAddress) problems.push("new owner is the zero address, use renounceOwnership instead");
+      if (same(arg, safe)) problems.push("new owner already is the Safe");
+      break;
+  }
+  return problems;
+}
+
+/**
+ * Run the batch from the Safe on the hardhat network (usually a fork), checking every action
+ * against the state left by the previous ones. The chain is reverted afterwards.
+ */
+export async function simulateAdminBatch(
+  hre: HardhatRuntimeEnvironment,
+  contract: LPStaking,
+  safe: string,
+  actions: AdminAction[]
+): Promise<SimulationResult> {
+  if (hre.network.name !== "hardhat") {
+    throw new Error(`Simulating needs the hardhat network, not ${hre.network.name}`);
+  }
+  const storage = await LPStakingStorage.create(hre, contract);
+  const snapshot = await hre.network.provider.send("evm_snapshot", []);
+  const result: SimulationResult = { issues: [], gasUsed: [] };
+  try {
+    await hre.network.provider.send("hardhat_setBalance", [safe, "0x56BC75E2D63100000"]);
+    const signer = await hre.ethers.getImpersonatedSigner(safe);
+    for (const action of actions) {
+      const problems = await preflight(contract, storage, safe, action);
+      result.issues.push(...problems.map((message) => ({ action, message })));
+      if (problems.length > 0) continue;
+      try {
+        const tx = await contract.connect(signer).getFunction(action.method)(...action.args);
+        const receipt = await tx.wait();
+        result.gasUsed.push(receipt!.gasUsed);
+      } catch (error) {
+        const reason = extractRevertReason(error) ?? String((error as Error).message);
+        result.issues.push({ action, message: `reverted: ${reason}` });
+      }
+    }
+  } finally {
+    await hre.network.provider.send("hardhat_stopImpersonatingAccount", [safe]);
+    await hre.network.provider.send("evm_revert", [snapshot]);
+  }
+  return result;
+}
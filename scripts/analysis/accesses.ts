@@ -0,0 +1,193 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// the few solc AST fields read here, every node carries more
+export interface AstNode {
+  id: number;
+  nodeType: string;
+  [field: string]: unknown;
+}
+
+export interface FunctionAccesses {
+  name: string;
+  modifiers: string[];
+  // the state variables read, storage pointers resolved to the variable they point into
+  reads: string[];
+  // the state variables written, each with the variables its written value is computed from
+  writes: { [variable: string]: string[] };
+}
+
+function isNode(value: unknown): value is AstNode {
+  return typeof value === "object" && value !== null && typeof (value as AstNode).nodeType === "string";
+}
+
+function children(node: AstNode): AstNode[] {
+  const nodes: AstNode[] = [];
+  for (const value of Object.values(node)) {
+    if (isNode(value)) nodes.push(value);
+    else if (Array.isArray(value)) nodes.push(...value.filter(isNode));
+  }
+  return nodes;
+}
+
+function walk(node: AstNode, visit: (node: AstNode) => void) {
+  visit(node);
+  for (const child of children(node)) walk(child, visit);
+}
+
+/**
+ * The functions and state variables of `contract` and the contracts it inherits from, read from the
+ * solc AST in the build info of the current compilation.
+ */
+export class ContractAst {
+  private constructor(
+    public readonly name: string,
+    // most derived first, like `linearizedBaseContracts`
+    private readonly contracts: AstNode[],
+    private readonly stateVariables: Map<number, string>
+  ) {}
+
+  public static async create(hre: HardhatRuntimeEnvironment, contract: string): Promise<ContractAst> {
+    const artifact = await hre.artifacts.readArtifact(contract);
+    const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+    if (!buildInfo) {
+      throw new Error(`No build info for ${contract}, compile first`);
+    }
+    const definitions = new Map<number, AstNode>();
+    for (const source of Object.values(buildInfo.output.sources)) {
+      walk(source.ast as AstNode, (node) => {
+        if (node.nodeType === "ContractDefinition") definitions.set(node.id, node);
+      });
+    }
+    const definition = Array.from(definitions.values()).find((node) => node.name === artifact.contractName)!;
+    const contracts = (definition.linearizedBaseContracts as number[]).map((id) => definitions.get(id)!);
+
+    const stateVariables = new Map<number, string>();
+    for (const node of contracts.flatMap((contract) => children(contract))) {
+      if (node.nodeType === "VariableDeclaration" && node.stateVariable) {
+        stateVariables.set(node.id, node.name as string);
+      }
+    }
+    return new ContractAst(artifact.contractName, contracts, stateVariables);
+  }
+
+  /**
+   * The state accesses of the function body. Internal calls are not followed and modifiers are only
+   * listed by name.
+   */
+  public functionAccesses(name: string): FunctionAccesses {
+    const definitions = this.contracts.flatMap((contract) =>
+      children(contract).filter((node) => node.nodeType === "FunctionDefinition" && node.name === name)
+    );
+    if (definitions.length === 0) {
+      throw new Error(`No function ${name} in ${this.name}`);
+    }
+    if (definitions.length > 1) {
+      throw new Error(`${name} is overloaded or overridden in ${this.name}, pairs need a unique function`);
+    }
+    const definition = definitions[0];
+
+    // local variables and parameters by id, and the storage pointers into state variables
+    const variables = new Map<number, string>(this.stateVariables);
+    const pointers = new Map<number, string>();
+    const reads = new Set<string>();
+    const writes = new Map<string, Set<string>>();
+
+    const stateVariableOf = (id: unknown): string | undefined =>
+      this.stateVariables.get(id as number) ?? pointers.get(id as number);
+    // the state variable an lvalue such as `userSnapshots[msg.sender][token].initialAmountStaked` lands in
+    const baseOf = (expression: AstNode): string | undefined => {
+      if (expression.nodeType === "IndexAccess") return baseOf(expression.baseExpression as AstNode);
+      if (expression.nodeType === "MemberAccess") return baseOf(expression.expression as AstNode);
+      if (expression.nodeType === "Identifier") return stateVariableOf(expression.referencedDeclaration);
+      return undefined;
+    };
+    const valuesOf = (expression: AstNode): string[] => {
+      const values: string[] = [];
+      walk(expression, (node) => {
+        if (node.nodeType !== "Identifier") return;
+        const name = stateVariableOf(node.referencedDeclaration) ?? variables.get(node.referencedDeclaration as number);
+        if (name !== undefined) values.push(name);
+      });
+      return values;
+    };
+    const write = (target: AstNode, values: string[]) => {
+      const variable = baseOf(target);
+      if (variable === undefined) return false;
+      const written = writes.get(variable) ?? new Set<string>();
+      values.forEach((value) => written.add(value));
+      writes.set(variable, written);
+      // the keys used to reach the written slot are still read
+      const indices = (expression: AstNode) => {
+        if (expression.nodeType === "IndexAccess") {
+          if (isNode(expression.indexExpression)) visit(expression.indexExpression);
+          indices(expression.baseExpression as AstNode);
+        } else if (expression.nodeType === "MemberAccess") {
+          indices(expression.expression as AstNode);
+        }
+      };
+      indices(target);
+      return true;
+    };
+
+    const visit = (node: AstNode) => {
+      switch (node.nodeType) {
+        case "VariableDeclaration":
+          variables.set(node.id, node.name as string);
+          break;
+        case "VariableDeclarationStatement": {
+          const [declaration] = node.declarations as (AstNode | null)[];
+          const pointee = isNode(node.initialValue) ? baseOf(node.initialValue) : undefined;
+          if (declaration?.storageLocation === "storage" && pointee !== undefined) {
+            pointers.set(declaration.id, pointee);
+          }
+          break;
+        }
+        case "Assignment":
+          if (write(node.leftHandSide as AstNode, valuesOf(node.rightHandSide as AstNode))) {
+            visit(node.rightHandSide as AstNode);
+            return;
+          }
+          break;
+        case "UnaryOperation":
+          if (["++", "--", "delete"].includes(node.operator as string) && write(node.subExpression as AstNode, [])) {
+            return;
+          }
+          break;
+        case "FunctionCall": {
+          const callee = node.expression as AstNode;
+          const args = node.arguments as AstNode[];
+          if (
+            callee.nodeType === "MemberAccess" &&
+            ["push", "pop"].includes(callee.memberName as string) &&
+            write(callee.expression as AstNode, args.flatMap(valuesOf))
+          ) {
+            args.forEach(visit);
+            return;
+          }
+          break;
+        }
+        case "Identifier": {
+          const variable = stateVariableOf(node.referencedDeclaration);
+          if (variable !== undefined) reads.add(variable);
+          break;
+        }
+      }
+      children(node).forEach(visit);
+    };
+    (definition.parameters as AstNode & { parameters: AstNode[] }).parameters.forEach(visit);
+    if (isNode(definition.body)) visit(definition.body);
+
+    return {
+      name,
+      modifiers: (definition.modifiers as AstNode[]).map(
+        (modifier) => (modifier.modifierName as AstNode).name as string
+      ),
+      reads: Array.from(reads).sort(),
+      writes: Object.fromEntries(
+        Array.from(writes.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([variable, values]) => [variable, Array.from(values).sort()])
+      ),
+    };
+  }
+}
@@ -0,0 +1,227 @@
+import { Provider, getAddress, getBytes, hexlify, zeroPadValue } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { renderTable } from "@/utils/table";
+
+// keccak256("eip1967.proxy.implementation") - 1
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+// differing bytes closer than this are reported as one region
+const REGION_GAP = 32;
+
+// bytes of each side shown per region
+const SNIPPET_LENGTH = 24;
+
+// regions listed per deployment in the report, a different contract differs almost everywhere
+const REPORTED_REGIONS = 10;
+
+export interface ByteRange {
+  start: number;
+  length: number;
+}
+
+/**
+ * The runtime bytecode of a contract of the current build, with the ranges filled at deployment.
+ */
+export interface LocalBytecode {
+  // the fully qualified name, e.g. `contracts/PTPStaking.sol:PTPStaking`
+  contract: string;
+  bytecode: string;
+  // the immutables, written by the constructor
+  immutables: ByteRange[];
+  // the library addresses, written when linking
+  links: ByteRange[];
+  solcVersion: string;
+  evmVersion?: string;
+  optimizerRuns?: number;
+}
+
+export interface DiffRegion {
+  // byte offsets in the runtime bytecode, metadata excluded
+  start: number;
+  end: number;
+  onchain: string;
+  local: string;
+}
+
+export interface BytecodeComparison {
+  match: boolean;
+  // whether the metadata hashes match too, they differ when only comments or source paths changed
+  metadataMatch: boolean;
+  onchainLength: number;
+  localLength: number;
+  regions: DiffRegion[];
+}
+
+export interface BytecodeVerification extends BytecodeComparison {
+  // where the address comes from, e.g. the deployment record
+  label: string;
+  contract: string;
+  address: string;
+  // why the comparison could not run or what the difference means
+  note?: string;
+}
+
+/**
+ * The length of the CBOR metadata solc appends, its 2 length bytes included, or 0 when there is none.
+ */
+export function metadataLength(code: Uint8Array): number {
+  if (code.length < 2) return 0;
+  const length = (code[code.length - 2] << 8) + code[code.length - 1];
+  const start = code.length - 2 - length;
+  // a CBOR map of a few entries, `ipfs` and `solc` for solc 0.8
+  if (length === 0 || start < 0 || code[start] < 0xa1 || code[start] > 0xbf) return 0;
+  return length + 2;
+}
+
+function mask(code: Uint8Array, ranges: ByteRange[]): Uint8Array {
+  const masked = Uint8Array.from(code);
+  for (const { start, length } of ranges) masked.fill(0, start, Math.min(start + length, masked.length));
+  return masked;
+}
+
+function snippet(code: Uint8Array, start: number, end: number): string {
+  if (start >= code.length) return "";
+  const bytes = code.slice(start, Math.min(end, start + SNIPPET_LENGTH, code.length));
+  return hexlify(bytes) + (Math.min(end, code.length) - start > SNIPPET_LENGTH ? "..." : "");
+}
+
+/**
+ * The regions where two bytecodes differ, a byte missing from the shorter one counting as different.
+ */
+export function diffBytecode(onchain: Uint8Array, local: Uint8Array): DiffRegion[] {
+  const ranges: { start: number; end: number }[] = [];
+  const length = Math.max(onchain.length, local.length);
+  for (let offset = 0; offset < length; offset++) {
+    if (offset < onchain.length && offset < local.length && onchain[offset] === local[offset]) continue;
+    const last = ranges[ranges.length - 1];
+    if (last !== undefined && offset - last.end < REGION_GAP) last.end = offset + 1;
+    else ranges.push({ start: offset, end: offset + 1 });
+  }
+  return ranges.map(({ start, end }) => ({
+    start,
+    end,
+    onchain: snippet(onchain, start, end),
+    local: snippet(local, start, end),
+  }));
+}
+
+/**
+ * Compare deployed runtime bytecode with the build, ignoring the metadata hash, the immutables and the
+ * library addresses.
+ */
+export function compareBytecode(onchainCode: string, local: LocalBytecode): BytecodeComparison {
+  const onchain = getBytes(onchainCode);
+  const build = getBytes(local.bytecode.replace(/__\$[0-9a-fA-F]{34}\$__/g, "0".repeat(40)));
+  const onchainMetadata = metadataLength(onchain);
+  const localMetadata = metadataLength(build);
+
+  const masks = [...local.immutables, ...local.links];
+  const stripped = mask(onchain.slice(0, onchain.length - onchainMetadata), masks);
+  const expected = mask(build.slice(0, build.length - localMetadata), masks);
+  const regions = diffBytecode(stripped, expected);
+  return {
+    match: regions.length === 0,
+    metadataMatch:
+      hexlify(onchain.slice(onchain.length - onchainMetadata)) === hexlify(build.slice(build.length - localMetadata)),
+    onchainLength: stripped.length,
+    localLength: expected.length,
+    regions,
+  };
+}
+
+/**
+ * The runtime bytecode of `contract` in the current build, with the compiler settings it was built with.
+ */
+export async function readLocalBytecode(hre: HardhatRuntimeEnvironment, contract: string): Promise<LocalBytecode> {
+  const artifact = await hre.artifacts.readArtifact(contract);
+  const name = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo = await hre.artifacts.getBuildInfo(name);
+  if (!buildInfo) {
+    throw new Error(`No build info for ${name}, compile first`);
+  }
+  const output = buildInfo.output.contracts[artifact.sourceName][artifact.contractName];
+  const immutables = Object.values(output.evm.deployedBytecode.immutableReferences ?? {}).flat();
+  const links = Object.values(artifact.deployedLinkReferences)
+    .flatMap((libraries) => Object.values(libraries))
+    .flat();
+  const { settings } = buildInfo.input;
+  return {
+    contract: name,
+    bytecode: artifact.deployedBytecode,
+    immutables,
+    links,
+    solcVersion: buildInfo.solcVersion,
+    evmVersion: settings.evmVersion,
+    optimizerRuns: settings.optimizer.enabled ? settings.optimizer.runs : undefined,
+  };
+}
+
+/**
+ * Fetch the runtime bytecode at `address` and compare it with the build.
+ */
+export async function verifyDeployedBytecode(
+  provider: Provider,
+  local: LocalBytecode,
+  address: string,
+  label: string,
+  blockTag?: number
+): Promise<BytecodeVerification> {
+  const code = await provider.getCode(address, blockTag);
+  const verification: BytecodeVerification = {
+    label,
+    contract: local.contract,
+    address: getAddress(address),
+    ...compareBytecode(code, local),
+  };
+  if (code === "0x") {
+    verification.note = `no code at ${address}`;
+    return verification;
+  }
+  if (!verification.match) {
+    const slot = await provider.getStorage(address, IMPLEMENTATION_SLOT, blockTag);
+    if (BigInt(slot) !== 0n) {
+      const implementation = getAddress(zeroPadValue(getBytes(slot).slice(12), 20));
+      verification.note = `${address} is an ERC1967 proxy, verify its implementation ${implementation}`;
+    }
+  } else if (!verification.metadataMatch) {
+    verification.note = "the code matches, the metadata differs: comments, source paths or compiler settings changed";
+  }
+  return verification;
+}
+
+export function formatVerificationReport(results: BytecodeVerification[], local: LocalBytecode[]): string {
+  const settings = Array.from(
+    new Set(
+      local.map(
+        (build) =>
+          `solc ${build.solcVersion}, evm ${build.evmVersion ?? "default"}, ` +
+          (build.optimizerRuns === undefined ? "optimizer off" : `optimizer ${build.optimizerRuns} runs`)
+      )
+    )
+  );
+  const rows = results.map((result) => [result.label, result.address, result.match ? "pass" : "FAIL"]);
+  const lines = [
+    `Runtime bytecode against the build (${settings.join("; ")}), metadata and immutables stripped:`,
+    renderTable(["deployment", "address", "result"], rows),
+  ];
+  for (const result of results) {
+    const contract = result.contract.split(":").pop();
+    if (!result.match) {
+      lines.push(
+        `${result.label}: ${result.regions.length} region(s) differ from ${contract}, ` +
+          `${result.onchainLength} bytes deployed against ${result.localLength} built`
+      );
+    }
+    if (result.note) lines.push(`${result.label}: ${result.note}`);
+    for (const region of result.regions.slice(0, REPORTED_REGIONS)) {
+      lines.push(`${result.label}: bytes ${region.start}-${region.end} differ`);
+      lines.push(`  onchain ${region.onchain || "(missing)"}`);
+      lines.push(`  local   ${region.local || "(missing)"}`);
+    }
+    if (result.regions.length > REPORTED_REGIONS) {
+      lines.push(`${result.label}: and ${result.regions.length - REPORTED_REGIONS} more region(s)`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,134 @@
+import * as fs from "fs";
+
+import { ContractAst, FunctionAccesses } from "./accesses";
+
+export interface PairingSpec {
+  contract: string;
+  // the ERC20 functions and their ERC1155 counterparts
+  pairs: [string, string][];
+  // the ERC20 state variables and their ERC1155 counterparts
+  counterparts: { [erc20: string]: string };
+  // variables that only exist on the ERC1155 side, such as the token id, left out of the written values
+  erc1155Only: string[];
+  // state variables both paths are meant to write, keyed by token and not by asset type
+  shared: string[];
+}
+
+export const DEFAULT_PAIRING_SPEC: PairingSpec = {
+  contract: "LPStaking",
+  pairs: [
+    ["stake", "stake1155"],
+    ["unlock", "unlock1155"],
+    ["unstake", "unstake1155"],
+    ["balanceOf", "balanceOf1155"],
+    ["addLPTokenSupport", "addERC1155TokenSupport"],
+    ["removeLPTokenSupport", "removeERC1155TokenSupport"],
+  ],
+  counterparts: {
+    supportedLPTokens: "supportedERC1155Tokens",
+    userBalances: "userBalances1155",
+    userUnlocks: "userUnlocks1155",
+  },
+  erc1155Only: ["id"],
+  shared: ["supportedTokensArray", "tokenUserCount"],
+};
+
+export type PairingIssueKind = "modifier" | "read" | "write" | "value" | "shared";
+
+export interface PairingIssue {
+  // `erc20/erc1155`, e.g. `stake/stake1155`
+  pair: string;
+  kind: PairingIssueKind;
+  // the modifier or state variable, named as on the ERC1155 side
+  subject: string;
+  message: string;
+}
+
+export function loadPairingSpec(file: string): PairingSpec {
+  const spec = { ...DEFAULT_PAIRING_SPEC, ...JSON.parse(fs.readFileSync(file, "utf-8")) } as PairingSpec;
+  if (!Array.isArray(spec.pairs) || spec.pairs.some((pair) => !Array.isArray(pair) || pair.length !== 2)) {
+    throw new Error(`The pairs in ${file} must be [erc20, erc1155] function names`);
+  }
+  return spec;
+}
+
+function difference(a: string[], b: string[]): string[] {
+  return a.filter((value) => !b.includes(value));
+}
+
+/**
+ * Compare the ERC1155 function of a pair with what the spec expects from its ERC20 function:
+ * the same modifiers, the counterpart of every state variable read and written, and written
+ * values computed from the counterparts of the same variables.
+ */
+export function comparePair(spec: PairingSpec, erc20: FunctionAccesses, erc1155: FunctionAccesses): PairingIssue[] {
+  const pair = `${erc20.name}/${erc1155.name}`;
+  const translate = (name: string) => spec.counterparts[name] ?? name;
+  const issues: PairingIssue[] = [];
+  const issue = (kind: PairingIssueKind, subject: string, message: string) =>
+    issues.push({ pair, kind, subject, message });
+
+  for (const modifier of difference(erc20.modifiers, erc1155.modifiers)) {
+    issue("modifier", modifier, `${erc1155.name} is not ${modifier} like ${erc20.name}`);
+  }
+  for (const modifier of difference(erc1155.modifiers, erc20.modifiers)) {
+    issue("modifier", modifier, `${erc1155.name} is ${modifier}, ${erc20.name} is not`);
+  }
+
+  const reads = erc20.reads.map(translate);
+  for (const variable of difference(reads, erc1155.reads)) {
+    issue(
+      "read",
+      variable,
+      `${erc1155.name} does not read ${variable}, ${erc20.name} reads ${erc20.reads[reads.indexOf(variable)]}`
+    );
+  }
+  for (const variable of difference(erc1155.reads, reads)) {
+    issue("read", variable, `${erc1155.name} reads ${variable}, ${erc20.name} does not read its counterpart`);
+  }
+
+  const writes = Object.keys(erc20.writes).map(translate);
+  for (const variable of difference(writes, Object.keys(erc1155.writes))) {
+    issue("write", variable, `${erc1155.name} does not write ${variable}, ${erc20.name} writes its counterpart`);
+  }
+  for (const variable of difference(Object.keys(erc1155.writes), writes)) {
+    issue("write", variable, `${erc1155.name} writes ${variable}, ${erc20.name} does not write its counterpart`);
+  }
+
+  for (const [variable, values] of Object.entries(erc20.writes)) {
+    const counterpart = erc1155.writes[translate(variable)];
+    if (counterpart === undefined) continue;
+    const expected = values.map(translate);
+    const actual = difference(counterpart, spec.erc1155Only);
+    if (difference(expected, actual).length > 0 || difference(actual, expected).length > 0) {
+      issue(
+        "value",
+        translate(variable),
+        `${erc1155.name} writes ${translate(variable)} from ${actual.join(", ") || "constants"}, ` +
+          `${erc20.name} writes ${variable} from ${expected.join(", ") || "constants"}`
+      );
+    }
+  }
+
+  // the same variable written by both paths mixes ERC20 and ERC1155 state, unless it is meant to be shared
+  const mapped = new Set([...Object.keys(spec.counterparts), ...Object.values(spec.counterparts), ...spec.shared]);
+  for (const variable of Object.keys(erc20.writes)) {
+    if (!mapped.has(variable) && erc1155.writes[variable] !== undefined) {
+      issue("shared", variable, `${erc20.name} and ${erc1155.name} both write ${variable}`);
+    }
+  }
+  return issues;
+}
+
+export function checkPairing(ast: ContractAst, spec: PairingSpec): PairingIssue[] {
+  return spec.pairs.flatMap(([erc20, erc1155]) =>
+    comparePair(spec, ast.functionAccesses(erc20), ast.functionAccesses(erc1155))
+  );
+}
+
+export function formatPairingReport(contract: string, issues: PairingIssue[]): string {
+  if (issues.length === 0) return `${contract}: the ERC20 and ERC1155 paths match`;
+  const lines = [`${contract}: the ERC20 and ERC1155 paths differ (${issues.length} issue(s))`];
+  for (const issue of issues) lines.push(`  - ${issue.pair} ${issue.kind}: ${issue.message}`);
+  return lines.join("\n");
+}
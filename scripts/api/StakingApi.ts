@@ -0,0 +1,193 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { isAddress } from "ethers";
+
+import type { LPStaking } from "@/types/index";
+
+import { LPStakingIndexer } from "../indexer/LPStakingIndexer";
+import { Position } from "../indexer/positions";
+import { TokenReport, buildReport } from "../report/report";
+
+/**
+ * One shape for ERC20 and ERC1155 positions, amounts as decimal strings.
+ */
+export interface ApiPosition {
+  user: string;
+  token: string;
+  standard: "erc20" | "erc1155";
+  // the ERC1155 token id, null for ERC20 positions
+  id: string | null;
+  // everything staked and not yet unstaked, the amount in unlock included
+  staked: string;
+  unlock: {
+    amount: string;
+    unlockAt: number;
+    // 0 once the unlock can be unstaked
+    secondsToMaturity: number;
+    withdrawable: boolean;
+  } | null;
+}
+
+export interface ApiResponse<T> {
+  // the block the state was read at, every route answers from the same indexed block
+  blockNumber: number;
+  timestamp: number;
+  data: T;
+}
+
+export class ApiError extends Error {
+  // the HTTP status answered
+  public readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+  }
+}
+
+export function toApiPosition(position: Position, timestamp: bigint): ApiPosition {
+  const { user, token, is1155, id, staked, pendingUnlock, unlockAt } = position;
+  const remaining = unlockAt > timestamp ? unlockAt - timestamp : 0n;
+  return {
+    user,
+    token,
+    standard: is1155 ? "erc1155" : "erc20",
+    id: is1155 ? id.toString() : null,
+    staked: staked.toString(),
+    unlock:
+      pendingUnlock === 0n
+        ? null
+        : {
+            amount: pendingUnlock.toString(),
+            unlockAt: Number(unlockAt),
+            secondsToMaturity: Number(remaining),
+            withdrawable: remaining === 0n,
+          },
+  };
+}
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+function parseAddress(value: string): string {
+  if (!isAddress(value)) throw new ApiError(400, `${value} is not an address`);
+  return value.toLowerCase();
+}
+
+/**
+ * Read-only HTTP API over the positions of an LPStaking indexer, for frontends that would
+ * otherwise call `balanceOf`/`userUnlocks` per token:
+ * - `GET /users/:address/positions`
+ * - `GET /tokens`
+ * - `GET /tokens/:address/stakers`, optionally `?id=` for a single ERC1155 id
+ *
+ * The indexer is synced before answering, so the state follows the chain behind its confirmations.
+ */
+export class StakingApi {
+  public readonly indexer: LPStakingIndexer;
+
+  public readonly contract: LPStaking;
+
+  private server?: http.Server;
+
+  private syncing?: Promise<{ blockNumber: number; timestamp: number }>;
+
+  // the token report of the last indexed block, it takes a few reads per token to build
+  private tokens?: { blockNumber: number; tokens: Promise<TokenReport[]> };
+
+  constructor(indexer: LPStakingIndexer) {
+    this.indexer = indexer;
+    this.contract = indexer.contract;
+  }
+
+  /**
+   * Answer a GET of `url`, throwing an `ApiError` for requests that cannot be served.
+   */
+  public async handle(url: string): Promise<ApiResponse<unknown>> {
+    const { pathname, searchParams } = new URL(url, "http://localhost");
+    const parts = pathname.split("/").filter((part) => part !== "");
+    const { blockNumber, timestamp } = await this.sync();
+    const respond = (data: unknown) => ({ blockNumber, timestamp, data });
+
+    if (parts.length === 3 && parts[0] === "users" && parts[2] === "positions") {
+      const positions = this.indexer.getUserPositions(parseAddress(parts[1]));
+      return respond(positions.map((position) => toApiPosition(position, BigInt(timestamp))));
+    }
+    if (parts.length === 1 && parts[0] === "tokens") {
+      return respond(await this.tokenReports(blockNumber));
+    }
+    if (parts.length === 3 && parts[0] === "tokens" && parts[2] === "stakers") {
+      const token = parseAddress(parts[1]);
+      const id = searchParams.get("id");
+      if (id !== null && !/^\d+$/.test(id)) throw new ApiError(400, `${id} is not a token id`);
+      const positions = this.indexer
+        .getPositions()
+        .filter((position) => position.token.toLowerCase() === token)
+        .filter((position) => id === null || (position.is1155 && position.id === BigInt(id)));
+      return respond(positions.map((position) => toApiPosition(position, BigInt(timestamp))));
+    }
+    throw new ApiError(404, `No route for ${pathname}`);
+  }
+
+  /**
+   * Serve the API on `port`, 0 for any free port, and return the address it listens on.
+   */
+  public async listen(port: number, host = "127.0.0.1"): Promise<AddressInfo> {
+    const server = http.createServer((request, response) => {
+      const reply = (status: number, body: unknown) => {
+        response.writeHead(status, {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+        });
+        response.end(serialize(body));
+      };
+      if (request.method !== "GET") {
+        reply(405, { error: `${request.method} is not supported` });
+        return;
+      }
+      this.handle(request.url ?? "/").then(
+        (body) => reply(200, body),
+        (error) =>
+          error instanceof ApiError ? reply(error.status, { error: error.message }) : reply(500, { error: `${error}` })
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(port, host, resolve));
+    this.server = server;
+    return server.address() as AddressInfo;
+  }
+
+  public async close() {
+    const server = this.server;
+    this.server = undefined;
+    if (server) await new Promise((resolve) => server.close(resolve));
+  }
+
+  // one sync at a time, concurrent requests wait for the sync in flight
+  private sync(): Promise<{ blockNumber: number; timestamp: number }> {
+    if (this.syncing === undefined) {
+      this.syncing = (async () => {
+        await this.indexer.sync();
+        const block = await this.contract.runner!.provider!.getBlock(this.indexer.indexedBlock);
+        if (!block) {
+          throw new Error(`Failed to fetch block ${this.indexer.indexedBlock}.`);
+        }
+        return { blockNumber: block.number, timestamp: block.timestamp };
+      })().finally(() => (this.syncing = undefined));
+    }
+    return this.syncing;
+  }
+
+  private tokenReports(blockNumber: number): Promise<TokenReport[]> {
+    if (this.tokens?.blockNumber !== blockNumber) {
+      const tokens = buildReport(this.contract, this.indexer.getPositions(), blockNumber).then(
+        (report) => report.tokens
+      );
+      // a failed report is built again by the next request
+      tokens.catch(() => (this.tokens = undefined));
+      this.tokens = { blockNumber, tokens };
+    }
+    return this.tokens.tokens;
+  }
+}
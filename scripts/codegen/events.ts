@@ -0,0 +1,179 @@
+import { EventFragment, Interface, InterfaceAbi } from "ethers";
+
+export interface EventInput {
+  name: string;
+  type: string;
+  indexed: boolean;
+}
+
+export interface EventDescriptor {
+  name: string;
+  // the full signature, parameter names and `indexed` included, e.g. `event Staked(address indexed user, ...)`
+  signature: string;
+  topic: string;
+  inputs: EventInput[];
+}
+
+const STATIC_TYPE = /^(address|bool|u?int\d*|bytes([1-9]|[12]\d|3[012]))$/;
+
+/**
+ * The events of an ABI in ABI order, with the types the standalone decoders can read: the static
+ * elementary types, and `string` and `bytes`. Indexed `string` and `bytes` parameters are only logged
+ * as their hash.
+ */
+export function eventDescriptors(abi: InterfaceAbi): EventDescriptor[] {
+  const events: EventFragment[] = [];
+  new Interface(abi).forEachEvent((event) => events.push(event));
+  return events.map((event) => {
+    if (event.anonymous) {
+      throw new Error(`Event ${event.name} is anonymous, its logs cannot be told apart by their topic`);
+    }
+    const inputs = event.inputs.map((input, index) => {
+      if (!input.name) {
+        throw new Error(`Parameter ${index} of event ${event.name} has no name`);
+      }
+      if (!STATIC_TYPE.test(input.type) && input.type !== "string" && input.type !== "bytes") {
+        throw new Error(`Parameter ${input.name} of event ${event.name} is a ${input.type}, which cannot be decoded`);
+      }
+      return { name: input.name, type: input.type, indexed: input.indexed === true };
+    });
+    return { name: event.name, signature: event.format("full"), topic: event.topicHash, inputs };
+  });
+}
+
+// the type a decoded value has, indexed dynamic values being their hash
+function decodedType(input: EventInput): string {
+  return input.indexed && !STATIC_TYPE.test(input.type) ? "bytes32" : input.type;
+}
+
+export function tsType(input: EventInput): string {
+  const type = decodedType(input);
+  if (type === "bool") return "boolean";
+  if (/^u?int/.test(type)) return "bigint";
+  return "string";
+}
+
+export function graphqlType(input: EventInput): string {
+  const type = decodedType(input);
+  if (type === "bool") return "Boolean";
+  if (/^u?int/.test(type)) return "BigInt";
+  if (type === "string") return "String";
+  return "Bytes";
+}
+
+/**
+ * The CommonJS module of the decoders. It reads logs as `{ topics, data }` without ethers or a contract
+ * instance, addresses are returned lowercase.
+ */
+export function renderDecoders(contract: string, version: string, events: EventDescriptor[]): string {
+  const table = events.map((event) => {
+    const inputs = event.inputs.map(
+      (input) => `[${JSON.stringify(input.name)}, "${decodedType(input)}", ${input.indexed}]`
+    );
+    return `  ${event.name}: { topic: "${event.topic}", inputs: [${inputs.join(", ")}] },`;
+  });
+  const decoders = events.map((event) => `exports.decode${event.name} = (log) => decodeEvent("${event.name}", log);`);
+  return `"use strict";
+// Generated by \`npx hardhat codegen\` from the ${contract} artifact, do not edit.
+Object.defineProperty(exports, "__esModule", { value: true });
+
+exports.VERSION = "${version}";
+exports.abi = require("./abi.json");
+
+const EVENTS = {
+${table.join("\n")}
+};
+exports.EVENT_TOPICS = Object.fromEntries(Object.entries(EVENTS).map(([name, event]) => [name, event.topic]));
+const BY_TOPIC = new Map(Object.entries(EVENTS).map(([name, event]) => [event.topic, name]));
+
+function word(hex, offset) {
+  const start = 2 + offset * 2;
+  if (hex.length < start + 64) throw new Error("Log data too short");
+  return hex.slice(start, start + 64);
+}
+
+function decodeWord(type, value) {
+  if (type === "address") return "0x" + value.slice(24);
+  if (type === "bool") return BigInt("0x" + value) !== 0n;
+  if (type.startsWith("uint")) return BigInt("0x" + value);
+  if (type.startsWith("int")) return BigInt.asIntN(Number(type.slice(3) || 256), BigInt("0x" + value));
+  return "0x" + value.slice(0, Number(type.slice(5)) * 2);
+}
+
+function decodeDynamic(type, data, offset) {
+  const start = Number(BigInt("0x" + word(data, offset)));
+  const length = Number(BigInt("0x" + word(data, start)));
+  const hex = data.slice(2 + (start + 32) * 2, 2 + (start + 32 + length) * 2);
+  if (hex.length !== length * 2) throw new Error("Log data too short");
+  if (type === "bytes") return "0x" + hex;
+  return new TextDecoder().decode(Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16)));
+}
+
+function decodeEvent(name, log) {
+  const event = EVENTS[name];
+  if (log.topics[0]?.toLowerCase() !== event.topic) {
+    throw new Error(\`Not a \${name} log, its topic is \${log.topics[0]}\`);
+  }
+  const data = log.data.toLowerCase();
+  const args = {};
+  let topic = 1;
+  let offset = 0;
+  for (const [input, type, indexed] of event.inputs) {
+    if (indexed) {
+      if (log.topics[topic] === undefined) throw new Error(\`Missing topic \${topic} of the \${name} log\`);
+      args[input] = decodeWord(type, log.topics[topic++].toLowerCase().slice(2));
+    } else {
+      args[input] = type === "string" || type === "bytes" ? decodeDynamic(type, data, offset) : decodeWord(type, word(data, offset));
+      offset += 32;
+    }
+  }
+  return { event: name, args };
+}
+
+${decoders.join("\n")}
+
+exports.decode${contract}Log = (log) => {
+  const name = BY_TOPIC.get(log.topics[0]?.toLowerCase());
+  return name === undefined ? undefined : decodeEvent(name, log);
+};
+`;
+}
+
+/**
+ * The type declarations of the decoders module.
+ */
+export function renderDecoderTypes(contract: string, version: string, events: EventDescriptor[]): string {
+  const interfaces = events.map((event) => {
+    const args = event.inputs.map((input) => `${input.name}: ${tsType(input)}`);
+    return [
+      `/** \`${event.signature}\` */`,
+      `export interface ${event.name}Event {`,
+      `  event: "${event.name}";`,
+      args.length > 0 ? `  args: { ${args.join("; ")} };` : "  args: {};",
+      "}",
+      `export declare function decode${event.name}(log: RawLog): ${event.name}Event;`,
+    ].join("\n");
+  });
+  return `// Generated by \`npx hardhat codegen\` from the ${contract} artifact, do not edit.
+
+export declare const VERSION: "${version}";
+export declare const abi: readonly object[];
+export declare const EVENT_TOPICS: {
+${events.map((event) => `  readonly ${event.name}: string;`).join("\n")}
+};
+
+/** A log as returned by \`eth_getLogs\` or in a receipt, only the topics and the data are read. */
+export interface RawLog {
+  topics: readonly string[];
+  data: string;
+}
+
+${interfaces.join("\n\n")}
+
+export type ${contract}Event =
+${events.map((event) => `  | ${event.name}Event`).join("\n")};
+
+/** Decode a log of any ${contract} event, undefined when its topic is not one of them. */
+export declare function decode${contract}Log(log: RawLog): ${contract}Event | undefined;
+`;
+}
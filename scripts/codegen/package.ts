@@ -0,0 +1,132 @@
+import * as fs from "fs";
+import * as path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { EventDescriptor, eventDescriptors, renderDecoderTypes, renderDecoders } from "./events";
+import { LPSTAKING_ENTITY_MAPPINGS, renderSchema } from "./schema";
+
+/**
+ * The package downstream consumers install. Bump the version with every change of the events, the
+ * snapshot tests fail until then.
+ */
+export const ABI_PACKAGE = {
+  name: "@jack-contracts/lpstaking-abi",
+  version: "1.0.0",
+  contract: "LPStaking",
+};
+
+export const DEFAULT_ABI_PACKAGE_DIR = "packages/lpstaking-abi";
+export const DEFAULT_SNAPSHOT_DIR = "test/snapshots";
+
+export interface AbiSnapshot {
+  package: string;
+  version: string;
+  // the full event signatures, in ABI order
+  events: string[];
+}
+
+export interface SnapshotCheck {
+  // `unbumped` when the events changed and the version did not, `outdated` when the version was bumped
+  status: "match" | "unbumped" | "outdated" | "missing";
+  added: string[];
+  removed: string[];
+}
+
+export interface GeneratedPackage {
+  snapshot: AbiSnapshot;
+  events: EventDescriptor[];
+  schema: string;
+  files: string[];
+}
+
+/**
+ * Write the ABI, the decoders, their types and the GraphQL schema of LPStaking as a package in `dir`.
+ */
+export async function generateAbiPackage(hre: HardhatRuntimeEnvironment, dir: string): Promise<GeneratedPackage> {
+  const { name, version, contract } = ABI_PACKAGE;
+  const { abi } = await hre.artifacts.readArtifact(contract);
+  const events = eventDescriptors(abi);
+  const schema = renderSchema(contract, version, events, LPSTAKING_ENTITY_MAPPINGS);
+
+  const contents: { [file: string]: string } = {
+    "abi.json": JSON.stringify(abi, undefined, 2) + "\n",
+    "index.js": renderDecoders(contract, version, events),
+    "index.d.ts": renderDecoderTypes(contract, version, events),
+    "schema.graphql": schema,
+  };
+  const manifest = {
+    name,
+    version,
+    description: `The ABI, a subgraph schema and standalone log decoders of ${contract}`,
+    main: "index.js",
+    types: "index.d.ts",
+    files: Object.keys(contents),
+    license: "MIT",
+  };
+  contents["package.json"] = JSON.stringify(manifest, undefined, 2) + "\n";
+
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [file, content] of Object.entries(contents)) fs.writeFileSync(path.join(dir, file), content);
+  return {
+    snapshot: { package: name, version, events: events.map((event) => event.signature) },
+    events,
+    schema,
+    files: Object.keys(contents).map((file) => path.join(dir, file)),
+  };
+}
+
+function snapshotFiles(dir: string) {
+  return {
+    events: path.join(dir, `${ABI_PACKAGE.contract}.events.json`),
+    schema: path.join(dir, `${ABI_PACKAGE.contract}.graphql`),
+  };
+}
+
+export function loadAbiSnapshot(
+  dir: string = DEFAULT_SNAPSHOT_DIR
+): { snapshot: AbiSnapshot; schema: string } | undefined {
+  const files = snapshotFiles(dir);
+  if (!fs.existsSync(files.events)) return undefined;
+  return {
+    snapshot: JSON.parse(fs.readFileSync(files.events, "utf-8")),
+    schema: fs.existsSync(files.schema) ? fs.readFileSync(files.schema, "utf-8") : "",
+  };
+}
+
+export function saveAbiSnapshot(snapshot: AbiSnapshot, schema: string, dir: string = DEFAULT_SNAPSHOT_DIR) {
+  const files = snapshotFiles(dir);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(files.events, JSON.stringify(snapshot, undefined, 2) + "\n");
+  fs.writeFileSync(files.schema, schema);
+}
+
+export function checkAbiSnapshot(snapshot: AbiSnapshot | undefined, current: AbiSnapshot): SnapshotCheck {
+  if (snapshot === undefined) return { status: "missing", added: current.events, removed: [] };
+  const added = current.events.filter((event) => !snapshot.events.includes(event));
+  const removed = snapshot.events.filter((event) => !current.events.includes(event));
+  const changed = added.length > 0 || removed.length > 0;
+  if (snapshot.version !== current.version) return { status: "outdated", added, removed };
+  return { status: changed ? "unbumped" : "match", added, removed };
+}
+
+export function formatSnapshotCheck(check: SnapshotCheck, current: AbiSnapshot, snapshot?: AbiSnapshot): string {
+  const changes = [...check.added.map((event) => `+ ${event}`), ...check.removed.map((event) => `- ${event}`)];
+  switch (check.status) {
+    case "match":
+      return `The ${current.package} ${current.version} events match the snapshot`;
+    case "missing":
+      return `No event snapshot of ${current.package}, record one with \`npx hardhat codegen --update-snapshot\``;
+    case "unbumped":
+      return [
+        `The ${ABI_PACKAGE.contract} events changed without a version bump of ${current.package} ${current.version}:`,
+        ...changes,
+        `Bump ABI_PACKAGE.version in scripts/codegen/package.ts, then run \`npx hardhat codegen --update-snapshot\``,
+      ].join("\n");
+    case "outdated":
+      return [
+        `${current.package} is at ${current.version}, the snapshot at ${snapshot?.version}, ` +
+          "record it with `npx hardhat codegen --update-snapshot`",
+        ...changes,
+      ].join("\n");
+  }
+}
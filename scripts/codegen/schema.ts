@@ -0,0 +1,183 @@
+import { EventDescriptor, graphqlType } from "./events";
+
+export interface EntityField {
+  name: string;
+  type: string;
+  description: string;
+  // how the events of the entity set the field, e.g. `{ Staked: "+= amount" }`
+  updates?: { [event: string]: string };
+}
+
+export interface EntityMapping {
+  entity: string;
+  description: string;
+  // the events the entity is built from, with the parameters the mapping reads
+  events: { [event: string]: string[] };
+  fields: EntityField[];
+}
+
+/**
+ * The positions and unlocks folded from the LPStaking events, the same accounting as
+ * `applyPositionEvent` of the indexer.
+ */
+export const LPSTAKING_ENTITY_MAPPINGS: EntityMapping[] = [
+  {
+    entity: "Position",
+    description: "What a user has staked in a token, per id for ERC1155 tokens. Removed once nothing is staked.",
+    events: {
+      Staked: ["user", "token", "amount"],
+      Staked1155: ["user", "token", "id", "amount"],
+      UnlockStarted: ["user", "token", "amount", "unlockAt"],
+      UnlockStarted1155: ["user", "token", "id", "amount", "unlockAt"],
+      Unstaked: ["user", "token", "amount"],
+      Unstaked1155: ["user", "token", "id", "amount"],
+    },
+    fields: [
+      { name: "id", type: "ID!", description: "`erc20:<token>:<user>` or `erc1155:<id>:<token>:<user>`, lowercase" },
+      { name: "user", type: "Bytes!", description: "The staker" },
+      { name: "token", type: "Bytes!", description: "The LP token or the ERC1155 token" },
+      { name: "tokenId", type: "BigInt!", description: "The ERC1155 id, 0 for ERC20 positions" },
+      { name: "is1155", type: "Boolean!", description: "Whether the position is in an ERC1155 token" },
+      {
+        name: "staked",
+        type: "BigInt!",
+        description: "Everything staked and not yet unstaked, the amount in unlock included",
+        updates: { Staked: "+= amount", Staked1155: "+= amount", Unstaked: "-= amount", Unstaked1155: "-= amount" },
+      },
+      {
+        name: "pendingUnlock",
+        type: "BigInt!",
+        description: "The amount of the outstanding unlock, 0 when there is none",
+        updates: { UnlockStarted: "= amount", UnlockStarted1155: "= amount", Unstaked: "= 0", Unstaked1155: "= 0" },
+      },
+      {
+        name: "unlockAt",
+        type: "BigInt!",
+        description: "When the outstanding unlock can be unstaked, 0 when there is none",
+        updates: { UnlockStarted: "= unlockAt", UnlockStarted1155: "= unlockAt", Unstaked: "= 0", Unstaked1155: "= 0" },
+      },
+      { name: "unlocks", type: '[Unlock!]! @derivedFrom(field: "position")', description: "Every unlock started" },
+    ],
+  },
+  {
+    entity: "Unlock",
+    description: "One unlock of a position, from its start until it is unstaked.",
+    events: {
+      UnlockStarted: ["user", "token", "amount", "unlockAt"],
+      UnlockStarted1155: ["user", "token", "id", "amount", "unlockAt"],
+      Unstaked: ["user", "token"],
+      Unstaked1155: ["user", "token", "id"],
+    },
+    fields: [
+      { name: "id", type: "ID!", description: "`<transaction hash>-<log index>` of the event starting the unlock" },
+      { name: "position", type: "Position!", description: "The position unlocking" },
+      {
+        name: "amount",
+        type: "BigInt!",
+        description: "The amount unlocking",
+        updates: { UnlockStarted: "= amount", UnlockStarted1155: "= amount" },
+      },
+      {
+        name: "unlockAt",
+        type: "BigInt!",
+        description: "When the unlock can be unstaked",
+        updates: { UnlockStarted: "= unlockAt", UnlockStarted1155: "= unlockAt" },
+      },
+      { name: "startedAt", type: "BigInt!", description: "The timestamp of the block starting the unlock" },
+      {
+        name: "unstakedAt",
+        type: "BigInt",
+        description: "The timestamp of the block unstaking the position, null until then",
+        updates: { Unstaked: "= block.timestamp", Unstaked1155: "= block.timestamp" },
+      },
+    ],
+  },
+];
+
+// the fields every event entity ends with
+const LOG_FIELDS = ["blockNumber: BigInt!", "blockTimestamp: BigInt!", "transactionHash: Bytes!"];
+
+/**
+ * Check that every event and parameter a mapping reads is in the ABI, so that renaming one fails the
+ * generation instead of the indexer.
+ */
+export function checkEntityMappings(events: EventDescriptor[], mappings: EntityMapping[]): string[] {
+  const problems: string[] = [];
+  for (const mapping of mappings) {
+    if (events.some((event) => event.name === mapping.entity)) {
+      problems.push(`Entity ${mapping.entity} has the name of an event entity`);
+    }
+    for (const [name, params] of Object.entries(mapping.events)) {
+      const event = events.find((candidate) => candidate.name === name);
+      if (event === undefined) {
+        problems.push(`${mapping.entity} is built from ${name}, which is not an event of the ABI`);
+        continue;
+      }
+      for (const param of params.filter((param) => !event.inputs.some((input) => input.name === param))) {
+        problems.push(`${mapping.entity} reads ${param} of ${name}, the event has no such parameter`);
+      }
+    }
+    for (const field of mapping.fields) {
+      for (const name of Object.keys(field.updates ?? {}).filter((name) => !(name in mapping.events))) {
+        problems.push(`${mapping.entity}.${field.name} is set by ${name}, which the entity is not built from`);
+      }
+    }
+  }
+  return problems;
+}
+
+function describe(text: string): string {
+  return `"""\n${text}\n"""`;
+}
+
+function fieldDescription(field: EntityField): string {
+  // the events setting the field the same way are listed together
+  const byUpdate = new Map<string, string[]>();
+  for (const [event, update] of Object.entries(field.updates ?? {})) {
+    byUpdate.set(update, [...(byUpdate.get(update) ?? []), event]);
+  }
+  const updates = Array.from(byUpdate, ([update, names]) => `${names.join(", ")}: ${update}.`);
+  return [`${field.description}.`, ...updates].join(" ");
+}
+
+/**
+ * The GraphQL schema of a subgraph: the entities of the mappings, then one immutable entity per event
+ * with its parameters, `id` renamed `internal_id` as `graph codegen` does.
+ */
+export function renderSchema(
+  contract: string,
+  version: string,
+  events: EventDescriptor[],
+  mappings: EntityMapping[]
+): string {
+  const problems = checkEntityMappings(events, mappings);
+  if (problems.length > 0) {
+    throw new Error(`The ${contract} entity mappings do not match its ABI:\n${problems.join("\n")}`);
+  }
+
+  const blocks = mappings.map((mapping) =>
+    [
+      describe(`${mapping.description} Built from ${Object.keys(mapping.events).join(", ")}.`),
+      `type ${mapping.entity} @entity {`,
+      ...mapping.fields.map((field) => `  ${JSON.stringify(fieldDescription(field))}\n  ${field.name}: ${field.type}`),
+      "}",
+    ].join("\n")
+  );
+  for (const event of events) {
+    const params = event.inputs.map(
+      (input) => `  ${input.name === "id" ? "internal_id" : input.name}: ${graphqlType(input)}!`
+    );
+    blocks.push(
+      [
+        describe(`\`${event.signature}\``),
+        `type ${event.name} @entity(immutable: true) {`,
+        "  id: Bytes!",
+        ...params,
+        ...LOG_FIELDS.map((field) => `  ${field}`),
+        "}",
+      ].join("\n")
+    );
+  }
+  const header = `# Generated by \`npx hardhat codegen\` from the ${contract} artifact, version ${version}, do not edit.`;
+  return [header, ...blocks].join("\n\n") + "\n";
+}
@@ -0,0 +1,140 @@
+import { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+
+import { IERC1155__factory, IERC20__factory, LPStaking, LPStaking__factory } from "@/types/index";
+
+import {
+  ContractPausedError,
+  InsufficientBalanceError,
+  NoUnlockedAmountError,
+  TokenIdNotFoundError,
+  TokenNotSupportedError,
+  UnlockAlreadyInitializedError,
+  UnlockPeriodNotCompletedError,
+  ZeroAmountError,
+  toLPStakingError,
+} from "./LPStakingErrors";
+
+export interface StakeOptions {
+  // approve exactly `amount` instead of skipping when the allowance is already large enough
+  forceApprove?: boolean;
+}
+
+/**
+ * Thin wrapper around the typechain `LPStaking` contract for user flows.
+ *
+ * Every call checks the contract state first and throws one of the typed errors from
+ * `LPStakingErrors` instead of sending a transaction that is known to revert. Reverts that
+ * still happen on chain are converted to the same typed errors.
+ */
+export class LPStakingClient {
+  public readonly contract: LPStaking;
+
+  public readonly signer: Signer;
+
+  constructor(contract: LPStaking, signer: Signer) {
+    this.contract = contract.connect(signer);
+    this.signer = signer;
+  }
+
+  public static connect(address: string, signer: Signer): LPStakingClient {
+    return new LPStakingClient(LPStaking__factory.connect(address, signer), signer);
+  }
+
+  public async stake(token: string, amount: bigint, options: StakeOptions = {}): Promise<ContractTransactionReceipt> {
+    await this.checkStakeable(token, amount, false);
+    const erc20 = IERC20__factory.connect(token, this.signer);
+    const spender = await this.contract.getAddress();
+    const allowance = await erc20.allowance(await this.signer.getAddress(), spender);
+    if (options.forceApprove || allowance < amount) {
+      await this.wait(erc20.approve(spender, amount));
+    }
+    return this.send(this.contract.stake(amount, token));
+  }
+
+  public async stake1155(token: string, id: bigint, amount: bigint): Promise<ContractTransactionReceipt> {
+    await this.checkStakeable(token, amount, true);
+    const erc1155 = IERC1155__factory.connect(token, this.signer);
+    const operator = await this.contract.getAddress();
+    if (!(await erc1155.isApprovedForAll(await this.signer.getAddress(), operator))) {
+      await this.wait(erc1155.setApprovalForAll(operator, true));
+    }
+    return this.send(this.contract.stake1155(token, id, amount));
+  }
+
+  public async unlock(token: string): Promise<ContractTransactionReceipt> {
+    await this.checkSupported(token, false);
+    const user = await this.signer.getAddress();
+    const unlockInfo = await this.contract.userUnlocks(user, token);
+    if (unlockInfo.initialized) throw new UnlockAlreadyInitializedError();
+    if ((await this.contract.balanceOf(token, user)) === 0n) throw new InsufficientBalanceError();
+    return this.send(this.contract.unlock(token));
+  }
+
+  public async unlock1155(token: string, id: bigint): Promise<ContractTransactionReceipt> {
+    await this.checkSupported(token, true);
+    const user = await this.signer.getAddress();
+    const unlockInfo = await this.contract.userUnlocks1155(user, token, id);
+    if (unlockInfo.initialized) throw new UnlockAlreadyInitializedError();
+    if ((await this.contract.balanceOf1155(token, id, user)) === 0n) throw new InsufficientBalanceError();
+    return this.send(this.contract.unlock1155(token, id));
+  }
+
+  public async unstake(token: string): Promise<ContractTransactionReceipt> {
+    await this.checkSupported(token, false);
+    const unlockInfo = await this.contract.userUnlocks(await this.signer.getAddress(), token);
+    await this.checkMatured(unlockInfo.unlockAt);
+    if (unlockInfo.amount === 0n) throw new NoUnlockedAmountError();
+    return this.send(this.contract.unstake(token));
+  }
+
+  public async unstake1155(token: string, id: bigint): Promise<ContractTransactionReceipt> {
+    await this.checkSupported(token, true);
+    const unlockInfo = await this.contract.userUnlocks1155(await this.signer.getAddress(), token, id);
+    await this.checkMatured(unlockInfo.unlockAt);
+    if (unlockInfo.id !== id) throw new TokenIdNotFoundError(id);
+    if (unlockInfo.amount === 0n) throw new NoUnlockedAmountError();
+    return this.send(this.contract.unstake1155(token, id));
+  }
+
+  private async checkStakeable(token: string, amount: bigint, is1155: boolean) {
+    await this.checkSupported(token, is1155);
+    if (amount === 0n) throw new ZeroAmountError();
+  }
+
+  private async checkSupported(token: string, is1155: boolean) {
+    const [paused, supported] = await Promise.all([
+      this.contract.paused(),
+      is1155 ? this.contract.supportedERC1155Tokens(token) : this.contract.supportedLPTokens(token),
+    ]);
+    if (paused) throw new ContractPausedError();
+    if (!supported) throw new TokenNotSupportedError(token);
+  }
+
+  private async checkMatured(unlockAt: bigint) {
+    const timestamp = await latestTimestamp(this.signer);
+    // the transaction is mined in a later block, whose timestamp is at least one second ahead
+    if (BigInt(timestamp) + 1n < unlockAt) throw new UnlockPeriodNotCompletedError(unlockAt);
+  }
+
+  private async send(tx: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    try {
+      return await this.wait(tx);
+    } catch (error) {
+      throw toLPStakingError(error);
+    }
+  }
+
+  private async wait(tx: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const receipt = await (await tx).wait();
+    if (receipt === null) throw new Error("transaction was dropped");
+    return receipt;
+  }
+}
+
+async function latestTimestamp(runner: ContractRunner): Promise<number> {
+  const block = await runner.provider!.getBlock("latest");
+  if (!block) {
+    throw new Error("Failed to fetch the latest block.");
+  }
+  return block.timestamp;
+}
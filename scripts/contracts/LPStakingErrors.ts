@@ -0,0 +1,179 @@
+/**
+ * Every `require` message LPStaking can revert with, keyed by a stable error code.
+ */
+export const LPStakingRevertReasons = {
+  NotHexagate: "Not Hexagate",
+  ContractPaused: "Contract is paused",
+  ZeroAddress: "zero address",
+  TokenNotSupported: "Token not supported",
+  ZeroAmount: "Amount < zero",
+  TokenTransferFailed: "Token transfer failed",
+  InsufficientBalance: "Insufficient balance",
+  UnlockAlreadyInitialized: "Unlock already initialized",
+  UnlockPeriodNotCompleted: "Unlock period not completed",
+  NoUnlockedAmount: "No unlocked amount available",
+  TokenIdNotFound: "Token ID 404",
+  TokenAlreadySupported: "Token already supported",
+  UsersHaveStakedTokens: "Users have staked tokens",
+  ZeroUnlockDuration: "Unlock < zero",
+} as const;
+
+export type LPStakingErrorCode = keyof typeof LPStakingRevertReasons | "Unknown";
+
+export class LPStakingError extends Error {
+  public readonly code: LPStakingErrorCode;
+
+  // the raw revert reason, or undefined if the error was detected before sending
+  public readonly reason?: string;
+
+  constructor(code: LPStakingErrorCode, message: string, reason?: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
+export class NotHexagateError extends LPStakingError {
+  constructor(reason?: string) {
+    super("NotHexagate", "caller is not the hexagate address", reason);
+  }
+}
+
+export class ContractPausedError extends LPStakingError {
+  constructor(reason?: string) {
+    super("ContractPaused", "LPStaking is paused", reason);
+  }
+}
+
+export class ZeroAddressError extends LPStakingError {
+  constructor(reason?: string) {
+    super("ZeroAddress", "address must not be zero", reason);
+  }
+}
+
+export class TokenNotSupportedError extends LPStakingError {
+  constructor(public readonly token?: string, reason?: string) {
+    super("TokenNotSupported", token ? `token ${token} is not supported` : "token is not supported", reason);
+  }
+}
+
+export class ZeroAmountError extends LPStakingError {
+  constructor(reason?: string) {
+    super("ZeroAmount", "amount must be greater than zero", reason);
+  }
+}
+
+export class TokenTransferFailedError extends LPStakingError {
+  constructor(reason?: string) {
+    super("TokenTransferFailed", "token transfer moved no tokens", reason);
+  }
+}
+
+export class InsufficientBalanceError extends LPStakingError {
+  constructor(reason?: string) {
+    super("InsufficientBalance", "nothing is staked for this token", reason);
+  }
+}
+
+export class UnlockAlreadyInitializedError extends LPStakingError {
+  constructor(reason?: string) {
+    super("UnlockAlreadyInitialized", "an unlock is already in progress for this token", reason);
+  }
+}
+
+export class UnlockPeriodNotCompletedError extends LPStakingError {
+  constructor(public readonly unlockAt?: bigint, reason?: string) {
+    super(
+      "UnlockPeriodNotCompleted",
+      unlockAt === undefined ? "unlock period not completed" : `unlock period not completed until ${unlockAt}`,
+      reason
+    );
+  }
+}
+
+export class NoUnlockedAmountError extends LPStakingError {
+  constructor(reason?: string) {
+    super("NoUnlockedAmount", "no unlocked amount available, call unlock first", reason);
+  }
+}
+
+export class TokenIdNotFoundError extends LPStakingError {
+  constructor(public readonly id?: bigint, reason?: string) {
+    super(
+      "TokenIdNotFound",
+      id === undefined ? "no unlock found for token id" : `no unlock found for token id ${id}`,
+      reason
+    );
+  }
+}
+
+export class TokenAlreadySupportedError extends LPStakingError {
+  constructor(reason?: string) {
+    super("TokenAlreadySupported", "token is already supported", reason);
+  }
+}
+
+export class UsersHaveStakedTokensError extends LPStakingError {
+  constructor(reason?: string) {
+    super("UsersHaveStakedTokens", "token still has stakers", reason);
+  }
+}
+
+export class ZeroUnlockDurationError extends LPStakingError {
+  constructor(reason?: string) {
+    super("ZeroUnlockDuration", "unlock duration must be greater than zero", reason);
+  }
+}
+
+const ErrorByReason: { [reason: string]: (reason: string) => LPStakingError } = {
+  [LPStakingRevertReasons.NotHexagate]: (r) => new NotHexagateError(r),
+  [LPStakingRevertReasons.ContractPaused]: (r) => new ContractPausedError(r),
+  [LPStakingRevertReasons.ZeroAddress]: (r) => new ZeroAddressError(r),
+  [LPStakingRevertReasons.TokenNotSupported]: (r) => new TokenNotSupportedError(undefined, r),
+  [LPStakingRevertReasons.ZeroAmount]: (r) => new ZeroAmountError(r),
+  [LPStakingRevertReasons.TokenTransferFailed]: (r) => new TokenTransferFailedError(r),
+  [LPStakingRevertReasons.InsufficientBalance]: (r) => new InsufficientBalanceError(r),
+  [LPStakingRevertReasons.UnlockAlreadyInitialized]: (r) => new UnlockAlreadyInitializedError(r),
+  [LPStakingRevertReasons.UnlockPeriodNotCompleted]: (r) => new UnlockPeriodNotCompletedError(undefined, r),
+  [LPStakingRevertReasons.NoUnlockedAmount]: (r) => new NoUnlockedAmountError(r),
+  [LPStakingRevertReasons.TokenIdNotFound]: (r) => new TokenIdNotFoundError(undefined, r),
+  [LPStakingRevertReasons.TokenAlreadySupported]: (r) => new TokenAlreadySupportedError(r),
+  [LPStakingRevertReasons.UsersHaveStakedTokens]: (r) => new UsersHaveStakedTokensError(r),
+  [LPStakingRevertReasons.ZeroUnlockDuration]: (r) => new ZeroUnlockDurationError(r),
+};
+
+// the fields of ethers and hardhat errors a revert reason is read from
+interface RevertErrorFields {
+  reason?: unknown;
+  revert?: { name?: unknown; args?: unknown };
+  message?: unknown;
+}
+
+/**
+ * Extract the `Error(string)` reason from an ethers or hardhat error, if there is one.
+ */
+export function extractRevertReason(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+  const { reason, revert, message } = error as RevertErrorFields;
+  if (typeof reason === "string") return reason;
+  if (revert?.name === "Error" && Array.isArray(revert.args)) return String(revert.args[0]);
+  const match = /reverted with reason string '(.*)'/.exec(typeof message === "string" ? message : "");
+  if (match) return match[1];
+  return undefined;
+}
+
+/**
+ * Convert a revert into the typed LPStaking error matching its reason.
+ *
+ * Errors that are not LPStaking reverts are returned unchanged, thrown values that are not errors wrapped
+ * in one.
+ */
+export function toLPStakingError(error: unknown): Error {
+  if (error instanceof LPStakingError) return error;
+  const reason = extractRevertReason(error);
+  if (reason === undefined) return error instanceof Error ? error : new Error(String(error));
+  const factory = ErrorByReason[reason];
+  if (factory === undefined) return new LPStakingError("Unknown", `LPStaking reverted: ${reason}`, reason);
+  return factory(reason);
+}
@@ -0,0 +1,345 @@
+import { AbiCoder, Interface, Signer, TransactionReceipt, formatUnits, isAddressable } from "ethers";
+
+import { IERC20Metadata__factory, LPStaking, PTPStaking } from "@/types/index";
+
+import { formatCountdown } from "../keeper/schedule";
+import { LPStakingRevertReasons as Reasons, extractRevertReason } from "./LPStakingErrors";
+
+export type StakingContract = LPStaking | PTPStaking;
+
+export type DecodedRevert =
+  | { kind: "require"; reason: string }
+  | { kind: "custom"; name: string; args: unknown[] }
+  | { kind: "panic"; code: bigint; description: string }
+  // no revert data, or data matching no known error
+  | { kind: "unknown"; data: string };
+
+export interface SimulationResult {
+  contract: string;
+  from: string;
+  method: string;
+  args: unknown[];
+  success: boolean;
+  // the raw return data of a successful call
+  returnData?: string;
+  revert?: DecodedRevert;
+  // what to change for the call to go through, when the revert is understood
+  suggestion?: string;
+}
+
+export class SimulationError extends Error {
+  public readonly result: SimulationResult;
+
+  constructor(result: SimulationResult) {
+    super(formatSimulation(result));
+    this.name = new.target.name;
+    this.result = result;
+  }
+}
+
+/**
+ * The OpenZeppelin 5 errors a staking call can revert with, raised by the staking contracts
+ * themselves or bubbled up from the tokens they transfer.
+ */
+export const KNOWN_ERRORS = new Interface([
+  "error OwnableUnauthorizedAccount(address account)",
+  "error OwnableInvalidOwner(address owner)",
+  "error SafeERC20FailedOperation(address token)",
+  "error ReentrancyGuardReentrantCall()",
+  "error InvalidInitialization()",
+  "error NotInitializing()",
+  "error AddressEmptyCode(address target)",
+  "error FailedInnerCall()",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)",
+  "error ERC1155MissingApprovalForAll(address operator, address owner)",
+  "error ERC1155InvalidReceiver(address receiver)",
+]);
+
+// the gas limit of calls expected to revert, set explicitly so that they are mined instead of failing estimation
+export const REVERTING_CALL_GAS_LIMIT = 1_000_000;
+
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+const PANICS: { [code: number]: string } = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array",
+  0x31: "pop on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized function",
+};
+
+// the property `key` of `value`, undefined when `value` is not an object
+function property(value: unknown, key: string): unknown {
+  return typeof value === "object" && value !== null ? (value as { [key: string]: unknown })[key] : undefined;
+}
+
+/**
+ * The revert data carried by an ethers or hardhat error, if any.
+ */
+export function revertData(error: unknown): string | undefined {
+  const candidates = [
+    property(error, "data"),
+    property(property(error, "data"), "data"),
+    property(property(error, "error"), "data"),
+    property(property(property(error, "info"), "error"), "data"),
+  ];
+  for (const data of candidates) {
+    if (typeof data === "string" && /^0x([0-9a-fA-F]{2})*$/.test(data)) return data;
+  }
+  return undefined;
+}
+
+/**
+ * Decode revert data into a require message, a custom error of `KNOWN_ERRORS` or `extra`, or a panic.
+ */
+export function decodeRevert(data: string, extra?: Interface): DecodedRevert {
+  const selector = data.slice(0, 10).toLowerCase();
+  const coder = AbiCoder.defaultAbiCoder();
+  try {
+    if (selector === ERROR_SELECTOR) {
+      return { kind: "require", reason: coder.decode(["string"], "0x" + data.slice(10))[0] };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const code: bigint = coder.decode(["uint256"], "0x" + data.slice(10))[0];
+      return { kind: "panic", code, description: PANICS[Number(code)] ?? "unknown panic" };
+    }
+    for (const iface of [KNOWN_ERRORS, extra]) {
+      const parsed = iface?.parseError(data);
+      if (parsed) return { kind: "custom", name: parsed.name, args: [...parsed.args] };
+    }
+  } catch {
+    // malformed data, reported as unknown below
+  }
+  return { kind: "unknown", data };
+}
+
+/**
+ * The require message, custom error name or panic a call reverted with, for comparing reverts with
+ * an expected one. Rethrows errors that are not reverts.
+ */
+export function revertOf(error: unknown, extra?: Interface): string {
+  const data = revertData(error);
+  if (data !== undefined) {
+    const revert = decodeRevert(data, extra);
+    if (revert.kind === "require") return revert.reason;
+    if (revert.kind === "custom") return revert.name;
+    if (revert.kind === "panic") return `panic 0x${revert.code.toString(16).padStart(2, "0")}`;
+  }
+  const reason = extractRevertReason(error);
+  if (reason !== undefined) return reason;
+  const message = error instanceof Error ? error.message : String(error);
+  const custom = /reverted with custom error '(\w+)\(/.exec(message);
+  if (custom) return custom[1];
+  const panic = /reverted with panic code (0x[0-9a-f]+)/.exec(message);
+  if (panic) return `panic ${panic[1]}`;
+  throw error;
+}
+
+export function formatRevert(revert: DecodedRevert): string {
+  switch (revert.kind) {
+    case "require":
+      return `reverted with "${revert.reason}"`;
+    case "custom":
+      return `reverted with ${revert.name}(${revert.args.map(String).join(", ")})`;
+    case "panic":
+      return `panicked with 0x${revert.code.toString(16).padStart(2, "0")} (${revert.description})`;
+    case "unknown":
+      return revert.data === "0x" ? "reverted without data" : `reverted with unknown data ${revert.data}`;
+  }
+}
+
+export function formatSimulation(result: SimulationResult): string {
+  const call = `${result.method}(${result.args.map(String).join(", ")}) from ${result.from}`;
+  if (result.success) return `${call} succeeds`;
+  const lines = [`${call} ${formatRevert(result.revert!)}`];
+  if (result.suggestion) lines.push(`  fix: ${result.suggestion}`);
+  return lines.join("\n");
+}
+
+// the uint256 argument `index` of a decoded custom error
+function amountArg(args: unknown[], index: number): bigint {
+  const value = args[index];
+  if (typeof value !== "bigint") throw new Error(`Argument ${index} of the error is not an amount: ${String(value)}`);
+  return value;
+}
+
+async function describeAmount(contract: StakingContract, token: string | undefined, amount: bigint): Promise<string> {
+  if (token === undefined) return `${amount} tokens`;
+  try {
+    const metadata = IERC20Metadata__factory.connect(token, contract.runner);
+    const [decimals, symbol] = await Promise.all([metadata.decimals(), metadata.symbol()]);
+    return `${formatUnits(amount, decimals)} ${symbol}`;
+  } catch {
+    return `${amount} of ${token}`;
+  }
+}
+
+// the token of the call: the PTP token for PTPStaking, the token argument for LPStaking
+async function tokenOf(contract: StakingContract, method: string, args: unknown[]): Promise<string | undefined> {
+  if ((contract.interface as Interface).getFunction("ptpToken") !== null) return (contract as PTPStaking).ptpToken();
+  if (method === "stake") return String(args[1]);
+  return args.length > 0 ? String(args[0]) : undefined;
+}
+
+async function remainingUnlock(contract: LPStaking, from: string, method: string, args: unknown[]) {
+  const token = String(args[0]);
+  const unlock = method.endsWith("1155")
+    ? await contract.userUnlocks1155(from, token, BigInt(String(args[1])))
+    : await contract.userUnlocks(from, token);
+  const block = await contract.runner!.provider!.getBlock("latest");
+  const now = BigInt(block!.timestamp);
+  return unlock.unlockAt > now ? unlock.unlockAt - now : 0n;
+}
+
+/**
+ * What to change for a reverted staking call to go through, read from the contract state where needed.
+ */
+export async function suggestFix(
+  contract: StakingContract,
+  from: string,
+  method: string,
+  args: unknown[],
+  revert: DecodedRevert
+): Promise<string | undefined> {
+  const lpStaking = contract as LPStaking;
+  const token = await tokenOf(contract, method, args);
+
+  if (revert.kind === "custom") {
+    const values = revert.args;
+    const account = String(values[0]);
+    switch (revert.name) {
+      case "ERC20InsufficientAllowance": {
+        const missing = await describeAmount(contract, token, amountArg(values, 2) - amountArg(values, 1));
+        return `approve ${missing} more to ${account}`;
+      }
+      case "ERC20InsufficientBalance": {
+        const missing = await describeAmount(contract, token, amountArg(values, 2) - amountArg(values, 1));
+        return account.toLowerCase() === from.toLowerCase()
+          ? `get ${missing} more, ${from} only holds ${await describeAmount(contract, token, amountArg(values, 1))}`
+          : `${account} holds ${missing} less than the transfer needs`;
+      }
+      case "ERC1155MissingApprovalForAll":
+        return `call setApprovalForAll(${account}, true) on ${token}`;
+      case "ERC1155InsufficientBalance": {
+        const [held, needed, id] = [amountArg(values, 1), amountArg(values, 2), amountArg(values, 3)];
+        return `get ${needed - held} more of id ${id}, ${account} only holds ${held}`;
+      }
+      case "OwnableUnauthorizedAccount":
+        return `send it from the owner ${await contract.owner()}, not ${account}`;
+      case "SafeERC20FailedOperation":
+        return `${account} returned false on transfer, check the balance and allowance it reports`;
+      case "ReentrancyGuardReentrantCall":
+        return "the call re-entered the contract, call it directly instead of from a token callback";
+    }
+    return undefined;
+  }
+  if (revert.kind !== "require") return undefined;
+
+  switch (revert.reason) {
+    case Reasons.UnlockPeriodNotCompleted:
+      return `wait ${formatCountdown(await remainingUnlock(lpStaking, from, method, args))} for the unlock to complete`;
+    case Reasons.UnlockAlreadyInitialized: {
+      const remaining = await remainingUnlock(lpStaking, from, method, args);
+      return remaining > 0n
+        ? `wait ${formatCountdown(remaining)} for the unlock in progress and unstake it before unlocking again`
+        : "unstake the completed unlock before unlocking again";
+    }
+    case Reasons.NotHexagate:
+      return `send it from the hexagate ${await lpStaking.hexagate()}`;
+    case Reasons.ContractPaused:
+      return "LPStaking is paused, wait for the hexagate to unpause it";
+    case Reasons.TokenNotSupported:
+      return `${token} is not supported, pick one of getAllSupportedTokens()`;
+    case Reasons.ZeroAmount:
+    case "Amount must be greater than zero":
+      return "pass an amount greater than zero";
+    case Reasons.InsufficientBalance:
+      return `nothing is staked, stake ${token} before unlocking it`;
+    case Reasons.NoUnlockedAmount:
+      return `call ${method === "unstake1155" ? "unlock1155" : "unlock"} first`;
+    case Reasons.TokenIdNotFound:
+      return `call unlock1155(${args[0]}, ${args[1]}) first`;
+    case Reasons.UsersHaveStakedTokens:
+      return "wait until every staker of the token has unstaked";
+    case Reasons.TokenAlreadySupported:
+      return "nothing to do, the token is already supported";
+    case Reasons.ZeroUnlockDuration:
+      return "pass a duration greater than zero";
+    case Reasons.ZeroAddress:
+      return "pass a non-zero address";
+    case Reasons.TokenTransferFailed:
+      return `${token} moved no tokens, check that transfers of it are not paused or fully taxed`;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a call written as on the command line, e.g. `stake(1000, 0x...)` or `unlock1155(0x..., 1)`.
+ * The arguments stay strings, ethers converts them when encoding.
+ */
+export function parseStakingCall(text: string): { method: string; args: string[] } {
+  const match = /^\s*(\w+)\s*\((.*)\)\s*$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid call ${text}, expected method(arg, ...)`);
+  }
+  return { method: match[1], args: match[2].trim() === "" ? [] : match[2].split(",").map((arg) => arg.trim()) };
+}
+
+/**
+ * Run a staking call from `from` with `eth_call`, decoding the revert and suggesting a fix when it fails.
+ */
+export async function simulateStakingCall(
+  contract: StakingContract,
+  from: string,
+  method: string,
+  args: unknown[]
+): Promise<SimulationResult> {
+  const address = await contract.getAddress();
+  if ((contract.interface as Interface).getFunction(method) === null) {
+    throw new Error(`${method} is not a function of the contract at ${address}`);
+  }
+  // contracts passed as arguments are replaced by their address, like typechain methods do
+  const resolved = await Promise.all(args.map((arg) => (isAddressable(arg) ? arg.getAddress() : arg)));
+  const result: SimulationResult = { contract: address, from, method, args: resolved, success: true };
+  const data = (contract.interface as Interface).encodeFunctionData(method, resolved);
+  try {
+    result.returnData = await contract.runner!.provider!.call({ from, to: address, data });
+  } catch (error) {
+    const revert = revertData(error);
+    if (revert === undefined) throw error;
+    result.success = false;
+    result.revert = decodeRevert(revert, contract.interface);
+    result.suggestion = await suggestFix(contract, from, method, resolved, result.revert);
+  }
+  return result;
+}
+
+/**
+ * Simulate the call from `signer` and only send it when it goes through, throwing a
+ * `SimulationError` with the decoded revert and the suggested fix otherwise.
+ */
+export async function sendSimulated(
+  contract: StakingContract,
+  signer: Signer,
+  method: string,
+  args: unknown[]
+): Promise<TransactionReceipt> {
+  const result = await simulateStakingCall(contract, await signer.getAddress(), method, args);
+  if (!result.success) throw new SimulationError(result);
+  const tx = await signer.sendTransaction({
+    to: result.contract,
+    data: (contract.interface as Interface).encodeFunctionData(method, result.args),
+  });
+  const receipt = await tx.wait();
+  if (receipt === null) throw new Error("transaction was dropped");
+  return receipt;
+}
@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Signer, parseEther } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { FeeToken, LPStaking, MockERC1155, MockERC20, PTPStaking } from "@/types/index";
+import { DEFAULT_DEPLOYMENTS_DIR, ProxyDeploymentRecord, saveDeployment } from "@/utils/deployments";
+import { deployLPStakingProxy } from "@/utils/lpstaking";
+
+// the network the tasks reach the devnet node with
+export const DEVNET_NETWORK = "localhost";
+
+export type DemoState = "staked" | "unlocking" | "matured" | "multi1155" | "ptp" | "funded";
+
+export interface DemoAccount {
+  name: string;
+  address: string;
+  state: DemoState;
+  description: string;
+}
+
+export interface DevnetDeployment {
+  chainId: string;
+  // the block every contract was deployed by, the indexers start from it
+  blockNumber: number;
+  owner: string;
+  hexagate: string;
+  unlockDuration: number;
+  contracts: {
+    LPStaking: string;
+    PTPStaking: string;
+    // the ERC20 LP token, the fee-on-transfer LP token, the ERC1155 token and the PTP token
+    DLP: string;
+    FEE: string;
+    NFT: string;
+    PTP: string;
+  };
+  accounts: DemoAccount[];
+}
+
+export interface DevnetOptions {
+  // seconds, the LPStaking default of one week when undefined
+  unlockDuration?: number;
+  deployments?: string;
+}
+
+// what every demo account is funded with before it takes position
+const FUNDING = { DLP: parseEther("1000"), FEE: parseEther("1000"), PTP: parseEther("1000"), NFT: 100n };
+const NFT_IDS = [1n, 2n, 3n];
+
+const DEMO_ACCOUNTS: { name: string; state: DemoState; description: string }[] = [
+  { name: "staker", state: "staked", description: "250 DLP, 100 FEE and 20 NFT id 1 staked" },
+  { name: "unlocking", state: "unlocking", description: "100 DLP unlocking, halfway through the unlock" },
+  { name: "matured", state: "matured", description: "100 DLP and 10 NFT id 1 unlocked and ready to unstake" },
+  { name: "multi1155", state: "multi1155", description: "NFT ids 1, 2 and 3 staked, id 2 just started unlocking" },
+  { name: "ptpStaker", state: "ptp", description: "500 PTP staked in PTPStaking" },
+  { name: "fresh", state: "funded", description: "funded and approved, nothing staked" },
+];
+
+export function devnetFile(dir: string = DEFAULT_DEPLOYMENTS_DIR): string {
+  return path.join(dir, `${DEVNET_NETWORK}.devnet.json`);
+}
+
+export function loadDevnet(dir: string = DEFAULT_DEPLOYMENTS_DIR): DevnetDeployment | undefined {
+  const file = devnetFile(dir);
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+async function advance(hre: HardhatRuntimeEnvironment, seconds: number) {
+  await hre.network.provider.send("evm_increaseTime", [seconds]);
+  await hre.network.provider.send("evm_mine", []);
+}
+
+/**
+ * Deploy LPStaking behind a proxy, PTPStaking and the mock tokens, support the tokens, then fund the
+ * demo accounts and put each of them in its state. LPStaking is recorded for `localhost` with the
+ * other deployments, and everything else in `localhost.devnet.json` next to it.
+ *
+ * The first signer is the owner, the second the hexagate and the next ones the demo accounts.
+ */
+export async function seedDevnet(
+  hre: HardhatRuntimeEnvironment,
+  options: DevnetOptions = {}
+): Promise<DevnetDeployment> {
+  const { ethers } = hre;
+  const deployments = options.deployments ?? DEFAULT_DEPLOYMENTS_DIR;
+  const [owner, hexagate, ...others] = await ethers.getSigners();
+  if (others.length < DEMO_ACCOUNTS.length) {
+    throw new Error(`The devnet needs ${DEMO_ACCOUNTS.length + 2} accounts, the network has ${others.length + 2}`);
+  }
+  const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+  const record: ProxyDeploymentRecord = await deployLPStakingProxy(hre, hexagate.address);
+  const lpStaking = (await ethers.getContractAt("LPStaking", record.proxy)) as unknown as LPStaking;
+  const dlp = (await ethers.deployContract(
+    "MockERC20",
+    ["Demo LP", "DLP", 18, parseEther("1000000")],
+    owner
+  )) as unknown as MockERC20;
+  const fee = (await ethers.deployContract(
+    "FeeToken",
+    ["Fee LP", "FEE", parseEther("1000000")],
+    owner
+  )) as unknown as FeeToken;
+  const nft = (await ethers.deployContract("MockERC1155", [], owner)) as unknown as MockERC1155;
+  const ptp = (await ethers.deployContract(
+    "MockERC20",
+    ["Platypus", "PTP", 18, parseEther("1000000")],
+    owner
+  )) as unknown as MockERC20;
+  const ptpStaking = (await ethers.deployContract(
+    "PTPStaking",
+    [await ptp.getAddress(), owner.address],
+    owner
+  )) as unknown as PTPStaking;
+
+  await lpStaking.addLPTokenSupport(dlp);
+  await lpStaking.addLPTokenSupport(fee);
+  await lpStaking.addERC1155TokenSupport(nft);
+  if (options.unlockDuration !== undefined) await lpStaking.updateUnlockDuration(options.unlockDuration);
+  const unlockDuration = Number(await lpStaking.unlockDuration());
+
+  const accounts = DEMO_ACCOUNTS.map((account, index) => ({ ...account, signer: others[index] as Signer }));
+  for (const { signer } of accounts) {
+    const address = await signer.getAddress();
+    await dlp.transfer(address, FUNDING.DLP);
+    await fee.transfer(address, FUNDING.FEE);
+    await ptp.transfer(address, FUNDING.PTP);
+    for (const id of NFT_IDS) await nft.mint(address, id, FUNDING.NFT, "0x");
+    await dlp.connect(signer).approve(lpStaking, ethers.MaxUint256);
+    await fee.connect(signer).approve(lpStaking, ethers.MaxUint256);
+    await nft.connect(signer).setApprovalForAll(lpStaking, true);
+    await ptp.connect(signer).approve(ptpStaking, ethers.MaxUint256);
+  }
+  const signerOf = (name: string) => accounts.find((account) => account.name === name)!.signer;
+  const from = (name: string) => lpStaking.connect(signerOf(name));
+
+  // the matured unlocks start first, one unlock duration before the others
+  await from("matured").stake(parseEther("100"), dlp);
+  await from("matured").stake1155(nft, 1, 10);
+  await from("matured").unlock(dlp);
+  await from("matured").unlock1155(nft, 1);
+  await advance(hre, unlockDuration);
+
+  await from("staker").stake(parseEther("250"), dlp);
+  await from("staker").stake(parseEther("100"), fee);
+  await from("staker").stake1155(nft, 1, 20);
+  await from("unlocking").stake(parseEther("100"), dlp);
+  await from("unlocking").unlock(dlp);
+  await advance(hre, Math.floor(unlockDuration / 2));
+
+  // staggered after the other unlock, so that the next maturity can be reached one at a time
+  await from("multi1155").stake1155(nft, 1, 30);
+  await from("multi1155").stake1155(nft, 2, 20);
+  await from("multi1155").stake1155(nft, 3, 10);
+  await from("multi1155").unlock1155(nft, 2);
+  await ptpStaking.connect(signerOf("ptpStaker")).stake(parseEther("500"));
+
+  const deployment: DevnetDeployment = {
+    chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+    blockNumber: startBlock,
+    owner: owner.address,
+    hexagate: hexagate.address,
+    unlockDuration,
+    contracts: {
+      LPStaking: record.proxy,
+      PTPStaking: await ptpStaking.getAddress(),
+      DLP: await dlp.getAddress(),
+      FEE: await fee.getAddress(),
+      NFT: await nft.getAddress(),
+      PTP: await ptp.getAddress(),
+    },
+    accounts: await Promise.all(
+      accounts.map(async ({ name, state, description, signer }) => ({
+        name,
+        address: await signer.getAddress(),
+        state,
+        description,
+      }))
+    ),
+  };
+
+  // a new node starts a new chain, the records of the previous one are replaced
+  saveDeployment(DEVNET_NETWORK, "LPStaking", record, deployments);
+  fs.writeFileSync(devnetFile(deployments), JSON.stringify(deployment, undefined, 2) + "\n");
+  return deployment;
+}
@@ -0,0 +1,76 @@
+import { ProviderWrapper } from "hardhat/plugins";
+import { EIP1193Provider, RequestArguments } from "hardhat/types";
+
+import { UnlockKeeper } from "../keeper/UnlockKeeper";
+import { PendingUnlock } from "../keeper/schedule";
+import { DevnetDeployment } from "./seed";
+
+export interface FastForward {
+  blockNumber: number;
+  timestamp: bigint;
+  // the unlocks that became withdrawable with the block
+  unlocks: PendingUnlock[];
+}
+
+/**
+ * The `devnet_nextUnlock` result, a `FastForward` with its big numbers as JSON-RPC can carry them.
+ */
+export interface NextUnlockResponse {
+  blockNumber: number;
+  timestamp: number;
+  unlocks: { user: string; token: string; id: string; amount: string }[];
+}
+
+/**
+ * Mine a block at the soonest maturity of the outstanding unlocks, or nothing when every unlock can
+ * already be unstaked.
+ */
+export async function fastForwardToNextUnlock(
+  provider: EIP1193Provider,
+  keeper: UnlockKeeper
+): Promise<FastForward | undefined> {
+  const upcoming = (await keeper.schedule()).filter((unlock) => unlock.remaining !== 0n);
+  if (upcoming.length === 0) return undefined;
+  const timestamp = upcoming[0].unlockAt;
+  await provider.request({ method: "evm_setNextBlockTimestamp", params: [Number(timestamp)] });
+  await provider.request({ method: "evm_mine", params: [] });
+  const blockNumber = Number(await provider.request({ method: "eth_blockNumber", params: [] }));
+  const unlocks = upcoming
+    .filter((unlock) => unlock.unlockAt === timestamp)
+    .map((unlock) => ({ ...unlock, remaining: 0n }));
+  return { blockNumber, timestamp, unlocks };
+}
+
+/**
+ * Serves the devnet shortcuts next to the JSON-RPC methods of the node:
+ * - `devnet_nextUnlock` fast-forwards to the next unlock maturity, returning null when there is none;
+ * - `devnet_deployment` returns the addresses of the contracts and demo accounts.
+ */
+export class DevnetProvider extends ProviderWrapper {
+  constructor(
+    provider: EIP1193Provider,
+    private readonly keeper: UnlockKeeper,
+    private readonly deployment: DevnetDeployment
+  ) {
+    super(provider);
+  }
+
+  public async request(args: RequestArguments): Promise<unknown> {
+    if (args.method === "devnet_deployment") return this.deployment;
+    if (args.method !== "devnet_nextUnlock") return this._wrappedProvider.request(args);
+
+    const forward = await fastForwardToNextUnlock(this._wrappedProvider, this.keeper);
+    if (forward === undefined) return null;
+    const response: NextUnlockResponse = {
+      blockNumber: forward.blockNumber,
+      timestamp: Number(forward.timestamp),
+      unlocks: forward.unlocks.map((unlock) => ({
+        user: unlock.user,
+        token: unlock.token,
+        id: unlock.id.toString(),
+        amount: unlock.amount.toString(),
+      })),
+    };
+    return response;
+  }
+}
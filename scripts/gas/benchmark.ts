@@ -0,0 +1,101 @@
+import * as fs from "fs";
+import * as path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { renderTable } from "@/utils/table";
+
+import { GAS_SCENARIOS, GasScenario, deployGasContext } from "./scenarios";
+
+export const DEFAULT_GAS_BASELINE = "gas-baseline.json";
+
+/**
+ * The committed baseline, the gas used by every scenario.
+ */
+export interface GasBaseline {
+  solc: string;
+  optimizerRuns?: number;
+  gas: { [scenario: string]: number };
+}
+
+export type GasStatus = "ok" | "regressed" | "improved" | "new" | "removed";
+
+export interface GasDiff {
+  scenario: string;
+  baseline?: number;
+  current?: number;
+  status: GasStatus;
+}
+
+/**
+ * Measure every scenario on a fresh deployment, reverting the hardhat network afterwards.
+ */
+export async function runGasBenchmark(
+  hre: HardhatRuntimeEnvironment,
+  scenarios: GasScenario[] = GAS_SCENARIOS
+): Promise<{ [scenario: string]: number }> {
+  if (hre.network.name !== "hardhat") {
+    throw new Error(`The gas benchmark only runs on the hardhat network, not ${hre.network.name}`);
+  }
+  const provider = hre.network.provider;
+  const outer = await provider.send("evm_snapshot", []);
+  try {
+    const context = await deployGasContext(hre);
+    const gas: { [scenario: string]: number } = {};
+    for (const scenario of scenarios) {
+      const snapshot = await provider.send("evm_snapshot", []);
+      try {
+        const receipt = await (await scenario.run(context)).wait();
+        gas[scenario.name] = Number(receipt!.gasUsed);
+      } finally {
+        await provider.send("evm_revert", [snapshot]);
+      }
+    }
+    return gas;
+  } finally {
+    await provider.send("evm_revert", [outer]);
+  }
+}
+
+/**
+ * Compare measurements with the baseline. Gas above the baseline by more than `tolerance` percent
+ * is a regression, below it by as much an improvement worth recording.
+ */
+export function compareGas(baseline: GasBaseline["gas"], current: GasBaseline["gas"], tolerance: number): GasDiff[] {
+  const scenarios = [...Object.keys(current), ...Object.keys(baseline).filter((name) => !(name in current))];
+  return scenarios.map((scenario) => {
+    const before = baseline[scenario];
+    const after = current[scenario];
+    let status: GasStatus = "ok";
+    if (before === undefined) status = "new";
+    else if (after === undefined) status = "removed";
+    else if (after > before * (1 + tolerance / 100)) status = "regressed";
+    else if (after < before * (1 - tolerance / 100)) status = "improved";
+    return { scenario, baseline: before, current: after, status };
+  });
+}
+
+export function renderGasDiff(diffs: GasDiff[]): string {
+  const rows = diffs.map(({ scenario, baseline, current, status }) => {
+    const delta = baseline !== undefined && current !== undefined ? current - baseline : undefined;
+    const percent = delta !== undefined && baseline ? ((delta / baseline) * 100).toFixed(2) + "%" : "";
+    return [
+      scenario,
+      baseline?.toString() ?? "",
+      current?.toString() ?? "",
+      delta === undefined ? "" : `${delta > 0 ? "+" : ""}${delta}`,
+      percent,
+      status,
+    ];
+  });
+  return renderTable(["scenario", "baseline", "current", "diff", "%", "status"], rows);
+}
+
+export function loadGasBaseline(file: string): GasBaseline | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+export function saveGasBaseline(file: string, baseline: GasBaseline) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(baseline, null, 2) + "\n");
+}
@@ -0,0 +1,251 @@
+import { ContractTransactionResponse, dataSlice, getAddress, id, toBeHex } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import type { FeeToken, LPStaking, MockERC1155, MockERC20, PTPStaking } from "@/types/index";
+
+export interface GasContext {
+  hre: HardhatRuntimeEnvironment;
+  lpStaking: LPStaking;
+  ptpStaking: PTPStaking;
+  token: MockERC20;
+  feeToken: FeeToken;
+  erc1155: MockERC1155;
+  owner: HardhatEthersSigner;
+  hexagate: HardhatEthersSigner;
+  user: HardhatEthersSigner;
+}
+
+/**
+ * One measured call: `run` brings the contracts into the state under test and returns the
+ * transaction whose gas is recorded.
+ */
+export interface GasScenario {
+  name: string;
+  run: (context: GasContext) => Promise<ContractTransactionResponse>;
+}
+
+const AMOUNT = 10n ** 18n;
+const UNLOCK_DURATION = 604800;
+
+// the supported token count used for the array scans of the remove functions
+export const SUPPORTED_TOKENS = 50;
+
+/**
+ * A fixed account, so that contract addresses (and the calldata cost of passing them) do not
+ * depend on the transactions sent before the benchmark.
+ */
+async function account(hre: HardhatRuntimeEnvironment, name: string): Promise<HardhatEthersSigner> {
+  const address = getAddress(dataSlice(id(`gas-benchmark:${name}`), 12));
+  await hre.network.provider.send("hardhat_setBalance", [address, "0x56BC75E2D63100000"]);
+  return hre.ethers.getImpersonatedSigner(address);
+}
+
+export async function deployGasContext(hre: HardhatRuntimeEnvironment): Promise<GasContext> {
+  const [owner, hexagate, user] = [
+    await account(hre, "owner"),
+    await account(hre, "hexagate"),
+    await account(hre, "user"),
+  ];
+  const { ethers } = hre;
+
+  const token = (await ethers.deployContract(
+    "MockERC20",
+    ["Gas Token", "GAS", 18, 1000n * AMOUNT],
+    owner
+  )) as unknown as MockERC20;
+  const feeToken = (await ethers.deployContract(
+    "FeeToken",
+    ["Fee Token", "FEE", 1000n * AMOUNT],
+    owner
+  )) as unknown as FeeToken;
+  const erc1155 = (await ethers.deployContract("MockERC1155", [], owner)) as unknown as MockERC1155;
+  const ptpStaking = (await ethers.deployContract(
+    "PTPStaking",
+    [await token.getAddress(), owner.address],
+    owner
+  )) as unknown as PTPStaking;
+  const lpStaking = (await ethers.deployContract("LPStaking", [], owner)) as unknown as LPStaking;
+  await lpStaking.initialize(hexagate.address);
+  await lpStaking.addLPTokenSupport(await token.getAddress());
+  await lpStaking.addLPTokenSupport(await feeToken.getAddress());
+  await lpStaking.addERC1155TokenSupport(await erc1155.getAddress());
+
+  await token.transfer(user.address, 100n * AMOUNT);
+  await feeToken.transfer(user.address, 100n * AMOUNT);
+  await erc1155.mint(user.address, 1, 100, "0x");
+  for (const spender of [lpStaking, ptpStaking]) {
+    await token.connect(user).approve(await spender.getAddress(), ethers.MaxUint256);
+  }
+  await feeToken.connect(user).approve(await lpStaking.getAddress(), ethers.MaxUint256);
+  await erc1155.connect(user).setApprovalForAll(await lpStaking.getAddress(), true);
+  return { hre, lpStaking, ptpStaking, token, feeToken, erc1155, owner, hexagate, user };
+}
+
+async function increaseTime({ hre }: GasContext, seconds: number) {
+  await hre.network.provider.send("evm_increaseTime", [seconds]);
+  await hre.network.provider.send("evm_mine", []);
+}
+
+// fills supportedTokensArray with placeholder addresses, the remove functions never call them
+async function supportTokens(context: GasContext, count: number, is1155: boolean) {
+  for (let i = 1; i <= count; i++) {
+    const token = getAddress(toBeHex(0x1000 + i, 20));
+    await (is1155 ? context.lpStaking.addERC1155TokenSupport(token) : context.lpStaking.addLPTokenSupport(token));
+  }
+}
+
+export const GAS_SCENARIOS: GasScenario[] = [
+  {
+    name: "LPStaking.initialize",
+    run: async ({ hre, owner, hexagate }) => {
+      const fresh = (await hre.ethers.deployContract("LPStaking", [], owner)) as unknown as LPStaking;
+      return fresh.initialize(hexagate.address);
+    },
+  },
+  {
+    name: "LPStaking.stake: first stake",
+    run: async ({ lpStaking, token, user }) => lpStaking.connect(user).stake(AMOUNT, await token.getAddress()),
+  },
+  {
+    name: "LPStaking.stake: top-up",
+    run: async ({ lpStaking, token, user }) => {
+      await lpStaking.connect(user).stake(AMOUNT, await token.getAddress());
+      return lpStaking.connect(user).stake(AMOUNT, await token.getAddress());
+    },
+  },
+  {
+    name: "LPStaking.stake: fee-on-transfer token",
+    run: async ({ lpStaking, feeToken, user }) => lpStaking.connect(user).stake(AMOUNT, await feeToken.getAddress()),
+  },
+  {
+    name: "LPStaking.stake1155: first stake",
+    run: async ({ lpStaking, erc1155, user }) => lpStaking.connect(user).stake1155(await erc1155.getAddress(), 1, 10),
+  },
+  {
+    name: "LPStaking.stake1155: top-up",
+    run: async ({ lpStaking, erc1155, user }) => {
+      await lpStaking.connect(user).stake1155(await erc1155.getAddress(), 1, 10);
+      return lpStaking.connect(user).stake1155(await erc1155.getAddress(), 1, 10);
+    },
+  },
+  {
+    name: "LPStaking.unlock",
+    run: async ({ lpStaking, token, user }) => {
+      await lpStaking.connect(user).stake(AMOUNT, await token.getAddress());
+      return lpStaking.connect(user).unlock(await token.getAddress());
+    },
+  },
+  {
+    name: "LPStaking.unlock1155",
+    run: async ({ lpStaking, erc1155, user }) => {
+      await lpStaking.connect(user).stake1155(await erc1155.getAddress(), 1, 10);
+      return lpStaking.connect(user).unlock1155(await erc1155.getAddress(), 1);
+    },
+  },
+  {
+    name: "LPStaking.unstake",
+    run: async (context) => {
+      const { lpStaking, token, user } = context;
+      await lpStaking.connect(user).stake(AMOUNT, await token.getAddress());
+      await lpStaking.connect(user).unlock(await token.getAddress());
+      await increaseTime(context, UNLOCK_DURATION);
+      return lpStaking.connect(user).unstake(await token.getAddress());
+    },
+  },
+  {
+    name: "LPStaking.unstake: fee-on-transfer token",
+    run: async (context) => {
+      const { lpStaking, feeToken, user } = context;
+      await lpStaking.connect(user).stake(AMOUNT, await feeToken.getAddress());
+      await lpStaking.connect(user).unlock(await feeToken.getAddress());
+      await increaseTime(context, UNLOCK_DURATION);
+      return lpStaking.connect(user).unstake(await feeToken.getAddress());
+    },
+  },
+  {
+    name: "LPStaking.unstake1155",
+    run: async (context) => {
+      const { lpStaking, erc1155, user } = context;
+      await lpStaking.connect(user).stake1155(await erc1155.getAddress(), 1, 10);
+      await lpStaking.connect(user).unlock1155(await erc1155.getAddress(), 1);
+      await increaseTime(context, UNLOCK_DURATION);
+      return lpStaking.connect(user).unstake1155(await erc1155.getAddress(), 1);
+    },
+  },
+  {
+    name: "LPStaking.addLPTokenSupport",
+    run: async ({ lpStaking }) => lpStaking.addLPTokenSupport(getAddress(toBeHex(0x1000, 20))),
+  },
+  {
+    name: "LPStaking.addERC1155TokenSupport",
+    run: async ({ lpStaking }) => lpStaking.addERC1155TokenSupport(getAddress(toBeHex(0x1000, 20))),
+  },
+  {
+    name: "LPStaking.removeLPTokenSupport: first of 3 supported tokens",
+    run: async ({ lpStaking, token }) => lpStaking.removeLPTokenSupport(await token.getAddress()),
+  },
+  {
+    name: `LPStaking.removeLPTokenSupport: last of ${SUPPORTED_TOKENS + 3} supported tokens`,
+    run: async (context) => {
+      await supportTokens(context, SUPPORTED_TOKENS, false);
+      return context.lpStaking.removeLPTokenSupport(getAddress(toBeHex(0x1000 + SUPPORTED_TOKENS, 20)));
+    },
+  },
+  {
+    name: "LPStaking.removeERC1155TokenSupport: last of 3 supported tokens",
+    run: async ({ lpStaking, erc1155 }) => lpStaking.removeERC1155TokenSupport(await erc1155.getAddress()),
+  },
+  {
+    name: `LPStaking.removeERC1155TokenSupport: last of ${SUPPORTED_TOKENS + 3} supported tokens`,
+    run: async (context) => {
+      await supportTokens(context, SUPPORTED_TOKENS, true);
+      return context.lpStaking.removeERC1155TokenSupport(getAddress(toBeHex(0x1000 + SUPPORTED_TOKENS, 20)));
+    },
+  },
+  {
+    name: "LPStaking.pause",
+    run: async ({ lpStaking, hexagate }) => lpStaking.connect(hexagate).pause(),
+  },
+  {
+    name: "LPStaking.unpause",
+    run: async ({ lpStaking, hexagate }) => {
+      await lpStaking.connect(hexagate).pause();
+      return lpStaking.connect(hexagate).unpause();
+    },
+  },
+  {
+    name: "LPStaking.updateHexagateAddress",
+    run: async ({ lpStaking, user }) => lpStaking.updateHexagateAddress(user.address),
+  },
+  {
+    name: "LPStaking.updateUnlockDuration",
+    run: async ({ lpStaking }) => lpStaking.updateUnlockDuration(UNLOCK_DURATION * 2),
+  },
+  {
+    name: "LPStaking.transferOwnership",
+    run: async ({ lpStaking, user }) => lpStaking.transferOwnership(user.address),
+  },
+  {
+    name: "LPStaking.acceptOwnership",
+    run: async ({ lpStaking, user }) => {
+      await lpStaking.transferOwnership(user.address);
+      return lpStaking.connect(user).acceptOwnership();
+    },
+  },
+  {
+    name: "LPStaking.renounceOwnership",
+    run: async ({ lpStaking }) => lpStaking.renounceOwnership(),
+  },
+  {
+    name: "PTPStaking.stake: first stake",
+    run: async ({ ptpStaking, user }) => ptpStaking.connect(user).stake(AMOUNT),
+  },
+  {
+    name: "PTPStaking.stake: top-up",
+    run: async ({ ptpStaking, user }) => {
+      await ptpStaking.connect(user).stake(AMOUNT);
+      return ptpStaking.connect(user).stake(AMOUNT);
+    },
+  },
+];
@@ -0,0 +1,159 @@
+import type { LPStaking } from "@/types/index";
+
+import { Checkpoint, CheckpointStore, MemoryCheckpointStore } from "./checkpoint";
+import { PositionEvent, fetchPositionEvents } from "./events";
+import { Position, PositionMap, applyPositionEvent, positionKey } from "./positions";
+
+export interface IndexerOptions {
+  // the first block to index, usually the deployment block of the contract
+  startBlock?: number;
+  // blocks behind the head that are not indexed yet, so shallow reorgs never reach the state
+  confirmations?: number;
+  // the number of blocks fetched per page of logs
+  batchSize?: number;
+  store?: CheckpointStore;
+  // called with the events of every page, after they are applied
+  onEvents?: (events: PositionEvent[]) => void | Promise<void>;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  // true when the checkpoint was dropped because its block is no longer canonical
+  reorged: boolean;
+}
+
+/**
+ * Rebuilds every LPStaking position from `Staked`, `UnlockStarted` and `Unstaked` logs
+ * (and their ERC1155 variants), resuming from the last saved checkpoint.
+ */
+export class LPStakingIndexer {
+  public readonly contract: LPStaking;
+
+  public readonly startBlock: number;
+
+  public readonly confirmations: number;
+
+  public readonly batchSize: number;
+
+  public readonly store: CheckpointStore;
+
+  private readonly onEvents?: IndexerOptions["onEvents"];
+
+  private positions: PositionMap = new Map();
+
+  private blockNumber: number;
+
+  private blockHash = "";
+
+  private loaded = false;
+
+  constructor(contract: LPStaking, options: IndexerOptions = {}) {
+    this.contract = contract;
+    this.startBlock = options.startBlock ?? 0;
+    this.confirmations = options.confirmations ?? 12;
+    this.batchSize = options.batchSize ?? 2000;
+    this.store = options.store ?? new MemoryCheckpointStore();
+    this.onEvents = options.onEvents;
+    this.blockNumber = this.startBlock - 1;
+  }
+
+  /**
+   * The last block included in the state.
+   */
+  public get indexedBlock(): number {
+    return this.blockNumber;
+  }
+
+  public getPositions(): Position[] {
+    return Array.from(this.positions.values()).map((position) => ({ ...position }));
+  }
+
+  public getPosition(user: string, token: string, id = 0n, is1155 = false): Position | undefined {
+    const position = this.positions.get(positionKey(user, token, id, is1155));
+    return position === undefined ? undefined : { ...position };
+  }
+
+  public getUserPositions(user: string): Position[] {
+    return this.getPositions().filter((position) => position.user.toLowerCase() === user.toLowerCase());
+  }
+
+  /**
+   * Index every confirmed block since the checkpoint, saving a checkpoint after each page.
+   */
+  public async sync(): Promise<SyncResult> {
+    const provider = this.contract.runner!.provider!;
+    let reorged = false;
+    if (!this.loaded) {
+      await this.restore();
+      this.loaded = true;
+    }
+    if (this.blockNumber >= this.startBlock) {
+      const block = await provider.getBlock(this.blockNumber);
+      if (block?.hash !== this.blockHash) {
+        this.reset();
+        reorged = true;
+      }
+    }
+
+    const head = await provider.getBlockNumber();
+    const target = head - this.confirmations;
+    const fromBlock = this.blockNumber + 1;
+    let events = 0;
+    while (this.blockNumber < target) {
+      const from = this.blockNumber + 1;
+      const to = Math.min(target, from + this.batchSize - 1);
+      const page = await fetchPositionEvents(this.contract, from, to);
+      for (const event of page) {
+        applyPositionEvent(this.positions, event);
+      }
+      const block = await provider.getBlock(to);
+      if (!block) {
+        throw new Error(`Failed to fetch block ${to}.`);
+      }
+      this.blockNumber = to;
+      this.blockHash = block.hash!;
+      this.store.save(await this.checkpoint());
+      if (this.onEvents) await this.onEvents(page);
+      events += page.length;
+    }
+
+    return { fromBlock, toBlock: this.blockNumber, events, reorged };
+  }
+
+  private async restore() {
+    const checkpoint = this.store.load();
+    if (checkpoint === undefined) return;
+    const { chainId } = await this.contract.runner!.provider!.getNetwork();
+    const address = await this.contract.getAddress();
+    if (checkpoint.chainId !== chainId || checkpoint.address.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`Checkpoint is for ${checkpoint.address} on chain ${checkpoint.chainId}`);
+    }
+    this.blockNumber = checkpoint.blockNumber;
+    this.blockHash = checkpoint.blockHash;
+    this.positions = new Map(
+      checkpoint.positions.map((position) => [
+        positionKey(position.user, position.token, position.id, position.is1155),
+        position,
+      ])
+    );
+  }
+
+  private reset() {
+    this.positions = new Map();
+    this.blockNumber = this.startBlock - 1;
+    this.blockHash = "";
+  }
+
+  private async checkpoint(): Promise<Checkpoint> {
+    const { chainId } = await this.contract.runner!.provider!.getNetwork();
+    return {
+      chainId,
+      address: await this.contract.getAddress(),
+      blockNumber: this.blockNumber,
+      blockHash: this.blockHash,
+      positions: this.getPositions(),
+    };
+  }
+}
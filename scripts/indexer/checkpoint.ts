@@ -0,0 +1,140 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { isDecimal, isObject } from "@/utils/json";
+
+import { Position } from "./positions";
+
+export interface Checkpoint {
+  chainId: bigint;
+  address: string;
+  // the last block whose events are included in `positions`
+  blockNumber: number;
+  // hash of `blockNumber`, used to detect reorgs deeper than the confirmation depth
+  blockHash: string;
+  positions: Position[];
+}
+
+export interface CheckpointStore {
+  load(): Checkpoint | undefined;
+  save(checkpoint: Checkpoint): void;
+}
+
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoint?: Checkpoint;
+
+  public load(): Checkpoint | undefined {
+    return this.checkpoint;
+  }
+
+  public save(checkpoint: Checkpoint) {
+    this.checkpoint = checkpoint;
+  }
+}
+
+const CHECKPOINT_VERSION = 1;
+
+// a position as saved, with its bigints as decimal strings
+export interface SerializedPosition {
+  user: string;
+  token: string;
+  id: string;
+  is1155: boolean;
+  staked: string;
+  pendingUnlock: string;
+  unlockAt: string;
+}
+
+export interface SerializedCheckpoint {
+  version: typeof CHECKPOINT_VERSION;
+  chainId: string;
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  positions: SerializedPosition[];
+}
+
+function isSerializedPosition(value: unknown): value is SerializedPosition {
+  return (
+    isObject(value) &&
+    typeof value.user === "string" &&
+    typeof value.token === "string" &&
+    typeof value.is1155 === "boolean" &&
+    isDecimal(value.id) &&
+    isDecimal(value.staked) &&
+    isDecimal(value.pendingUnlock) &&
+    isDecimal(value.unlockAt)
+  );
+}
+
+/**
+ * Check a parsed checkpoint file, throwing with the first field that does not match `SerializedCheckpoint`.
+ */
+export function validateCheckpoint(data: unknown, file: string): SerializedCheckpoint {
+  const invalid = (what: string): never => {
+    throw new Error(`Invalid checkpoint ${file}: ${what}`);
+  };
+  if (!isObject(data)) return invalid("expected an object");
+  if (data.version !== CHECKPOINT_VERSION) {
+    throw new Error(`Unsupported checkpoint version ${data.version} in ${file}`);
+  }
+  if (!isDecimal(data.chainId)) return invalid("chainId must be a decimal string");
+  if (typeof data.address !== "string") return invalid("address must be a string");
+  if (typeof data.blockNumber !== "number" || !Number.isInteger(data.blockNumber)) {
+    return invalid("blockNumber must be a whole number");
+  }
+  if (typeof data.blockHash !== "string") return invalid("blockHash must be a string");
+  if (!Array.isArray(data.positions)) return invalid("positions must be a list");
+  const positions: unknown[] = data.positions;
+  const index = positions.findIndex((position) => !isSerializedPosition(position));
+  if (index !== -1) {
+    return invalid(`position ${index} must have user, token, id, is1155, staked, pendingUnlock and unlockAt`);
+  }
+  return {
+    version: CHECKPOINT_VERSION,
+    chainId: data.chainId,
+    address: data.address,
+    blockNumber: data.blockNumber,
+    blockHash: data.blockHash,
+    positions: positions.filter(isSerializedPosition),
+  };
+}
+
+/**
+ * Stores the checkpoint as JSON, with bigints encoded as decimal strings.
+ */
+export class JsonCheckpointStore implements CheckpointStore {
+  constructor(public readonly file: string) {}
+
+  public load(): Checkpoint | undefined {
+    if (!fs.existsSync(this.file)) return undefined;
+    const data = validateCheckpoint(JSON.parse(fs.readFileSync(this.file, "utf-8")), this.file);
+    return {
+      chainId: BigInt(data.chainId),
+      address: data.address,
+      blockNumber: data.blockNumber,
+      blockHash: data.blockHash,
+      positions: data.positions.map((position) => ({
+        user: position.user,
+        token: position.token,
+        id: BigInt(position.id),
+        is1155: position.is1155,
+        staked: BigInt(position.staked),
+        pendingUnlock: BigInt(position.pendingUnlock),
+        unlockAt: BigInt(position.unlockAt),
+      })),
+    };
+  }
+
+  public save(checkpoint: Checkpoint) {
+    const data = JSON.stringify(
+      { version: CHECKPOINT_VERSION, ...checkpoint },
+      (_, value) => (typeof value === "bigint" ? value.toString() : value),
+      2
+    );
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    // write then rename, so an interrupted save never leaves a truncated checkpoint
+    fs.writeFileSync(`${this.file}.tmp`, data + "\n");
+    fs.renameSync(`${this.file}.tmp`, this.file);
+  }
+}
@@ -0,0 +1,89 @@
+import type { LPStaking } from "@/types/index";
+
+interface EventBase {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  user: string;
+  token: string;
+  // the ERC1155 token id, always 0 for ERC20 positions
+  id: bigint;
+  is1155: boolean;
+  amount: bigint;
+}
+
+export interface StakedEvent extends EventBase {
+  kind: "Staked";
+}
+
+export interface UnlockStartedEvent extends EventBase {
+  kind: "UnlockStarted";
+  unlockAt: bigint;
+}
+
+export interface UnstakedEvent extends EventBase {
+  kind: "Unstaked";
+}
+
+/**
+ * An LPStaking position event, with the ERC20 and ERC1155 variants folded together.
+ */
+export type PositionEvent = StakedEvent | UnlockStartedEvent | UnstakedEvent;
+
+function base(log: { blockNumber: number; blockHash: string; transactionHash: string; index: number }) {
+  return {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+}
+
+/**
+ * Fetch every position event emitted by LPStaking in `[fromBlock, toBlock]`, in chain order.
+ */
+export async function fetchPositionEvents(
+  contract: LPStaking,
+  fromBlock: number,
+  toBlock: number
+): Promise<PositionEvent[]> {
+  const { filters } = contract;
+  const [staked, staked1155, unlocks, unlocks1155, unstaked, unstaked1155] = await Promise.all([
+    contract.queryFilter(filters.Staked, fromBlock, toBlock),
+    contract.queryFilter(filters.Staked1155, fromBlock, toBlock),
+    contract.queryFilter(filters.UnlockStarted, fromBlock, toBlock),
+    contract.queryFilter(filters.UnlockStarted1155, fromBlock, toBlock),
+    contract.queryFilter(filters.Unstaked, fromBlock, toBlock),
+    contract.queryFilter(filters.Unstaked1155, fromBlock, toBlock),
+  ]);
+
+  const events: PositionEvent[] = [
+    ...staked.map((log): PositionEvent => {
+      const { user, token, amount } = log.args;
+      return { ...base(log), kind: "Staked", user, token, id: 0n, is1155: false, amount };
+    }),
+    ...staked1155.map((log): PositionEvent => {
+      const { user, token, id, amount } = log.args;
+      return { ...base(log), kind: "Staked", user, token, id, is1155: true, amount };
+    }),
+    ...unlocks.map((log): PositionEvent => {
+      const { user, token, amount, unlockAt } = log.args;
+      return { ...base(log), kind: "UnlockStarted", user, token, id: 0n, is1155: false, amount, unlockAt };
+    }),
+    ...unlocks1155.map((log): PositionEvent => {
+      const { user, token, id, amount, unlockAt } = log.args;
+      return { ...base(log), kind: "UnlockStarted", user, token, id, is1155: true, amount, unlockAt };
+    }),
+    ...unstaked.map((log): PositionEvent => {
+      const { user, token, amount } = log.args;
+      return { ...base(log), kind: "Unstaked", user, token, id: 0n, is1155: false, amount };
+    }),
+    ...unstaked1155.map((log): PositionEvent => {
+      const { user, token, id, amount } = log.args;
+      return { ...base(log), kind: "Unstaked", user, token, id, is1155: true, amount };
+    }),
+  ];
+
+  return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
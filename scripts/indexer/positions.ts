@@ -0,0 +1,68 @@
+import { PositionEvent } from "./events";
+
+export interface Position {
+  user: string;
+  token: string;
+  // the ERC1155 token id, always 0 for ERC20 positions
+  id: bigint;
+  is1155: boolean;
+  // everything the user has staked and not yet unstaked, including the amount in unlock
+  staked: bigint;
+  // the amount of the outstanding unlock, 0 when there is none
+  pendingUnlock: bigint;
+  // when the outstanding unlock can be unstaked, 0 when there is none
+  unlockAt: bigint;
+}
+
+export type PositionMap = Map<string, Position>;
+
+export function positionKey(user: string, token: string, id: bigint, is1155: boolean): string {
+  const prefix = is1155 ? `erc1155:${id}` : "erc20";
+  return `${prefix}:${token.toLowerCase()}:${user.toLowerCase()}`;
+}
+
+/**
+ * Apply one position event to the map, mirroring the accounting in LPStaking.
+ *
+ * Positions are dropped once nothing is staked and no unlock is outstanding.
+ */
+export function applyPositionEvent(positions: PositionMap, event: PositionEvent) {
+  const key = positionKey(event.user, event.token, event.id, event.is1155);
+  const position = positions.get(key) ?? {
+    user: event.user,
+    token: event.token,
+    id: event.id,
+    is1155: event.is1155,
+    staked: 0n,
+    pendingUnlock: 0n,
+    unlockAt: 0n,
+  };
+
+  switch (event.kind) {
+    case "Staked":
+      position.staked += event.amount;
+      break;
+    case "UnlockStarted":
+      position.pendingUnlock = event.amount;
+      position.unlockAt = event.unlockAt;
+      break;
+    case "Unstaked":
+      position.staked -= event.amount;
+      position.pendingUnlock = 0n;
+      position.unlockAt = 0n;
+      break;
+  }
+
+  if (position.staked === 0n && position.pendingUnlock === 0n) {
+    positions.delete(key);
+  } else {
+    positions.set(key, position);
+  }
+}
+
+/**
+ * Whether the outstanding unlock of a position can be unstaked at `timestamp`.
+ */
+export function isMatured(position: Position, timestamp: bigint): boolean {
+  return position.pendingUnlock !== 0n && position.unlockAt <= timestamp;
+}
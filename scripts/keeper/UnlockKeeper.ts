@@ -0,0 +1,116 @@
+import { Signer } from "ethers";
+
+import type { LPStaking } from "@/types/index";
+
+import { LPStakingIndexer } from "../indexer/LPStakingIndexer";
+import { positionKey } from "../indexer/positions";
+import { PendingUnlock, unlockSchedule } from "./schedule";
+import { UnlockNotification, UnlockSink } from "./sinks";
+
+export interface KeeperOptions {
+  sinks: UnlockSink[];
+  // matured unlocks of these accounts are unstaked by the keeper, LPStaking has no way to unstake for anyone else
+  signers?: Signer[];
+  // called when processing fails while subscribed to blocks
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Follows LPStaking unlocks through an indexer and notifies the sinks once, as soon as an unlock
+ * can be unstaked.
+ */
+export class UnlockKeeper {
+  public readonly indexer: LPStakingIndexer;
+
+  public readonly contract: LPStaking;
+
+  public readonly sinks: UnlockSink[];
+
+  private readonly signers: Signer[];
+
+  private readonly onError?: KeeperOptions["onError"];
+
+  // the unlocks already notified, keyed by position and maturity so that a later unlock is notified again
+  private readonly notified = new Set<string>();
+
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private listener?: () => void;
+
+  constructor(indexer: LPStakingIndexer, options: KeeperOptions) {
+    this.indexer = indexer;
+    this.contract = indexer.contract;
+    this.sinks = options.sinks;
+    this.signers = options.signers ?? [];
+    this.onError = options.onError;
+  }
+
+  /**
+   * Every outstanding unlock, soonest first, with the time left at the latest block.
+   */
+  public async schedule(user?: string): Promise<PendingUnlock[]> {
+    return (await this.scheduleAtLatest(user)).schedule;
+  }
+
+  /**
+   * Notify the unlocks that became withdrawable since the last poll.
+   */
+  public async poll(): Promise<UnlockNotification[]> {
+    const { blockNumber, schedule } = await this.scheduleAtLatest();
+    const notifications: UnlockNotification[] = [];
+    for (const unlock of schedule) {
+      const key = `${positionKey(unlock.user, unlock.token, unlock.id, unlock.is1155)}:${unlock.unlockAt}`;
+      if (unlock.remaining !== 0n || this.notified.has(key)) continue;
+
+      const { user, token, id, is1155, amount, unlockAt } = unlock;
+      const notification: UnlockNotification = { user, token, id, is1155, amount, unlockAt, blockNumber };
+      notification.unstakeTransaction = await this.unstake(unlock);
+      for (const sink of this.sinks) await sink.notify(notification);
+      this.notified.add(key);
+      notifications.push(notification);
+    }
+    return notifications;
+  }
+
+  /**
+   * Poll on every new block, until `stop` is called.
+   */
+  public start() {
+    const provider = this.contract.runner!.provider!;
+    this.listener = () => {
+      this.queue = this.queue.then(() => this.poll()).catch((error) => this.onError?.(error));
+    };
+    provider.on("block", this.listener);
+  }
+
+  public async stop() {
+    if (this.listener) await this.contract.runner!.provider!.off("block", this.listener);
+    this.listener = undefined;
+    await this.queue;
+  }
+
+  private async scheduleAtLatest(user?: string): Promise<{ blockNumber: number; schedule: PendingUnlock[] }> {
+    await this.indexer.sync();
+    const block = await this.contract.runner!.provider!.getBlock("latest");
+    if (!block) {
+      throw new Error("Failed to fetch the latest block.");
+    }
+    const positions = user ? this.indexer.getUserPositions(user) : this.indexer.getPositions();
+    const schedule = await unlockSchedule(this.contract, positions, BigInt(block.timestamp), block.number);
+    return { blockNumber: block.number, schedule };
+  }
+
+  private async unstake(unlock: PendingUnlock): Promise<string | undefined> {
+    let signer: Signer | undefined;
+    for (const candidate of this.signers) {
+      if ((await candidate.getAddress()).toLowerCase() === unlock.user.toLowerCase()) signer = candidate;
+    }
+    if (signer === undefined) return undefined;
+    const contract = this.contract.connect(signer);
+    const tx = unlock.is1155
+      ? await contract.unstake1155(unlock.token, unlock.id)
+      : await contract.unstake(unlock.token);
+    await tx.wait();
+    return tx.hash;
+  }
+}
@@ -0,0 +1,60 @@
+import type { LPStaking } from "@/types/index";
+
+import { Position } from "../indexer/positions";
+
+export interface PendingUnlock {
+  user: string;
+  token: string;
+  // the ERC1155 token id, always 0 for ERC20 positions
+  id: bigint;
+  is1155: boolean;
+  amount: bigint;
+  unlockAt: bigint;
+  // seconds until the unlock can be unstaked, 0 once it can
+  remaining: bigint;
+}
+
+/**
+ * The outstanding unlocks of `positions`, read back from `userUnlocks`/`userUnlocks1155` at `blockTag`
+ * and ordered by maturity. Unlocks the indexer has not caught up with yet are left out.
+ */
+export async function unlockSchedule(
+  contract: LPStaking,
+  positions: Position[],
+  timestamp: bigint,
+  blockTag?: number
+): Promise<PendingUnlock[]> {
+  const schedule: PendingUnlock[] = [];
+  for (const position of positions.filter((position) => position.pendingUnlock !== 0n)) {
+    const { user, token, id, is1155 } = position;
+    const unlock = is1155
+      ? await contract.userUnlocks1155(user, token, id, { blockTag })
+      : await contract.userUnlocks(user, token, { blockTag });
+    if (!unlock.initialized) continue;
+    const remaining = unlock.unlockAt > timestamp ? unlock.unlockAt - timestamp : 0n;
+    schedule.push({ user, token, id, is1155, amount: unlock.amount, unlockAt: unlock.unlockAt, remaining });
+  }
+  return schedule.sort((a, b) => (a.unlockAt < b.unlockAt ? -1 : a.unlockAt > b.unlockAt ? 1 : 0));
+}
+
+/**
+ * A countdown such as `6d 23h 59m 12s`, or `withdrawable` once nothing remains.
+ */
+export function formatCountdown(remaining: bigint): string {
+  if (remaining <= 0n) return "withdrawable";
+  const units: [string, bigint][] = [
+    ["d", 86400n],
+    ["h", 3600n],
+    ["m", 60n],
+    ["s", 1n],
+  ];
+  const parts: string[] = [];
+  let left = remaining;
+  for (const [unit, seconds] of units) {
+    if (left >= seconds || parts.length > 0) {
+      parts.push(`${left / seconds}${unit}`);
+      left %= seconds;
+    }
+  }
+  return parts.join(" ");
+}
@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { PendingUnlock } from "./schedule";
+
+export interface UnlockNotification extends Omit<PendingUnlock, "remaining"> {
+  // the block in which the unlock was found withdrawable
+  blockNumber: number;
+  // the unstake sent by the keeper, for the positions of its own signers
+  unstakeTransaction?: string;
+}
+
+/**
+ * Where the keeper reports unlocks that became withdrawable.
+ */
+export interface UnlockSink {
+  name: string;
+  notify: (notification: UnlockNotification) => void | Promise<void>;
+}
+
+/**
+ * The notification as JSON, with the amounts as decimal strings.
+ */
+export function serializeNotification(notification: UnlockNotification): string {
+  return JSON.stringify(notification, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+export function describeNotification(notification: UnlockNotification): string {
+  const { user, token, id, is1155, amount, blockNumber, unstakeTransaction } = notification;
+  const asset = is1155 ? `${token} id ${id}` : token;
+  const unstaked = unstakeTransaction ? `, unstaked in ${unstakeTransaction}` : "";
+  return `[block ${blockNumber}] ${amount} of ${asset} is withdrawable by ${user}${unstaked}`;
+}
+
+export function stdoutSink(): UnlockSink {
+  return {
+    name: "stdout",
+    notify: (notification) => console.log(describeNotification(notification)),
+  };
+}
+
+/**
+ * Append every notification to `file` as one JSON line.
+ */
+export function fileSink(file: string): UnlockSink {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  return {
+    name: `file ${file}`,
+    notify: (notification) => fs.appendFileSync(file, serializeNotification(notification) + "\n"),
+  };
+}
+
+/**
+ * POST every notification to `url` as JSON.
+ */
+export function webhookSink(url: string, headers: Record<string, string> = {}): UnlockSink {
+  return {
+    name: `webhook ${url}`,
+    notify: async (notification) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body: serializeNotification(notification),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook ${url} answered ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
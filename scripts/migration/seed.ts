@@ -0,0 +1,103 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { IERC20, LPStaking } from "@/types/index";
+
+import { ContractCall, SafeTransaction, toSafeTransaction } from "../admin/safe";
+import { PTPSnapshot } from "./snapshot";
+
+export interface SeedCall extends ContractCall {
+  // the contract called
+  to: string;
+}
+
+export interface SeedResult {
+  user: string;
+  // the PTP staked amount from the snapshot
+  expected: bigint;
+  // the PTP the batch transferred to the user
+  received: bigint;
+}
+
+// what the batch does not do, printed with every batch and dry run
+export const PTP_SEED_LIMITS =
+  "The batch only airdrops PTP from the treasury. It stakes nothing, LPStaking has no stakeFor, " +
+  "and the PTP locked in PTPLock is never moved. Every staker has to stake the airdrop into LPStaking themselves.";
+
+/**
+ * The treasury calls reimbursing the snapshot stakers.
+ *
+ * This is an airdrop, not a migration of the positions: LPStaking has no way to stake on behalf of
+ * another address and PTPStaking has no withdraw path, so the treasury transfers every staker their
+ * PTP amount and the staked PTP stays locked in PTPLock. The positions only exist in LPStaking once
+ * the stakers stake the airdrop themselves. When PTP is not supported yet, the batch starts with
+ * `addLPTokenSupport`, which requires the treasury to be the LPStaking owner.
+ */
+export async function planPTPSeed(lpStaking: LPStaking, snapshot: PTPSnapshot): Promise<SeedCall[]> {
+  const calls: SeedCall[] = [];
+  if (!(await lpStaking.supportedLPTokens(snapshot.token))) {
+    calls.push({ to: await lpStaking.getAddress(), method: "addLPTokenSupport", args: [snapshot.token] });
+  }
+  for (const staker of snapshot.stakers) {
+    calls.push({ to: snapshot.token, method: "transfer", args: [staker.user, staker.amount.toString()] });
+  }
+  return calls;
+}
+
+export async function seedTransactions(
+  lpStaking: LPStaking,
+  token: IERC20,
+  calls: SeedCall[]
+): Promise<SafeTransaction[]> {
+  const lpStakingAddress = await lpStaking.getAddress();
+  return calls.map((call) =>
+    toSafeTransaction(call.to === lpStakingAddress ? lpStaking.interface : token.interface, call.to, call)
+  );
+}
+
+/**
+ * Run the seed calls from the treasury on the hardhat network (usually a fork) and report the PTP
+ * every staker received. Nothing is staked, that is left to the stakers. The chain is reverted
+ * afterwards.
+ */
+export async function dryRunPTPSeed(
+  hre: HardhatRuntimeEnvironment,
+  lpStaking: LPStaking,
+  token: IERC20,
+  snapshot: PTPSnapshot,
+  treasury: string
+): Promise<SeedResult[]> {
+  if (hre.network.name !== "hardhat") {
+    throw new Error(`A dry run needs the hardhat network, not ${hre.network.name}`);
+  }
+  const balance = await token.balanceOf(treasury);
+  if (balance < snapshot.total) {
+    throw new Error(`The treasury ${treasury} holds ${balance} PTP, the snapshot needs ${snapshot.total}`);
+  }
+  const calls = await planPTPSeed(lpStaking, snapshot);
+  const owner = await lpStaking.owner();
+  if (calls[0]?.method === "addLPTokenSupport" && owner.toLowerCase() !== treasury.toLowerCase()) {
+    throw new Error(`PTP is not supported by LPStaking and the treasury is not its owner ${owner}`);
+  }
+
+  const snapshotId = await hre.network.provider.send("evm_snapshot", []);
+  try {
+    await hre.network.provider.send("hardhat_setBalance", [treasury, "0x56BC75E2D63100000"]);
+    const sender = await hre.ethers.getImpersonatedSigner(treasury);
+    const before = await Promise.all(snapshot.stakers.map((staker) => token.balanceOf(staker.user)));
+    const lpStakingAddress = await lpStaking.getAddress();
+    for (const call of calls) {
+      const contract = call.to === lpStakingAddress ? lpStaking : token;
+      await (await contract.connect(sender).getFunction(call.method)(...call.args)).wait();
+    }
+
+    const results: SeedResult[] = [];
+    for (const [index, staker] of snapshot.stakers.entries()) {
+      const received = (await token.balanceOf(staker.user)) - before[index];
+      results.push({ user: staker.user, expected: staker.amount, received });
+    }
+    return results;
+  } finally {
+    await hre.network.provider.send("hardhat_stopImpersonatingAccount", [treasury]);
+    await hre.network.provider.send("evm_revert", [snapshotId]);
+  }
+}
@@ -0,0 +1,219 @@
+import * as fs from "fs";
+import * as path from "path";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { getBytes, verifyMessage } from "ethers";
+
+import type { PTPStaking } from "@/types/index";
+import { isDecimal, isObject } from "@/utils/json";
+
+export interface PTPStaker {
+  user: string;
+  // the amount reported by `getStakedAmount` at the snapshot block
+  amount: bigint;
+}
+
+export interface PTPSnapshot {
+  chainId: bigint;
+  contract: string;
+  token: string;
+  blockNumber: number;
+  blockHash: string;
+  total: bigint;
+  // StandardMerkleTree root of the [address, uint256] leaves
+  root: string;
+  stakers: PTPStaker[];
+  // who signed off the root, and their EIP-191 signature of it
+  signer?: string;
+  signature?: string;
+}
+
+export interface SnapshotOptions {
+  fromBlock?: number;
+  // the snapshot block, defaults to the latest
+  toBlock?: number;
+  batchSize?: number;
+}
+
+const LEAF_ENCODING = ["address", "uint256"];
+
+export function ptpMerkleTree(stakers: PTPStaker[]): StandardMerkleTree<[string, string]> {
+  return StandardMerkleTree.of(
+    stakers.map((staker): [string, string] => [staker.user, staker.amount.toString()]),
+    LEAF_ENCODING
+  );
+}
+
+/**
+ * Sum the `Staked` events of every user in `[fromBlock, toBlock]`, in pages of `batchSize` blocks.
+ */
+export async function fetchPTPStakes(
+  contract: PTPStaking,
+  fromBlock: number,
+  toBlock: number,
+  batchSize = 2000
+): Promise<Map<string, bigint>> {
+  const stakes = new Map<string, bigint>();
+  for (let from = fromBlock; from <= toBlock; from += batchSize) {
+    const logs = await contract.queryFilter(contract.filters.Staked, from, Math.min(toBlock, from + batchSize - 1));
+    for (const log of logs) {
+      stakes.set(log.args.user, (stakes.get(log.args.user) ?? 0n) + log.args.amount);
+    }
+  }
+  return stakes;
+}
+
+/**
+ * Snapshot every PTP staker from `Staked` events, verified against `getStakedAmount` at the snapshot block.
+ *
+ * PTPStaking has no withdraw path, so both must agree exactly; any difference fails the snapshot.
+ */
+export async function buildPTPSnapshot(contract: PTPStaking, options: SnapshotOptions = {}): Promise<PTPSnapshot> {
+  const provider = contract.runner!.provider!;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const block = await provider.getBlock(toBlock);
+  if (!block) {
+    throw new Error(`Failed to fetch block ${toBlock}.`);
+  }
+  const stakes = await fetchPTPStakes(contract, options.fromBlock ?? 0, toBlock, options.batchSize);
+
+  const stakers: PTPStaker[] = [];
+  const mismatches: string[] = [];
+  for (const [user, staked] of stakes) {
+    const amount = await contract.getStakedAmount(user, { blockTag: toBlock });
+    if (amount !== staked) mismatches.push(`${user}: events ${staked}, getStakedAmount ${amount}`);
+    stakers.push({ user, amount });
+  }
+  if (mismatches.length > 0) {
+    throw new Error(`${mismatches.length} staker(s) disagree with getStakedAmount:\n  ${mismatches.join("\n  ")}`);
+  }
+  stakers.sort((a, b) => a.user.toLowerCase().localeCompare(b.user.toLowerCase()));
+
+  return {
+    chainId: (await provider.getNetwork()).chainId,
+    contract: await contract.getAddress(),
+    token: await contract.ptpToken({ blockTag: toBlock }),
+    blockNumber: toBlock,
+    blockHash: block.hash!,
+    total: stakers.reduce((sum, staker) => sum + staker.amount, 0n),
+    root: ptpMerkleTree(stakers).root,
+    stakers,
+  };
+}
+
+/**
+ * Whether the snapshot carries `signer`'s sign-off of its merkle root.
+ */
+export function isSignedBy(snapshot: PTPSnapshot, signer: string): boolean {
+  if (snapshot.signature === undefined) return false;
+  return verifyMessage(getBytes(snapshot.root), snapshot.signature).toLowerCase() === signer.toLowerCase();
+}
+
+export function snapshotToCsv(snapshot: PTPSnapshot): string {
+  return ["user,amount", ...snapshot.stakers.map((staker) => `${staker.user},${staker.amount}`)].join("\n") + "\n";
+}
+
+/**
+ * Write `ptp-snapshot.json`, with a merkle proof per staker, and `ptp-snapshot.csv` to `dir`.
+ */
+export function saveSnapshot(snapshot: PTPSnapshot, dir: string): string[] {
+  const tree = ptpMerkleTree(snapshot.stakers);
+  const proofs = Object.fromEntries(Array.from(tree.entries()).map(([index, [user]]) => [user, tree.getProof(index)]));
+  const json = JSON.stringify(
+    { ...snapshot, proofs },
+    (_, value) => (typeof value === "bigint" ? value.toString() : value),
+    2
+  );
+  const files = [path.join(dir, "ptp-snapshot.json"), path.join(dir, "ptp-snapshot.csv")];
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(files[0], json + "\n");
+  fs.writeFileSync(files[1], snapshotToCsv(snapshot));
+  return files;
+}
+
+// a staker as saved, the amount as a decimal string
+export interface SerializedPTPStaker {
+  user: string;
+  amount: string;
+}
+
+// `ptp-snapshot.json` as written by `saveSnapshot`, the proofs left out
+export interface SerializedPTPSnapshot {
+  chainId: string;
+  contract: string;
+  token: string;
+  blockNumber: number;
+  blockHash: string;
+  total: string;
+  root: string;
+  stakers: SerializedPTPStaker[];
+  signer?: string;
+  signature?: string;
+}
+
+function isSerializedStaker(value: unknown): value is SerializedPTPStaker {
+  return isObject(value) && typeof value.user === "string" && isDecimal(value.amount);
+}
+
+/**
+ * Check a parsed snapshot file, throwing with the first field that does not match `SerializedPTPSnapshot`.
+ */
+export function validateSnapshot(data: unknown, file: string): SerializedPTPSnapshot {
+  const invalid = (what: string): never => {
+    throw new Error(`Invalid snapshot ${file}: ${what}`);
+  };
+  if (!isObject(data)) return invalid("expected an object");
+  for (const key of ["chainId", "total"]) {
+    if (!isDecimal(data[key])) invalid(`${key} must be a decimal string`);
+  }
+  for (const key of ["contract", "token", "blockHash", "root"]) {
+    if (typeof data[key] !== "string") invalid(`${key} must be a string`);
+  }
+  for (const key of ["signer", "signature"]) {
+    if (data[key] !== undefined && typeof data[key] !== "string") invalid(`${key} must be a string`);
+  }
+  if (typeof data.blockNumber !== "number" || !Number.isInteger(data.blockNumber)) {
+    return invalid("blockNumber must be a whole number");
+  }
+  if (!Array.isArray(data.stakers)) return invalid("stakers must be a list");
+  const stakers: unknown[] = data.stakers;
+  const index = stakers.findIndex((staker) => !isSerializedStaker(staker));
+  if (index !== -1) return invalid(`staker ${index} must have a user and a decimal amount`);
+  return {
+    chainId: String(data.chainId),
+    contract: String(data.contract),
+    token: String(data.token),
+    blockNumber: data.blockNumber,
+    blockHash: String(data.blockHash),
+    total: String(data.total),
+    root: String(data.root),
+    stakers: stakers.filter(isSerializedStaker),
+    signer: data.signer === undefined ? undefined : String(data.signer),
+    signature: data.signature === undefined ? undefined : String(data.signature),
+  };
+}
+
+/**
+ * Load a snapshot written by `saveSnapshot`, refusing it when the stakers do not match the root.
+ */
+export function loadSnapshot(file: string): PTPSnapshot {
+  const data = validateSnapshot(JSON.parse(fs.readFileSync(file, "utf-8")), file);
+  const snapshot: PTPSnapshot = {
+    chainId: BigInt(data.chainId),
+    contract: data.contract,
+    token: data.token,
+    blockNumber: data.blockNumber,
+    blockHash: data.blockHash,
+    total: BigInt(data.total),
+    root: data.root,
+    stakers: data.stakers.map((staker) => ({ user: staker.user, amount: BigInt(staker.amount) })),
+    signer: data.signer,
+    signature: data.signature,
+  };
+  if (ptpMerkleTree(snapshot.stakers).root !== snapshot.root) {
+    throw new Error(`The stakers in ${file} do not match its merkle root ${snapshot.root}`);
+  }
+  if (snapshot.signature !== undefined && !isSignedBy(snapshot, snapshot.signer ?? "")) {
+    throw new Error(`The signature in ${file} is not a sign-off of ${snapshot.root} by ${snapshot.signer}`);
+  }
+  return snapshot;
+}
@@ -0,0 +1,359 @@
+import { ZeroAddress } from "ethers";
+
+import { LPStakingRevertReasons as Reasons } from "../contracts/LPStakingErrors";
+
+export interface ModelUnlock {
+  amount: bigint;
+  token: string;
+  unlockAt: bigint;
+  id: bigint;
+  initialized: boolean;
+}
+
+export interface ModelEvent {
+  name: string;
+  args: (string | bigint)[];
+}
+
+export interface ModelOutcome {
+  // the require message or custom error name, undefined when the call succeeded
+  revert?: string;
+  events: ModelEvent[];
+}
+
+/**
+ * How a token moves when LPStaking pulls or pushes it:
+ * - `feeDivisor`: an ERC20 keeping `amount / feeDivisor` of every transfer, like the FeeToken mock
+ * - `failing`: an ERC20 whose transfers return false, like the FakeERC20 mock
+ */
+export type ModelToken = { standard: "erc20"; feeDivisor?: bigint; failing?: boolean } | { standard: "erc1155" };
+
+interface ModelState {
+  paused: boolean;
+  unlockDuration: bigint;
+  supportedLPTokens: Set<string>;
+  supportedERC1155Tokens: Set<string>;
+  supportedTokensArray: string[];
+  // keyed by `user:token`, and `user:token:id` for ERC1155 positions
+  balances: Map<string, bigint>;
+  unlocks: Map<string, ModelUnlock>;
+  tokenUserCount: Map<string, bigint>;
+  // what every account holds of each token, keyed like the balances, LPStaking itself included
+  wallets: Map<string, bigint>;
+}
+
+class ModelRevert extends Error {}
+
+const EMPTY_UNLOCK: ModelUnlock = { amount: 0n, token: ZeroAddress, unlockAt: 0n, id: 0n, initialized: false };
+
+function key(...parts: (string | bigint)[]): string {
+  return parts.map((part) => part.toString().toLowerCase()).join(":");
+}
+
+function check(condition: boolean, reason: string) {
+  if (!condition) throw new ModelRevert(reason);
+}
+
+/**
+ * The intended accounting of LPStaking in plain TypeScript: every staker's balance, one outstanding
+ * unlock per token (and id), the unlock duration, pause and the token support lifecycle.
+ *
+ * Calls take the sender and the block timestamp they are mined at, and revert with the require message
+ * or custom error name LPStaking is expected to revert with, leaving the state untouched. Every account
+ * is assumed to have approved LPStaking for all of its tokens.
+ */
+export class LPStakingModel {
+  public readonly address: string;
+
+  public readonly owner: string;
+
+  public readonly hexagate: string;
+
+  private readonly tokens = new Map<string, ModelToken>();
+
+  private state: ModelState = {
+    paused: false,
+    unlockDuration: 7n * 86400n,
+    supportedLPTokens: new Set(),
+    supportedERC1155Tokens: new Set(),
+    supportedTokensArray: [],
+    balances: new Map(),
+    unlocks: new Map(),
+    tokenUserCount: new Map(),
+    wallets: new Map(),
+  };
+
+  constructor(address: string, owner: string, hexagate: string) {
+    this.address = address;
+    this.owner = owner;
+    this.hexagate = hexagate;
+  }
+
+  /**
+   * Describe a token and what `holders` own of it, of token id `id` for ERC1155 tokens.
+   */
+  public addToken(token: string, behavior: ModelToken, holders: { [account: string]: bigint }, id?: bigint) {
+    this.tokens.set(token.toLowerCase(), behavior);
+    for (const [account, amount] of Object.entries(holders)) {
+      this.state.wallets.set(id === undefined ? key(account, token) : key(account, token, id), amount);
+    }
+  }
+
+  public get paused(): boolean {
+    return this.state.paused;
+  }
+
+  public get unlockDuration(): bigint {
+    return this.state.unlockDuration;
+  }
+
+  public getAllSupportedTokens(): string[] {
+    return [...this.state.supportedTokensArray];
+  }
+
+  public balanceOf(token: string, user: string, timestamp: bigint): bigint {
+    const unlock = this.userUnlocks(user, token);
+    if (unlock.initialized && timestamp >= unlock.unlockAt) return 0n;
+    return this.state.balances.get(key(user, token)) ?? 0n;
+  }
+
+  public balanceOf1155(token: string, id: bigint, user: string, timestamp: bigint): bigint {
+    const unlock = this.userUnlocks1155(user, token, id);
+    if (unlock.initialized && timestamp >= unlock.unlockAt) return 0n;
+    return this.state.balances.get(key(user, token, id)) ?? 0n;
+  }
+
+  public userUnlocks(user: string, token: string): ModelUnlock {
+    return { ...(this.state.unlocks.get(key(user, token)) ?? EMPTY_UNLOCK) };
+  }
+
+  public userUnlocks1155(user: string, token: string, id: bigint): ModelUnlock {
+    return { ...(this.state.unlocks.get(key(user, token, id)) ?? EMPTY_UNLOCK) };
+  }
+
+  public stake(sender: string, amount: bigint, token: string): ModelOutcome {
+    return this.call((events) => {
+      this.whenNotPaused();
+      check(this.state.supportedLPTokens.has(token.toLowerCase()), Reasons.TokenNotSupported);
+      check(amount !== 0n, Reasons.ZeroAmount);
+      const received = this.pull(sender, token, amount);
+      this.credit(key(sender, token), token, received);
+      events.push({ name: "Staked", args: [sender, received, token] });
+    });
+  }
+
+  public stake1155(sender: string, token: string, id: bigint, amount: bigint): ModelOutcome {
+    return this.call((events) => {
+      this.whenNotPaused();
+      check(this.state.supportedERC1155Tokens.has(token.toLowerCase()), Reasons.TokenNotSupported);
+      check(amount !== 0n, Reasons.ZeroAmount);
+      this.move(key(sender, token, id), key(this.address, token, id), amount, "ERC1155InsufficientBalance");
+      this.credit(key(sender, token, id), token, amount);
+      events.push({ name: "Staked1155", args: [sender, id, amount, token] });
+    });
+  }
+
+  public unlock(sender: string, token: string, timestamp: bigint): ModelOutcome {
+    return this.call((events) => {
+      this.whenNotPaused();
+      check(this.state.supportedLPTokens.has(token.toLowerCase()), Reasons.TokenNotSupported);
+      const balance = this.state.balances.get(key(sender, token)) ?? 0n;
+      check(balance !== 0n, Reasons.InsufficientBalance);
+      check(!this.userUnlocks(sender, token).initialized, Reasons.UnlockAlreadyInitialized);
+      const unlockAt = timestamp + this.state.unlockDuration;
+      this.state.unlocks.set(key(sender, token), { amount: balance, token, unlockAt, id: 0n, initialized: true });
+      events.push({ name: "UnlockStarted", args: [sender, balance, token, unlockAt] });
+    });
+  }
+
+  public unlock1155(sender: string, token: string, id: bigint, timestamp: bigint): ModelOutcome {
+    return this.call((events) => {
+      this.whenNotPaused();
+      check(this.state.supportedERC1155Tokens.has(token.toLowerCase()), Reasons.TokenNotSupported);
+      const balance = this.state.balances.get(key(sender, token, id)) ?? 0n;
+      check(balance !== 0n, Reasons.InsufficientBalance);
+      check(!this.userUnlocks1155(sender, token, id).initialized, Reasons.UnlockAlreadyInitialized);
+      const unlockAt = timestamp + this.state.unlockDuration;
+      this.state.unlocks.set(key(sender, token, id), { amount: balance, token, unlockAt, id, initialized: true });
+      events.push({ name: "UnlockStarted1155", args: [sender, id, balance, token, unlockAt] });
+    });
+  }
+
+  public unstake(sender: string, token: string, timestamp: bigint): ModelOutcome {
+    return this.call((events) => {
+      this.whenNotPaused();
+      check(this.state.supportedLPTokens.has(token.toLowerCase()), Reasons.TokenNotSupported);
+      const unlock = this.userUnlocks(sender, token);
+      check(timestamp >= unlock.unlockAt, Reasons.UnlockPeriodNotCompleted);
+      check(unlock.amount !== 0n, Reasons.NoUnlockedAmount);
+      this.push(sender, token, unlock.amount);
+      this.debit(key(sender, token), token, unlock.amount);
+      events.push({ name: "Unstaked", args: [sender, unlock.amount, token] });
+    });
+  }
+
+  public unstake1155(sender: string, token: string, id: bigint, timestamp: bigint): ModelOutcome {
+    return this.call((events) => {
+      this.whenNotPaused();
+      check(this.state.supportedERC1155Tokens.has(token.toLowerCase()), Reasons.TokenNotSupported);
+      const unlock = this.userUnlocks1155(sender, token, id);
+      check(timestamp >= unlock.unlockAt, Reasons.UnlockPeriodNotCompleted);
+      check(unlock.id === id, Reasons.TokenIdNotFound);
+      check(unlock.amount !== 0n, Reasons.NoUnlockedAmount);
+      this.move(key(this.address, token, id), key(sender, token, id), unlock.amount, "ERC1155InsufficientBalance");
+      this.debit(key(sender, token, id), token, unlock.amount);
+      events.push({ name: "Unstaked1155", args: [sender, id, unlock.amount, token] });
+    });
+  }
+
+  public pause(sender: string): ModelOutcome {
+    return this.call((events) => {
+      check(sender.toLowerCase() === this.hexagate.toLowerCase(), Reasons.NotHexagate);
+      this.state.paused = true;
+      events.push({ name: "Paused", args: [] });
+    });
+  }
+
+  public unpause(sender: string): ModelOutcome {
+    return this.call((events) => {
+      check(sender.toLowerCase() === this.hexagate.toLowerCase(), Reasons.NotHexagate);
+      this.state.paused = false;
+      events.push({ name: "Unpaused", args: [] });
+    });
+  }
+
+  public addLPTokenSupport(sender: string, token: string): ModelOutcome {
+    return this.call((events) => {
+      this.onlyOwner(sender);
+      this.addSupport(this.state.supportedLPTokens, token);
+      events.push({ name: "LPTokenSupportAdded", args: [token] });
+    });
+  }
+
+  public addERC1155TokenSupport(sender: string, token: string): ModelOutcome {
+    return this.call((events) => {
+      this.onlyOwner(sender);
+      this.addSupport(this.state.supportedERC1155Tokens, token);
+      events.push({ name: "ERC1155TokenSupportAdded", args: [token] });
+    });
+  }
+
+  public removeLPTokenSupport(sender: string, token: string): ModelOutcome {
+    return this.call((events) => {
+      this.onlyOwner(sender);
+      this.removeSupport(this.state.supportedLPTokens, token);
+      events.push({ name: "LPTokenSupportRemoved", args: [token] });
+    });
+  }
+
+  public removeERC1155TokenSupport(sender: string, token: string): ModelOutcome {
+    return this.call((events) => {
+      this.onlyOwner(sender);
+      this.removeSupport(this.state.supportedERC1155Tokens, token);
+      events.push({ name: "ERC1155TokenSupportRemoved", args: [token] });
+    });
+  }
+
+  public updateUnlockDuration(sender: string, duration: bigint): ModelOutcome {
+    return this.call((events) => {
+      this.onlyOwner(sender);
+      check(duration !== 0n, Reasons.ZeroUnlockDuration);
+      this.state.unlockDuration = duration;
+      events.push({ name: "UnlockDurationUpdated", args: [duration] });
+    });
+  }
+
+  // runs `body` on a copy of the state, kept only when nothing reverts
+  private call(body: (events: ModelEvent[]) => void): ModelOutcome {
+    const previous = this.state;
+    this.state = structuredClone(previous);
+    const events: ModelEvent[] = [];
+    try {
+      body(events);
+      return { events };
+    } catch (error) {
+      this.state = previous;
+      if (error instanceof ModelRevert) return { revert: error.message, events: [] };
+      throw error;
+    }
+  }
+
+  private whenNotPaused() {
+    check(!this.state.paused, Reasons.ContractPaused);
+  }
+
+  private onlyOwner(sender: string) {
+    check(sender.toLowerCase() === this.owner.toLowerCase(), "OwnableUnauthorizedAccount");
+  }
+
+  private addSupport(supported: Set<string>, token: string) {
+    check(!supported.has(token.toLowerCase()), Reasons.TokenAlreadySupported);
+    check(token !== ZeroAddress, Reasons.ZeroAddress);
+    supported.add(token.toLowerCase());
+    this.state.supportedTokensArray.push(token);
+  }
+
+  private removeSupport(supported: Set<string>, token: string) {
+    check(supported.has(token.toLowerCase()), Reasons.TokenNotSupported);
+    check((this.state.tokenUserCount.get(token.toLowerCase()) ?? 0n) === 0n, Reasons.UsersHaveStakedTokens);
+    supported.delete(token.toLowerCase());
+    const tokens = this.state.supportedTokensArray;
+    const index = tokens.findIndex((supportedToken) => supportedToken.toLowerCase() === token.toLowerCase());
+    if (index !== -1) {
+      tokens[index] = tokens[tokens.length - 1];
+      tokens.pop();
+    }
+  }
+
+  // a staker counts once per token, and once per id for ERC1155 tokens
+  private credit(position: string, token: string, amount: bigint) {
+    const balance = this.state.balances.get(position) ?? 0n;
+    if (balance === 0n) this.state.tokenUserCount.set(token.toLowerCase(), this.userCount(token) + 1n);
+    this.state.balances.set(position, balance + amount);
+  }
+
+  private debit(position: string, token: string, amount: bigint) {
+    const balance = (this.state.balances.get(position) ?? 0n) - amount;
+    this.state.balances.set(position, balance);
+    this.state.unlocks.delete(position);
+    if (balance === 0n) this.state.tokenUserCount.set(token.toLowerCase(), this.userCount(token) - 1n);
+  }
+
+  private userCount(token: string): bigint {
+    return this.state.tokenUserCount.get(token.toLowerCase()) ?? 0n;
+  }
+
+  private move(from: string, to: string, amount: bigint, insufficient: string) {
+    const balance = this.state.wallets.get(from) ?? 0n;
+    check(balance >= amount, insufficient);
+    this.state.wallets.set(from, balance - amount);
+    this.state.wallets.set(to, (this.state.wallets.get(to) ?? 0n) + amount);
+  }
+
+  // the ERC20 transfer into LPStaking, returning what it actually received
+  private pull(sender: string, token: string, amount: bigint): bigint {
+    const behavior = this.erc20(token);
+    check(!behavior.failing, "SafeERC20FailedOperation");
+    const fee = behavior.feeDivisor === undefined ? 0n : amount / behavior.feeDivisor;
+    this.move(key(sender, token), key(this.address, token), amount, "ERC20InsufficientBalance");
+    this.state.wallets.set(key(this.address, token), (this.state.wallets.get(key(this.address, token)) ?? 0n) - fee);
+    return amount - fee;
+  }
+
+  // the fee of a transfer out of LPStaking is also paid by LPStaking, it sends the full amount
+  private push(recipient: string, token: string, amount: bigint) {
+    const behavior = this.erc20(token);
+    check(!behavior.failing, "SafeERC20FailedOperation");
+    const fee = behavior.feeDivisor === undefined ? 0n : amount / behavior.feeDivisor;
+    this.move(key(this.address, token), key(recipient, token), amount, "ERC20InsufficientBalance");
+    this.state.wallets.set(key(recipient, token), this.state.wallets.get(key(recipient, token))! - fee);
+  }
+
+  private erc20(token: string): { feeDivisor?: bigint; failing?: boolean } {
+    const behavior = this.tokens.get(token.toLowerCase());
+    if (behavior?.standard !== "erc20") {
+      throw new Error(`The model does not know the ERC20 ${token}, add it with addToken`);
+    }
+    return behavior;
+  }
+}
@@ -0,0 +1,353 @@
+import { Signer, TransactionResponse } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { IERC1155__factory, IERC20__factory } from "@/types/index";
+import type { LPStaking } from "@/types/index";
+
+import { REVERTING_CALL_GAS_LIMIT, revertOf } from "../contracts/simulation";
+import { LPStakingModel, ModelEvent, ModelOutcome, ModelToken, ModelUnlock } from "./LPStakingModel";
+
+export interface DifferentialWorld {
+  lpStaking: LPStaking;
+  owner: Signer;
+  hexagate: Signer;
+  users: Signer[];
+  // the ERC20 tokens, referred to by index in the operations
+  erc20s: { name: string; address: string; behavior: ModelToken }[];
+  erc1155: string;
+  // the ERC1155 ids the operations use
+  ids: bigint[];
+}
+
+// `by` sends an admin call from that user instead of the owner or the hexagate
+export type Operation =
+  | { kind: "stake"; user: number; token: number; amount: bigint }
+  | { kind: "stake1155"; user: number; id: bigint; amount: bigint }
+  | { kind: "unlock" | "unstake"; user: number; token: number }
+  | { kind: "unlock1155" | "unstake1155"; user: number; id: bigint }
+  | { kind: "pause" | "unpause"; by?: number }
+  | { kind: "addLPTokenSupport" | "removeLPTokenSupport"; token: number; by?: number }
+  | { kind: "addERC1155TokenSupport" | "removeERC1155TokenSupport"; by?: number }
+  | { kind: "updateUnlockDuration"; duration: bigint; by?: number }
+  | { kind: "advance"; seconds: number };
+
+export interface TraceStep {
+  operation: string;
+  outcome: ModelOutcome;
+  // the view differences allowed by `knownDivergences` after the step
+  knownDivergences?: string[];
+}
+
+export interface DifferentialOptions {
+  // the views LPStaking is known to disagree with the model on, e.g. `balanceOf1155`: their differences
+  // are recorded in the trace instead of failing the run
+  knownDivergences?: string[];
+}
+
+async function holdings(world: DifferentialWorld, holders: string[], token: string, id?: bigint) {
+  const runner = world.lpStaking.runner!;
+  const balances = await Promise.all(
+    holders.map(async (holder) => {
+      const balance =
+        id === undefined
+          ? await IERC20__factory.connect(token, runner).balanceOf(holder)
+          : await IERC1155__factory.connect(token, runner).balanceOf(holder, id);
+      return [holder, balance] as const;
+    })
+  );
+  return Object.fromEntries(balances);
+}
+
+/**
+ * A model of `world.lpStaking`, which nobody may have staked in yet, with the same supported tokens,
+ * pause and unlock duration, and what the users and LPStaking hold of every token.
+ */
+export async function createModel(world: DifferentialWorld): Promise<LPStakingModel> {
+  const { lpStaking } = world;
+  const [address, owner, hexagate] = [
+    await lpStaking.getAddress(),
+    await world.owner.getAddress(),
+    await world.hexagate.getAddress(),
+  ];
+  const model = new LPStakingModel(address, owner, hexagate);
+  const holders = [address, ...(await Promise.all(world.users.map((user) => user.getAddress())))];
+  for (const token of world.erc20s) {
+    model.addToken(token.address, token.behavior, await holdings(world, holders, token.address));
+  }
+  for (const id of world.ids) {
+    model.addToken(world.erc1155, { standard: "erc1155" }, await holdings(world, holders, world.erc1155, id), id);
+  }
+
+  // replayed through the model itself, so that it starts from the same configuration
+  for (const token of await lpStaking.getAllSupportedTokens()) {
+    if (await lpStaking.supportedLPTokens(token)) model.addLPTokenSupport(owner, token);
+    else model.addERC1155TokenSupport(owner, token);
+  }
+  const unlockDuration = await lpStaking.unlockDuration();
+  if (unlockDuration !== model.unlockDuration) model.updateUnlockDuration(owner, unlockDuration);
+  if (await lpStaking.paused()) model.pause(hexagate);
+  return model;
+}
+
+export function describeOperation(world: DifferentialWorld, operation: Operation): string {
+  const token = (index: number) => world.erc20s[index].name;
+  const admin = (by: number | undefined, role: string) => (by === undefined ? role : `user${by}`);
+  switch (operation.kind) {
+    case "stake":
+      return `user${operation.user}.stake(${operation.amount}, ${token(operation.token)})`;
+    case "stake1155":
+      return `user${operation.user}.stake1155(id ${operation.id}, ${operation.amount})`;
+    case "unlock":
+    case "unstake":
+      return `user${operation.user}.${operation.kind}(${token(operation.token)})`;
+    case "unlock1155":
+    case "unstake1155":
+      return `user${operation.user}.${operation.kind}(id ${operation.id})`;
+    case "pause":
+    case "unpause":
+      return `${admin(operation.by, "hexagate")}.${operation.kind}()`;
+    case "addLPTokenSupport":
+    case "removeLPTokenSupport":
+      return `${admin(operation.by, "owner")}.${operation.kind}(${token(operation.token)})`;
+    case "addERC1155TokenSupport":
+    case "removeERC1155TokenSupport":
+      return `${admin(operation.by, "owner")}.${operation.kind}()`;
+    case "updateUnlockDuration":
+      return `${admin(operation.by, "owner")}.updateUnlockDuration(${operation.duration})`;
+    case "advance":
+      return `advance(${operation.seconds}s)`;
+  }
+}
+
+function describeOutcome(outcome: ModelOutcome): string {
+  if (outcome.revert !== undefined) return `reverted ${outcome.revert}`;
+  if (outcome.events.length === 0) return "ok";
+  return outcome.events.map((event) => `${event.name}(${event.args.join(", ")})`).join(", ");
+}
+
+function normalize(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    typeof v === "bigint" ? v.toString() : typeof v === "string" ? v.toLowerCase() : v
+  );
+}
+
+/**
+ * Runs the same operations on LPStaking and on the model, comparing the outcome and emitted events of
+ * every call, and every view after each step. Throws with the trace so far at the first divergence that is
+ * not a known one.
+ */
+export async function runDifferential(
+  hre: HardhatRuntimeEnvironment,
+  world: DifferentialWorld,
+  model: LPStakingModel,
+  operations: Operation[],
+  options: DifferentialOptions = {}
+): Promise<TraceStep[]> {
+  const { lpStaking } = world;
+  const provider = hre.network.provider;
+  const users = await Promise.all(world.users.map((user) => user.getAddress()));
+  const [owner, hexagate] = [await world.owner.getAddress(), await world.hexagate.getAddress()];
+  let clock = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+  const trace: TraceStep[] = [];
+
+  const diverged = (step: string, differences: string[]) => {
+    const lines = trace.map((entry, index) => {
+      const known = entry.knownDivergences ? ` (known divergence: ${entry.knownDivergences.join("; ")})` : "";
+      return `  ${index + 1}. ${entry.operation} -> ${describeOutcome(entry.outcome)}${known}`;
+    });
+    return new Error(
+      [
+        `LPStaking diverged from the model at step ${trace.length}: ${step}`,
+        ...differences.map((difference) => `  ${difference}`),
+        "trace:",
+        ...lines,
+      ].join("\n")
+    );
+  };
+
+  // sends the call mined at `clock`, and collects what LPStaking emitted or what it reverted with
+  const send = async (call: () => Promise<TransactionResponse>): Promise<ModelOutcome> => {
+    await provider.send("evm_setNextBlockTimestamp", [Number(clock)]);
+    try {
+      const receipt = (await (await call()).wait())!;
+      const address = (await lpStaking.getAddress()).toLowerCase();
+      const events: ModelEvent[] = receipt.logs
+        .filter((log) => log.address.toLowerCase() === address)
+        .map((log) => lpStaking.interface.parseLog(log)!)
+        .map((log) => ({ name: log.name, args: [...log.args] }));
+      return { events };
+    } catch (error) {
+      return { revert: revertOf(error, lpStaking.interface), events: [] };
+    }
+  };
+
+  const apply = (operation: Operation): [ModelOutcome, () => Promise<TransactionResponse>] | undefined => {
+    const overrides = { gasLimit: REVERTING_CALL_GAS_LIMIT };
+    const sender = (by: number | undefined, role: Signer) => (by === undefined ? role : world.users[by]);
+    const senderAddress = (by: number | undefined, role: string) => (by === undefined ? role : users[by]);
+    switch (operation.kind) {
+      case "stake": {
+        const token = world.erc20s[operation.token].address;
+        return [
+          model.stake(users[operation.user], operation.amount, token),
+          () => lpStaking.connect(world.users[operation.user]).stake(operation.amount, token, overrides),
+        ];
+      }
+      case "stake1155":
+        return [
+          model.stake1155(users[operation.user], world.erc1155, operation.id, operation.amount),
+          () =>
+            lpStaking
+              .connect(world.users[operation.user])
+              .stake1155(world.erc1155, operation.id, operation.amount, overrides),
+        ];
+      case "unlock": {
+        const token = world.erc20s[operation.token].address;
+        return [
+          model.unlock(users[operation.user], token, clock),
+          () => lpStaking.connect(world.users[operation.user]).unlock(token, overrides),
+        ];
+      }
+      case "unstake": {
+        const token = world.erc20s[operation.token].address;
+        return [
+          model.unstake(users[operation.user], token, clock),
+          () => lpStaking.connect(world.users[operation.user]).unstake(token, overrides),
+        ];
+      }
+      case "unlock1155":
+        return [
+          model.unlock1155(users[operation.user], world.erc1155, operation.id, clock),
+          () => lpStaking.connect(world.users[operation.user]).unlock1155(world.erc1155, operation.id, overrides),
+        ];
+      case "unstake1155":
+        return [
+          model.unstake1155(users[operation.user], world.erc1155, operation.id, clock),
+          () => lpStaking.connect(world.users[operation.user]).unstake1155(world.erc1155, operation.id, overrides),
+        ];
+      case "pause":
+      case "unpause": {
+        const from = senderAddress(operation.by, hexagate);
+        const contract = lpStaking.connect(sender(operation.by, world.hexagate));
+        return operation.kind === "pause"
+          ? [model.pause(from), () => contract.pause(overrides)]
+          : [model.unpause(from), () => contract.unpause(overrides)];
+      }
+      case "addLPTokenSupport":
+      case "removeLPTokenSupport": {
+        const token = world.erc20s[operation.token].address;
+        const from = senderAddress(operation.by, owner);
+        const contract = lpStaking.connect(sender(operation.by, world.owner));
+        return operation.kind === "addLPTokenSupport"
+          ? [model.addLPTokenSupport(from, token), () => contract.addLPTokenSupport(token, overrides)]
+          : [model.removeLPTokenSupport(from, token), () => contract.removeLPTokenSupport(token, overrides)];
+      }
+      case "addERC1155TokenSupport":
+      case "removeERC1155TokenSupport": {
+        const from = senderAddress(operation.by, owner);
+        const contract = lpStaking.connect(sender(operation.by, world.owner));
+        return operation.kind === "addERC1155TokenSupport"
+          ? [
+              model.addERC1155TokenSupport(from, world.erc1155),
+              () => contract.addERC1155TokenSupport(world.erc1155, overrides),
+            ]
+          : [
+              model.removeERC1155TokenSupport(from, world.erc1155),
+              () => contract.removeERC1155TokenSupport(world.erc1155, overrides),
+            ];
+      }
+      case "updateUnlockDuration":
+        return [
+          model.updateUnlockDuration(senderAddress(operation.by, owner), operation.duration),
+          () =>
+            lpStaking.connect(sender(operation.by, world.owner)).updateUnlockDuration(operation.duration, overrides),
+        ];
+      case "advance":
+        return undefined;
+    }
+  };
+
+  const isKnown = (difference: string) =>
+    (options.knownDivergences ?? []).some(
+      (view) => difference.startsWith(`${view}(`) || difference.startsWith(`${view}:`)
+    );
+
+  const compareViews = async (): Promise<string[]> => {
+    const differences: string[] = [];
+    const compare = (view: string, actual: unknown, expected: unknown) => {
+      if (normalize(actual) !== normalize(expected)) {
+        differences.push(`${view}: contract ${normalize(actual)}, model ${normalize(expected)}`);
+      }
+    };
+    const unlockOf = (unlock: ModelUnlock) => [
+      unlock.amount,
+      unlock.token,
+      unlock.unlockAt,
+      unlock.id,
+      unlock.initialized,
+    ];
+
+    compare("paused", await lpStaking.paused(), model.paused);
+    compare("unlockDuration", await lpStaking.unlockDuration(), model.unlockDuration);
+    compare("getAllSupportedTokens", await lpStaking.getAllSupportedTokens(), model.getAllSupportedTokens());
+    for (const [index, user] of users.entries()) {
+      for (const token of world.erc20s) {
+        const view = (name: string) => `${name}(${token.name}, user${index})`;
+        compare(
+          view("balanceOf"),
+          await lpStaking.balanceOf(token.address, user),
+          model.balanceOf(token.address, user, clock)
+        );
+        compare(
+          view("userUnlocks"),
+          [...(await lpStaking.userUnlocks(user, token.address))],
+          unlockOf(model.userUnlocks(user, token.address))
+        );
+      }
+      for (const id of world.ids) {
+        const view = (name: string) => `${name}(id ${id}, user${index})`;
+        compare(
+          view("balanceOf1155"),
+          await lpStaking.balanceOf1155(world.erc1155, id, user),
+          model.balanceOf1155(world.erc1155, id, user, clock)
+        );
+        compare(
+          view("userUnlocks1155"),
+          [...(await lpStaking.userUnlocks1155(user, world.erc1155, id))],
+          unlockOf(model.userUnlocks1155(user, world.erc1155, id))
+        );
+      }
+    }
+    return differences;
+  };
+
+  for (const operation of operations) {
+    const description = describeOperation(world, operation);
+    if (operation.kind === "advance") {
+      clock += BigInt(operation.seconds);
+      await provider.send("evm_mine", [Number(clock)]);
+      trace.push({ operation: description, outcome: { events: [] } });
+    } else {
+      clock += 1n;
+      const [expected, call] = apply(operation)!;
+      const actual = await send(call);
+      trace.push({ operation: description, outcome: actual });
+      if (actual.revert !== expected.revert) {
+        throw diverged(description, [
+          `outcome: contract ${describeOutcome(actual)}, model ${describeOutcome(expected)}`,
+        ]);
+      }
+      if (normalize(actual.events) !== normalize(expected.events)) {
+        throw diverged(description, [
+          `events: contract ${describeOutcome(actual)}, model ${describeOutcome(expected)}`,
+        ]);
+      }
+    }
+    const differences = await compareViews();
+    const known = differences.filter((difference) => isKnown(difference));
+    if (known.length > 0) trace[trace.length - 1].knownDivergences = known;
+    const unexpected = differences.filter((difference) => !isKnown(difference));
+    if (unexpected.length > 0) throw diverged(description, unexpected);
+  }
+  return trace;
+}
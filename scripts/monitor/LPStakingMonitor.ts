@@ -0,0 +1,243 @@
+import { Signer, ZeroAddress } from "ethers";
+
+import { IERC1155__factory, IERC20__factory } from "@/types/index";
+import type { LPStaking } from "@/types/index";
+
+import { PositionEvent, fetchPositionEvents } from "../indexer/events";
+import { AdminEvent, Alert, BlockContext, CustodyChange, MonitorRule } from "./rules";
+
+export interface MonitorOptions {
+  rules: MonitorRule[];
+  // the hexagate signer, alerts are only reported when it is missing
+  pauser?: Signer;
+  // the first block to evaluate, defaults to the block after the current head
+  startBlock?: number;
+  onAlert?: (alerts: Alert[]) => void | Promise<void>;
+  // called when processing fails while subscribed to blocks
+  onError?: (error: unknown) => void;
+}
+
+export interface PauseResult {
+  blockNumber: number;
+  transactionHash: string;
+  alerts: Alert[];
+}
+
+interface Asset {
+  token: string;
+  id: bigint;
+  is1155: boolean;
+}
+
+function assetKey(token: string, id: bigint, is1155: boolean): string {
+  return is1155 ? `erc1155:${id}:${token.toLowerCase()}` : `erc20:${token.toLowerCase()}`;
+}
+
+/**
+ * Evaluates monitoring rules on every LPStaking block and pauses the contract from the hexagate
+ * signer as soon as one of them fires.
+ */
+export class LPStakingMonitor {
+  public readonly contract: LPStaking;
+
+  public readonly rules: MonitorRule[];
+
+  public readonly alerts: Alert[] = [];
+
+  public paused?: PauseResult;
+
+  private readonly pauser?: Signer;
+
+  private readonly onAlert?: MonitorOptions["onAlert"];
+
+  private readonly onError?: MonitorOptions["onError"];
+
+  private blockNumber?: number;
+
+  // the alerts of an evaluated block whose pause has not gone through yet, retried on the next poll
+  private pendingPause?: { blockNumber: number; alerts: Alert[] };
+
+  private readonly assets = new Map<string, Asset>();
+
+  // custody of every known asset at `blockNumber`
+  private readonly custody = new Map<string, bigint>();
+
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private listener?: () => void;
+
+  constructor(contract: LPStaking, options: MonitorOptions) {
+    this.contract = contract;
+    this.rules = options.rules;
+    this.pauser = options.pauser;
+    this.onAlert = options.onAlert;
+    this.onError = options.onError;
+    if (options.startBlock !== undefined) this.blockNumber = options.startBlock - 1;
+  }
+
+  /**
+   * The last block evaluated.
+   */
+  public get processedBlock(): number | undefined {
+    return this.blockNumber;
+  }
+
+  /**
+   * Evaluate every block up to the current head, after retrying the pause of an earlier alert that failed.
+   */
+  public async poll(): Promise<Alert[]> {
+    const provider = this.contract.runner!.provider!;
+    await this.pausePending();
+    const head = await provider.getBlockNumber();
+    if (this.blockNumber === undefined) this.blockNumber = head;
+    const alerts: Alert[] = [];
+    while (this.blockNumber < head) {
+      alerts.push(...(await this.processBlock(this.blockNumber + 1)));
+    }
+    return alerts;
+  }
+
+  /**
+   * Evaluate new blocks as they arrive, until `stop` is called.
+   */
+  public start() {
+    const provider = this.contract.runner!.provider!;
+    this.listener = () => {
+      this.queue = this.queue.then(() => this.poll()).catch((error) => this.onError?.(error));
+    };
+    provider.on("block", this.listener);
+  }
+
+  public async stop() {
+    if (this.listener) await this.contract.runner!.provider!.off("block", this.listener);
+    this.listener = undefined;
+    await this.queue;
+  }
+
+  private async processBlock(blockNumber: number): Promise<Alert[]> {
+    const provider = this.contract.runner!.provider!;
+    const block = await provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Failed to fetch block ${blockNumber}.`);
+    }
+    const events = await fetchPositionEvents(this.contract, blockNumber, blockNumber);
+    const context: BlockContext = {
+      blockNumber,
+      timestamp: block.timestamp,
+      events,
+      adminEvents: await this.fetchAdminEvents(blockNumber),
+      custody: await this.custodyChanges(blockNumber, events),
+    };
+    this.blockNumber = blockNumber;
+
+    // the rules and the custody have moved past the block, so a failed alert or pause is not
+    // evaluated again: the pause stays pending until a poll gets it through
+    const alerts = this.rules.flatMap((rule) => rule.evaluate(context));
+    if (alerts.length === 0) return alerts;
+    this.alerts.push(...alerts);
+    this.pendingPause = { blockNumber, alerts };
+    try {
+      if (this.onAlert) await this.onAlert(alerts);
+    } finally {
+      await this.pausePending();
+    }
+    return alerts;
+  }
+
+  private async pausePending() {
+    if (this.pendingPause === undefined) return;
+    await this.pause(this.pendingPause.blockNumber, this.pendingPause.alerts);
+    this.pendingPause = undefined;
+  }
+
+  private async pause(blockNumber: number, alerts: Alert[]) {
+    if (this.pauser === undefined || (await this.contract.paused())) return;
+    const pauser = await this.pauser.getAddress();
+    if (pauser.toLowerCase() !== (await this.contract.hexagate()).toLowerCase()) {
+      throw new Error(`${pauser} is no longer the hexagate of LPStaking, cannot pause`);
+    }
+    const tx = await this.contract.connect(this.pauser).pause();
+    await tx.wait();
+    this.paused = { blockNumber, transactionHash: tx.hash, alerts };
+  }
+
+  private async fetchAdminEvents(blockNumber: number): Promise<AdminEvent[]> {
+    const { filters } = this.contract;
+    const [hexagate, duration, started, transferred] = await Promise.all([
+      this.contract.queryFilter(filters.HexagateAddressUpdated, blockNumber, blockNumber),
+      this.contract.queryFilter(filters.UnlockDurationUpdated, blockNumber, blockNumber),
+      this.contract.queryFilter(filters.OwnershipTransferStarted, blockNumber, blockNumber),
+      this.contract.queryFilter(filters.OwnershipTransferred, blockNumber, blockNumber),
+    ]);
+    return [
+      ...hexagate.map(
+        (log): AdminEvent => ({
+          kind: "HexagateAddressUpdated",
+          transactionHash: log.transactionHash,
+          value: log.args.newAddress,
+        })
+      ),
+      ...duration.map(
+        (log): AdminEvent => ({
+          kind: "UnlockDurationUpdated",
+          transactionHash: log.transactionHash,
+          value: log.args.newDuration.toString(),
+        })
+      ),
+      ...started.map(
+        (log): AdminEvent => ({
+          kind: "OwnershipTransferStarted",
+          transactionHash: log.transactionHash,
+          value: log.args.newOwner,
+        })
+      ),
+      // the initializer sets the first owner
+      ...transferred
+        .filter((log) => log.args.previousOwner !== ZeroAddress)
+        .map(
+          (log): AdminEvent => ({
+            kind: "OwnershipTransferred",
+            transactionHash: log.transactionHash,
+            value: log.args.newOwner,
+          })
+        ),
+    ];
+  }
+
+  private async custodyChanges(blockNumber: number, events: PositionEvent[]): Promise<CustodyChange[]> {
+    for (const token of await this.contract.getAllSupportedTokens({ blockTag: blockNumber })) {
+      if (await this.contract.supportedLPTokens(token, { blockTag: blockNumber })) {
+        this.assets.set(assetKey(token, 0n, false), { token, id: 0n, is1155: false });
+      }
+    }
+    // ERC1155 ids are only known once staked
+    for (const event of events) {
+      this.assets.set(assetKey(event.token, event.id, event.is1155), {
+        token: event.token,
+        id: event.id,
+        is1155: event.is1155,
+      });
+    }
+
+    const changes: CustodyChange[] = [];
+    for (const [key, asset] of this.assets) {
+      const matching = events.filter((event) => assetKey(event.token, event.id, event.is1155) === key);
+      const sum = (kind: PositionEvent["kind"]) =>
+        matching.filter((event) => event.kind === kind).reduce((total, event) => total + event.amount, 0n);
+      const before = this.custody.get(key) ?? (await this.custodyOf(asset, blockNumber - 1));
+      const after = await this.custodyOf(asset, blockNumber);
+      this.custody.set(key, after);
+      changes.push({ ...asset, before, after, staked: sum("Staked"), unstaked: sum("Unstaked") });
+    }
+    return changes;
+  }
+
+  private async custodyOf(asset: Asset, blockTag: number): Promise<bigint> {
+    const runner = this.contract.runner!;
+    const address = await this.contract.getAddress();
+    if (asset.is1155) {
+      return IERC1155__factory.connect(asset.token, runner).balanceOf(address, asset.id, { blockTag });
+    }
+    return IERC20__factory.connect(asset.token, runner).balanceOf(address, { blockTag });
+  }
+}
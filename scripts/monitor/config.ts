@@ -0,0 +1,45 @@
+import * as fs from "fs";
+
+import { MonitorRule, adminChangeRule, custodyDropRule, unstakeVolumeRule } from "./rules";
+
+export type RuleConfig =
+  | { type: "unstakeVolume"; token?: string; threshold: string; window: number }
+  | { type: "custodyDrop"; tolerance?: string }
+  | { type: "adminChange" };
+
+export interface MonitorConfig {
+  rules: RuleConfig[];
+}
+
+// used when no config file is given, any unexplained custody drop or admin change pauses
+export const DEFAULT_MONITOR_CONFIG: MonitorConfig = {
+  rules: [{ type: "custodyDrop" }, { type: "adminChange" }],
+};
+
+export function loadMonitorConfig(file: string): MonitorConfig {
+  const config = JSON.parse(fs.readFileSync(file, "utf-8")) as MonitorConfig;
+  if (!Array.isArray(config.rules)) {
+    throw new Error(`Missing rules in ${file}`);
+  }
+  // validate eagerly, so a bad config fails before the monitor starts
+  createRules(config);
+  return config;
+}
+
+export function createRules(config: MonitorConfig): MonitorRule[] {
+  return config.rules.map((rule) => {
+    switch (rule.type) {
+      case "unstakeVolume":
+        if (rule.threshold === undefined || !(rule.window > 0)) {
+          throw new Error("unstakeVolume rules need a threshold and a window in seconds");
+        }
+        return unstakeVolumeRule({ token: rule.token, threshold: BigInt(rule.threshold), window: rule.window });
+      case "custodyDrop":
+        return custodyDropRule(BigInt(rule.tolerance ?? 0));
+      case "adminChange":
+        return adminChangeRule();
+      default:
+        throw new Error(`Unknown monitor rule type ${(rule as { type: string }).type}`);
+    }
+  });
+}
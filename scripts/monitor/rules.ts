@@ -0,0 +1,132 @@
+import { PositionEvent } from "../indexer/events";
+
+export interface AdminEvent {
+  kind: "HexagateAddressUpdated" | "UnlockDurationUpdated" | "OwnershipTransferStarted" | "OwnershipTransferred";
+  transactionHash: string;
+  // the new hexagate, unlock duration or owner
+  value: string;
+}
+
+export interface CustodyChange {
+  token: string;
+  // the ERC1155 token id, always 0 for ERC20 tokens
+  id: bigint;
+  is1155: boolean;
+  // what LPStaking held at the end of the previous block and of this block
+  before: bigint;
+  after: bigint;
+  // the amounts moved by `Staked` and `Unstaked` events in this block
+  staked: bigint;
+  unstaked: bigint;
+}
+
+export interface BlockContext {
+  blockNumber: number;
+  timestamp: number;
+  events: PositionEvent[];
+  adminEvents: AdminEvent[];
+  custody: CustodyChange[];
+}
+
+export interface Alert {
+  rule: string;
+  blockNumber: number;
+  message: string;
+}
+
+/**
+ * A monitoring rule, evaluated once per block in chain order. Rules may keep state across blocks.
+ */
+export interface MonitorRule {
+  name: string;
+  evaluate(block: BlockContext): Alert[];
+}
+
+export interface UnstakeVolumeOptions {
+  // the token to watch, every token is watched separately when omitted
+  token?: string;
+  // the largest accepted volume per window, in token base units
+  threshold: bigint;
+  // the length of the sliding window in seconds
+  window: number;
+}
+
+/**
+ * Fires when the amount unstaked of a token within a sliding window exceeds the threshold.
+ */
+export function unstakeVolumeRule(options: UnstakeVolumeOptions): MonitorRule {
+  const name = "unstakeVolume";
+  const history = new Map<string, { timestamp: number; amount: bigint }[]>();
+  const watched = options.token?.toLowerCase();
+
+  return {
+    name,
+    evaluate(block) {
+      const alerts: Alert[] = [];
+      const touched = new Set<string>();
+      for (const event of block.events) {
+        const token = event.token.toLowerCase();
+        if (event.kind !== "Unstaked" || (watched !== undefined && token !== watched)) continue;
+        const entries = history.get(token) ?? [];
+        entries.push({ timestamp: block.timestamp, amount: event.amount });
+        history.set(token, entries);
+        touched.add(token);
+      }
+
+      for (const [token, entries] of history) {
+        const recent = entries.filter((entry) => entry.timestamp > block.timestamp - options.window);
+        history.set(token, recent);
+        const volume = recent.reduce((sum, entry) => sum + entry.amount, 0n);
+        // only alert on the blocks that push the volume over the threshold
+        if (touched.has(token) && volume > options.threshold) {
+          alerts.push({
+            rule: name,
+            blockNumber: block.blockNumber,
+            message: `${volume} of ${token} unstaked within ${options.window}s, above ${options.threshold}`,
+          });
+        }
+      }
+      return alerts;
+    },
+  };
+}
+
+/**
+ * Fires when the custody of an asset drops by more than its `Staked` and `Unstaked` events explain.
+ */
+export function custodyDropRule(tolerance = 0n): MonitorRule {
+  const name = "custodyDrop";
+  return {
+    name,
+    evaluate(block) {
+      return block.custody
+        .filter((change) => change.before + change.staked - change.unstaked - change.after > tolerance)
+        .map((change) => {
+          const asset = change.is1155 ? `${change.token} id ${change.id}` : change.token;
+          const missing = change.before + change.staked - change.unstaked - change.after;
+          return {
+            rule: name,
+            blockNumber: block.blockNumber,
+            message: `custody of ${asset} dropped by ${missing} more than the unstaked amount`,
+          };
+        });
+    },
+  };
+}
+
+/**
+ * Fires on every change of the hexagate address, the unlock duration or the owner.
+ */
+export function adminChangeRule(): MonitorRule {
+  const name = "adminChange";
+  return {
+    name,
+    evaluate(block) {
+      return block.adminEvents.map((event) => ({
+        rule: name,
+        blockNumber: block.blockNumber,
+        message: `${event.kind}(${event.value}) in ${event.transactionHash}`,
+      }));
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { ProviderWrapper } from "hardhat/plugins";
+import { EIP1193Provider, RequestArguments } from "hardhat/types";
+
+/**
+ * Impersonates `addresses` on a local node before the first request, and answers `eth_accounts`
+ * with them so that `hre.ethers.getSigners()` returns them in order.
+ */
+export class ImpersonatingProvider extends ProviderWrapper {
+  private impersonated?: Promise<void>;
+
+  constructor(provider: EIP1193Provider, private readonly addresses: string[]) {
+    super(provider);
+  }
+
+  public async request(args: RequestArguments): Promise<unknown> {
+    this.impersonated ??= this.impersonate();
+    await this.impersonated;
+    if (args.method === "eth_accounts" || args.method === "eth_requestAccounts") return this.addresses;
+    return this._wrappedProvider.request(args);
+  }
+
+  private async impersonate() {
+    for (const address of this.addresses) {
+      try {
+        await this._wrappedProvider.request({ method: "hardhat_impersonateAccount", params: [address] });
+      } catch (error) {
+        this.impersonated = undefined;
+        throw new Error(`Cannot impersonate ${address}, is the network a local node? ${(error as Error).message}`);
+      }
+    }
+  }
+}
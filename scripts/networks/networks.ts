@@ -0,0 +1,168 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Wallet } from "ethers";
+import { HttpNetworkAccountsConfig, NetworksUserConfig } from "hardhat/types";
+
+/**
+ * Where the accounts of a network come from. Secrets are never written in the definitions,
+ * only the names of the environment variables holding them:
+ * - `privateKey`: a single key
+ * - `mnemonic`: `count` accounts derived from `path` (the default one when omitted)
+ * - `keystore`: an encrypted JSON keystore, decrypted with the password in `passwordEnv`
+ * - `unlocked`: the accounts the node itself has unlocked
+ * - `impersonate`: arbitrary addresses impersonated on a local node (hardhat node, anvil)
+ */
+export type SignerSource =
+  | { type: "privateKey"; env: string }
+  | { type: "mnemonic"; env: string; path?: string; count?: number; passphraseEnv?: string }
+  | { type: "keystore"; file: string; passwordEnv: string }
+  | { type: "unlocked" }
+  | { type: "impersonate"; addresses: string[] };
+
+export interface NetworkDefinition {
+  // the RPC url, `urlEnv` overrides it when that variable is set
+  url?: string;
+  urlEnv?: string;
+  chainId?: number;
+  // the node's own accounts when omitted
+  signer?: SignerSource;
+}
+
+export interface NetworkDefinitions {
+  [name: string]: NetworkDefinition;
+}
+
+export interface ResolvedNetwork {
+  url: string;
+  accounts: HttpNetworkAccountsConfig;
+}
+
+type Env = { [name: string]: string | undefined };
+
+export const DEFAULT_NETWORKS: NetworkDefinitions = {
+  fuji: {
+    url: "https://api.avax-test.network/ext/bc/C/rpc",
+    urlEnv: "FUJI_RPC_URL",
+    chainId: 43113,
+    signer: { type: "privateKey", env: "PRIVATE_KEY_MAINNET" },
+  },
+  avalanche: {
+    url: "https://api.avax.network/ext/bc/C/rpc",
+    urlEnv: "AVALANCHE_RPC_URL",
+    chainId: 43114,
+    signer: { type: "privateKey", env: "PRIVATE_KEY_MAINNET" },
+  },
+  virtualAvalancheCChain: {
+    urlEnv: "TENDERLY_VIRTUAL_RPC_URL",
+  },
+};
+
+const SIGNER_TYPES = ["privateKey", "mnemonic", "keystore", "unlocked", "impersonate"];
+
+/**
+ * The default networks, with the networks of `file` added or replacing them by name.
+ */
+export function loadNetworks(file?: string): NetworkDefinitions {
+  const definitions: NetworkDefinitions = {
+    ...DEFAULT_NETWORKS,
+    ...(file === undefined ? {} : JSON.parse(fs.readFileSync(file, "utf-8"))),
+  };
+  const source = file ?? "the default networks";
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (definition.url === undefined && definition.urlEnv === undefined) {
+      throw new Error(`Network ${name} in ${source} needs a url or a urlEnv`);
+    }
+    const signer = definition.signer;
+    if (signer !== undefined && !SIGNER_TYPES.includes(signer.type)) {
+      throw new Error(`Unknown signer type ${signer.type} for network ${name} in ${source}`);
+    }
+    if (signer?.type === "impersonate" && !(signer.addresses?.length > 0)) {
+      throw new Error(`Network ${name} in ${source} impersonates no addresses`);
+    }
+  }
+  return definitions;
+}
+
+/**
+ * The hardhat networks of the definitions, read without validating anything: the url and the
+ * accounts of the selected network are only resolved by `resolveNetwork` once it is selected.
+ */
+export function toHardhatNetworks(definitions: NetworkDefinitions, env: Env = process.env): NetworksUserConfig {
+  return Object.fromEntries(
+    Object.entries(definitions).map(([name, definition]) => [
+      name,
+      {
+        url: (definition.urlEnv === undefined ? undefined : env[definition.urlEnv]) || (definition.url ?? ""),
+        chainId: definition.chainId,
+      },
+    ])
+  );
+}
+
+function requireEnv(env: Env, variable: string, network: string, what: string): string {
+  const value = env[variable];
+  if (value === undefined || value === "") {
+    throw new Error(`Network ${network} needs ${variable}, set it in .env to ${what}`);
+  }
+  return value;
+}
+
+function privateKey(key: string, variable: string): string {
+  const hex = key.startsWith("0x") ? key.slice(2) : key;
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(`${variable} is not a 32 bytes hex private key`);
+  }
+  return `0x${hex.toLowerCase()}`;
+}
+
+/**
+ * The url and accounts of the selected network, read from the environment. Throws naming the
+ * missing or invalid variable.
+ */
+export function resolveNetwork(
+  name: string,
+  definition: NetworkDefinition,
+  env: Env = process.env,
+  root = "."
+): ResolvedNetwork {
+  const url =
+    (definition.urlEnv === undefined ? undefined : env[definition.urlEnv]) ||
+    definition.url ||
+    requireEnv(env, definition.urlEnv!, name, "its RPC url");
+
+  const signer = definition.signer;
+  switch (signer?.type) {
+    case undefined:
+    case "unlocked":
+    case "impersonate":
+      return { url, accounts: "remote" };
+    case "privateKey":
+      return {
+        url,
+        accounts: [privateKey(requireEnv(env, signer.env, name, "the private key of its signer"), signer.env)],
+      };
+    case "mnemonic":
+      return {
+        url,
+        accounts: {
+          mnemonic: requireEnv(env, signer.env, name, "the mnemonic of its signers"),
+          path: signer.path ?? "m/44'/60'/0'/0",
+          initialIndex: 0,
+          count: signer.count ?? 1,
+          passphrase: signer.passphraseEnv === undefined ? "" : env[signer.passphraseEnv] ?? "",
+        },
+      };
+    case "keystore": {
+      const file = path.resolve(root, signer.file);
+      if (!fs.existsSync(file)) {
+        throw new Error(`Network ${name} needs the keystore ${file}`);
+      }
+      const password = requireEnv(env, signer.passwordEnv, name, `the password of ${signer.file}`);
+      try {
+        return { url, accounts: [Wallet.fromEncryptedJsonSync(fs.readFileSync(file, "utf-8"), password).privateKey] };
+      } catch (error) {
+        throw new Error(`Cannot decrypt ${file} with ${signer.passwordEnv}: ${(error as Error).message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { ProxyAgent, setGlobalDispatcher } from "undici";
+import { extendEnvironment, extendProvider } from "hardhat/config";
+import { HttpNetworkConfig } from "hardhat/types";
+
+import { ImpersonatingProvider } from "./impersonation";
+import { NetworkDefinitions, resolveNetwork } from "./networks";
+
+/**
+ * Resolves the url and accounts of the selected network when the runtime environment is created,
+ * before its provider is, so a missing variable only fails the commands using that network.
+ * Requests go through the `PROXY` of the environment only on these networks.
+ */
+export function registerNetworks(definitions: NetworkDefinitions) {
+  extendEnvironment((hre) => {
+    const definition = definitions[hre.network.name];
+    if (definition === undefined) return;
+    const config = hre.network.config as HttpNetworkConfig;
+    Object.assign(config, resolveNetwork(hre.network.name, definition, process.env, hre.config.paths.root));
+    if (process.env.PROXY) {
+      setGlobalDispatcher(new ProxyAgent(process.env.PROXY));
+    }
+  });
+
+  extendProvider((provider, _, network) => {
+    const signer = definitions[network]?.signer;
+    return signer?.type === "impersonate" ? new ImpersonatingProvider(provider, signer.addresses) : provider;
+  });
+}
@@ -0,0 +1,75 @@
+import { IERC1155__factory, IERC20__factory } from "@/types/index";
+import type { LPStaking } from "@/types/index";
+
+import { Position } from "../indexer/positions";
+
+export interface AssetReconciliation {
+  token: string;
+  // the ERC1155 token id, always 0 for ERC20 tokens
+  id: bigint;
+  is1155: boolean;
+  stakers: number;
+  // the sum of every user's internal balance
+  ledger: bigint;
+  // what LPStaking actually holds
+  custody: bigint;
+  // custody - ledger, positive for a surplus and negative for a deficit
+  difference: bigint;
+}
+
+interface Asset {
+  token: string;
+  id: bigint;
+  is1155: boolean;
+  stakers: number;
+  ledger: bigint;
+}
+
+/**
+ * Compare the summed internal balances of every asset with the tokens LPStaking holds at `blockTag`,
+ * which should be the block the positions were indexed up to.
+ *
+ * Supported ERC20 tokens without any position are included with an empty ledger, ERC1155
+ * ids only show up once someone has staked them.
+ */
+export async function reconcile(
+  contract: LPStaking,
+  positions: Position[],
+  blockTag: number | "latest" = "latest"
+): Promise<AssetReconciliation[]> {
+  const assets = new Map<string, Asset>();
+  const assetOf = (token: string, id: bigint, is1155: boolean) => {
+    const key = `${token.toLowerCase()}:${is1155 ? id : "erc20"}`;
+    let asset = assets.get(key);
+    if (asset === undefined) {
+      asset = { token, id, is1155, stakers: 0, ledger: 0n };
+      assets.set(key, asset);
+    }
+    return asset;
+  };
+
+  for (const token of await contract.getAllSupportedTokens({ blockTag })) {
+    if (await contract.supportedLPTokens(token, { blockTag })) assetOf(token, 0n, false);
+  }
+  for (const position of positions) {
+    const asset = assetOf(position.token, position.id, position.is1155);
+    asset.stakers += 1;
+    asset.ledger += position.staked;
+  }
+
+  const runner = contract.runner!;
+  const holder = await contract.getAddress();
+  return Promise.all(
+    Array.from(assets.values()).map(async (asset): Promise<AssetReconciliation> => {
+      const custody = asset.is1155
+        ? await IERC1155__factory.connect(asset.token, runner).balanceOf(holder, asset.id, { blockTag })
+        : await IERC20__factory.connect(asset.token, runner).balanceOf(holder, { blockTag });
+      return { ...asset, custody, difference: custody - asset.ledger };
+    })
+  );
+}
+
+export function exceedsTolerance(result: AssetReconciliation, tolerance: bigint): boolean {
+  const difference = result.difference < 0n ? -result.difference : result.difference;
+  return difference > tolerance;
+}
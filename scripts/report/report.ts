@@ -0,0 +1,223 @@
+import * as fs from "fs";
+import { formatUnits } from "ethers";
+
+import { IERC1155__factory, IERC20Metadata__factory, IERC20__factory } from "@/types/index";
+import type { LPStaking } from "@/types/index";
+
+import { Position } from "../indexer/positions";
+import { unlockSchedule } from "../keeper/schedule";
+
+export interface TokenReport {
+  token: string;
+  standard: "erc20" | "erc1155";
+  // the ERC1155 token id, undefined for ERC20 tokens and for ERC1155 tokens nobody has staked
+  id?: bigint;
+  // empty when the token does not implement `symbol()`
+  symbol: string;
+  // 0 for ERC1155 tokens
+  decimals: number;
+  // everything staked and not yet unstaked, the amount in unlock included
+  totalStaked: bigint;
+  stakers: number;
+  // the outstanding unlocks, matured or not
+  inUnlock: bigint;
+  // the part of `inUnlock` that can already be unstaked
+  withdrawable: bigint;
+  // what LPStaking holds
+  custody: bigint;
+  // the USD price of one whole token, when the price file has one
+  price?: number;
+  tvl?: number;
+}
+
+export interface MaturityBucket {
+  // the UTC day the unlocks can be unstaked from
+  date: string;
+  token: string;
+  id?: bigint;
+  symbol: string;
+  decimals: number;
+  amount: bigint;
+  unlocks: number;
+}
+
+export interface ProtocolReport {
+  address: string;
+  blockNumber: number;
+  timestamp: number;
+  tokens: TokenReport[];
+  // the unlocks not matured yet, per day and token
+  maturities: MaturityBucket[];
+  // only set when a price file was given, the tokens without a price are left out
+  tvl?: number;
+}
+
+/**
+ * USD prices of one whole token, keyed by token address, or `address:id` for a single ERC1155 id.
+ */
+export type PriceTable = { [token: string]: number };
+
+export function loadPrices(file: string): PriceTable {
+  const prices: PriceTable = {};
+  for (const [key, price] of Object.entries(JSON.parse(fs.readFileSync(file, "utf-8")))) {
+    if (typeof price !== "number" || !Number.isFinite(price)) {
+      throw new Error(`The price of ${key} in ${file} is not a number`);
+    }
+    prices[key.toLowerCase()] = price;
+  }
+  return prices;
+}
+
+function priceOf(prices: PriceTable, token: string, id?: bigint): number | undefined {
+  const address = token.toLowerCase();
+  return (id !== undefined ? prices[`${address}:${id}`] : undefined) ?? prices[address];
+}
+
+function assetKey(token: string, id?: bigint): string {
+  return `${token.toLowerCase()}:${id ?? "-"}`;
+}
+
+/**
+ * Report every supported token of LPStaking with its totals at `blockNumber`, from the indexed `positions`.
+ *
+ * ERC1155 tokens get a row per staked id, and a single empty row while nobody has staked them.
+ */
+export async function buildReport(
+  contract: LPStaking,
+  positions: Position[],
+  blockNumber: number,
+  prices?: PriceTable
+): Promise<ProtocolReport> {
+  const runner = contract.runner!;
+  const address = await contract.getAddress();
+  const block = (await runner.provider!.getBlock(blockNumber))!;
+  const blockTag = blockNumber;
+
+  const tokens = new Map<string, TokenReport>();
+  const metadata = new Map<string, { symbol: string; decimals: number }>();
+  const add = async (token: string, standard: TokenReport["standard"], id?: bigint) => {
+    if (!metadata.has(token.toLowerCase())) {
+      const erc20 = IERC20Metadata__factory.connect(token, runner);
+      const symbol = await erc20.symbol({ blockTag }).catch(() => "");
+      const decimals = standard === "erc20" ? Number(await erc20.decimals({ blockTag }).catch(() => 18n)) : 0;
+      metadata.set(token.toLowerCase(), { symbol, decimals });
+    }
+    const report: TokenReport = {
+      token,
+      standard,
+      id,
+      ...metadata.get(token.toLowerCase())!,
+      totalStaked: 0n,
+      stakers: 0,
+      inUnlock: 0n,
+      withdrawable: 0n,
+      custody: 0n,
+    };
+    tokens.set(assetKey(token, id), report);
+    return report;
+  };
+
+  for (const token of await contract.getAllSupportedTokens({ blockTag })) {
+    const standard = (await contract.supportedLPTokens(token, { blockTag })) ? "erc20" : "erc1155";
+    const ids = new Set(positions.filter((p) => p.is1155 && p.token === token).map((p) => p.id));
+    if (standard === "erc20" || ids.size === 0) await add(token, standard);
+    for (const id of Array.from(ids).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))) await add(token, standard, id);
+  }
+  for (const position of positions) {
+    const id = position.is1155 ? position.id : undefined;
+    // tokens no longer supported can still have positions left to unstake
+    const report =
+      tokens.get(assetKey(position.token, id)) ??
+      (await add(position.token, position.is1155 ? "erc1155" : "erc20", id));
+    report.stakers += 1;
+    report.totalStaked += position.staked;
+  }
+
+  const schedule = await unlockSchedule(contract, positions, BigInt(block.timestamp), blockNumber);
+  const maturities = new Map<string, MaturityBucket>();
+  for (const unlock of schedule) {
+    const report = tokens.get(assetKey(unlock.token, unlock.is1155 ? unlock.id : undefined))!;
+    report.inUnlock += unlock.amount;
+    if (unlock.remaining === 0n) {
+      report.withdrawable += unlock.amount;
+      continue;
+    }
+    const date = new Date(Number(unlock.unlockAt) * 1000).toISOString().slice(0, 10);
+    const key = `${date}:${assetKey(report.token, report.id)}`;
+    const bucket = maturities.get(key) ?? {
+      date,
+      token: report.token,
+      id: report.id,
+      symbol: report.symbol,
+      decimals: report.decimals,
+      amount: 0n,
+      unlocks: 0,
+    };
+    bucket.amount += unlock.amount;
+    bucket.unlocks += 1;
+    maturities.set(key, bucket);
+  }
+
+  for (const report of tokens.values()) {
+    report.custody =
+      report.standard === "erc1155"
+        ? report.id === undefined
+          ? 0n
+          : await IERC1155__factory.connect(report.token, runner).balanceOf(address, report.id, { blockTag })
+        : await IERC20__factory.connect(report.token, runner).balanceOf(address, { blockTag });
+    report.price = prices && priceOf(prices, report.token, report.id);
+    if (report.price !== undefined) {
+      report.tvl = Number(formatUnits(report.totalStaked, report.decimals)) * report.price;
+    }
+  }
+
+  const rows = Array.from(tokens.values());
+  return {
+    address,
+    blockNumber,
+    timestamp: block.timestamp,
+    tokens: rows,
+    maturities: Array.from(maturities.values()),
+    tvl: prices && rows.reduce((sum, report) => sum + (report.tvl ?? 0), 0),
+  };
+}
+
+function csvRow(values: (string | number | bigint | undefined)[]): string {
+  return values.map((value) => (value === undefined ? "" : value.toString())).join(",");
+}
+
+/**
+ * The tokens as CSV, amounts in token base units.
+ */
+export function reportToCsv(report: ProtocolReport): string {
+  const header = "token,standard,id,symbol,decimals,total_staked,stakers,in_unlock,withdrawable,custody,price,tvl";
+  const rows = report.tokens.map((t) =>
+    csvRow([
+      t.token,
+      t.standard,
+      t.id,
+      t.symbol,
+      t.decimals,
+      t.totalStaked,
+      t.stakers,
+      t.inUnlock,
+      t.withdrawable,
+      t.custody,
+      t.price,
+      t.tvl,
+    ])
+  );
+  return [header, ...rows].join("\n") + "\n";
+}
+
+/**
+ * The maturity schedule as CSV, amounts in token base units.
+ */
+export function maturitiesToCsv(report: ProtocolReport): string {
+  const rows = report.maturities.map((m) => csvRow([m.date, m.token, m.id, m.symbol, m.amount, m.unlocks]));
+  return ["date,token,id,symbol,amount,unlocks", ...rows].join("\n") + "\n";
+}
+
+export function reportToJson(report: ProtocolReport): string {
+  return JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2) + "\n";
+}
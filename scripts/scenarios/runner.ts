@@ -0,0 +1,383 @@
+import { MaxUint256, Signer, TransactionResponse, formatUnits, parseUnits } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { IERC1155__factory, IERC20__factory, MockERC1155 } from "@/types/index";
+import type { LPStaking } from "@/types/index";
+
+import { REVERTING_CALL_GAS_LIMIT, revertOf } from "../contracts/simulation";
+import { formatCountdown } from "../keeper/schedule";
+import {
+  ExpectedEvent,
+  HEXAGATE,
+  Holdings,
+  LPSTAKING,
+  OWNER,
+  Scenario,
+  ScenarioAction,
+  ScenarioChecks,
+  ScenarioStep,
+} from "./scenario";
+
+export interface ScenarioWorld {
+  lpStaking: LPStaking;
+  // the owner, the hexagate and every actor
+  signers: { [name: string]: Signer };
+  // the address of every signer, token and of LPStaking
+  addresses: { [name: string]: string };
+}
+
+export interface ScenarioEvent {
+  name: string;
+  args: unknown[];
+}
+
+export interface ScenarioTraceStep {
+  line: number;
+  step: string;
+  // what the call reverted with, undefined when it went through
+  revert?: string;
+  events: ScenarioEvent[];
+}
+
+const MOCK_CONTRACTS = { erc20: "MockERC20", fee: "FeeToken", fake: "FakeERC20", erc1155: "MockERC1155" } as const;
+
+/**
+ * Deploy LPStaking and the tokens of the scenario, fund and approve the actors, and apply its configuration.
+ */
+export async function deployScenario(hre: HardhatRuntimeEnvironment, scenario: Scenario): Promise<ScenarioWorld> {
+  const { ethers } = hre;
+  const [owner, hexagate, ...others] = await ethers.getSigners();
+  if (others.length < scenario.actors.length) {
+    throw new Error(`${scenario.file} has ${scenario.actors.length} actors, the network only ${others.length} signers`);
+  }
+  const signers: { [name: string]: Signer } = { [OWNER]: owner, [HEXAGATE]: hexagate };
+  scenario.actors.forEach((actor, index) => (signers[actor] = others[index]));
+  const addresses: { [name: string]: string } = {};
+  for (const [name, signer] of Object.entries(signers)) addresses[name] = await signer.getAddress();
+
+  const lpStaking = (await ethers.deployContract("LPStaking", [], owner)) as unknown as LPStaking;
+  await lpStaking.initialize(hexagate.address);
+  addresses[LPSTAKING] = await lpStaking.getAddress();
+  if (scenario.unlockDuration !== undefined) await lpStaking.updateUnlockDuration(scenario.unlockDuration);
+
+  for (const [name, token] of Object.entries(scenario.tokens)) {
+    const supply = parseUnits(token.supply, token.decimals);
+    const args =
+      token.kind === "erc1155"
+        ? []
+        : token.kind === "fee"
+        ? [name, name, supply]
+        : [name, name, token.decimals, supply];
+    const contract = await ethers.deployContract(MOCK_CONTRACTS[token.kind], args, owner);
+    addresses[name] = await contract.getAddress();
+    if (token.supported) {
+      await (token.kind === "erc1155"
+        ? lpStaking.addERC1155TokenSupport(addresses[name])
+        : lpStaking.addLPTokenSupport(addresses[name]));
+    }
+  }
+
+  for (const [holder, held] of Object.entries(scenario.balances)) {
+    for (const [name, amount] of Object.entries(held)) {
+      const token = scenario.tokens[name];
+      if (typeof amount !== "string") {
+        const erc1155 = (await ethers.getContractAt("MockERC1155", addresses[name])) as unknown as MockERC1155;
+        for (const [id, units] of Object.entries(amount)) await erc1155.mint(addresses[holder], id, units, "0x");
+      } else if (holder !== OWNER) {
+        let value = parseUnits(amount, token.decimals);
+        // FeeToken keeps 1% of every transfer, send what leaves `value` once the fee is taken
+        if (token.kind === "fee") value += value / 99n;
+        await IERC20__factory.connect(addresses[name], owner).transfer(addresses[holder], value);
+      }
+    }
+  }
+  for (const holder of [OWNER, ...scenario.actors]) {
+    for (const [name, token] of Object.entries(scenario.tokens)) {
+      await (token.kind === "erc1155"
+        ? IERC1155__factory.connect(addresses[name], signers[holder]).setApprovalForAll(addresses[LPSTAKING], true)
+        : IERC20__factory.connect(addresses[name], signers[holder]).approve(addresses[LPSTAKING], MaxUint256));
+    }
+  }
+  return { lpStaking, signers, addresses };
+}
+
+/**
+ * Deploy the scenario and run its steps in order, checking every expected revert, event and holding.
+ * Throws with the trace of the steps run so far at the first step that does not go as written.
+ */
+export async function runScenario(hre: HardhatRuntimeEnvironment, scenario: Scenario): Promise<ScenarioTraceStep[]> {
+  const world = await deployScenario(hre, scenario);
+  const { lpStaking, signers, addresses } = world;
+  const names = new Map(Object.entries(addresses).map(([name, address]) => [address.toLowerCase(), name]));
+  const trace: ScenarioTraceStep[] = [];
+
+  const decimalsOf = (token: string) => scenario.tokens[token].decimals;
+  const amountOf = (token: string, amount: string) =>
+    amount === "max" ? MaxUint256 : parseUnits(amount, decimalsOf(token));
+  const show = (value: unknown) =>
+    typeof value === "string" ? names.get(value.toLowerCase()) ?? value : String(value);
+  const showEvent = (event: ScenarioEvent) => `${event.name}(${event.args.map(show).join(", ")})`;
+
+  const failed = (step: ScenarioStep, problems: string[]) => {
+    const lines = trace.map((entry, index) => {
+      const outcome =
+        entry.revert !== undefined
+          ? `reverted with ${entry.revert}`
+          : entry.events.length > 0
+          ? entry.events.map(showEvent).join(", ")
+          : "ok";
+      return `  ${index + 1}. line ${entry.line}: ${entry.step} -> ${outcome}`;
+    });
+    return new Error(
+      [
+        `Scenario "${scenario.name}" failed at step ${trace.length} (${scenario.file}:${step.line}): ${
+          trace[trace.length - 1].step
+        }`,
+        ...problems.map((problem) => `  ${problem}`),
+        "trace:",
+        ...lines,
+      ].join("\n")
+    );
+  };
+
+  const send = async (call: () => Promise<TransactionResponse>): Promise<Omit<ScenarioTraceStep, "line" | "step">> => {
+    try {
+      const receipt = (await (await call()).wait())!;
+      const events = receipt.logs
+        .filter((log) => log.address.toLowerCase() === addresses[LPSTAKING].toLowerCase())
+        .map((log) => lpStaking.interface.parseLog(log)!)
+        .map((log) => ({ name: log.name, args: [...log.args] }));
+      return { events };
+    } catch (error) {
+      return { revert: revertOf(error, lpStaking.interface), events: [] };
+    }
+  };
+
+  const matches = (expected: unknown, actual: unknown): boolean => {
+    if (expected === "*") return true;
+    if (typeof expected === "string" && addresses[expected] !== undefined) {
+      return String(actual).toLowerCase() === addresses[expected].toLowerCase();
+    }
+    const amount = typeof expected === "string" ? /^([\d.]+)\s+(\w+)$/.exec(expected) : null;
+    if (amount && scenario.tokens[amount[2]] !== undefined) {
+      return actual === parseUnits(amount[1], decimalsOf(amount[2]));
+    }
+    if (typeof actual === "bigint" && /^\d+$/.test(String(expected))) return actual === BigInt(String(expected));
+    return String(expected).toLowerCase() === String(actual).toLowerCase();
+  };
+
+  // the expected events missing from `events`, which must hold them in this order
+  const missingEvents = (expected: ExpectedEvent[], events: ScenarioEvent[]): string[] => {
+    let next = 0;
+    for (const event of expected) {
+      const found = events.findIndex(
+        (actual, position) =>
+          position >= next &&
+          actual.name === event.name &&
+          actual.args.length === event.args.length &&
+          actual.args.every((arg, i) => matches(event.args[i], arg))
+      );
+      if (found === -1) {
+        const emitted = events.length > 0 ? events.map(showEvent).join(", ") : "nothing";
+        return [`expected ${event.name}(${event.args.map(String).join(", ")}) to be emitted, got ${emitted}`];
+      }
+      next = found + 1;
+    }
+    return [];
+  };
+
+  const checkHoldings = async (
+    kind: "balance" | "stake" | "unlock",
+    holdings: Holdings,
+    read: (holder: string, token: string, id?: bigint) => Promise<bigint>
+  ): Promise<string[]> => {
+    const problems: string[] = [];
+    for (const [holder, held] of Object.entries(holdings)) {
+      for (const [token, amount] of Object.entries(held)) {
+        const expected: [bigint | undefined, string][] =
+          typeof amount === "string"
+            ? [[undefined, amount]]
+            : Object.entries(amount).map(([id, units]) => [BigInt(id), units]);
+        for (const [id, value] of expected) {
+          const actual = await read(addresses[holder], addresses[token], id);
+          if (actual !== parseUnits(value, decimalsOf(token))) {
+            const subject = `${holder} ${kind} of ${token}${id === undefined ? "" : ` id ${id}`}`;
+            problems.push(`expected ${subject} to be ${value}, got ${formatUnits(actual, decimalsOf(token))}`);
+          }
+        }
+      }
+    }
+    return problems;
+  };
+
+  const check = async (checks: ScenarioChecks): Promise<string[]> => {
+    const runner = lpStaking.runner!;
+    const problems: string[] = [];
+    if (checks.balances) {
+      problems.push(
+        ...(await checkHoldings("balance", checks.balances, (holder, token, id) =>
+          id === undefined
+            ? IERC20__factory.connect(token, runner).balanceOf(holder)
+            : IERC1155__factory.connect(token, runner).balanceOf(holder, id)
+        ))
+      );
+    }
+    if (checks.staked) {
+      problems.push(
+        ...(await checkHoldings("stake", checks.staked, (holder, token, id) =>
+          id === undefined ? lpStaking.balanceOf(token, holder) : lpStaking.balanceOf1155(token, id, holder)
+        ))
+      );
+    }
+    if (checks.unlocks) {
+      problems.push(
+        ...(await checkHoldings("unlock", checks.unlocks, async (holder, token, id) =>
+          id === undefined
+            ? (
+                await lpStaking.userUnlocks(holder, token)
+              ).amount
+            : (
+                await lpStaking.userUnlocks1155(holder, token, id)
+              ).amount
+        ))
+      );
+    }
+    if (checks.paused !== undefined && (await lpStaking.paused()) !== checks.paused) {
+      problems.push(`expected LPStaking ${checks.paused ? "" : "not "}to be paused`);
+    }
+    if (checks.unlockDuration !== undefined) {
+      const duration = await lpStaking.unlockDuration();
+      if (duration !== BigInt(checks.unlockDuration)) {
+        problems.push(`expected the unlock duration to be ${checks.unlockDuration}s, got ${duration}s`);
+      }
+    }
+    if (checks.supported !== undefined) {
+      const supported = (await lpStaking.getAllSupportedTokens()).map(show).sort();
+      const expected = [...checks.supported].sort();
+      if (supported.join(",") !== expected.join(",")) {
+        problems.push(`expected the supported tokens to be [${expected.join(", ")}], got [${supported.join(", ")}]`);
+      }
+    }
+    return problems;
+  };
+
+  const call = (action: ScenarioAction): (() => Promise<TransactionResponse>) => {
+    const overrides = { gasLimit: REVERTING_CALL_GAS_LIMIT };
+    const as = (actor: string) => lpStaking.connect(signers[actor]);
+    switch (action.kind) {
+      case "stake":
+        return () => as(action.actor).stake(amountOf(action.token, action.amount), addresses[action.token], overrides);
+      case "stake1155":
+        return () => as(action.actor).stake1155(addresses[action.token], action.id, action.amount, overrides);
+      case "unlock":
+      case "unstake":
+        return () => as(action.actor)[action.kind](addresses[action.token], overrides);
+      case "unlock1155":
+      case "unstake1155":
+        return () => as(action.actor)[action.kind](addresses[action.token], action.id, overrides);
+      case "approve": {
+        const signer = signers[action.actor];
+        if (scenario.tokens[action.token].kind === "erc1155") {
+          const approved = action.amount !== "0";
+          const erc1155 = IERC1155__factory.connect(addresses[action.token], signer);
+          return () => erc1155.setApprovalForAll(addresses[LPSTAKING], approved, overrides);
+        }
+        const amount = amountOf(action.token, action.amount);
+        return () =>
+          IERC20__factory.connect(addresses[action.token], signer).approve(addresses[LPSTAKING], amount, overrides);
+      }
+      case "pause":
+      case "unpause":
+        return () => as(action.actor)[action.kind](overrides);
+      case "addToken":
+      case "removeToken": {
+        const token = addresses[action.token];
+        const is1155 = scenario.tokens[action.token].kind === "erc1155";
+        if (action.kind === "addToken") {
+          return () =>
+            is1155
+              ? as(action.actor).addERC1155TokenSupport(token, overrides)
+              : as(action.actor).addLPTokenSupport(token, overrides);
+        }
+        return () =>
+          is1155
+            ? as(action.actor).removeERC1155TokenSupport(token, overrides)
+            : as(action.actor).removeLPTokenSupport(token, overrides);
+      }
+      case "updateUnlockDuration":
+        return () => as(action.actor).updateUnlockDuration(action.seconds, overrides);
+      case "updateHexagate":
+        return () => as(action.actor).updateHexagateAddress(addresses[action.hexagate], overrides);
+      case "advance":
+      case "expect":
+        throw new Error(`${action.kind} is not a call`);
+    }
+  };
+
+  for (const step of scenario.steps) {
+    const { action } = step;
+    const entry: ScenarioTraceStep = { line: step.line, step: describeAction(scenario, action), events: [] };
+    trace.push(entry);
+    if (action.kind === "advance") {
+      const seconds = action.seconds ?? Number(await lpStaking.unlockDuration());
+      if (action.seconds === undefined) entry.step += ` (${formatCountdown(BigInt(seconds))})`;
+      await hre.network.provider.send("evm_increaseTime", [seconds]);
+      await hre.network.provider.send("evm_mine", []);
+      continue;
+    }
+    if (action.kind === "expect") {
+      const problems = await check(action.checks);
+      if (problems.length > 0) throw failed(step, problems);
+      continue;
+    }
+
+    Object.assign(entry, await send(call(action)));
+    if (entry.revert !== undefined && step.reverts === undefined) {
+      throw failed(step, [`expected it to go through, it reverted with ${entry.revert}`]);
+    }
+    if (step.reverts !== undefined && entry.revert !== step.reverts) {
+      const actual = entry.revert === undefined ? "it went through" : `it reverted with ${entry.revert}`;
+      throw failed(step, [`expected it to revert with ${step.reverts}, ${actual}`]);
+    }
+    const missing = missingEvents(step.emits ?? [], entry.events);
+    if (missing.length > 0) throw failed(step, missing);
+  }
+  return trace;
+}
+
+export function describeAction(scenario: Scenario, action: ScenarioAction): string {
+  switch (action.kind) {
+    case "stake":
+      return `${action.actor} stake(${action.amount} ${action.token})`;
+    case "stake1155":
+      return `${action.actor} stake1155(${action.token}, ${action.id}, ${action.amount})`;
+    case "unlock":
+    case "unstake":
+      return `${action.actor} ${action.kind}(${action.token})`;
+    case "unlock1155":
+    case "unstake1155":
+      return `${action.actor} ${action.kind}(${action.token}, ${action.id})`;
+    case "approve":
+      return scenario.tokens[action.token].kind === "erc1155"
+        ? `${action.actor} setApprovalForAll(${action.token}, ${action.amount !== "0"})`
+        : `${action.actor} approve(${action.amount} ${action.token})`;
+    case "pause":
+    case "unpause":
+      return `${action.actor} ${action.kind}()`;
+    case "addToken":
+    case "removeToken":
+      return `${action.actor} ${action.kind}(${action.token})`;
+    case "updateUnlockDuration":
+      return `${action.actor} updateUnlockDuration(${action.seconds})`;
+    case "updateHexagate":
+      return `${action.actor} updateHexagateAddress(${action.hexagate})`;
+    case "advance":
+      return action.seconds === undefined
+        ? "advance the unlock duration"
+        : `advance ${formatCountdown(BigInt(action.seconds))}`;
+    case "expect":
+      return `expect ${Object.keys(action.checks)
+        .filter((key) => action.checks[key as keyof ScenarioChecks] !== undefined)
+        .join(", ")}`;
+  }
+}
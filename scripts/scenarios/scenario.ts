@@ -0,0 +1,387 @@
+import * as fs from "fs";
+import * as path from "path";
+import { LineCounter, isMap, isNode, isSeq, parseDocument } from "yaml";
+
+// the mocks a scenario token is deployed as
+export const TOKEN_KINDS = ["erc20", "fee", "fake", "erc1155"] as const;
+
+export type TokenKind = (typeof TOKEN_KINDS)[number];
+
+// the names a scenario can use besides its actors
+export const OWNER = "owner";
+export const HEXAGATE = "hexagate";
+export const LPSTAKING = "lpStaking";
+
+export interface ScenarioToken {
+  kind: TokenKind;
+  decimals: number;
+  // whole tokens minted to the owner, who funds the actors from them
+  supply: string;
+  // whether the owner adds support for it before the first step
+  supported: boolean;
+}
+
+/**
+ * Amounts as written in the file: whole tokens for ERC20 tokens, e.g. "12.5", and units for ERC1155 ids.
+ * A holding is keyed by token, and by id for an ERC1155 token.
+ */
+export type Holdings = { [holder: string]: { [token: string]: string | { [id: string]: string } } };
+
+export interface ScenarioChecks {
+  // what each holder has in its wallet
+  balances?: Holdings;
+  // what each actor has staked, an outstanding unlock included, as `balanceOf`/`balanceOf1155` return it
+  staked?: Holdings;
+  // the amount of the outstanding unlock of each actor
+  unlocks?: Holdings;
+  paused?: boolean;
+  unlockDuration?: number;
+  // every supported token, in any order
+  supported?: string[];
+}
+
+export type ScenarioAction =
+  | { kind: "stake"; actor: string; token: string; amount: string }
+  | { kind: "stake1155"; actor: string; token: string; id: bigint; amount: bigint }
+  | { kind: "unlock" | "unstake"; actor: string; token: string }
+  | { kind: "unlock1155" | "unstake1155"; actor: string; token: string; id: bigint }
+  // `amount` is "max" or whole tokens for an ERC20 token, "0" revokes the approval of an ERC1155 token
+  | { kind: "approve"; actor: string; token: string; amount: string }
+  | { kind: "pause" | "unpause"; actor: string }
+  | { kind: "addToken" | "removeToken"; actor: string; token: string }
+  | { kind: "updateUnlockDuration"; actor: string; seconds: number }
+  | { kind: "updateHexagate"; actor: string; hexagate: string }
+  // `seconds` undefined advances by the unlock duration
+  | { kind: "advance"; seconds?: number }
+  | { kind: "expect"; checks: ScenarioChecks };
+
+export interface ExpectedEvent {
+  name: string;
+  // actor and token names stand for their address, "12.5 LP" for whole tokens, "*" for any value
+  args: unknown[];
+}
+
+export interface ScenarioStep {
+  action: ScenarioAction;
+  // the require message, custom error name or "panic 0x.." the call must revert with
+  reverts?: string;
+  // the LPStaking events the call must emit, in this order, among others
+  emits?: ExpectedEvent[];
+  // where the step is written in the file
+  line: number;
+}
+
+export interface Scenario {
+  file: string;
+  name: string;
+  // signers after the owner and the hexagate
+  actors: string[];
+  tokens: { [name: string]: ScenarioToken };
+  // what each actor holds before the first step, every token approved to LPStaking
+  balances: Holdings;
+  unlockDuration?: number;
+  steps: ScenarioStep[];
+}
+
+export const SCENARIO_ACTIONS = [
+  "stake",
+  "stake1155",
+  "unlock",
+  "unlock1155",
+  "unstake",
+  "unstake1155",
+  "approve",
+  "pause",
+  "unpause",
+  "addToken",
+  "removeToken",
+  "updateUnlockDuration",
+  "updateHexagate",
+  "advance",
+  "expect",
+] as const;
+
+const DURATION_UNITS: { [unit: string]: number } = { d: 86400, h: 3600, m: 60, s: 1 };
+
+/**
+ * Seconds from a number or a duration such as "7d", "1h 30m" or "90s".
+ */
+export function parseDuration(value: unknown): number {
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0) return value;
+  const text = String(value).trim();
+  if (!/^(\d+\s*[dhms]\s*)+$/.test(text)) {
+    throw new Error(`Invalid duration ${text}, expected seconds or e.g. 7d, 1h 30m`);
+  }
+  let seconds = 0;
+  for (const [, count, unit] of text.matchAll(/(\d+)\s*([dhms])/g)) seconds += Number(count) * DURATION_UNITS[unit];
+  return seconds;
+}
+
+// a YAML mapping once converted with `toJS`
+type Mapping = { [key: string]: unknown };
+
+function isMapping(value: unknown): value is Mapping {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNames(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((name) => typeof name === "string");
+}
+
+function isTokenKind(value: unknown): value is TokenKind {
+  return TOKEN_KINDS.some((kind) => kind === value);
+}
+
+function isActionKind(value: unknown): value is ScenarioAction["kind"] {
+  return SCENARIO_ACTIONS.some((kind) => kind === value);
+}
+
+/**
+ * Parse a scenario written in YAML, or JSON which is YAML too, checking every name it uses.
+ */
+export function parseScenario(text: string, file: string): Scenario {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter });
+  if (document.errors.length > 0) {
+    throw new Error(`Invalid scenario ${file}: ${document.errors[0].message}`);
+  }
+  const fail = (message: string, line?: number): never => {
+    throw new Error(`Invalid scenario ${file}${line === undefined ? "" : `, line ${line}`}: ${message}`);
+  };
+  const root: unknown = document.toJS();
+  if (!isMapping(root)) return fail("expected a mapping");
+
+  const actors = root.actors ?? [];
+  if (!isNames(actors)) return fail("actors must be a list of names");
+  for (const actor of actors) {
+    if ([OWNER, HEXAGATE, LPSTAKING].includes(actor)) fail(`${actor} is reserved, pick another actor name`);
+  }
+  const tokenEntries = root.tokens ?? {};
+  if (!isMapping(tokenEntries)) return fail("tokens must be a mapping of names");
+  const tokens: { [name: string]: ScenarioToken } = {};
+  for (const [name, token] of Object.entries(tokenEntries)) {
+    const kind = isMapping(token) ? token.kind ?? token.type : undefined;
+    if (!isMapping(token) || !isTokenKind(kind)) {
+      return fail(`token ${name} has kind ${kind}, expected one of ${TOKEN_KINDS.join(", ")}`);
+    }
+    if (actors.includes(name)) fail(`${name} is both an actor and a token`);
+    const decimals = token.decimals ?? 18;
+    if (typeof decimals !== "number" || !Number.isInteger(decimals)) {
+      return fail(`token ${name} has ${decimals} decimals, expected a whole number`);
+    }
+    if (kind === "fee" && decimals !== 18) fail(`token ${name} is a FeeToken, it has 18 decimals`);
+    const supported = token.supported ?? true;
+    if (typeof supported !== "boolean") return fail(`token ${name} supported must be true or false`);
+    tokens[name] = {
+      kind,
+      decimals: kind === "erc1155" ? 0 : decimals,
+      supply: String(token.supply ?? 1_000_000),
+      supported,
+    };
+  }
+
+  const holders = [OWNER, HEXAGATE, ...actors];
+  const actor = (value: unknown, fallback: string, line: number): string => {
+    const name = value === undefined ? fallback : String(value);
+    if (!holders.includes(name)) fail(`unknown actor ${name}`, line);
+    return name;
+  };
+  const token = (value: unknown, line: number | undefined, erc1155?: boolean): string => {
+    const name = String(value);
+    if (tokens[name] === undefined) fail(`unknown token ${name}`, line);
+    if (erc1155 !== undefined && (tokens[name].kind === "erc1155") !== erc1155) {
+      fail(`${name} is ${erc1155 ? "not an ERC1155 token" : "an ERC1155 token, use the 1155 action"}`, line);
+    }
+    return name;
+  };
+  const duration = (value: unknown, line?: number): number => {
+    try {
+      return parseDuration(value);
+    } catch (error) {
+      return fail((error as Error).message, line);
+    }
+  };
+  const holdings = (value: unknown, line: number | undefined, names: string[]): Holdings => {
+    const entries = value ?? {};
+    if (!isMapping(entries)) return fail("holdings must be a mapping of holders", line);
+    const result: Holdings = {};
+    for (const [holder, held] of Object.entries(entries)) {
+      if (!names.includes(holder)) fail(`unknown holder ${holder}`, line);
+      const amounts = held ?? {};
+      if (!isMapping(amounts)) return fail(`${holder} holdings must be a mapping of tokens`, line);
+      result[holder] = {};
+      for (const [name, amount] of Object.entries(amounts)) {
+        const is1155 = tokens[token(name, line)].kind === "erc1155";
+        if (is1155 !== isMapping(amount)) {
+          fail(`${holder} holdings of ${name} must be ${is1155 ? "keyed by id" : "an amount"}`, line);
+        }
+        result[holder][name] = isMapping(amount)
+          ? Object.fromEntries(Object.entries(amount).map(([id, units]) => [id, String(units)]))
+          : String(amount);
+      }
+    }
+    return result;
+  };
+
+  const balances = holdings(root.balances, undefined, [OWNER, ...actors]);
+  for (const [holder, held] of Object.entries(balances)) {
+    for (const name of Object.keys(held)) {
+      if (tokens[name].kind === "fake" && holder !== OWNER) {
+        fail(`${name} is a FakeERC20, its transfers fail so only the owner can hold it`);
+      }
+    }
+  }
+
+  const nodes = document.get("steps");
+  const values = root.steps;
+  if (!isSeq(nodes) || !Array.isArray(values)) return fail("steps must be a list");
+  const steps = nodes.items.map((node, index): ScenarioStep => {
+    const line = isNode(node) && node.range ? lineCounter.linePos(node.range[0]).line : 0;
+    const step: unknown = values[index];
+    if (!isMap(node) || !isMapping(step)) return fail("a step must be a mapping", line);
+    const { reverts, emits, ...rest } = step;
+    const keys = Object.keys(rest);
+    const kind = keys[0];
+    if (keys.length !== 1 || !isActionKind(kind)) {
+      return fail(`a step takes one of ${SCENARIO_ACTIONS.join(", ")}, got ${keys.join(", ")}`, line);
+    }
+    const value = rest[kind];
+    const params: Mapping = isMapping(value) ? value : {};
+    const required = (key: string): unknown => {
+      if (params[key] === undefined) fail(`${kind} needs ${key}`, line);
+      return params[key];
+    };
+    const integer = (key: string): bigint => {
+      const written = required(key);
+      try {
+        if (typeof written === "number" || typeof written === "string") return BigInt(written);
+      } catch {
+        // not a whole number, reported below
+      }
+      return fail(`${kind} ${key} must be a whole number, got ${String(written)}`, line);
+    };
+
+    let action: ScenarioAction;
+    switch (kind) {
+      case "stake":
+        action = {
+          kind,
+          actor: actor(required("actor"), "", line),
+          token: token(required("token"), line, false),
+          amount: String(required("amount")),
+        };
+        break;
+      case "stake1155":
+        action = {
+          kind,
+          actor: actor(required("actor"), "", line),
+          token: token(required("token"), line, true),
+          id: integer("id"),
+          amount: integer("amount"),
+        };
+        break;
+      case "unlock":
+      case "unstake":
+        action = { kind, actor: actor(required("actor"), "", line), token: token(required("token"), line, false) };
+        break;
+      case "unlock1155":
+      case "unstake1155":
+        action = {
+          kind,
+          actor: actor(required("actor"), "", line),
+          token: token(required("token"), line, true),
+          id: integer("id"),
+        };
+        break;
+      case "approve":
+        action = {
+          kind,
+          actor: actor(required("actor"), "", line),
+          token: token(required("token"), line),
+          amount: String(params.amount ?? "max"),
+        };
+        break;
+      case "pause":
+      case "unpause":
+        action = { kind, actor: actor(params.actor, HEXAGATE, line) };
+        break;
+      case "addToken":
+      case "removeToken":
+        action = { kind, actor: actor(params.actor, OWNER, line), token: token(required("token"), line) };
+        break;
+      case "updateUnlockDuration":
+        action = { kind, actor: actor(params.actor, OWNER, line), seconds: duration(required("duration"), line) };
+        break;
+      case "updateHexagate":
+        action = {
+          kind,
+          actor: actor(params.actor, OWNER, line),
+          hexagate: actor(required("hexagate"), "", line),
+        };
+        break;
+      case "advance":
+        // `advance: unlock` waits for the unlock duration
+        action = { kind, seconds: value === "unlock" ? undefined : duration(value, line) };
+        break;
+      case "expect": {
+        const { paused, supported } = params;
+        if (paused !== undefined && typeof paused !== "boolean") return fail("paused must be true or false", line);
+        if (supported !== undefined && !Array.isArray(supported)) return fail("supported must be a list", line);
+        action = {
+          kind,
+          checks: {
+            balances:
+              params.balances === undefined ? undefined : holdings(params.balances, line, [...holders, LPSTAKING]),
+            staked: params.staked === undefined ? undefined : holdings(params.staked, line, holders),
+            unlocks: params.unlocks === undefined ? undefined : holdings(params.unlocks, line, holders),
+            paused,
+            unlockDuration: params.unlockDuration === undefined ? undefined : duration(params.unlockDuration, line),
+            supported: supported?.map((name: unknown) => token(name, line)),
+          },
+        };
+        break;
+      }
+    }
+    if ((reverts !== undefined || emits !== undefined) && (kind === "advance" || kind === "expect")) {
+      fail(`${kind} cannot revert or emit`, line);
+    }
+    if (emits !== undefined && !Array.isArray(emits)) return fail("emits must be a list of events", line);
+    return {
+      action: action!,
+      reverts: reverts === undefined ? undefined : String(reverts),
+      emits: (emits ?? []).map((event: unknown) => {
+        const [name, args] = isMapping(event) ? Object.entries(event)[0] ?? [] : [];
+        if (name === undefined || (args !== null && !Array.isArray(args))) {
+          return fail("an event is written as EventName: [arg, ...]", line);
+        }
+        return { name, args: args ?? [] };
+      }),
+      line,
+    };
+  });
+
+  return {
+    file,
+    name: String(root.name ?? path.basename(file, path.extname(file))),
+    actors,
+    tokens,
+    balances,
+    unlockDuration: root.unlockDuration === undefined ? undefined : duration(root.unlockDuration),
+    steps,
+  };
+}
+
+export function loadScenario(file: string): Scenario {
+  return parseScenario(fs.readFileSync(file, "utf-8"), file);
+}
+
+/**
+ * The scenario files of a directory, in name order.
+ */
+export function listScenarios(dir: string): string[] {
+  return fs
+    .readdirSync(dir)
+    .filter((name) => /\.(ya?ml|json)$/.test(name))
+    .sort()
+    .map((name) => path.join(dir, name));
+}
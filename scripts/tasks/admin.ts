@@ -0,0 +1,53 @@
+import { task, types } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR } from "@/utils/deployments";
+import { forkNetwork } from "@/utils/fork";
+import { resolveLPStaking } from "@/utils/lpstaking";
+
+import { formatAdminAction, parseAdminAction } from "../admin/actions";
+import { buildSafeBatch, saveSafeBatch, toSafeTransaction } from "../admin/safe";
+import { simulateAdminBatch } from "../admin/simulate";
+
+task("admin:batch", "Build a Safe transaction-builder batch of LPStaking owner calls, checked on a fork")
+  .addOptionalParam("fork", "The network (name or RPC url) to fork and build the batch for")
+  .addOptionalParam("forkBlock", "The block to fork at, defaults to the latest", undefined, types.int)
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("safe", "The Safe sending the batch, defaults to the current owner")
+  .addOptionalParam("name", "The batch name shown in the transaction builder", "LPStaking admin")
+  .addOptionalParam("out", "File to write the batch to, printed when omitted")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .addVariadicPositionalParam("actions", "Owner calls, e.g. 'removeLPTokenSupport(0x...)' 'acceptOwnership()'")
+  .setAction(async (args, hre) => {
+    const actions = (args.actions as string[]).map(parseAdminAction);
+    const chainId = args.fork
+      ? await forkNetwork(hre, args.fork, args.forkBlock)
+      : (await hre.ethers.provider.getNetwork()).chainId;
+    const network = args.fork && hre.config.networks[args.fork] ? args.fork : hre.network.name;
+    const { contract } = await resolveLPStaking(hre, args.address, args.deployments, network);
+    const address = await contract.getAddress();
+    const safe: string = args.safe ?? (await contract.owner());
+
+    console.error(`Simulating ${actions.length} action(s) from ${safe} on LPStaking ${address}...`);
+    const { issues, gasUsed } = await simulateAdminBatch(hre, contract, safe, actions);
+    if (issues.length > 0) {
+      const lines = issues.map((issue) => `  - ${formatAdminAction(issue.action)}: ${issue.message}`);
+      throw new Error(`Preflight failed, no batch written:\n${lines.join("\n")}`);
+    }
+    const total = gasUsed.reduce((sum, gas) => sum + gas, 0n);
+    console.error(`Simulation passed, ${total} gas in total`);
+
+    const batch = buildSafeBatch({
+      chainId,
+      safe,
+      name: args.name,
+      description: actions.map(formatAdminAction).join("; "),
+      transactions: actions.map((action) => toSafeTransaction(contract.interface, address, action)),
+    });
+    if (args.out) {
+      saveSafeBatch(args.out, batch);
+      console.error(`Batch written to ${args.out}, import it in the Safe transaction builder`);
+    } else {
+      console.log(JSON.stringify(batch, null, 2));
+    }
+    return batch;
+  });
@@ -0,0 +1,18 @@
+import { task } from "hardhat/config";
+
+import { ContractAst } from "../analysis/accesses";
+import { DEFAULT_PAIRING_SPEC, checkPairing, formatPairingReport, loadPairingSpec } from "../analysis/pairing";
+
+task("check:pairing", "Compare the state each ERC1155 function reads and writes with its ERC20 pair, from the solc AST")
+  .addOptionalParam("spec", "JSON pairing spec, overriding the LPStaking defaults key by key")
+  .setAction(async (args, hre) => {
+    const spec = args.spec ? loadPairingSpec(args.spec) : DEFAULT_PAIRING_SPEC;
+    await hre.run("compile", { quiet: true });
+    const issues = checkPairing(await ContractAst.create(hre, spec.contract), spec);
+    const report = formatPairingReport(spec.contract, issues);
+    if (issues.length > 0) {
+      throw new Error(report);
+    }
+    console.log(report);
+    return issues;
+  });
@@ -0,0 +1,34 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+
+import { JsonCheckpointStore } from "../indexer/checkpoint";
+import { LPStakingIndexer } from "../indexer/LPStakingIndexer";
+
+task("api:serve", "Serve the LPStaking positions and token totals as a read-only JSON API")
+  .addOptionalParam("port", "Port to listen on", 8080, types.int)
+  .addOptionalParam("host", "Interface to listen on", "127.0.0.1")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("checkpoint", "The indexer checkpoint file, defaults to .store/indexer/<network>.json")
+  .addOptionalParam("confirmations", "Blocks behind the head to leave unindexed", 0, types.int)
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    const { contract, deploymentBlock } = await resolveLPStaking(hre, args.address, args.deployments);
+    const file = args.checkpoint ?? path.join(".store", "indexer", `${hre.network.name}.json`);
+    const indexer = new LPStakingIndexer(contract, {
+      startBlock: deploymentBlock,
+      confirmations: args.confirmations,
+      store: new JsonCheckpointStore(file),
+    });
+    await indexer.sync();
+
+    // loaded lazily, it depends on the typechain factories generated by compiling
+    const { StakingApi } = await import("../api/StakingApi");
+    const api = new StakingApi(indexer);
+    const { address, port } = await api.listen(args.port, args.host);
+    console.log(`Serving LPStaking ${await contract.getAddress()} on http://${address}:${port}`);
+    await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+    await api.close();
+  });
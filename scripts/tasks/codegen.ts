@@ -0,0 +1,37 @@
+import { task } from "hardhat/config";
+
+import {
+  ABI_PACKAGE,
+  DEFAULT_ABI_PACKAGE_DIR,
+  DEFAULT_SNAPSHOT_DIR,
+  checkAbiSnapshot,
+  formatSnapshotCheck,
+  generateAbiPackage,
+  loadAbiSnapshot,
+  saveAbiSnapshot,
+} from "../codegen/package";
+
+task("codegen", "Generate the LPStaking ABI package, its subgraph schema and typed log decoders")
+  .addOptionalParam("out", "Directory of the generated package", DEFAULT_ABI_PACKAGE_DIR)
+  .addOptionalParam("snapshots", "Directory of the event and schema snapshots", DEFAULT_SNAPSHOT_DIR)
+  .addFlag("updateSnapshot", "Record the events and the schema as the snapshot of the package version")
+  .setAction(async (args, hre) => {
+    await hre.run("compile", { quiet: true });
+    const generated = await generateAbiPackage(hre, args.out);
+    const recorded = loadAbiSnapshot(args.snapshots);
+    const check = checkAbiSnapshot(recorded?.snapshot, generated.snapshot);
+    const report = formatSnapshotCheck(check, generated.snapshot, recorded?.snapshot);
+    // a release with other events under the same version would break the consumers of that version
+    if (check.status === "unbumped") {
+      throw new Error(report);
+    }
+
+    console.log(`Generated ${ABI_PACKAGE.name} ${ABI_PACKAGE.version} in ${args.out}`);
+    if (args.updateSnapshot) {
+      saveAbiSnapshot(generated.snapshot, generated.schema, args.snapshots);
+      console.log(`Recorded the snapshot in ${args.snapshots}`);
+    } else {
+      console.log(report);
+    }
+    return generated;
+  });
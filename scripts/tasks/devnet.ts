@@ -0,0 +1,71 @@
+import { task, types } from "hardhat/config";
+import { TASK_NODE_CREATE_SERVER, TASK_NODE_SERVER_READY } from "hardhat/builtin-tasks/task-names";
+import { JsonRpcServer } from "hardhat/types";
+
+import type { LPStaking } from "@/types/index";
+import { DEFAULT_DEPLOYMENTS_DIR } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+import { renderTable } from "@/utils/table";
+
+import { LPStakingIndexer } from "../indexer/LPStakingIndexer";
+import { UnlockKeeper } from "../keeper/UnlockKeeper";
+import { DEVNET_NETWORK, devnetFile, seedDevnet } from "../devnet/seed";
+import { DevnetProvider, fastForwardToNextUnlock } from "../devnet/shortcuts";
+
+task("devnet", "Start a local node with LPStaking, PTPStaking and the mock tokens deployed and demo accounts staked")
+  .addOptionalParam("hostname", "The host to listen on", "127.0.0.1")
+  .addOptionalParam("port", "The port to listen on", 8545, types.int)
+  .addOptionalParam("unlockDuration", "LPStaking unlock duration in seconds, defaults to a week", undefined, types.int)
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    if (hre.network.name !== "hardhat") {
+      throw new Error(`The devnet runs its own node, run it without --network (got ${hre.network.name})`);
+    }
+    const deployment = await seedDevnet(hre, { unlockDuration: args.unlockDuration, deployments: args.deployments });
+    const lpStaking = (await hre.ethers.getContractAt(
+      "LPStaking",
+      deployment.contracts.LPStaking
+    )) as unknown as LPStaking;
+    const indexer = new LPStakingIndexer(lpStaking, { startBlock: deployment.blockNumber, confirmations: 0 });
+    const provider = new DevnetProvider(hre.network.provider, new UnlockKeeper(indexer, { sinks: [] }), deployment);
+
+    const server: JsonRpcServer = await hre.run(TASK_NODE_CREATE_SERVER, {
+      hostname: args.hostname,
+      port: args.port,
+      provider,
+    });
+    const { address, port } = await server.listen();
+    await hre.run(TASK_NODE_SERVER_READY, { address, port, provider, server });
+
+    console.log(renderTable(["contract", "address"], Object.entries(deployment.contracts)));
+    const rows = deployment.accounts.map((account) => [account.name, account.address, account.state]);
+    console.log(renderTable(["account", "address", "state"], rows));
+    console.log(`Addresses written to ${devnetFile(args.deployments)}, run the tasks with --network ${DEVNET_NETWORK}`);
+    console.log(
+      "Call devnet_nextUnlock to fast-forward to the next unlock maturity, devnet_deployment for the addresses"
+    );
+    await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+    await server.close();
+  });
+
+task("devnet:next-unlock", "Mine a block at the next LPStaking unlock maturity of a local node")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    const { contract, deploymentBlock } = await resolveLPStaking(hre, args.address, args.deployments);
+    const indexer = new LPStakingIndexer(contract, { startBlock: deploymentBlock, confirmations: 0 });
+    const forward = await fastForwardToNextUnlock(hre.network.provider, new UnlockKeeper(indexer, { sinks: [] }));
+    if (forward === undefined) {
+      console.log("No unlock is maturing, every outstanding unlock can be unstaked");
+      return undefined;
+    }
+    const at = new Date(Number(forward.timestamp) * 1000).toISOString();
+    console.log(`Mined block ${forward.blockNumber} at ${at}, now withdrawable:`);
+    const rows = forward.unlocks.map((unlock) => [
+      unlock.user,
+      unlock.is1155 ? `${unlock.token} id ${unlock.id}` : unlock.token,
+      unlock.amount.toString(),
+    ]);
+    console.log(renderTable(["user", "token", "amount"], rows));
+    return forward;
+  });
@@ -0,0 +1,49 @@
+import { task, types } from "hardhat/config";
+
+import {
+  DEFAULT_GAS_BASELINE,
+  GasBaseline,
+  compareGas,
+  loadGasBaseline,
+  renderGasDiff,
+  runGasBenchmark,
+  saveGasBaseline,
+} from "../gas/benchmark";
+
+task("gas:benchmark", "Measure the gas of every LPStaking and PTPStaking entry point against the baseline")
+  .addOptionalParam("baseline", "The baseline file", DEFAULT_GAS_BASELINE)
+  .addOptionalParam("tolerance", "Allowed growth over the baseline, in percent", 2, types.float)
+  .addFlag("update", "Write the measurements as the new baseline")
+  .setAction(async (args, hre) => {
+    const gas = await runGasBenchmark(hre);
+    const [compiler] = hre.config.solidity.compilers;
+    const measured: GasBaseline = {
+      solc: compiler.version,
+      optimizerRuns: compiler.settings.optimizer?.enabled ? compiler.settings.optimizer.runs : undefined,
+      gas,
+    };
+
+    const baseline = loadGasBaseline(args.baseline);
+    const diffs = compareGas(baseline?.gas ?? {}, gas, args.tolerance);
+    console.log(renderGasDiff(diffs));
+
+    if (args.update) {
+      saveGasBaseline(args.baseline, measured);
+      console.log(`Baseline written to ${args.baseline}`);
+      return diffs;
+    }
+    if (baseline === undefined) {
+      throw new Error(`No gas baseline at ${args.baseline}, run with --update to record one`);
+    }
+    if (baseline.solc !== measured.solc || baseline.optimizerRuns !== measured.optimizerRuns) {
+      console.warn(`Warning: the baseline was recorded with solc ${baseline.solc}, runs ${baseline.optimizerRuns}`);
+    }
+    const regressed = diffs.filter((diff) => diff.status === "regressed");
+    if (regressed.length > 0) {
+      throw new Error(
+        `${regressed.length} scenario(s) use more than ${args.tolerance}% over the baseline: ` +
+          regressed.map((diff) => diff.scenario).join(", ")
+      );
+    }
+    return diffs;
+  });
@@ -0,0 +1,18 @@
+import "./admin";
+import "./analysis";
+import "./api";
+import "./codegen";
+import "./devnet";
+import "./gas";
+import "./indexer";
+import "./keeper";
+import "./loyalty";
+import "./lpstaking";
+import "./migration";
+import "./monitor";
+import "./reconcile";
+import "./report";
+import "./simulate";
+import "./storage-layout";
+import "./verify-local";
+import "./weights";
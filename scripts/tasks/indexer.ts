@@ -0,0 +1,31 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+
+import { JsonCheckpointStore } from "../indexer/checkpoint";
+import { LPStakingIndexer } from "../indexer/LPStakingIndexer";
+
+task("index:lpstaking", "Index LPStaking position events into a local checkpoint")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("checkpoint", "The checkpoint file, defaults to .store/indexer/<network>.json")
+  .addOptionalParam("confirmations", "Blocks behind the head to leave unindexed", 12, types.int)
+  .addOptionalParam("batchSize", "Blocks per page of logs", 2000, types.int)
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    const { contract, deploymentBlock } = await resolveLPStaking(hre, args.address, args.deployments);
+    const file = args.checkpoint ?? path.join(".store", "indexer", `${hre.network.name}.json`);
+    const indexer = new LPStakingIndexer(contract, {
+      startBlock: deploymentBlock,
+      confirmations: args.confirmations,
+      batchSize: args.batchSize,
+      store: new JsonCheckpointStore(file),
+    });
+
+    const result = await indexer.sync();
+    if (result.reorged) console.log("Checkpoint block is no longer canonical, reindexed from the start");
+    console.log(`Indexed blocks ${result.fromBlock} to ${result.toBlock}: ${result.events} event(s)`);
+    console.log(`${indexer.getPositions().length} open position(s), checkpoint saved to ${file}`);
+    return indexer;
+  });
@@ -0,0 +1,59 @@
+import { task, types } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+import { renderTable } from "@/utils/table";
+
+import { LPStakingIndexer } from "../indexer/LPStakingIndexer";
+import { UnlockKeeper } from "../keeper/UnlockKeeper";
+import { formatCountdown } from "../keeper/schedule";
+import { UnlockSink, fileSink, stdoutSink, webhookSink } from "../keeper/sinks";
+
+task("keeper:unlocks", "List the outstanding LPStaking unlocks with the time left until they can be unstaked")
+  .addOptionalParam("user", "Only list the unlocks of this account")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    const { contract, deploymentBlock } = await resolveLPStaking(hre, args.address, args.deployments);
+    const indexer = new LPStakingIndexer(contract, { startBlock: deploymentBlock, confirmations: 0 });
+    const schedule = await new UnlockKeeper(indexer, { sinks: [] }).schedule(args.user);
+
+    const rows = schedule.map((unlock) => [
+      unlock.user,
+      unlock.is1155 ? `${unlock.token} id ${unlock.id}` : unlock.token,
+      unlock.amount.toString(),
+      new Date(Number(unlock.unlockAt) * 1000).toISOString(),
+      formatCountdown(unlock.remaining),
+    ]);
+    console.log(renderTable(["user", "token", "amount", "unlock at", "countdown"], rows));
+    return schedule;
+  });
+
+task("keeper:run", "Notify every LPStaking unlock as soon as it can be unstaked")
+  .addOptionalParam("webhook", "URL to POST every notification to as JSON")
+  .addOptionalParam("file", "File to append every notification to as a JSON line")
+  .addOptionalParam("confirmations", "Blocks behind the head to leave unindexed", 0, types.int)
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .addFlag("unstake", "Also unstake the matured unlocks of the configured accounts")
+  .setAction(async (args, hre) => {
+    const { contract, deploymentBlock } = await resolveLPStaking(hre, args.address, args.deployments);
+    const sinks: UnlockSink[] = [stdoutSink()];
+    if (args.file) sinks.push(fileSink(args.file));
+    if (args.webhook) sinks.push(webhookSink(args.webhook));
+
+    const indexer = new LPStakingIndexer(contract, { startBlock: deploymentBlock, confirmations: args.confirmations });
+    const keeper = new UnlockKeeper(indexer, {
+      sinks,
+      signers: args.unstake ? await hre.ethers.getSigners() : [],
+      onError: (error) => console.error("Keeper failed:", error),
+    });
+
+    console.log(
+      `Watching LPStaking ${await contract.getAddress()} unlocks, notifying ${sinks.map((s) => s.name).join(", ")}`
+    );
+    await keeper.poll();
+    keeper.start();
+    await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+    await keeper.stop();
+  });
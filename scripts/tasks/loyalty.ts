@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task, types } from "hardhat/config";
+
+import type { PTPStaking } from "@/types/index";
+import { DEFAULT_DEPLOYMENTS_DIR, resolvePTPStaking } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+import { renderTable } from "@/utils/table";
+
+import { buildLeaderboards, computeLoyaltyScores, leaderboardsToCsv, leaderboardsToJson } from "../weights/loyalty";
+import { PENDING_UNLOCK_RULES, PendingUnlockRule } from "../weights/weights";
+
+task("loyalty:scores", "Score every staker by time-weighted stake (token-seconds) per token and write leaderboards")
+  .addOptionalParam(
+    "from",
+    "Start of the window as a unix timestamp, defaults to the first stake",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("block", "End of the window, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("pendingUnlocks", "How outstanding unlocks count: include, exclude or matured", "matured")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("ptp", "PTPStaking address, defaults to PTPLock in deployments/PTP.json when deployed")
+  .addOptionalParam("batchSize", "Blocks per page of logs", 2000, types.int)
+  .addOptionalParam("out", "The score file, defaults to .store/loyalty/<network>-<block>.json")
+  .addOptionalParam("csv", "Also write the leaderboards as CSV to this file")
+  .addOptionalParam("top", "Accounts listed per token", 10, types.int)
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    const rule = args.pendingUnlocks as PendingUnlockRule;
+    if (!PENDING_UNLOCK_RULES.includes(rule)) {
+      throw new Error(`Unknown pending unlock rule ${rule}, expected one of ${PENDING_UNLOCK_RULES.join(", ")}`);
+    }
+    const provider = hre.ethers.provider;
+    const blockNumber: number = args.block ?? (await provider.getBlockNumber());
+
+    const { contract, deploymentBlock } = await resolveLPStaking(hre, args.address, args.deployments);
+    const ptp = await resolvePTPStaking(provider, args.ptp, args.deployments, blockNumber);
+
+    const { window, scores } = await computeLoyaltyScores({
+      lpStaking: contract,
+      lpStakingStartBlock: deploymentBlock,
+      ptpStaking:
+        ptp === undefined ? undefined : ((await hre.ethers.getContractAt("PTPStaking", ptp)) as unknown as PTPStaking),
+      blockNumber,
+      from: args.from === undefined ? undefined : BigInt(args.from),
+      pendingUnlocks: rule,
+      batchSize: args.batchSize,
+    });
+    const leaderboards = buildLeaderboards(scores);
+
+    const file = args.out ?? path.join(".store", "loyalty", `${hre.network.name}-${blockNumber}.json`);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const chainId = (await provider.getNetwork()).chainId;
+    fs.writeFileSync(file, leaderboardsToJson(leaderboards, { chainId, blockNumber, window }));
+    if (args.csv) fs.writeFileSync(args.csv, leaderboardsToCsv(leaderboards));
+
+    const from = new Date(Number(window.from) * 1000).toISOString();
+    const to = new Date(Number(window.to) * 1000).toISOString();
+    console.log(`Token-seconds from ${from} to ${to} (block ${blockNumber}), pending unlocks ${rule}`);
+    for (const board of leaderboards) {
+      const rows = board.entries
+        .slice(0, args.top)
+        .map((entry) => [
+          entry.rank.toString(),
+          entry.account,
+          entry.tokenSeconds.toString(),
+          `${(entry.share * 100).toFixed(2)}%`,
+          entry.staked.toString(),
+        ]);
+      console.log(`${board.token}${board.id === 0n ? "" : ` id ${board.id}`}: ${board.entries.length} staker(s)`);
+      console.log(renderTable(["rank", "account", "token-seconds", "share", "staked"], rows));
+    }
+    console.log(`Written to ${file}${args.csv ? ` and ${args.csv}` : ""}`);
+    return leaderboards;
+  });
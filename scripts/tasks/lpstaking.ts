@@ -0,0 +1,92 @@
+import { TransactionResponse } from "ethers";
+import { task, types } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR, ProxyKind, loadDeployment, saveDeployment } from "@/utils/deployments";
+import { deployLPStakingProxy, implementationRecord } from "@/utils/lpstaking";
+import { getStorageLayout } from "@/utils/storage-layout";
+
+const PROXY_KINDS: ProxyKind[] = ["transparent"];
+
+task("deploy:lpstaking", "Deploy LPStaking behind a proxy, initialize it and record the deployment")
+  .addParam("hexagate", "The address allowed to pause and unpause the contract")
+  .addOptionalParam("kind", "Proxy kind, only transparent is supported", "transparent")
+  .addOptionalParam("contract", "The contract to deploy", "LPStaking")
+  .addOptionalParam("name", "The name of the deployment record", "LPStaking")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .addFlag("force", "Overwrite an existing deployment record")
+  .setAction(async (args, hre) => {
+    const kind = args.kind as ProxyKind;
+    if (!PROXY_KINDS.includes(kind)) {
+      throw new Error(`Unknown proxy kind ${args.kind}, expected one of ${PROXY_KINDS.join(", ")}`);
+    }
+    if (!hre.ethers.isAddress(args.hexagate)) {
+      throw new Error(`Invalid hexagate address ${args.hexagate}`);
+    }
+    if (!args.force && loadDeployment(hre.network.name, args.name, args.deployments)) {
+      throw new Error(`${args.name} is already deployed on ${hre.network.name}, pass --force to redeploy`);
+    }
+
+    console.log(`Deploying ${args.contract} behind a ${kind} proxy on ${hre.network.name}...`);
+    const record = await deployLPStakingProxy(hre, args.hexagate, kind, args.contract);
+    saveDeployment(hre.network.name, args.name, record, args.deployments);
+
+    const { proxy: proxyAddress, implementation, admin } = record;
+    console.log(`  proxy:          ${proxyAddress}`);
+    console.log(`  implementation: ${implementation}`);
+    console.log(`  admin:          ${admin}`);
+    return proxyAddress;
+  });
+
+task("upgrade:lpstaking", "Upgrade the recorded LPStaking proxy to the current build")
+  .addOptionalParam("contract", "The new implementation contract", "LPStaking")
+  .addOptionalParam("name", "The name of the deployment record", "LPStaking")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .addOptionalParam("call", "Function to call on the proxy after the upgrade", undefined, types.string)
+  .addFlag("skipStorageCheck", "Do not compare the storage layout with the deployment record")
+  .setAction(async (args, hre) => {
+    const record = loadDeployment(hre.network.name, args.name, args.deployments);
+    if (!record) {
+      throw new Error(`No ${args.name} deployment recorded for ${hre.network.name}`);
+    }
+    if (!args.skipStorageCheck) {
+      await hre.run("check:storage-layout", {
+        contract: args.contract,
+        name: args.name,
+        deployments: args.deployments,
+      });
+    }
+
+    const [signer] = await hre.ethers.getSigners();
+    const contract: string = args.contract;
+    const factory = await hre.ethers.getContractFactory(contract, signer);
+
+    console.log(`Upgrading ${args.name} at ${record.proxy} to ${args.contract}...`);
+    const upgraded = await hre.upgrades.upgradeProxy(record.proxy, factory, {
+      kind: record.kind,
+      call: args.call,
+    });
+    // the plugin exposes the upgrade transaction as `deployTransaction` on the returned instance
+    const tx = (upgraded as typeof upgraded & { deployTransaction?: TransactionResponse }).deployTransaction;
+    if (!tx) {
+      throw new Error("The upgrade did not send a transaction");
+    }
+    await tx.wait();
+
+    const implementation = await hre.upgrades.erc1967.getImplementationAddress(record.proxy);
+    const upgrade = await implementationRecord(hre, implementation, tx.hash);
+    saveDeployment(
+      hre.network.name,
+      args.name,
+      {
+        ...record,
+        contract: args.contract,
+        implementation,
+        history: [...record.history, upgrade],
+        storageLayout: await getStorageLayout(hre, contract),
+      },
+      args.deployments
+    );
+
+    console.log(`  implementation: ${record.implementation} -> ${implementation}`);
+    return implementation;
+  });
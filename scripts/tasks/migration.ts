@@ -0,0 +1,97 @@
+import * as path from "path";
+import { getBytes } from "ethers";
+import { task, types } from "hardhat/config";
+
+import type { IERC20, PTPStaking } from "@/types/index";
+import { DEFAULT_DEPLOYMENTS_DIR, loadPTPLock } from "@/utils/deployments";
+import { forkNetwork } from "@/utils/fork";
+import { resolveLPStaking } from "@/utils/lpstaking";
+import { renderTable } from "@/utils/table";
+
+import { buildSafeBatch, saveSafeBatch } from "../admin/safe";
+import { PTP_SEED_LIMITS, dryRunPTPSeed, planPTPSeed, seedTransactions } from "../migration/seed";
+import { buildPTPSnapshot, loadSnapshot, saveSnapshot } from "../migration/snapshot";
+
+task("migrate:ptp-snapshot", "Snapshot every PTPStaking staker, with a merkle root, as JSON and CSV")
+  .addOptionalParam("ptp", "PTPStaking address, defaults to PTPLock in deployments/PTP.json")
+  .addOptionalParam("fromBlock", "The first block to read Staked events from", 0, types.int)
+  .addOptionalParam("toBlock", "The snapshot block, defaults to the latest", undefined, types.int)
+  .addOptionalParam("batchSize", "Blocks per page of logs", 2000, types.int)
+  .addOptionalParam("out", "Directory to write the snapshot to, defaults to .store/migration/<network>")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .addFlag("sign", "Sign off the merkle root with the first configured account")
+  .setAction(async (args, hre) => {
+    const address: string | undefined = args.ptp ?? loadPTPLock(args.deployments);
+    if (address === undefined) {
+      throw new Error(`No PTPLock address in ${args.deployments}/PTP.json, pass --ptp`);
+    }
+    const contract = (await hre.ethers.getContractAt("PTPStaking", address)) as unknown as PTPStaking;
+    const snapshot = await buildPTPSnapshot(contract, {
+      fromBlock: args.fromBlock,
+      toBlock: args.toBlock,
+      batchSize: args.batchSize,
+    });
+    if (args.sign) {
+      const [signer] = await hre.ethers.getSigners();
+      snapshot.signer = signer.address;
+      snapshot.signature = await signer.signMessage(getBytes(snapshot.root));
+    }
+
+    const files = saveSnapshot(snapshot, args.out ?? path.join(".store", "migration", hre.network.name));
+    console.log(`${snapshot.stakers.length} staker(s), ${snapshot.total} PTP at block ${snapshot.blockNumber}`);
+    console.log(`Merkle root ${snapshot.root}${snapshot.signer ? `, signed off by ${snapshot.signer}` : ""}`);
+    console.log(`Written to ${files.join(" and ")}`);
+    return snapshot;
+  });
+
+task("migrate:ptp-seed", "Build the treasury batch airdropping the PTP snapshot amounts to the stakers")
+  .addParam("snapshot", "The ptp-snapshot.json file")
+  .addOptionalParam("treasury", "The Safe funding the migration, defaults to the LPStaking owner")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("fork", "The network (name or RPC url) to fork for the dry run")
+  .addOptionalParam("forkBlock", "The block to fork at, defaults to the latest", undefined, types.int)
+  .addOptionalParam("out", "File to write the batch to, printed when omitted")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .addFlag("dryRun", "Run the batch on the hardhat network and show what every staker receives")
+  .setAction(async (args, hre) => {
+    const snapshot = loadSnapshot(args.snapshot);
+    if (!snapshot.signature) console.warn("Warning: the snapshot has not been signed off");
+    if (args.fork) await forkNetwork(hre, args.fork, args.forkBlock);
+    const network = args.fork && hre.config.networks[args.fork] ? args.fork : hre.network.name;
+    const { contract: lpStaking } = await resolveLPStaking(hre, args.address, args.deployments, network);
+    const token = (await hre.ethers.getContractAt("IERC20", snapshot.token)) as unknown as IERC20;
+    const treasury: string = args.treasury ?? (await lpStaking.owner());
+
+    console.warn(PTP_SEED_LIMITS);
+    if (args.dryRun) {
+      const results = await dryRunPTPSeed(hre, lpStaking, token, snapshot, treasury);
+      const rows = results.map((result) => [
+        result.user,
+        result.expected.toString(),
+        result.received.toString(),
+        result.received === result.expected ? "ok" : "MISMATCH",
+      ]);
+      console.log(renderTable(["user", "PTP staked", "PTP airdropped", "status"], rows));
+      const mismatches = results.filter((result) => result.received !== result.expected);
+      if (mismatches.length > 0) {
+        throw new Error(`${mismatches.length} staker(s) did not receive their snapshot amount in the dry run`);
+      }
+      return results;
+    }
+
+    const calls = await planPTPSeed(lpStaking, snapshot);
+    const batch = buildSafeBatch({
+      chainId: snapshot.chainId,
+      safe: treasury,
+      name: "PTP migration",
+      description: `Airdrop PTP to ${snapshot.stakers.length} PTP staker(s) to restake, snapshot root ${snapshot.root}`,
+      transactions: await seedTransactions(lpStaking, token, calls),
+    });
+    if (args.out) {
+      saveSafeBatch(args.out, batch);
+      console.error(`Batch written to ${args.out}, import it in the Safe transaction builder`);
+    } else {
+      console.log(JSON.stringify(batch, null, 2));
+    }
+    return batch;
+  });
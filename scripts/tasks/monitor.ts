@@ -0,0 +1,44 @@
+import { task, types } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+
+import { DEFAULT_MONITOR_CONFIG, createRules, loadMonitorConfig } from "../monitor/config";
+
+task("monitor:lpstaking", "Watch LPStaking blocks and pause the contract when a monitoring rule fires")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("rules", "JSON file with the monitoring rules, defaults to custodyDrop and adminChange")
+  .addOptionalParam("fromBlock", "The first block to evaluate, defaults to the next block", undefined, types.int)
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .addFlag("dryRun", "Only report alerts, never send pause()")
+  .setAction(async (args, hre) => {
+    const { contract } = await resolveLPStaking(hre, args.address, args.deployments);
+    const config = args.rules ? loadMonitorConfig(args.rules) : DEFAULT_MONITOR_CONFIG;
+
+    const hexagate = await contract.hexagate();
+    const pauser = args.dryRun
+      ? undefined
+      : (await hre.ethers.getSigners()).find((signer) => signer.address.toLowerCase() === hexagate.toLowerCase());
+    if (!args.dryRun && pauser === undefined) {
+      throw new Error(`No signer for the hexagate address ${hexagate}, configure its key or pass --dry-run`);
+    }
+
+    // loaded lazily, it depends on the typechain factories generated by compiling
+    const { LPStakingMonitor } = await import("../monitor/LPStakingMonitor");
+    const monitor = new LPStakingMonitor(contract, {
+      rules: createRules(config),
+      pauser,
+      startBlock: args.fromBlock,
+      onAlert: (alerts) => {
+        for (const alert of alerts) console.log(`[block ${alert.blockNumber}] ${alert.rule}: ${alert.message}`);
+      },
+      onError: (error) => console.error("Monitoring failed:", error),
+    });
+
+    console.log(`Monitoring LPStaking ${await contract.getAddress()} with ${config.rules.length} rule(s)`);
+    await monitor.poll();
+    monitor.start();
+    await new Promise<void>((resolve) => process.once("SIGINT", () => resolve()));
+    await monitor.stop();
+    if (monitor.paused) console.log(`Paused LPStaking in ${monitor.paused.transactionHash}`);
+  });
@@ -0,0 +1,50 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+import { renderTable } from "@/utils/table";
+
+import { JsonCheckpointStore } from "../indexer/checkpoint";
+import { LPStakingIndexer } from "../indexer/LPStakingIndexer";
+
+task("reconcile", "Compare indexed LPStaking balances with the tokens the contract holds")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("checkpoint", "The indexer checkpoint file, defaults to .store/indexer/<network>.json")
+  .addOptionalParam("tolerance", "Largest accepted difference per asset, in token base units", "0")
+  .addOptionalParam("confirmations", "Blocks behind the head to leave unindexed", 12, types.int)
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    const { contract, deploymentBlock } = await resolveLPStaking(hre, args.address, args.deployments);
+    const file = args.checkpoint ?? path.join(".store", "indexer", `${hre.network.name}.json`);
+    const indexer = new LPStakingIndexer(contract, {
+      startBlock: deploymentBlock,
+      confirmations: args.confirmations,
+      store: new JsonCheckpointStore(file),
+    });
+    await indexer.sync();
+
+    // loaded lazily, it depends on the typechain factories generated by compiling
+    const { exceedsTolerance, reconcile } = await import("../reconcile/reconcile");
+    const tolerance = BigInt(args.tolerance);
+    const results = await reconcile(contract, indexer.getPositions(), indexer.indexedBlock);
+    console.log(`LPStaking ${await contract.getAddress()} at block ${indexer.indexedBlock}`);
+    const failed = results.filter((result) => exceedsTolerance(result, tolerance));
+
+    const rows = results.map((result) => [
+      result.token,
+      result.is1155 ? result.id.toString() : "-",
+      result.stakers.toString(),
+      result.ledger.toString(),
+      result.custody.toString(),
+      result.difference > 0n ? `+${result.difference}` : result.difference.toString(),
+      exceedsTolerance(result, tolerance) ? "FAIL" : "ok",
+    ]);
+    const header = ["token", "id", "stakers", "ledger", "custody", "surplus/deficit", "status"];
+    console.log(renderTable(header, rows));
+
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} asset(s) differ from the ledger by more than ${tolerance}`);
+    }
+    return results;
+  });
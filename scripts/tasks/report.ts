@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import * as path from "path";
+import { formatUnits } from "ethers";
+import { task, types } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+import { renderTable } from "@/utils/table";
+
+import { JsonCheckpointStore } from "../indexer/checkpoint";
+import { LPStakingIndexer } from "../indexer/LPStakingIndexer";
+
+const REPORT_FORMATS = ["table", "json", "csv"];
+
+function usd(value?: number): string {
+  return value === undefined ? "-" : `$${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+task("report", "Report every token supported by LPStaking with its totals, unlocks and upcoming maturities")
+  .addOptionalParam("format", "Output format: table, json or csv", "table")
+  .addOptionalParam("out", "File to write the report to instead of printing it")
+  .addOptionalParam("prices", "JSON file of USD prices per whole token, keyed by address or address:id")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("checkpoint", "The indexer checkpoint file, defaults to .store/indexer/<network>.json")
+  .addOptionalParam("confirmations", "Blocks behind the head to leave unindexed", 0, types.int)
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    if (!REPORT_FORMATS.includes(args.format)) {
+      throw new Error(`Unknown format ${args.format}, expected one of ${REPORT_FORMATS.join(", ")}`);
+    }
+    const { contract, deploymentBlock } = await resolveLPStaking(hre, args.address, args.deployments);
+    const file = args.checkpoint ?? path.join(".store", "indexer", `${hre.network.name}.json`);
+    const indexer = new LPStakingIndexer(contract, {
+      startBlock: deploymentBlock,
+      confirmations: args.confirmations,
+      store: new JsonCheckpointStore(file),
+    });
+    await indexer.sync();
+
+    // loaded lazily, it depends on the typechain factories generated by compiling
+    const { buildReport, loadPrices, maturitiesToCsv, reportToCsv, reportToJson } = await import("../report/report");
+    const prices = args.prices ? loadPrices(args.prices) : undefined;
+    const report = await buildReport(contract, indexer.getPositions(), indexer.indexedBlock, prices);
+
+    if (args.format === "json") {
+      if (args.out) fs.writeFileSync(args.out, reportToJson(report));
+      else console.log(reportToJson(report));
+    } else if (args.format === "csv") {
+      if (args.out) {
+        // the maturity schedule goes next to the token report, as <out>-maturities.csv
+        const parsed = path.parse(args.out);
+        fs.writeFileSync(args.out, reportToCsv(report));
+        fs.writeFileSync(path.join(parsed.dir, `${parsed.name}-maturities${parsed.ext}`), maturitiesToCsv(report));
+      } else {
+        console.log(reportToCsv(report));
+        console.log(maturitiesToCsv(report));
+      }
+    } else {
+      const when = new Date(report.timestamp * 1000).toISOString();
+      const tokens = report.tokens.map((t) => [
+        t.token,
+        t.id === undefined ? "-" : t.id.toString(),
+        t.symbol || "?",
+        formatUnits(t.totalStaked, t.decimals),
+        t.stakers.toString(),
+        formatUnits(t.inUnlock, t.decimals),
+        formatUnits(t.withdrawable, t.decimals),
+        usd(t.tvl),
+      ]);
+      const header = ["token", "id", "symbol", "staked", "stakers", "in unlock", "withdrawable", "tvl"];
+      const maturities = report.maturities.map((m) => [
+        m.date,
+        m.symbol || m.token,
+        m.id === undefined ? "-" : m.id.toString(),
+        formatUnits(m.amount, m.decimals),
+        m.unlocks.toString(),
+      ]);
+      const output = [
+        `LPStaking ${report.address} at block ${report.blockNumber} (${when})`,
+        renderTable(header, tokens),
+        prices ? `TVL ${usd(report.tvl)}` : "",
+        "Upcoming maturities",
+        maturities.length > 0 ? renderTable(["date", "token", "id", "amount", "unlocks"], maturities) : "none",
+      ].filter((line) => line !== "");
+      if (args.out) fs.writeFileSync(args.out, output.join("\n") + "\n");
+      else console.log(output.join("\n"));
+    }
+
+    const unpriced = prices ? report.tokens.filter((t) => t.price === undefined && t.totalStaked !== 0n) : [];
+    if (unpriced.length > 0) {
+      console.error(`No price for ${unpriced.map((t) => t.symbol || t.token).join(", ")}, left out of the TVL`);
+    }
+    return report;
+  });
@@ -0,0 +1,32 @@
+import { task } from "hardhat/config";
+
+import type { LPStaking, PTPStaking } from "@/types/index";
+import { DEFAULT_DEPLOYMENTS_DIR, loadPTPLock } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+
+task("simulate", "Simulate a staking call with eth_call, decode its revert and suggest a fix")
+  .addParam("from", "The account sending the call")
+  .addOptionalParam("ptp", "Call PTPStaking at this address, or PTPLock in deployments/PTP.json with 'lock'")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .addPositionalParam("call", "The call, e.g. 'stake(1000000000000000000, 0x...)' or 'unstake(0x...)'")
+  .setAction(async (args, hre) => {
+    // loaded lazily, it depends on the typechain factories generated by compiling
+    const { formatSimulation, parseStakingCall, simulateStakingCall } = await import("../contracts/simulation");
+    const { method, args: callArgs } = parseStakingCall(args.call);
+
+    let contract: LPStaking | PTPStaking;
+    if (args.ptp !== undefined) {
+      const ptp = args.ptp === "lock" ? loadPTPLock(args.deployments) : args.ptp;
+      if (ptp === undefined) {
+        throw new Error(`No PTPLock recorded in ${args.deployments}, pass the PTPStaking address`);
+      }
+      contract = (await hre.ethers.getContractAt("PTPStaking", ptp)) as unknown as PTPStaking;
+    } else {
+      contract = (await resolveLPStaking(hre, args.address, args.deployments)).contract;
+    }
+
+    const result = await simulateStakingCall(contract, args.from, method, callArgs);
+    console.log(formatSimulation(result));
+    return result;
+  });
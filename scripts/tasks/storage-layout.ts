@@ -0,0 +1,28 @@
+import { task } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR, loadDeployment } from "@/utils/deployments";
+import { compareStorageLayouts, formatStorageLayoutReport, getStorageLayout } from "@/utils/storage-layout";
+
+task("check:storage-layout", "Compare the storage layout of the current build with the last deployment")
+  .addOptionalParam("contract", "The contract in the current build", "LPStaking")
+  .addOptionalParam("name", "The name of the deployment record", "LPStaking")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    const record = loadDeployment(hre.network.name, args.name, args.deployments);
+    if (!record) {
+      throw new Error(`No ${args.name} deployment recorded for ${hre.network.name}`);
+    }
+    if (!record.storageLayout) {
+      throw new Error(`The ${args.name} deployment record on ${hre.network.name} has no storage layout`);
+    }
+
+    await hre.run("compile", { quiet: true });
+    const current = await getStorageLayout(hre, args.contract);
+    const issues = compareStorageLayouts(record.storageLayout, current);
+    const report = formatStorageLayoutReport(`${record.contract} -> ${args.contract}`, issues);
+    if (issues.length > 0) {
+      throw new Error(report);
+    }
+    console.log(report);
+    return issues;
+  });
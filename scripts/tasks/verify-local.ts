@@ -0,0 +1,71 @@
+import * as fs from "fs";
+import { JsonRpcProvider, Provider } from "ethers";
+import { task, types } from "hardhat/config";
+
+import { DEFAULT_DEPLOYMENTS_DIR, loadDeployments, resolvePTPStaking } from "@/utils/deployments";
+
+import {
+  BytecodeVerification,
+  LocalBytecode,
+  formatVerificationReport,
+  readLocalBytecode,
+  verifyDeployedBytecode,
+} from "../analysis/bytecode";
+
+interface VerificationTarget {
+  label: string;
+  contract: string;
+  address: string;
+}
+
+task("verify-local", "Compare deployed runtime bytecode with the current build, without an explorer")
+  .addOptionalParam("contract", "The contract of the build to compare --address with")
+  .addOptionalParam("address", "The address to verify, defaults to every recorded implementation and PTPLock")
+  .addOptionalParam("rpc", "JSON-RPC endpoint to fetch the code from, defaults to the network")
+  .addOptionalParam("block", "Block to fetch the code at, defaults to the latest", undefined, types.int)
+  .addOptionalParam("out", "Also write the results as JSON to this file")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    if ((args.contract === undefined) !== (args.address === undefined)) {
+      throw new Error("Pass --contract and --address together, or neither to verify the recorded deployments");
+    }
+    await hre.run("compile", { quiet: true });
+    const provider: Provider = args.rpc ? new JsonRpcProvider(args.rpc) : hre.ethers.provider;
+
+    try {
+      const targets: VerificationTarget[] = [];
+      if (args.address !== undefined) {
+        targets.push({ label: args.contract, contract: args.contract, address: args.address });
+      } else {
+        // the implementations hold the code, their proxies only delegate to them
+        for (const [name, record] of Object.entries(loadDeployments(hre.network.name, args.deployments))) {
+          targets.push({ label: name, contract: record.contract, address: record.implementation });
+        }
+        const ptp = await resolvePTPStaking(provider, undefined, args.deployments, args.block);
+        if (ptp !== undefined) {
+          targets.push({ label: "PTPLock", contract: "PTPStaking", address: ptp });
+        }
+      }
+      if (targets.length === 0) {
+        throw new Error(`Nothing deployed is recorded for ${hre.network.name}, pass --contract and --address`);
+      }
+
+      const builds = new Map<string, LocalBytecode>();
+      const results: BytecodeVerification[] = [];
+      for (const target of targets) {
+        if (!builds.has(target.contract)) builds.set(target.contract, await readLocalBytecode(hre, target.contract));
+        const local = builds.get(target.contract)!;
+        results.push(await verifyDeployedBytecode(provider, local, target.address, target.label, args.block));
+      }
+
+      if (args.out) fs.writeFileSync(args.out, JSON.stringify(results, undefined, 2) + "\n");
+      const report = formatVerificationReport(results, Array.from(builds.values()));
+      if (results.some((result) => !result.match)) {
+        throw new Error(report);
+      }
+      console.log(report);
+      return results;
+    } finally {
+      if (provider instanceof JsonRpcProvider) provider.destroy();
+    }
+  });
@@ -0,0 +1,83 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+
+import type { PTPStaking } from "@/types/index";
+import { DEFAULT_DEPLOYMENTS_DIR, resolvePTPStaking } from "@/utils/deployments";
+import { resolveLPStaking } from "@/utils/lpstaking";
+
+import { buildWeightSnapshot, loadWeightSnapshot, saveWeightSnapshot, verifyWeightProof } from "../weights/merkle";
+import { PENDING_UNLOCK_RULES, PendingUnlockRule, blockAtTimestamp, computeStakeWeights } from "../weights/weights";
+
+task("snapshot:weights", "Build a merkle tree of every account's stake per token at a block or timestamp")
+  .addOptionalParam("block", "The snapshot block, defaults to the latest", undefined, types.int)
+  .addOptionalParam("timestamp", "Snapshot at the last block mined at or before this time", undefined, types.int)
+  .addOptionalParam("pendingUnlocks", "How outstanding unlocks count: include, exclude or matured", "matured")
+  .addOptionalParam("address", "LPStaking address, defaults to the recorded deployment")
+  .addOptionalParam("ptp", "PTPStaking address, defaults to PTPLock in deployments/PTP.json when deployed")
+  .addOptionalParam("batchSize", "Blocks per page of logs", 2000, types.int)
+  .addOptionalParam("out", "The snapshot file, defaults to .store/snapshots/<network>-<block>.json")
+  .addOptionalParam("deployments", "Directory holding the deployment records", DEFAULT_DEPLOYMENTS_DIR)
+  .setAction(async (args, hre) => {
+    const rule = args.pendingUnlocks as PendingUnlockRule;
+    if (!PENDING_UNLOCK_RULES.includes(rule)) {
+      throw new Error(`Unknown pending unlock rule ${rule}, expected one of ${PENDING_UNLOCK_RULES.join(", ")}`);
+    }
+    if (args.block !== undefined && args.timestamp !== undefined) {
+      throw new Error("Pass either --block or --timestamp");
+    }
+    const provider = hre.ethers.provider;
+    const blockNumber: number =
+      args.block ??
+      (args.timestamp !== undefined
+        ? await blockAtTimestamp(provider, args.timestamp)
+        : await provider.getBlockNumber());
+    const block = (await provider.getBlock(blockNumber))!;
+
+    const { contract, deploymentBlock } = await resolveLPStaking(hre, args.address, args.deployments);
+    const ptp = await resolvePTPStaking(provider, args.ptp, args.deployments, blockNumber);
+
+    const weights = await computeStakeWeights({
+      lpStaking: contract,
+      lpStakingStartBlock: deploymentBlock,
+      ptpStaking:
+        ptp === undefined ? undefined : ((await hre.ethers.getContractAt("PTPStaking", ptp)) as unknown as PTPStaking),
+      blockNumber,
+      pendingUnlocks: rule,
+      batchSize: args.batchSize,
+    });
+    const snapshot = buildWeightSnapshot(weights, {
+      chainId: (await provider.getNetwork()).chainId,
+      blockNumber,
+      timestamp: block.timestamp,
+      pendingUnlocks: rule,
+    });
+
+    const file = args.out ?? path.join(".store", "snapshots", `${hre.network.name}-${blockNumber}.json`);
+    saveWeightSnapshot(file, snapshot);
+    const accounts = Object.keys(snapshot.proofs).length;
+    console.log(`${weights.length} stake(s) of ${accounts} account(s) at block ${blockNumber} (${block.timestamp})`);
+    console.log(`Merkle root ${snapshot.root}, written to ${file}`);
+    return snapshot;
+  });
+
+task("snapshot:verify", "Verify the proofs of an account against the root of a weight snapshot")
+  .addParam("snapshot", "The snapshot file")
+  .addParam("account", "The account to verify")
+  .setAction(async (args) => {
+    const snapshot = loadWeightSnapshot(args.snapshot);
+    const entry = Object.entries(snapshot.proofs).find(
+      ([account]) => account.toLowerCase() === args.account.toLowerCase()
+    );
+    if (entry === undefined) {
+      throw new Error(`${args.account} has no stake in the snapshot`);
+    }
+    const [account, proofs] = entry;
+    for (const { token, id, amount, proof } of proofs) {
+      const weight = { account, token, id: BigInt(id), amount: BigInt(amount) };
+      if (!verifyWeightProof(snapshot.root, weight, proof)) {
+        throw new Error(`Invalid proof for ${amount} of ${token} (id ${id})`);
+      }
+      console.log(`${token}${id === "0" ? "" : ` id ${id}`}: ${amount} verified against ${snapshot.root}`);
+    }
+    return proofs;
+  });
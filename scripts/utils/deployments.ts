@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BlockTag, Provider } from "ethers";
+
+import { StorageLayout } from "./storage-layout";
+
+export const DEFAULT_DEPLOYMENTS_DIR = "deployments";
+
+// LPStaking has no UUPS upgrade function, its proxies are transparent
+export type ProxyKind = "transparent";
+
+export interface ImplementationRecord {
+  implementation: string;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface ProxyDeploymentRecord {
+  contract: string;
+  kind: ProxyKind;
+  proxy: string;
+  implementation: string;
+  // the ProxyAdmin of the proxy
+  admin: string;
+  deployer: string;
+  txHash: string;
+  blockNumber: number;
+  constructorArgs: unknown[];
+  initArgs: unknown[];
+  // every implementation the proxy has pointed to, oldest first
+  history: ImplementationRecord[];
+  // storage layout of the current implementation, the baseline for the next upgrade
+  storageLayout?: StorageLayout;
+}
+
+export type DeploymentRecords = { [name: string]: ProxyDeploymentRecord };
+
+export function deploymentFile(network: string, dir: string = DEFAULT_DEPLOYMENTS_DIR): string {
+  return path.join(dir, `${network}.json`);
+}
+
+export function loadDeployments(network: string, dir: string = DEFAULT_DEPLOYMENTS_DIR): DeploymentRecords {
+  const file = deploymentFile(network, dir);
+  if (!fs.existsSync(file)) return {};
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+export function loadDeployment(
+  network: string,
+  name: string,
+  dir: string = DEFAULT_DEPLOYMENTS_DIR
+): ProxyDeploymentRecord | undefined {
+  return loadDeployments(network, dir)[name];
+}
+
+export function saveDeployment(
+  network: string,
+  name: string,
+  record: ProxyDeploymentRecord,
+  dir: string = DEFAULT_DEPLOYMENTS_DIR
+) {
+  const records = loadDeployments(network, dir);
+  records[name] = record;
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(deploymentFile(network, dir), JSON.stringify(records, undefined, 2) + "\n");
+}
+
+/**
+ * The PTPLock address from `PTP.json`, which predates the registry and only maps names to addresses.
+ */
+export function loadPTPLock(dir: string = DEFAULT_DEPLOYMENTS_DIR): string | undefined {
+  const file = path.join(dir, "PTP.json");
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf-8")).PTPLock;
+}
+
+/**
+ * The PTPStaking to read, `address` or else PTPLock where it is deployed at `blockTag`: `PTP.json` is
+ * not per network, so the recorded PTPLock is ignored on the networks it does not exist on.
+ */
+export async function resolvePTPStaking(
+  provider: Provider,
+  address?: string,
+  dir: string = DEFAULT_DEPLOYMENTS_DIR,
+  blockTag: BlockTag = "latest"
+): Promise<string | undefined> {
+  const ptp = address ?? loadPTPLock(dir);
+  if (ptp !== undefined && (await provider.getCode(ptp, blockTag)) !== "0x") return ptp;
+  if (address !== undefined) {
+    throw new Error(`No contract at ${address} at block ${blockTag}`);
+  }
+  return undefined;
+}
@@ -0,0 +1,24 @@
+import { JsonRpcProvider } from "ethers";
+import { HardhatRuntimeEnvironment, HttpNetworkConfig } from "hardhat/types";
+
+/**
+ * Reset the hardhat network to a fork of `network`, a configured network name or an RPC url,
+ * returning the chain id of the forked chain.
+ */
+export async function forkNetwork(
+  hre: HardhatRuntimeEnvironment,
+  network: string,
+  blockNumber?: number
+): Promise<bigint> {
+  const config = hre.config.networks[network] as HttpNetworkConfig | undefined;
+  const url = config?.url ?? network;
+  if (!/^https?:\/\//.test(url)) {
+    throw new Error(`Unknown network ${network}, pass a configured network name or an RPC url`);
+  }
+  await hre.network.provider.request({
+    method: "hardhat_reset",
+    params: [{ forking: { jsonRpcUrl: url, blockNumber } }],
+  });
+  if (config?.chainId !== undefined) return BigInt(config.chainId);
+  return (await new JsonRpcProvider(url).getNetwork()).chainId;
+}
@@ -0,0 +1,12 @@
+// guards for the JSON files the tasks read back, parsed as `unknown` and checked field by field
+
+export type JsonObject = { [key: string]: unknown };
+
+export function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// an amount or id serialized as a decimal string, the way bigints are written
+export function isDecimal(value: unknown): value is string {
+  return typeof value === "string" && /^\d+$/.test(value);
+}
@@ -0,0 +1,45 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { LPStaking } from "@/types/index";
+
+import { findStorageSlot, getStorageLayout, mappingSlot } from "./storage-layout";
+
+type BlockTag = number | "latest";
+
+/**
+ * Reads the private LPStaking mappings straight from storage, using the slots of the current build.
+ */
+export class LPStakingStorage {
+  private constructor(public readonly contract: LPStaking, private readonly slots: { [label: string]: bigint }) {}
+
+  public static async create(hre: HardhatRuntimeEnvironment, contract: LPStaking): Promise<LPStakingStorage> {
+    const layout = await getStorageLayout(hre, "LPStaking");
+    const labels = ["userBalances", "userBalances1155", "userSnapshots", "tokenUserCount"];
+    return new LPStakingStorage(
+      contract,
+      Object.fromEntries(labels.map((label) => [label, findStorageSlot(layout, label)]))
+    );
+  }
+
+  public userBalance(user: string, token: string, blockTag: BlockTag = "latest"): Promise<bigint> {
+    return this.read(mappingSlot(this.slots.userBalances, user, token), blockTag);
+  }
+
+  public userBalance1155(user: string, token: string, id: bigint, blockTag: BlockTag = "latest"): Promise<bigint> {
+    return this.read(mappingSlot(this.slots.userBalances1155, user, token, id), blockTag);
+  }
+
+  // `initialAmountStaked` is the first member of the UserSnapshot struct
+  public initialAmountStaked(user: string, token: string, blockTag: BlockTag = "latest"): Promise<bigint> {
+    return this.read(mappingSlot(this.slots.userSnapshots, user, token), blockTag);
+  }
+
+  public tokenUserCount(token: string, blockTag: BlockTag = "latest"): Promise<bigint> {
+    return this.read(mappingSlot(this.slots.tokenUserCount, token), blockTag);
+  }
+
+  private async read(slot: bigint, blockTag: BlockTag): Promise<bigint> {
+    const provider = this.contract.runner!.provider!;
+    return BigInt(await provider.getStorage(await this.contract.getAddress(), slot, blockTag));
+  }
+}
@@ -0,0 +1,88 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { LPStaking } from "@/types/index";
+
+import {
+  DEFAULT_DEPLOYMENTS_DIR,
+  ImplementationRecord,
+  ProxyDeploymentRecord,
+  ProxyKind,
+  loadDeployment,
+} from "./deployments";
+import { getStorageLayout } from "./storage-layout";
+
+export interface ResolvedLPStaking {
+  contract: LPStaking;
+  // the block the proxy was deployed in, or 0 when the address was given explicitly
+  deploymentBlock: number;
+}
+
+/**
+ * Attach to LPStaking at `address`, or at the proxy recorded for `network`, the current network by default.
+ */
+export async function resolveLPStaking(
+  hre: HardhatRuntimeEnvironment,
+  address?: string,
+  deployments: string = DEFAULT_DEPLOYMENTS_DIR,
+  network: string = hre.network.name
+): Promise<ResolvedLPStaking> {
+  if (address !== undefined) {
+    const contract = (await hre.ethers.getContractAt("LPStaking", address)) as unknown as LPStaking;
+    return { contract, deploymentBlock: 0 };
+  }
+  const record = loadDeployment(network, "LPStaking", deployments);
+  if (!record) {
+    throw new Error(`No LPStaking deployment recorded for ${network}, pass --address`);
+  }
+  const contract = (await hre.ethers.getContractAt("LPStaking", record.proxy)) as unknown as LPStaking;
+  return { contract, deploymentBlock: record.blockNumber };
+}
+
+export async function implementationRecord(
+  hre: HardhatRuntimeEnvironment,
+  implementation: string,
+  txHash: string
+): Promise<ImplementationRecord> {
+  const receipt = await hre.ethers.provider.getTransactionReceipt(txHash);
+  if (!receipt) {
+    throw new Error(`Failed to fetch the receipt of ${txHash}.`);
+  }
+  const block = await hre.ethers.provider.getBlock(receipt.blockNumber);
+  return { implementation, txHash, blockNumber: receipt.blockNumber, timestamp: block!.timestamp };
+}
+
+/**
+ * Deploy `contract` behind a proxy from the first signer, initialized with `hexagate`, and build its
+ * deployment record.
+ */
+export async function deployLPStakingProxy(
+  hre: HardhatRuntimeEnvironment,
+  hexagate: string,
+  kind: ProxyKind = "transparent",
+  contract: string = "LPStaking"
+): Promise<ProxyDeploymentRecord> {
+  const [deployer] = await hre.ethers.getSigners();
+  const factory = await hre.ethers.getContractFactory(contract, deployer);
+  const initArgs = [hexagate];
+  const proxy = await hre.upgrades.deployProxy(factory, initArgs, { kind, initializer: "initialize" });
+  await proxy.waitForDeployment();
+
+  const proxyAddress = await proxy.getAddress();
+  const implementation = await hre.upgrades.erc1967.getImplementationAddress(proxyAddress);
+  const admin = await hre.upgrades.erc1967.getAdminAddress(proxyAddress);
+  const deployment = await implementationRecord(hre, implementation, proxy.deploymentTransaction()!.hash);
+  return {
+    contract,
+    kind,
+    proxy: proxyAddress,
+    implementation,
+    admin,
+    deployer: deployer.address,
+    txHash: deployment.txHash,
+    blockNumber: deployment.blockNumber,
+    constructorArgs: [],
+    initArgs,
+    history: [deployment],
+    storageLayout: await getStorageLayout(hre, contract),
+  };
+}
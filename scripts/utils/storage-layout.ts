@@ -0,0 +1,193 @@
+import { AbiCoder, keccak256 } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+interface SolcStorageItem {
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+interface SolcStorageType {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: SolcStorageItem[];
+}
+
+interface SolcStorageLayout {
+  storage: SolcStorageItem[];
+  types: { [id: string]: SolcStorageType } | null;
+}
+
+export interface StorageEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  // the fully expanded type, without AST ids, e.g. `mapping(address => struct UserSnapshot { ... })`
+  type: string;
+  // the bytes the variable takes from `offset` on, missing in records written before it was recorded
+  numberOfBytes?: number;
+}
+
+export type StorageLayout = StorageEntry[];
+
+export type StorageLayoutIssueKind = "removed" | "reordered" | "retyped" | "overwritten";
+
+export interface StorageLayoutIssue {
+  kind: StorageLayoutIssueKind;
+  label: string;
+  previous: StorageEntry;
+  current?: StorageEntry;
+}
+
+function expandType(id: string, types: { [id: string]: SolcStorageType }): string {
+  const type = types[id];
+  if (type === undefined) return id;
+  switch (type.encoding) {
+    case "mapping":
+      return `mapping(${expandType(type.key!, types)} => ${expandType(type.value!, types)})`;
+    case "dynamic_array":
+      return `${expandType(type.base!, types)}[]`;
+    default:
+      if (type.members !== undefined) {
+        const members = type.members.map(
+          (member) => `${expandType(member.type, types)} ${member.label} @${member.slot}:${member.offset}`
+        );
+        return `${type.label} { ${members.join("; ")} }`;
+      }
+      if (type.base !== undefined) {
+        // static arrays, the label already carries the length
+        return type.label.replace(/^[^[]+/, expandType(type.base, types));
+      }
+      return type.label;
+  }
+}
+
+/**
+ * Read the storage layout of a contract from the build info of the current compilation.
+ *
+ * The compiler only emits storage layouts when `storageLayout` is in the output selection,
+ * which the OpenZeppelin upgrades plugin adds for every compilation.
+ */
+export async function getStorageLayout(hre: HardhatRuntimeEnvironment, contract: string): Promise<StorageLayout> {
+  const artifact = await hre.artifacts.readArtifact(contract);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  const output = buildInfo?.output.contracts[artifact.sourceName]?.[artifact.contractName] as
+    | { storageLayout?: SolcStorageLayout }
+    | undefined;
+  if (!output?.storageLayout) {
+    throw new Error(`No storage layout in the build info of ${contract}, recompile with storageLayout output`);
+  }
+  const { storage, types } = output.storageLayout;
+  return storage.map((item) => ({
+    label: item.label,
+    slot: item.slot,
+    offset: item.offset,
+    type: expandType(item.type, types ?? {}),
+    numberOfBytes: Number(types?.[item.type]?.numberOfBytes ?? 32 - item.offset),
+  }));
+}
+
+/**
+ * Find the storage slot of a state variable, e.g. to read private mappings with `eth_getStorageAt`.
+ */
+export function findStorageSlot(layout: StorageLayout, label: string): bigint {
+  const entry = layout.find((item) => item.label === label);
+  if (entry === undefined) {
+    throw new Error(`No state variable ${label} in the storage layout`);
+  }
+  return BigInt(entry.slot);
+}
+
+/**
+ * Compute the slot of a (nested) mapping value, keys are addresses (as hex strings) or uint256s.
+ */
+export function mappingSlot(slot: bigint, ...keys: (string | bigint)[]): bigint {
+  const coder = AbiCoder.defaultAbiCoder();
+  return keys.reduce<bigint>((base, key) => {
+    const type = typeof key === "string" ? "address" : "uint256";
+    return BigInt(keccak256(coder.encode([type, "uint256"], [key, base])));
+  }, slot);
+}
+
+// the bytes of an entry as [start, end) counted from slot 0, the rest of its slot when its size is unknown
+function byteRange(entry: StorageEntry): [bigint, bigint] {
+  const start = BigInt(entry.slot) * 32n + BigInt(entry.offset);
+  return [start, start + BigInt(entry.numberOfBytes ?? 32 - entry.offset)];
+}
+
+function overlaps(a: StorageEntry, b: StorageEntry): boolean {
+  const [[aStart, aEnd], [bStart, bEnd]] = [byteRange(a), byteRange(b)];
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Compare two storage layouts and list every change that would corrupt existing storage.
+ *
+ * New variables may take bytes no previous variable used, appended after the last slot or packed into
+ * the free end of a slot. Everything else that moves, retypes, removes or overlaps a previous variable
+ * is reported.
+ */
+export function compareStorageLayouts(previous: StorageLayout, current: StorageLayout): StorageLayoutIssue[] {
+  const issues: StorageLayoutIssue[] = [];
+  const currentByLabel = new Map(current.map((entry) => [entry.label, entry]));
+  const previousLabels = new Set(previous.map((entry) => entry.label));
+
+  for (const entry of previous) {
+    const match = currentByLabel.get(entry.label);
+    if (match === undefined) {
+      const replacement = current.find((item) => item.slot === entry.slot && item.offset === entry.offset);
+      issues.push({ kind: "removed", label: entry.label, previous: entry, current: replacement });
+    } else if (match.slot !== entry.slot || match.offset !== entry.offset) {
+      issues.push({ kind: "reordered", label: entry.label, previous: entry, current: match });
+    } else if (match.type !== entry.type) {
+      issues.push({ kind: "retyped", label: entry.label, previous: entry, current: match });
+    }
+  }
+
+  // new variables must not reuse bytes that previously held data
+  for (const entry of current) {
+    if (previousLabels.has(entry.label)) continue;
+    const overwritten = previous.find((item) => overlaps(item, entry));
+    if (overwritten === undefined) continue;
+    if (issues.some((issue) => issue.kind === "removed" && issue.current === entry)) continue;
+    issues.push({ kind: "overwritten", label: entry.label, previous: overwritten, current: entry });
+  }
+
+  return issues;
+}
+
+function describe(entry: StorageEntry): string {
+  return `${entry.type} ${entry.label} at slot ${entry.slot}, offset ${entry.offset}`;
+}
+
+export function formatStorageLayoutReport(contract: string, issues: StorageLayoutIssue[]): string {
+  if (issues.length === 0) return `${contract}: storage layout is compatible`;
+  const lines = [`${contract}: storage layout is incompatible (${issues.length} issue(s))`];
+  for (const issue of issues) {
+    switch (issue.kind) {
+      case "removed":
+        lines.push(`  - removed:     ${describe(issue.previous)}`);
+        if (issue.current) lines.push(`                 slot now holds ${describe(issue.current)}`);
+        break;
+      case "reordered":
+        lines.push(`  - reordered:   ${issue.label} moved from slot ${issue.previous.slot}:${issue.previous.offset}`);
+        lines.push(`                 to slot ${issue.current!.slot}:${issue.current!.offset}`);
+        break;
+      case "retyped":
+        lines.push(`  - retyped:     ${issue.label} at slot ${issue.previous.slot}`);
+        lines.push(`                 was ${issue.previous.type}`);
+        lines.push(`                 now ${issue.current!.type}`);
+        break;
+      case "overwritten":
+        lines.push(`  - overwritten: ${describe(issue.current!)}`);
+        lines.push(`                 slot previously held ${describe(issue.previous)}`);
+        break;
+    }
+  }
+  return lines.join("\n");
+}
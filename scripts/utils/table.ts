@@ -0,0 +1,19 @@
+// the solid box characters, left, junction and right of the top, middle and bottom borders
+const BORDERS = [
+  ["┌", "┬", "┐"],
+  ["├", "┼", "┤"],
+  ["└", "┴", "┘"],
+];
+
+/**
+ * Render rows as a terminal table, with every column as wide as its content whatever the width of
+ * the terminal, so that addresses and raw token amounts are never wrapped.
+ */
+export function renderTable(header: string[], rows: string[][]): string {
+  const widths = header.map((value, column) => Math.max(value.length, ...rows.map((row) => row[column].length)));
+  const border = ([left, junction, right]: string[]) =>
+    left + widths.map((width) => "─".repeat(width + 2)).join(junction) + right;
+  const line = (cells: string[]) =>
+    "│" + cells.map((cell, column) => ` ${cell.padEnd(widths[column])} `).join("│") + "│";
+  return [border(BORDERS[0]), line(header), border(BORDERS[1]), ...rows.map(line), border(BORDERS[2])].join("\n");
+}
@@ -0,0 +1,282 @@
+import type { LPStaking, PTPStaking } from "@/types/index";
+
+import { PositionEvent, fetchPositionEvents } from "../indexer/events";
+import { Position, PositionMap, applyPositionEvent, positionKey } from "../indexer/positions";
+import { PendingUnlockRule, positionWeight } from "./weights";
+
+/**
+ * A position event with the timestamp of its block.
+ */
+export type TimedPositionEvent = PositionEvent & { timestamp: bigint };
+
+export interface LoyaltyWindow {
+  // the stake is integrated over [from, to], in seconds
+  from: bigint;
+  to: bigint;
+  pendingUnlocks: PendingUnlockRule;
+}
+
+export interface LoyaltyScore {
+  account: string;
+  token: string;
+  // the ERC1155 token id, always 0 for ERC20 tokens
+  id: bigint;
+  // the stake integrated over the window, in token base units times seconds
+  tokenSeconds: bigint;
+  // the stake still counting at the end of the window
+  staked: bigint;
+  // everything staked up to the end of the window, whatever was unstaked since, like
+  // `UserSnapshot.initialAmountStaked` in LPStaking (which sums the ids of an ERC1155 token)
+  totalStaked: bigint;
+  // when the account first staked the token
+  firstStakedAt: bigint;
+}
+
+export interface LeaderboardEntry extends LoyaltyScore {
+  rank: number;
+  // the share of the token-seconds of the token (and id), between 0 and 1
+  share: number;
+}
+
+export interface Leaderboard {
+  token: string;
+  id: bigint;
+  tokenSeconds: bigint;
+  entries: LeaderboardEntry[];
+}
+
+export interface LoyaltyOptions {
+  lpStaking: LPStaking;
+  // the block LPStaking was deployed in
+  lpStakingStartBlock?: number;
+  // PTPStaking stakes are added to the PTP token score of each staker, they are never unlocked
+  ptpStaking?: PTPStaking;
+  ptpStakingStartBlock?: number;
+  // the end of the window, its timestamp is `to`
+  blockNumber: number;
+  // the start of the window, defaults to the first stake
+  from?: bigint;
+  pendingUnlocks?: PendingUnlockRule;
+  batchSize?: number;
+}
+
+interface Accrual {
+  score: LoyaltyScore;
+  position: Position;
+  // the time up to which the score is accrued
+  accruedAt: bigint;
+}
+
+function compareBigInt(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Integrate the stake of every position over the window from its events, in chain order.
+ *
+ * The stake is piecewise constant between events, except under the `matured` rule where the
+ * outstanding unlock stops counting at `unlockAt`, so the interval is split there. Events before
+ * the window only build up the positions, events after it are ignored.
+ */
+export function scoreEvents(events: TimedPositionEvent[], window: LoyaltyWindow): LoyaltyScore[] {
+  const { from, to, pendingUnlocks: rule } = window;
+  const positions: PositionMap = new Map();
+  const accruals = new Map<string, Accrual>();
+
+  const accrue = (accrual: Accrual, until: bigint) => {
+    const end = until < to ? until : to;
+    let at = accrual.accruedAt < from ? from : accrual.accruedAt;
+    while (at < end) {
+      const { position } = accrual;
+      const matures =
+        rule === "matured" && position.pendingUnlock !== 0n && position.unlockAt > at && position.unlockAt < end;
+      const next = matures ? position.unlockAt : end;
+      accrual.score.tokenSeconds += positionWeight(position, at, rule) * (next - at);
+      at = next;
+    }
+    if (until > accrual.accruedAt) accrual.accruedAt = until;
+  };
+
+  for (const event of events) {
+    if (event.timestamp > to) break;
+    const key = positionKey(event.user, event.token, event.id, event.is1155);
+    let accrual = accruals.get(key);
+    if (accrual === undefined) {
+      const { user, token, id, is1155 } = event;
+      accrual = {
+        score: { account: user, token, id, tokenSeconds: 0n, staked: 0n, totalStaked: 0n, firstStakedAt: 0n },
+        position: { user, token, id, is1155, staked: 0n, pendingUnlock: 0n, unlockAt: 0n },
+        accruedAt: event.timestamp,
+      };
+      accruals.set(key, accrual);
+    }
+    accrue(accrual, event.timestamp);
+
+    applyPositionEvent(positions, event);
+    // a position that is fully unstaked is dropped from the map
+    accrual.position = positions.get(key) ?? { ...accrual.position, staked: 0n, pendingUnlock: 0n, unlockAt: 0n };
+    if (event.kind === "Staked") {
+      if (accrual.score.totalStaked === 0n) accrual.score.firstStakedAt = event.timestamp;
+      accrual.score.totalStaked += event.amount;
+    }
+  }
+
+  const scores: LoyaltyScore[] = [];
+  for (const accrual of accruals.values()) {
+    accrue(accrual, to);
+    accrual.score.staked = positionWeight(accrual.position, to, rule);
+    if (accrual.score.tokenSeconds !== 0n || accrual.score.staked !== 0n) scores.push(accrual.score);
+  }
+  return scores;
+}
+
+/**
+ * Rank the accounts of every token (and ERC1155 id) by token-seconds, ties broken by address.
+ */
+export function buildLeaderboards(scores: LoyaltyScore[]): Leaderboard[] {
+  const boards = new Map<string, Leaderboard>();
+  for (const score of scores) {
+    const key = `${score.token.toLowerCase()}:${score.id}`;
+    const board = boards.get(key) ?? { token: score.token, id: score.id, tokenSeconds: 0n, entries: [] };
+    board.tokenSeconds += score.tokenSeconds;
+    board.entries.push({ ...score, rank: 0, share: 0 });
+    boards.set(key, board);
+  }
+
+  const leaderboards = Array.from(boards.values()).sort(
+    (a, b) => a.token.toLowerCase().localeCompare(b.token.toLowerCase()) || compareBigInt(a.id, b.id)
+  );
+  for (const board of leaderboards) {
+    board.entries.sort(
+      (a, b) =>
+        compareBigInt(b.tokenSeconds, a.tokenSeconds) || a.account.toLowerCase().localeCompare(b.account.toLowerCase())
+    );
+    board.entries.forEach((entry, index) => {
+      entry.rank = index + 1;
+      // in millionths, the token-seconds themselves overflow a number
+      entry.share =
+        board.tokenSeconds === 0n ? 0 : Number((entry.tokenSeconds * 1_000_000n) / board.tokenSeconds) / 1e6;
+    });
+  }
+  return leaderboards;
+}
+
+/**
+ * The leaderboards as the score file of reward programs, amounts and token-seconds as strings.
+ */
+export function leaderboardsToJson(
+  leaderboards: Leaderboard[],
+  meta: { chainId: bigint; blockNumber: number; window: LoyaltyWindow }
+): string {
+  const file = {
+    chainId: meta.chainId.toString(),
+    blockNumber: meta.blockNumber,
+    from: Number(meta.window.from),
+    to: Number(meta.window.to),
+    pendingUnlocks: meta.window.pendingUnlocks,
+    leaderboards: leaderboards.map((board) => ({
+      token: board.token,
+      id: board.id.toString(),
+      tokenSeconds: board.tokenSeconds.toString(),
+      entries: board.entries.map((entry) => ({
+        rank: entry.rank,
+        account: entry.account,
+        tokenSeconds: entry.tokenSeconds.toString(),
+        share: entry.share,
+        staked: entry.staked.toString(),
+        totalStaked: entry.totalStaked.toString(),
+        firstStakedAt: Number(entry.firstStakedAt),
+      })),
+    })),
+  };
+  return JSON.stringify(file, null, 2) + "\n";
+}
+
+/**
+ * One row per account and token, amounts in token base units.
+ */
+export function leaderboardsToCsv(leaderboards: Leaderboard[]): string {
+  const header = "token,id,rank,account,token_seconds,share,staked,total_staked,first_staked_at";
+  const rows = leaderboards.flatMap((board) =>
+    board.entries.map((entry) =>
+      [
+        board.token,
+        board.id,
+        entry.rank,
+        entry.account,
+        entry.tokenSeconds,
+        entry.share,
+        entry.staked,
+        entry.totalStaked,
+        entry.firstStakedAt,
+      ].join(",")
+    )
+  );
+  return [header, ...rows].join("\n") + "\n";
+}
+
+/**
+ * Replay LPStaking (and optionally PTPStaking) events up to `blockNumber` and score every account
+ * per token over the window ending at that block.
+ */
+export async function computeLoyaltyScores(
+  options: LoyaltyOptions
+): Promise<{ window: LoyaltyWindow; scores: LoyaltyScore[] }> {
+  const { lpStaking, blockNumber } = options;
+  const batchSize = options.batchSize ?? 2000;
+  const provider = lpStaking.runner!.provider!;
+  const block = await provider.getBlock(blockNumber);
+  if (!block) {
+    throw new Error(`Failed to fetch block ${blockNumber}.`);
+  }
+
+  const events: PositionEvent[] = [];
+  for (let from = options.lpStakingStartBlock ?? 0; from <= blockNumber; from += batchSize) {
+    events.push(...(await fetchPositionEvents(lpStaking, from, Math.min(blockNumber, from + batchSize - 1))));
+  }
+  if (options.ptpStaking) {
+    const { ptpStaking } = options;
+    const token = await ptpStaking.ptpToken({ blockTag: blockNumber });
+    for (let from = options.ptpStakingStartBlock ?? 0; from <= blockNumber; from += batchSize) {
+      const logs = await ptpStaking.queryFilter(
+        ptpStaking.filters.Staked,
+        from,
+        Math.min(blockNumber, from + batchSize - 1)
+      );
+      for (const log of logs) {
+        events.push({
+          kind: "Staked",
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+          user: log.args.user,
+          token,
+          id: 0n,
+          is1155: false,
+          amount: log.args.amount,
+        });
+      }
+    }
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  const timestamps = new Map<number, bigint>();
+  const timed: TimedPositionEvent[] = [];
+  for (const event of events) {
+    if (!timestamps.has(event.blockNumber)) {
+      timestamps.set(event.blockNumber, BigInt((await provider.getBlock(event.blockNumber))!.timestamp));
+    }
+    timed.push({ ...event, timestamp: timestamps.get(event.blockNumber)! });
+  }
+
+  const window: LoyaltyWindow = {
+    from: options.from ?? (timed.length > 0 ? timed[0].timestamp : BigInt(block.timestamp)),
+    to: BigInt(block.timestamp),
+    pendingUnlocks: options.pendingUnlocks ?? "matured",
+  };
+  if (window.from > window.to) {
+    throw new Error(`The window starts at ${window.from}, after block ${blockNumber} (${window.to})`);
+  }
+  return { window, scores: scoreEvents(timed, window) };
+}
@@ -0,0 +1,157 @@
+import * as fs from "fs";
+import * as path from "path";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+
+import { isDecimal, isObject } from "@/utils/json";
+
+import { PENDING_UNLOCK_RULES, PendingUnlockRule, StakeWeight } from "./weights";
+
+// account, token, ERC1155 id (0 for ERC20 tokens) and amount
+export const WEIGHT_LEAF_ENCODING = ["address", "address", "uint256", "uint256"];
+
+type WeightLeaf = [string, string, string, string];
+
+export interface WeightProof {
+  token: string;
+  id: string;
+  amount: string;
+  proof: string[];
+}
+
+/**
+ * The snapshot file: the standard OpenZeppelin tree dump, loadable with `StandardMerkleTree.load`,
+ * plus the proofs grouped per account.
+ */
+export interface WeightSnapshot {
+  chainId: string;
+  blockNumber: number;
+  timestamp: number;
+  pendingUnlocks: PendingUnlockRule;
+  root: string;
+  tree: ReturnType<StandardMerkleTree<WeightLeaf>["dump"]>;
+  proofs: { [account: string]: WeightProof[] };
+}
+
+function toLeaf(weight: StakeWeight): WeightLeaf {
+  return [weight.account, weight.token, weight.id.toString(), weight.amount.toString()];
+}
+
+export function buildWeightTree(weights: StakeWeight[]): StandardMerkleTree<WeightLeaf> {
+  return StandardMerkleTree.of(weights.map(toLeaf), WEIGHT_LEAF_ENCODING, { sortLeaves: true });
+}
+
+export function buildWeightSnapshot(
+  weights: StakeWeight[],
+  meta: { chainId: bigint; blockNumber: number; timestamp: number; pendingUnlocks: PendingUnlockRule }
+): WeightSnapshot {
+  const tree = buildWeightTree(weights);
+  const proofs: WeightSnapshot["proofs"] = {};
+  for (const [index, [account, token, id, amount]] of tree.entries()) {
+    (proofs[account] ??= []).push({ token, id, amount, proof: tree.getProof(index) });
+  }
+  return { ...meta, chainId: meta.chainId.toString(), root: tree.root, tree: tree.dump(), proofs };
+}
+
+/**
+ * Check that `weight` is part of the snapshot with `root`.
+ */
+export function verifyWeightProof(root: string, weight: StakeWeight, proof: string[]): boolean {
+  return StandardMerkleTree.verify(root, WEIGHT_LEAF_ENCODING, toLeaf(weight), proof);
+}
+
+export function saveWeightSnapshot(file: string, snapshot: WeightSnapshot) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + "\n");
+}
+
+function isStrings(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isWholeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value);
+}
+
+function isTreeValue(value: unknown): value is WeightSnapshot["tree"]["values"][number] {
+  return (
+    isObject(value) &&
+    isStrings(value.value) &&
+    value.value.length === WEIGHT_LEAF_ENCODING.length &&
+    isWholeNumber(value.treeIndex)
+  );
+}
+
+function isWeightProof(value: unknown): value is WeightProof {
+  return (
+    isObject(value) &&
+    typeof value.token === "string" &&
+    isDecimal(value.id) &&
+    isDecimal(value.amount) &&
+    isStrings(value.proof)
+  );
+}
+
+/**
+ * Check a parsed snapshot file, throwing with the first field that does not match `WeightSnapshot`.
+ */
+export function validateWeightSnapshot(data: unknown, file: string): WeightSnapshot {
+  const invalid = (what: string): never => {
+    throw new Error(`Invalid weight snapshot ${file}: ${what}`);
+  };
+  if (!isObject(data)) return invalid("expected an object");
+  if (!isDecimal(data.chainId)) return invalid("chainId must be a decimal string");
+  if (!isWholeNumber(data.blockNumber)) return invalid("blockNumber must be a whole number");
+  if (!isWholeNumber(data.timestamp)) return invalid("timestamp must be a whole number");
+  const rule = PENDING_UNLOCK_RULES.find((candidate) => candidate === data.pendingUnlocks);
+  if (rule === undefined) return invalid(`pendingUnlocks must be one of ${PENDING_UNLOCK_RULES.join(", ")}`);
+  if (typeof data.root !== "string") return invalid("root must be a string");
+
+  const tree = data.tree;
+  if (!isObject(tree) || tree.format !== "standard-v1") return invalid("tree must be a standard-v1 tree dump");
+  if (!isStrings(tree.leafEncoding) || tree.leafEncoding.join() !== WEIGHT_LEAF_ENCODING.join()) {
+    return invalid(`tree must encode its leaves as ${WEIGHT_LEAF_ENCODING.join(", ")}`);
+  }
+  if (!isStrings(tree.tree)) return invalid("tree.tree must be a list of hashes");
+  if (!Array.isArray(tree.values)) return invalid("tree.values must be a list");
+  const values: unknown[] = tree.values;
+  const index = values.findIndex((value) => !isTreeValue(value));
+  if (index !== -1) return invalid(`tree value ${index} must have a leaf of 4 strings and a treeIndex`);
+
+  if (!isObject(data.proofs)) return invalid("proofs must map accounts to their proofs");
+  const proofs: WeightSnapshot["proofs"] = {};
+  for (const [account, entries] of Object.entries(data.proofs)) {
+    if (!Array.isArray(entries)) return invalid(`the proofs of ${account} must be a list`);
+    const list: unknown[] = entries;
+    const entry = list.findIndex((proof) => !isWeightProof(proof));
+    if (entry !== -1) {
+      return invalid(`proof ${entry} of ${account} must have a token, a decimal id and amount, and a proof`);
+    }
+    proofs[account] = list.filter(isWeightProof);
+  }
+
+  return {
+    chainId: data.chainId,
+    blockNumber: data.blockNumber,
+    timestamp: data.timestamp,
+    pendingUnlocks: rule,
+    root: data.root,
+    tree: {
+      format: "standard-v1",
+      leafEncoding: tree.leafEncoding,
+      tree: tree.tree,
+      values: values.filter(isTreeValue),
+    },
+    proofs,
+  };
+}
+
+/**
+ * Load a snapshot written by `saveWeightSnapshot`, refusing it when the tree does not match its root.
+ */
+export function loadWeightSnapshot(file: string): WeightSnapshot {
+  const snapshot = validateWeightSnapshot(JSON.parse(fs.readFileSync(file, "utf-8")), file);
+  if (StandardMerkleTree.load(snapshot.tree).root !== snapshot.root) {
+    throw new Error(`The tree in ${file} does not match its root ${snapshot.root}`);
+  }
+  return snapshot;
+}
@@ -0,0 +1,119 @@
+import { Provider } from "ethers";
+
+import type { LPStaking, PTPStaking } from "@/types/index";
+
+import { fetchPositionEvents } from "../indexer/events";
+import { Position, PositionMap, applyPositionEvent, isMatured } from "../indexer/positions";
+import { fetchPTPStakes } from "../migration/snapshot";
+
+/**
+ * How an outstanding unlock counts towards the stake:
+ * - `include`: fully, until it is unstaked
+ * - `exclude`: not at all, from the moment the unlock starts
+ * - `matured`: until the unlock can be unstaked, like `LPStaking.balanceOf` (but keeping anything staked later)
+ */
+export type PendingUnlockRule = "include" | "exclude" | "matured";
+
+export const PENDING_UNLOCK_RULES: PendingUnlockRule[] = ["include", "exclude", "matured"];
+
+export interface StakeWeight {
+  account: string;
+  token: string;
+  // the ERC1155 token id, always 0 for ERC20 tokens
+  id: bigint;
+  amount: bigint;
+}
+
+export interface WeightOptions {
+  lpStaking: LPStaking;
+  // the block LPStaking was deployed in
+  lpStakingStartBlock?: number;
+  // PTPStaking stakes are added to the PTP token weight of each staker
+  ptpStaking?: PTPStaking;
+  ptpStakingStartBlock?: number;
+  blockNumber: number;
+  pendingUnlocks?: PendingUnlockRule;
+  batchSize?: number;
+}
+
+function weightKey(account: string, token: string, id: bigint): string {
+  return `${account.toLowerCase()}:${token.toLowerCase()}:${id}`;
+}
+
+/**
+ * The weight of one position at `timestamp` under `rule`.
+ */
+export function positionWeight(position: Position, timestamp: bigint, rule: PendingUnlockRule): bigint {
+  switch (rule) {
+    case "include":
+      return position.staked;
+    case "exclude":
+      return position.staked - position.pendingUnlock;
+    case "matured":
+      return isMatured(position, timestamp) ? position.staked - position.pendingUnlock : position.staked;
+  }
+}
+
+/**
+ * The last block mined at or before `timestamp`, found by binary search.
+ */
+export async function blockAtTimestamp(provider: Provider, timestamp: number): Promise<number> {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+  const first = await provider.getBlock(low);
+  if (first!.timestamp > timestamp) {
+    throw new Error(`No block at or before timestamp ${timestamp}`);
+  }
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    const block = await provider.getBlock(middle);
+    if (block!.timestamp <= timestamp) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+/**
+ * Replay LPStaking (and optionally PTPStaking) events up to `blockNumber` and compute the stake of
+ * every account per token. Accounts without weight are left out, the result is sorted.
+ */
+export async function computeStakeWeights(options: WeightOptions): Promise<StakeWeight[]> {
+  const { lpStaking, blockNumber } = options;
+  const batchSize = options.batchSize ?? 2000;
+  const rule = options.pendingUnlocks ?? "matured";
+  const block = await lpStaking.runner!.provider!.getBlock(blockNumber);
+  if (!block) {
+    throw new Error(`Failed to fetch block ${blockNumber}.`);
+  }
+
+  const positions: PositionMap = new Map();
+  for (let from = options.lpStakingStartBlock ?? 0; from <= blockNumber; from += batchSize) {
+    const events = await fetchPositionEvents(lpStaking, from, Math.min(blockNumber, from + batchSize - 1));
+    for (const event of events) applyPositionEvent(positions, event);
+  }
+
+  const weights = new Map<string, StakeWeight>();
+  const add = (account: string, token: string, id: bigint, amount: bigint) => {
+    if (amount === 0n) return;
+    const key = weightKey(account, token, id);
+    const weight = weights.get(key) ?? { account, token, id, amount: 0n };
+    weight.amount += amount;
+    weights.set(key, weight);
+  };
+  for (const position of positions.values()) {
+    add(position.user, position.token, position.id, positionWeight(position, BigInt(block.timestamp), rule));
+  }
+
+  if (options.ptpStaking) {
+    const token = await options.ptpStaking.ptpToken({ blockTag: blockNumber });
+    const stakes = await fetchPTPStakes(options.ptpStaking, options.ptpStakingStartBlock ?? 0, blockNumber, batchSize);
+    for (const [account, amount] of stakes) add(account, token, 0n, amount);
+  }
+
+  return Array.from(weights.values()).sort(
+    (a, b) =>
+      a.account.toLowerCase().localeCompare(b.account.toLowerCase()) ||
+      a.token.toLowerCase().localeCompare(b.token.toLowerCase()) ||
+      (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+}
@@ -0,0 +1,172 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { eventDescriptors, renderDecoders } from "../scripts/codegen/events";
+import {
+  ABI_PACKAGE,
+  AbiSnapshot,
+  GeneratedPackage,
+  checkAbiSnapshot,
+  formatSnapshotCheck,
+  generateAbiPackage,
+  loadAbiSnapshot,
+  saveAbiSnapshot,
+} from "../scripts/codegen/package";
+import { LPSTAKING_ENTITY_MAPPINGS, renderSchema } from "../scripts/codegen/schema";
+import { supportedTokensFixture } from "./fixtures";
+
+describe("ABI codegen", function () {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "codegen-"));
+  let generated: GeneratedPackage;
+
+  before(async function () {
+    await hre.run("compile", { quiet: true });
+    generated = await generateAbiPackage(hre, path.join(dir, "package"));
+  });
+
+  after(function () {
+    fs.rmdirSync(dir, { recursive: true });
+  });
+
+  describe("snapshots", function () {
+    it("Should match the event snapshot of the package version", async function () {
+      const recorded = loadAbiSnapshot();
+      const check = checkAbiSnapshot(recorded?.snapshot, generated.snapshot);
+      expect(check.status, formatSnapshotCheck(check, generated.snapshot, recorded?.snapshot)).to.equal("match");
+    });
+
+    it("Should match the schema snapshot", async function () {
+      expect(generated.schema).to.equal(
+        loadAbiSnapshot()?.schema,
+        "The schema changed, record it with `npx hardhat codegen --update-snapshot`"
+      );
+    });
+
+    it("Should require a version bump when an event signature changes", async function () {
+      const snapshot: AbiSnapshot = {
+        ...generated.snapshot,
+        events: generated.snapshot.events.map((event) => event.replace("uint256 unlockAt", "uint64 unlockAt")),
+      };
+      const unbumped = checkAbiSnapshot(snapshot, generated.snapshot);
+      expect(unbumped.status).to.equal("unbumped");
+      expect(unbumped.added).to.have.length(2);
+      expect(formatSnapshotCheck(unbumped, generated.snapshot, snapshot)).to.contain(
+        "- event UnlockStarted(address indexed user, uint256 amount, address indexed token, uint64 unlockAt)"
+      );
+
+      const bumped = checkAbiSnapshot({ ...snapshot, version: "0.9.0" }, generated.snapshot);
+      expect(bumped.status).to.equal("outdated");
+      expect(checkAbiSnapshot(undefined, generated.snapshot).status).to.equal("missing");
+    });
+
+    it("Should fail the codegen task on a change without a version bump", async function () {
+      const snapshots = path.join(dir, "snapshots");
+      const renamed = generated.snapshot.events.map((event) => event.replace("newDuration", "duration"));
+      saveAbiSnapshot({ ...generated.snapshot, events: renamed }, generated.schema, snapshots);
+
+      await expect(hre.run("codegen", { out: path.join(dir, "task"), snapshots })).to.be.rejectedWith(
+        `The LPStaking events changed without a version bump of ${ABI_PACKAGE.name} ${ABI_PACKAGE.version}`
+      );
+      saveAbiSnapshot({ ...generated.snapshot, version: "0.9.0" }, "", snapshots);
+      await hre.run("codegen", { out: path.join(dir, "task"), snapshots, updateSnapshot: true });
+      expect(loadAbiSnapshot(snapshots)).to.deep.equal({ snapshot: generated.snapshot, schema: generated.schema });
+    });
+  });
+
+  describe("schema", function () {
+    it("Should map positions and unlocks from the position events", async function () {
+      expect(generated.schema).to.contain('type Position @entity {\n  "`erc20:<token>:<user>`');
+      expect(generated.schema).to.contain("Staked, Staked1155: += amount. Unstaked, Unstaked1155: -= amount.");
+      expect(generated.schema).to.contain('unlocks: [Unlock!]! @derivedFrom(field: "position")');
+      expect(generated.schema).to.contain(
+        "type Staked1155 @entity(immutable: true) {\n  id: Bytes!\n  user: Bytes!\n  internal_id: BigInt!\n"
+      );
+    });
+
+    it("Should reject mappings reading parameters the events do not have", async function () {
+      const events = generated.events.map((event) =>
+        event.name === "UnlockStarted1155"
+          ? {
+              ...event,
+              inputs: event.inputs.map((input) => ({ ...input, name: input.name.replace("unlockAt", "at") })),
+            }
+          : event
+      );
+      expect(() => renderSchema("LPStaking", "1.0.0", events, LPSTAKING_ENTITY_MAPPINGS)).to.throw(
+        "Position reads unlockAt of UnlockStarted1155, the event has no such parameter"
+      );
+    });
+  });
+
+  describe("decoders", function () {
+    it("Should decode the logs of LPStaking as ethers does", async function () {
+      const { lpStaking, token, erc1155, user1, hexagate } = await loadFixture(supportedTokensFixture);
+      const decoders = require(path.join(dir, "package"));
+      expect(decoders.VERSION).to.equal(ABI_PACKAGE.version);
+
+      const transactions = [
+        await lpStaking.connect(user1).stake(ethers.parseEther("10"), token),
+        await lpStaking.connect(user1).stake1155(erc1155, 2, 5),
+        await lpStaking.connect(user1).unlock1155(erc1155, 2),
+        await lpStaking.updateUnlockDuration(86400),
+        await lpStaking.connect(hexagate).pause(),
+        await lpStaking.updateHexagateAddress(user1.address),
+      ];
+      const address = (await lpStaking.getAddress()).toLowerCase();
+      let decoded = 0;
+      for (const transaction of transactions) {
+        const receipt = (await transaction.wait())!;
+        for (const log of receipt.logs.filter((log) => log.address.toLowerCase() === address)) {
+          const parsed = lpStaking.interface.parseLog(log)!;
+          const args = Object.fromEntries(
+            parsed.fragment.inputs.map((input, index) => {
+              const value = parsed.args[index];
+              return [input.name, typeof value === "string" ? value.toLowerCase() : value];
+            })
+          );
+          expect(decoders.decodeLPStakingLog(log)).to.deep.equal({ event: parsed.name, args });
+          expect(decoders[`decode${parsed.name}`](log).args).to.deep.equal(args);
+          decoded++;
+        }
+      }
+      expect(decoded).to.equal(transactions.length);
+
+      const transfer = (await (await token.connect(user1).transfer(hexagate.address, 1)).wait())!.logs[0];
+      expect(decoders.decodeLPStakingLog(transfer)).to.equal(undefined);
+      expect(() => decoders.decodeStaked(transfer)).to.throw("Not a Staked log");
+    });
+
+    it("Should decode strings, bytes and signed integers", async function () {
+      const abi = [
+        "event Note(address indexed author, string text, int8 delta, bytes data, bool flag, bytes4 selector, string indexed tag)",
+      ];
+      const events = eventDescriptors(abi);
+      const module = path.join(dir, "note");
+      fs.mkdirSync(module);
+      fs.writeFileSync(path.join(module, "abi.json"), "[]");
+      fs.writeFileSync(path.join(module, "index.js"), renderDecoders("Notes", "0.1.0", events));
+
+      const iface = new ethers.Interface(abi);
+      const values = [ethers.ZeroAddress, "héllo, world", -3n, "0xdeadbeef", true, "0x12345678", "tag"];
+      const log = iface.encodeEventLog("Note", values);
+      expect(require(module).decodeNotesLog(log)).to.deep.equal({
+        event: "Note",
+        args: {
+          author: ethers.ZeroAddress,
+          text: "héllo, world",
+          delta: -3n,
+          data: "0xdeadbeef",
+          flag: true,
+          selector: "0x12345678",
+          tag: ethers.id("tag"),
+        },
+      });
+      expect(() => eventDescriptors(["event Batch(uint256[] ids)"])).to.throw(
+        "Parameter ids of event Batch is a uint256[], which cannot be decoded"
+      );
+    });
+  });
+});
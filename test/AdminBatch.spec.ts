@@ -0,0 +1,131 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, MockERC20 } from "../scripts/@types/index";
+import { parseAdminAction } from "../scripts/admin/actions";
+import { SafeBatch } from "../scripts/admin/safe";
+import { simulateAdminBatch } from "../scripts/admin/simulate";
+
+describe("Admin batch builder", function () {
+  let lpStaking: LPStaking;
+  let token: MockERC20;
+  let owner: HardhatEthersSigner;
+  let hexagate: HardhatEthersSigner;
+  let user1: HardhatEthersSigner;
+  let safe: string;
+
+  beforeEach(async function () {
+    [owner, hexagate, user1] = await ethers.getSigners();
+    safe = ethers.Wallet.createRandom().address;
+
+    const ERC20Mock = await ethers.getContractFactory("MockERC20", owner);
+    token = await ERC20Mock.deploy("Mock Token", "MCK", 18, ethers.parseEther("1000"));
+    const LPStaking = await ethers.getContractFactory("LPStaking", owner);
+    lpStaking = await LPStaking.deploy();
+    await lpStaking.initialize(hexagate.address);
+    await lpStaking.addLPTokenSupport(await token.getAddress());
+
+    // hand the contract over to the Safe
+    await lpStaking.transferOwnership(safe);
+    await ethers.provider.send("hardhat_setBalance", [safe, "0xDE0B6B3A7640000"]);
+    await lpStaking.connect(await ethers.getImpersonatedSigner(safe)).acceptOwnership();
+    await ethers.provider.send("hardhat_stopImpersonatingAccount", [safe]);
+  });
+
+  it("Should parse actions written as calls", function () {
+    expect(parseAdminAction("updateUnlockDuration(86400)")).to.deep.equal({
+      method: "updateUnlockDuration",
+      args: ["86400"],
+    });
+    expect(parseAdminAction("acceptOwnership()")).to.deep.equal({ method: "acceptOwnership", args: [] });
+    expect(() => parseAdminAction("renounceOwnership()")).to.throw("Unknown admin method renounceOwnership");
+    expect(() => parseAdminAction("addLPTokenSupport(0x1234)")).to.throw("Invalid address 0x1234");
+    expect(() => parseAdminAction("updateUnlockDuration()")).to.throw("takes 1 argument(s), got 0");
+  });
+
+  it("Should build a Safe batch without changing the chain", async function () {
+    const tokenAddress = await token.getAddress();
+    const batch: SafeBatch = await hre.run("admin:batch", {
+      address: await lpStaking.getAddress(),
+      actions: [`removeLPTokenSupport(${tokenAddress})`, "updateUnlockDuration(86400)"],
+    });
+
+    expect(batch.chainId).to.equal("31337");
+    expect(batch.meta.createdFromSafeAddress).to.equal(safe);
+    expect(batch.transactions).to.have.lengthOf(2);
+    expect(batch.transactions[0]).to.deep.equal({
+      to: await lpStaking.getAddress(),
+      value: "0",
+      data: null,
+      contractMethod: {
+        inputs: [{ internalType: "address", name: "token", type: "address" }],
+        name: "removeLPTokenSupport",
+        payable: false,
+      },
+      contractInputsValues: { token: tokenAddress },
+    });
+    expect(batch.transactions[1].contractInputsValues).to.deep.equal({ newDuration: "86400" });
+
+    expect(await lpStaking.supportedLPTokens(tokenAddress)).to.be.true;
+    expect(await lpStaking.unlockDuration()).to.equal(604800);
+  });
+
+  it("Should refuse to remove a token users are staked in", async function () {
+    const tokenAddress = await token.getAddress();
+    await token.transfer(user1.address, ethers.parseEther("10"));
+    await token.connect(user1).approve(await lpStaking.getAddress(), ethers.parseEther("10"));
+    await lpStaking.connect(user1).stake(ethers.parseEther("10"), tokenAddress);
+
+    await expect(
+      hre.run("admin:batch", {
+        address: await lpStaking.getAddress(),
+        actions: [`removeLPTokenSupport(${tokenAddress})`],
+      })
+    ).to.be.rejectedWith(`1 user position(s) are still staked in ${tokenAddress}`);
+  });
+
+  it("Should check every action against the state left by the previous ones", async function () {
+    const other = await (await ethers.getContractFactory("MockERC20", owner)).deploy("Other", "OTH", 18, 0);
+    const actions = [
+      `addLPTokenSupport(${await other.getAddress()})`,
+      `removeLPTokenSupport(${await other.getAddress()})`,
+      `transferOwnership(${user1.address})`,
+      "updateUnlockDuration(60)",
+    ].map(parseAdminAction);
+
+    const { issues, gasUsed } = await simulateAdminBatch(hre, lpStaking, safe, actions);
+    expect(gasUsed).to.have.lengthOf(4);
+    // Ownable2Step keeps the Safe as the owner until the transfer is accepted
+    expect(issues).to.deep.equal([]);
+  });
+
+  it("Should refuse batches from an address that is not the owner", async function () {
+    const { issues } = await simulateAdminBatch(hre, lpStaking, user1.address, [
+      parseAdminAction("updateUnlockDuration(60)"),
+      parseAdminAction("acceptOwnership()"),
+    ]);
+
+    expect(issues.map((issue) => issue.message)).to.deep.equal([
+      `the Safe is not the owner (owner is ${safe})`,
+      `the Safe is not the pending owner (pending owner is ${ethers.ZeroAddress})`,
+    ]);
+  });
+
+  it("Should write the batch to a file", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "admin-"));
+    const out = path.join(dir, "batch.json");
+    await hre.run("admin:batch", {
+      address: await lpStaking.getAddress(),
+      out,
+      actions: [`updateHexagateAddress(${user1.address})`],
+    });
+
+    const batch = JSON.parse(fs.readFileSync(out, "utf-8"));
+    expect(batch.transactions[0].contractMethod.name).to.equal("updateHexagateAddress");
+    fs.unlinkSync(out);
+    fs.rmdirSync(dir);
+  });
+});
@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { reset, time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, PTPStaking } from "../scripts/@types/index";
+import { loadDeployment } from "../scripts/utils/deployments";
+import {
+  ForkToken,
+  balanceOf,
+  findHolder,
+  forkTestsEnabled,
+  forkUrl,
+  impersonate,
+  loadForkConfig,
+} from "./fork/avalanche";
+import "./fixtures";
+
+/**
+ * Opt-in with FORK_TESTS=1: forks Avalanche at the block pinned in test/fork/avalanche.fork.json and runs
+ * the staking lifecycle with real tokens. Hardhat caches the forked state, later runs work offline.
+ */
+describe("Avalanche fork", function () {
+  const config = loadForkConfig();
+  let lpStaking: LPStaking;
+  let ptpLock: PTPStaking;
+  let owner: HardhatEthersSigner;
+  // PTP is staked in both contracts, its address comes from PTPLock
+  let ptp: ForkToken;
+
+  before(async function () {
+    if (!forkTestsEnabled()) this.skip();
+    await reset(forkUrl(config), config.blockNumber);
+
+    if ((await ethers.provider.getCode(config.ptpLock)) === "0x") {
+      throw new Error(`No PTPLock at ${config.ptpLock} at block ${config.blockNumber}`);
+    }
+    ptpLock = (await ethers.getContractAt("PTPStaking", config.ptpLock)) as unknown as PTPStaking;
+    ptp = {
+      name: "PTP",
+      standard: "erc20",
+      address: await ptpLock.ptpToken(),
+      amount: ethers.parseEther("10").toString(),
+    };
+
+    const deployed = config.lpStaking ?? loadDeployment(config.network, "LPStaking")?.proxy;
+    if (deployed) {
+      lpStaking = (await ethers.getContractAt("LPStaking", deployed)) as unknown as LPStaking;
+      expect(await lpStaking.paused(), `LPStaking is paused at block ${config.blockNumber}`).to.be.false;
+      owner = await impersonate(await lpStaking.owner());
+    } else {
+      const [deployer, hexagate] = await ethers.getSigners();
+      lpStaking = await ethers.deployContract("LPStaking", [], deployer);
+      await lpStaking.initialize(hexagate.address);
+      owner = deployer;
+    }
+  });
+
+  after(async function () {
+    if (forkTestsEnabled()) await reset();
+  });
+
+  async function stakingLifecycle(token: ForkToken) {
+    const holder = await impersonate(await findHolder(config, token, [await lpStaking.getAddress(), config.ptpLock]));
+    const amount = BigInt(token.amount);
+    const is1155 = token.standard === "erc1155";
+    const id = BigInt(token.id ?? 0);
+    const supported = is1155
+      ? await lpStaking.supportedERC1155Tokens(token.address)
+      : await lpStaking.supportedLPTokens(token.address);
+    if (!supported) {
+      await (is1155
+        ? lpStaking.connect(owner).addERC1155TokenSupport(token.address)
+        : lpStaking.connect(owner).addLPTokenSupport(token.address));
+    }
+
+    const before = await balanceOf(token, holder.address);
+    const custody = await balanceOf(token, await lpStaking.getAddress());
+    if (is1155) {
+      const erc1155 = await ethers.getContractAt("IERC1155", token.address);
+      await erc1155.connect(holder).setApprovalForAll(await lpStaking.getAddress(), true);
+      await lpStaking.connect(holder).stake1155(token.address, id, amount);
+      await expect(lpStaking).to.haveStake1155Of(holder, token.address, id, amount);
+      await lpStaking.connect(holder).unlock1155(token.address, id);
+    } else {
+      const erc20 = await ethers.getContractAt("IERC20", token.address);
+      await erc20.connect(holder).approve(await lpStaking.getAddress(), amount);
+      await lpStaking.connect(holder).stake(amount, token.address);
+      const received = (await balanceOf(token, await lpStaking.getAddress())) - custody;
+      await expect(lpStaking).to.haveStakeOf(holder, token.address, received);
+      await lpStaking.connect(holder).unlock(token.address);
+    }
+
+    await expect(
+      is1155
+        ? lpStaking.connect(holder).unstake1155(token.address, id)
+        : lpStaking.connect(holder).unstake(token.address)
+    ).to.be.revertedWith("Unlock period not completed");
+    await time.increase(await lpStaking.unlockDuration());
+    await (is1155
+      ? lpStaking.connect(holder).unstake1155(token.address, id)
+      : lpStaking.connect(holder).unstake(token.address));
+
+    if (is1155) await expect(lpStaking).to.haveStake1155Of(holder, token.address, id, 0);
+    else await expect(lpStaking).to.haveStakeOf(holder, token.address, 0);
+    expect(await balanceOf(token, await lpStaking.getAddress())).to.equal(custody);
+    expect(await balanceOf(token, holder.address)).to.be.at.most(before);
+    expect(await balanceOf(token, holder.address)).to.be.greaterThan(before - amount);
+  }
+
+  for (const token of config.tokens) {
+    it(`Should stake, unlock and unstake ${token.name}`, async function () {
+      await stakingLifecycle(token);
+    });
+  }
+
+  it("Should stake, unlock and unstake PTP", async function () {
+    await stakingLifecycle(ptp);
+  });
+
+  it("Should stake PTP into PTPLock", async function () {
+    const holder = await impersonate(await findHolder(config, ptp, [config.ptpLock, await lpStaking.getAddress()]));
+    const staked = await ptpLock.getStakedAmount(holder.address);
+
+    const erc20 = await ethers.getContractAt("IERC20", ptp.address);
+    await erc20.connect(holder).approve(config.ptpLock, BigInt(ptp.amount));
+    await expect(ptpLock.connect(holder).stake(BigInt(ptp.amount)))
+      .to.emit(ptpLock, "Staked")
+      .withArgs(holder.address, BigInt(ptp.amount));
+    expect(await ptpLock.getStakedAmount(holder.address)).to.equal(staked + BigInt(ptp.amount));
+  });
+});
@@ -0,0 +1,138 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { getBytes, hexlify } from "ethers";
+import {
+  BytecodeVerification,
+  LocalBytecode,
+  compareBytecode,
+  metadataLength,
+  readLocalBytecode,
+  verifyDeployedBytecode,
+} from "../scripts/analysis/bytecode";
+import { loadDeployment } from "../scripts/utils/deployments";
+
+describe("Bytecode verification", function () {
+  let local: LocalBytecode;
+
+  before(async function () {
+    await hre.run("compile", { quiet: true });
+    local = await readLocalBytecode(hre, "LPStaking");
+  });
+
+  async function setCode(address: string, edit: (code: Uint8Array) => void) {
+    const code = getBytes(await ethers.provider.getCode(address));
+    edit(code);
+    await hre.network.provider.send("hardhat_setCode", [address, hexlify(code)]);
+  }
+
+  it("Should read the build settings of the artifact", async function () {
+    expect(local.contract).to.equal("contracts/LPTokenStaking.sol:LPStaking");
+    expect(local.solcVersion).to.equal("0.8.20");
+    expect(local.evmVersion).to.equal("shanghai");
+    expect(local.optimizerRuns).to.equal(200);
+    expect(metadataLength(getBytes(local.bytecode))).to.be.greaterThan(40);
+  });
+
+  it("Should pass deployments of the current build", async function () {
+    const lpStaking = await ethers.deployContract("LPStaking");
+    const ptp = await ethers.deployContract("MockERC20", ["Platypus", "PTP", 18, 0]);
+    const [owner] = await ethers.getSigners();
+    const ptpStaking = await ethers.deployContract("PTPStaking", [await ptp.getAddress(), owner.address]);
+
+    const lp = await verifyDeployedBytecode(ethers.provider, local, await lpStaking.getAddress(), "LPStaking");
+    expect(lp.match).to.equal(true);
+    expect(lp.metadataMatch).to.equal(true);
+    expect(lp.note).to.equal(undefined);
+    const ptpLocal = await readLocalBytecode(hre, "PTPStaking");
+    const result = await verifyDeployedBytecode(ethers.provider, ptpLocal, await ptpStaking.getAddress(), "PTPLock");
+    expect(result.match).to.equal(true);
+  });
+
+  it("Should ignore the metadata hash but tell it apart", async function () {
+    const lpStaking = await ethers.deployContract("LPStaking");
+    const address = await lpStaking.getAddress();
+    await setCode(address, (code) => (code[code.length - 10] ^= 0xff));
+
+    const result = await verifyDeployedBytecode(ethers.provider, local, address, "LPStaking");
+    expect(result.match).to.equal(true);
+    expect(result.metadataMatch).to.equal(false);
+    expect(result.note).to.contain("the metadata differs");
+  });
+
+  it("Should report the region where the code differs", async function () {
+    const lpStaking = await ethers.deployContract("LPStaking");
+    const address = await lpStaking.getAddress();
+    await setCode(address, (code) => (code[1000] ^= 0xff));
+
+    const result = await verifyDeployedBytecode(ethers.provider, local, address, "LPStaking");
+    expect(result.match).to.equal(false);
+    expect(result.regions).to.have.length(1);
+    expect(result.regions[0]).to.include({ start: 1000, end: 1001 });
+    expect(result.regions[0].onchain).to.not.equal(result.regions[0].local);
+  });
+
+  it("Should mask the immutables and the library addresses", async function () {
+    const code = getBytes(local.bytecode);
+    code.fill(0xaa, 100, 132);
+    code.fill(0xbb, 300, 320);
+    const withImmutables = { ...local, immutables: [{ start: 100, length: 32 }] };
+
+    expect(compareBytecode(hexlify(code), withImmutables).regions).to.have.length(1);
+    const masked = { ...withImmutables, links: [{ start: 300, length: 20 }] };
+    expect(compareBytecode(hexlify(code), masked).match).to.equal(true);
+  });
+
+  it("Should fail another contract, a proxy and a missing deployment", async function () {
+    const [owner] = await ethers.getSigners();
+    const v2 = await ethers.deployContract("MockLPStakingV2");
+    const other = await verifyDeployedBytecode(ethers.provider, local, await v2.getAddress(), "V2");
+    expect(other.match).to.equal(false);
+    expect(other.regions).to.not.be.empty;
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-local-"));
+    try {
+      await hre.run("deploy:lpstaking", { hexagate: owner.address, deployments: dir });
+      const { proxy, implementation } = loadDeployment(hre.network.name, "LPStaking", dir)!;
+      const result = await verifyDeployedBytecode(ethers.provider, local, proxy, "LPStaking proxy");
+      expect(result.match).to.equal(false);
+      expect(result.note).to.equal(`${proxy} is an ERC1967 proxy, verify its implementation ${implementation}`);
+
+      const missing = await verifyDeployedBytecode(ethers.provider, local, ethers.ZeroAddress, "missing");
+      expect(missing.match).to.equal(false);
+      expect(missing.note).to.equal(`no code at ${ethers.ZeroAddress}`);
+    } finally {
+      for (const file of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, file));
+      fs.rmdirSync(dir);
+    }
+  });
+
+  it("Should verify the recorded deployments and PTPLock with the task", async function () {
+    const [owner] = await ethers.getSigners();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-local-"));
+    const out = path.join(dir, "report.json");
+    try {
+      await hre.run("deploy:lpstaking", { hexagate: owner.address, deployments: dir });
+      const ptp = await ethers.deployContract("MockERC20", ["Platypus", "PTP", 18, 0]);
+      const ptpStaking = await ethers.deployContract("PTPStaking", [await ptp.getAddress(), owner.address]);
+      fs.writeFileSync(path.join(dir, "PTP.json"), JSON.stringify({ PTPLock: await ptpStaking.getAddress() }));
+
+      const results: BytecodeVerification[] = await hre.run("verify-local", { deployments: dir, out });
+      expect(results.map((result) => [result.label, result.contract, result.match])).to.deep.equal([
+        ["LPStaking", "contracts/LPTokenStaking.sol:LPStaking", true],
+        ["PTPLock", "contracts/PTPStaking.sol:PTPStaking", true],
+      ]);
+      expect(JSON.parse(fs.readFileSync(out, "utf-8"))).to.deep.equal(results);
+
+      const proxy = loadDeployment(hre.network.name, "LPStaking", dir)!.proxy;
+      await expect(
+        hre.run("verify-local", { contract: "LPStaking", address: proxy, deployments: dir })
+      ).to.be.rejectedWith(/LPStaking: \d+ region\(s\) differ from LPStaking[\s\S]*is an ERC1967 proxy/);
+    } finally {
+      for (const file of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, file));
+      fs.rmdirSync(dir);
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { LPStaking, PTPStaking } from "../scripts/@types/index";
+import { DevnetDeployment, devnetFile, loadDevnet, seedDevnet } from "../scripts/devnet/seed";
+import { DevnetProvider, FastForward, NextUnlockResponse } from "../scripts/devnet/shortcuts";
+import { LPStakingIndexer } from "../scripts/indexer/LPStakingIndexer";
+import { UnlockKeeper } from "../scripts/keeper/UnlockKeeper";
+import { loadDeployment } from "../scripts/utils/deployments";
+import "./fixtures";
+
+describe("Devnet", function () {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "devnet-"));
+
+  async function devnetFixture() {
+    const deployment = await seedDevnet(hre, { unlockDuration: 86400, deployments: dir });
+    const lpStaking = (await ethers.getContractAt("LPStaking", deployment.contracts.LPStaking)) as unknown as LPStaking;
+    return { deployment, lpStaking };
+  }
+
+  const account = (deployment: DevnetDeployment, name: string) =>
+    deployment.accounts.find((demo) => demo.name === name)!.address;
+
+  after(function () {
+    for (const file of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, file));
+    fs.rmdirSync(dir);
+  });
+
+  it("Should deploy the contracts and record them for localhost", async function () {
+    const { deployment, lpStaking } = await loadFixture(devnetFixture);
+    const { contracts } = deployment;
+
+    expect(loadDevnet(dir)).to.deep.equal(deployment);
+    expect(devnetFile(dir)).to.equal(path.join(dir, "localhost.devnet.json"));
+    expect(loadDeployment("localhost", "LPStaking", dir)!.proxy).to.equal(contracts.LPStaking);
+    expect(await lpStaking.hexagate()).to.equal(deployment.hexagate);
+    expect(await lpStaking.owner()).to.equal(deployment.owner);
+    expect(await lpStaking.unlockDuration()).to.equal(86400n);
+    expect(await lpStaking.getAllSupportedTokens()).to.deep.equal([contracts.DLP, contracts.FEE, contracts.NFT]);
+  });
+
+  it("Should put the demo accounts in their states", async function () {
+    const { deployment, lpStaking } = await loadFixture(devnetFixture);
+    const { DLP, FEE, NFT } = deployment.contracts;
+
+    const staker = account(deployment, "staker");
+    await expect(lpStaking).to.haveStakeOf(staker, DLP, ethers.parseEther("250"));
+    await expect(lpStaking).to.haveStakeOf(staker, FEE, ethers.parseEther("99"));
+    await expect(lpStaking).to.haveStake1155Of(staker, NFT, 1, 20);
+
+    const unlocking = account(deployment, "unlocking");
+    await expect(lpStaking).to.haveUnlockOf(unlocking, DLP, ethers.parseEther("100"));
+    const { unlockAt } = await lpStaking.userUnlocks(unlocking, DLP);
+    const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+    expect(unlockAt - now).to.be.within(43000n, 43200n);
+
+    const matured = await ethers.getSigner(account(deployment, "matured"));
+    await expect(lpStaking.connect(matured).unstake(DLP)).to.emit(lpStaking, "Unstaked");
+    await expect(lpStaking.connect(matured).unstake1155(NFT, 1)).to.emit(lpStaking, "Unstaked1155");
+
+    const multi = account(deployment, "multi1155");
+    await expect(lpStaking).to.haveStake1155Of(multi, NFT, 3, 10);
+    expect((await lpStaking.userUnlocks1155(multi, NFT, 2)).amount).to.equal(20n);
+
+    const ptpStaking = (await ethers.getContractAt(
+      "PTPStaking",
+      deployment.contracts.PTPStaking
+    )) as unknown as PTPStaking;
+    expect(await ptpStaking.getStakedAmount(account(deployment, "ptpStaker"))).to.equal(ethers.parseEther("500"));
+    expect(await lpStaking.balanceOf(DLP, account(deployment, "fresh"))).to.equal(0n);
+  });
+
+  it("Should fast-forward to the next unlock maturity one at a time", async function () {
+    const { deployment, lpStaking } = await loadFixture(devnetFixture);
+    const indexer = new LPStakingIndexer(lpStaking, { startBlock: deployment.blockNumber, confirmations: 0 });
+    const provider = new DevnetProvider(hre.network.provider, new UnlockKeeper(indexer, { sinks: [] }), deployment);
+
+    expect(await provider.request({ method: "devnet_deployment" })).to.equal(deployment);
+    const first = (await provider.request({ method: "devnet_nextUnlock" })) as NextUnlockResponse;
+    expect(first.unlocks).to.deep.equal([
+      {
+        user: account(deployment, "unlocking"),
+        token: deployment.contracts.DLP,
+        id: "0",
+        amount: "100" + "0".repeat(18),
+      },
+    ]);
+    expect((await ethers.provider.getBlock("latest"))!.timestamp).to.equal(first.timestamp);
+    const unlocking = await ethers.getSigner(account(deployment, "unlocking"));
+    await expect(lpStaking.connect(unlocking).unstake(deployment.contracts.DLP)).to.emit(lpStaking, "Unstaked");
+
+    const second: FastForward = await hre.run("devnet:next-unlock", {
+      address: deployment.contracts.LPStaking,
+      deployments: dir,
+    });
+    expect(second.unlocks.map((unlock) => [unlock.user, unlock.id, unlock.amount])).to.deep.equal([
+      [account(deployment, "multi1155"), 2n, 20n],
+    ]);
+    expect(await provider.request({ method: "devnet_nextUnlock" })).to.equal(null);
+  });
+});
@@ -0,0 +1,60 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { GasDiff, compareGas, loadGasBaseline, runGasBenchmark, saveGasBaseline } from "../scripts/gas/benchmark";
+import { GAS_SCENARIOS } from "../scripts/gas/scenarios";
+
+describe("Gas benchmark", function () {
+  before(function () {
+    // instrumented bytecode uses far more gas than the baseline
+    if ((hre as unknown as { __SOLIDITY_COVERAGE_RUNNING?: boolean }).__SOLIDITY_COVERAGE_RUNNING) this.skip();
+  });
+
+  it("Should stay within the committed gas baseline", async function () {
+    const tolerance = Number(process.env.GAS_TOLERANCE ?? 2);
+    const diffs: GasDiff[] = await hre.run("gas:benchmark", { tolerance });
+    expect(diffs.filter((diff) => diff.status === "new" || diff.status === "removed")).to.be.empty;
+  });
+
+  it("Should measure the same gas whatever ran before", async function () {
+    const scenarios = GAS_SCENARIOS.filter((scenario) => scenario.name.startsWith("LPStaking.stake"));
+    const first = await runGasBenchmark(hre, scenarios);
+    const [signer] = await ethers.getSigners();
+    await ethers.deployContract("MockERC20", ["Other", "OTH", 18, 1], signer);
+    await signer.sendTransaction({ to: signer.address, value: 1 });
+    expect(await runGasBenchmark(hre, scenarios)).to.deep.equal(first);
+  });
+
+  it("Should classify measurements against the tolerance", function () {
+    const baseline = { same: 1000, more: 1000, less: 1000, slightly: 1000, gone: 1000 };
+    const current = { same: 1000, more: 1030, less: 900, slightly: 1019, added: 500 };
+    const status = Object.fromEntries(compareGas(baseline, current, 2).map((diff) => [diff.scenario, diff.status]));
+    expect(status).to.deep.equal({
+      same: "ok",
+      more: "regressed",
+      less: "improved",
+      slightly: "ok",
+      added: "new",
+      gone: "removed",
+    });
+  });
+
+  it("Should fail when a function grows past the tolerance", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gas-"));
+    const file = path.join(dir, "baseline.json");
+    try {
+      const baseline = loadGasBaseline("gas-baseline.json")!;
+      baseline.gas["LPStaking.unlock"] = Math.round(baseline.gas["LPStaking.unlock"] * 0.9);
+      saveGasBaseline(file, baseline);
+      await expect(hre.run("gas:benchmark", { baseline: file, tolerance: 5 })).to.be.rejectedWith(
+        "1 scenario(s) use more than 5% over the baseline: LPStaking.unlock"
+      );
+      await hre.run("gas:benchmark", { baseline: file, tolerance: 15 });
+    } finally {
+      fs.unlinkSync(file);
+      fs.rmdirSync(dir);
+    }
+  });
+});
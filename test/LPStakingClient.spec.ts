@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FeeToken, LPStaking, MockERC1155, MockERC20 } from "../scripts/@types/index";
+import { LPStakingClient } from "../scripts/contracts/LPStakingClient";
+import {
+  ContractPausedError,
+  InsufficientBalanceError,
+  LPStakingError,
+  NoUnlockedAmountError,
+  TokenIdNotFoundError,
+  TokenNotSupportedError,
+  UnlockAlreadyInitializedError,
+  UnlockPeriodNotCompletedError,
+  ZeroAmountError,
+  toLPStakingError,
+} from "../scripts/contracts/LPStakingErrors";
+
+describe("LPStakingClient", function () {
+  let lpStaking: LPStaking;
+  let token: MockERC20;
+  let erc1155Token: MockERC1155;
+  let owner: HardhatEthersSigner;
+  let hexagate: HardhatEthersSigner;
+  let user1: HardhatEthersSigner;
+  let client: LPStakingClient;
+
+  beforeEach(async function () {
+    [owner, hexagate, user1] = await ethers.getSigners();
+
+    const ERC20Mock = await ethers.getContractFactory("MockERC20", owner);
+    token = await ERC20Mock.deploy("Mock Token", "MCK", 18, ethers.parseEther("1000"));
+    const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
+    erc1155Token = await ERC1155Mock.deploy();
+
+    const LPStaking = await ethers.getContractFactory("LPStaking", owner);
+    lpStaking = await LPStaking.deploy();
+    await lpStaking.initialize(hexagate.address);
+
+    await lpStaking.addLPTokenSupport(await token.getAddress());
+    await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
+    await token.transfer(user1.address, ethers.parseEther("100"));
+    await erc1155Token.mint(user1.address, 1, 100, "0x");
+
+    client = LPStakingClient.connect(await lpStaking.getAddress(), user1);
+  });
+
+  describe("ERC20", function () {
+    it("Should approve and stake in one call", async function () {
+      await client.stake(await token.getAddress(), ethers.parseEther("50"));
+
+      expect(await lpStaking.balanceOf(await token.getAddress(), user1.address)).to.equal(ethers.parseEther("50"));
+      expect(await token.allowance(user1.address, await lpStaking.getAddress())).to.equal(0n);
+    });
+
+    it("Should skip approval when the allowance is sufficient", async function () {
+      await token.connect(user1).approve(await lpStaking.getAddress(), ethers.parseEther("80"));
+      await client.stake(await token.getAddress(), ethers.parseEther("50"));
+
+      expect(await token.allowance(user1.address, await lpStaking.getAddress())).to.equal(ethers.parseEther("30"));
+    });
+
+    it("Should credit the received amount for fee-on-transfer tokens", async function () {
+      const FeeToken = await ethers.getContractFactory("FeeToken", owner);
+      const feeToken: FeeToken = await FeeToken.deploy("Fee Token", "FEE", ethers.parseEther("1000"));
+      await lpStaking.addLPTokenSupport(await feeToken.getAddress());
+      await feeToken.transfer(user1.address, ethers.parseEther("100"));
+
+      await client.stake(await feeToken.getAddress(), ethers.parseEther("50"));
+
+      expect(await lpStaking.balanceOf(await feeToken.getAddress(), user1.address)).to.equal(
+        await feeToken.balanceOf(await lpStaking.getAddress())
+      );
+    });
+
+    it("Should run the full unlock and unstake flow", async function () {
+      await client.stake(await token.getAddress(), ethers.parseEther("50"));
+      await client.unlock(await token.getAddress());
+
+      await expect(client.unstake(await token.getAddress())).to.be.rejectedWith(UnlockPeriodNotCompletedError);
+
+      await ethers.provider.send("evm_increaseTime", [604800]);
+      await ethers.provider.send("evm_mine");
+
+      await client.unstake(await token.getAddress());
+      expect(await token.balanceOf(user1.address)).to.equal(ethers.parseEther("100"));
+    });
+
+    it("Should throw typed errors before sending", async function () {
+      await expect(client.stake(user1.address, 1n)).to.be.rejectedWith(TokenNotSupportedError);
+      await expect(client.stake(await token.getAddress(), 0n)).to.be.rejectedWith(ZeroAmountError);
+      await expect(client.unlock(await token.getAddress())).to.be.rejectedWith(InsufficientBalanceError);
+      await expect(client.unstake(await token.getAddress())).to.be.rejectedWith(NoUnlockedAmountError);
+
+      await client.stake(await token.getAddress(), ethers.parseEther("50"));
+      await client.unlock(await token.getAddress());
+      await expect(client.unlock(await token.getAddress())).to.be.rejectedWith(UnlockAlreadyInitializedError);
+
+      await lpStaking.connect(hexagate).pause();
+      await expect(client.stake(await token.getAddress(), 1n)).to.be.rejectedWith(ContractPausedError);
+    });
+  });
+
+  describe("ERC1155", function () {
+    it("Should set approval and stake in one call", async function () {
+      await client.stake1155(await erc1155Token.getAddress(), 1n, 50n);
+
+      expect(await lpStaking.balanceOf1155(await erc1155Token.getAddress(), 1, user1.address)).to.equal(50);
+      expect(await erc1155Token.isApprovedForAll(user1.address, await lpStaking.getAddress())).to.be.true;
+    });
+
+    it("Should run the full unlock and unstake flow", async function () {
+      await client.stake1155(await erc1155Token.getAddress(), 1n, 50n);
+      await client.unlock1155(await erc1155Token.getAddress(), 1n);
+
+      await ethers.provider.send("evm_increaseTime", [604800]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(client.unstake1155(await erc1155Token.getAddress(), 2n)).to.be.rejectedWith(TokenIdNotFoundError);
+      await client.unstake1155(await erc1155Token.getAddress(), 1n);
+      expect(await erc1155Token.balanceOf(user1.address, 1)).to.equal(100);
+    });
+
+    it("Should throw typed errors before sending", async function () {
+      await expect(client.stake1155(await token.getAddress(), 1n, 1n)).to.be.rejectedWith(TokenNotSupportedError);
+      await expect(client.stake1155(await erc1155Token.getAddress(), 1n, 0n)).to.be.rejectedWith(ZeroAmountError);
+      await expect(client.unlock1155(await erc1155Token.getAddress(), 1n)).to.be.rejectedWith(InsufficientBalanceError);
+    });
+  });
+
+  describe("Revert decoding", function () {
+    it("Should map on-chain reverts to typed errors", async function () {
+      const error = await lpStaking
+        .connect(user1)
+        .unlock(await token.getAddress())
+        .catch((e) => e);
+
+      const typed = toLPStakingError(error);
+      expect(typed).to.be.instanceOf(InsufficientBalanceError);
+      expect((typed as LPStakingError).reason).to.equal("Insufficient balance");
+    });
+
+    it("Should map unstake1155 reverts", async function () {
+      const error = await lpStaking
+        .connect(user1)
+        .unstake1155(await erc1155Token.getAddress(), 0)
+        .catch((e) => e);
+
+      expect(toLPStakingError(error)).to.be.instanceOf(NoUnlockedAmountError);
+      expect(toLPStakingError({ reason: "Token ID 404" })).to.be.instanceOf(TokenIdNotFoundError);
+    });
+
+    it("Should keep unknown reasons", async function () {
+      const typed = toLPStakingError({ reason: "something else" });
+      expect(typed).to.be.instanceOf(LPStakingError);
+      expect((typed as LPStakingError).code).to.equal("Unknown");
+    });
+
+    it("Should return errors that are not reverts as errors", async function () {
+      const error = new Error("network down");
+      expect(toLPStakingError(error)).to.equal(error);
+      expect(toLPStakingError("network down")).to.be.instanceOf(Error).with.property("message", "network down");
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, MockLPStakingV2 } from "../scripts/@types/index";
+import { loadDeployment } from "../scripts/utils/deployments";
+
+describe("LPStaking deployment tasks", function () {
+  let deployer: HardhatEthersSigner;
+  let hexagate: HardhatEthersSigner;
+  let deployments: string;
+
+  beforeEach(async function () {
+    [deployer, hexagate] = await ethers.getSigners();
+    deployments = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+  });
+
+  afterEach(function () {
+    for (const file of fs.readdirSync(deployments)) fs.unlinkSync(path.join(deployments, file));
+    fs.rmdirSync(deployments);
+  });
+
+  it("Should deploy and initialize a transparent proxy", async function () {
+    const proxy = await hre.run("deploy:lpstaking", { hexagate: hexagate.address, deployments });
+
+    const record = loadDeployment("hardhat", "LPStaking", deployments)!;
+    expect(record.proxy).to.equal(proxy);
+    expect(record.kind).to.equal("transparent");
+    expect(record.implementation).to.equal(await hre.upgrades.erc1967.getImplementationAddress(proxy));
+    expect(record.admin).to.equal(await hre.upgrades.erc1967.getAdminAddress(proxy));
+    expect(record.deployer).to.equal(deployer.address);
+    expect(record.initArgs).to.deep.equal([hexagate.address]);
+    expect(record.history).to.have.lengthOf(1);
+    expect(record.blockNumber).to.equal((await ethers.provider.getTransactionReceipt(record.txHash))!.blockNumber);
+
+    const lpStaking = (await ethers.getContractAt("LPStaking", proxy)) as unknown as LPStaking;
+    expect(await lpStaking.hexagate()).to.equal(hexagate.address);
+    expect(await lpStaking.owner()).to.equal(deployer.address);
+    expect(await lpStaking.unlockDuration()).to.equal(604800);
+    await expect(lpStaking.initialize(hexagate.address)).to.be.reverted;
+  });
+
+  it("Should refuse to overwrite an existing record", async function () {
+    await hre.run("deploy:lpstaking", { hexagate: hexagate.address, deployments });
+    await expect(hre.run("deploy:lpstaking", { hexagate: hexagate.address, deployments })).to.be.rejectedWith(
+      "already deployed"
+    );
+  });
+
+  it("Should reject UUPS proxies", async function () {
+    await expect(
+      hre.run("deploy:lpstaking", { hexagate: hexagate.address, kind: "uups", deployments })
+    ).to.be.rejectedWith("Unknown proxy kind uups, expected one of transparent");
+  });
+
+  it("Should upgrade the proxy and keep its state", async function () {
+    const proxy = await hre.run("deploy:lpstaking", { hexagate: hexagate.address, deployments });
+    const lpStaking = (await ethers.getContractAt("LPStaking", proxy)) as unknown as LPStaking;
+    await lpStaking.addLPTokenSupport(hexagate.address);
+
+    const implementation = await hre.run("upgrade:lpstaking", {
+      contract: "MockLPStakingV2",
+      call: "initializeV2",
+      deployments,
+    });
+
+    const record = loadDeployment("hardhat", "LPStaking", deployments)!;
+    expect(record.implementation).to.equal(implementation);
+    expect(record.contract).to.equal("MockLPStakingV2");
+    expect(record.history).to.have.lengthOf(2);
+    expect(record.history[0].implementation).to.not.equal(implementation);
+
+    const upgraded = (await ethers.getContractAt("MockLPStakingV2", proxy)) as unknown as MockLPStakingV2;
+    expect(await upgraded.version()).to.equal("v2");
+    expect(await upgraded.upgradedAt()).to.not.equal(0);
+    expect(await upgraded.supportedLPTokens(hexagate.address)).to.be.true;
+    expect(await upgraded.hexagate()).to.equal(hexagate.address);
+  });
+});
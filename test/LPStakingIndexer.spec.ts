@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ZeroAddress, ZeroHash } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, MockERC1155, MockERC20 } from "../scripts/@types/index";
+import { JsonCheckpointStore, MemoryCheckpointStore } from "../scripts/indexer/checkpoint";
+import { LPStakingIndexer } from "../scripts/indexer/LPStakingIndexer";
+
+describe("LPStakingIndexer", function () {
+  let lpStaking: LPStaking;
+  let token: MockERC20;
+  let erc1155Token: MockERC1155;
+  let owner: HardhatEthersSigner;
+  let hexagate: HardhatEthersSigner;
+  let user1: HardhatEthersSigner;
+  let user2: HardhatEthersSigner;
+  let startBlock: number;
+
+  beforeEach(async function () {
+    [owner, hexagate, user1, user2] = await ethers.getSigners();
+
+    const ERC20Mock = await ethers.getContractFactory("MockERC20", owner);
+    token = await ERC20Mock.deploy("Mock Token", "MCK", 18, ethers.parseEther("1000"));
+    const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
+    erc1155Token = await ERC1155Mock.deploy();
+
+    const LPStaking = await ethers.getContractFactory("LPStaking", owner);
+    lpStaking = await LPStaking.deploy();
+    await lpStaking.initialize(hexagate.address);
+    startBlock = (await lpStaking.deploymentTransaction()!.wait())!.blockNumber;
+
+    await lpStaking.addLPTokenSupport(await token.getAddress());
+    await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
+    for (const user of [user1, user2]) {
+      await token.transfer(user.address, ethers.parseEther("100"));
+      await token.connect(user).approve(await lpStaking.getAddress(), ethers.MaxUint256);
+      await erc1155Token.mint(user.address, 1, 100, "0x");
+      await erc1155Token.mint(user.address, 2, 100, "0x");
+      await erc1155Token.connect(user).setApprovalForAll(await lpStaking.getAddress(), true);
+    }
+  });
+
+  it("Should rebuild ERC20 and ERC1155 positions", async function () {
+    await lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress());
+    await lpStaking.connect(user1).stake(ethers.parseEther("10"), await token.getAddress());
+    await lpStaking.connect(user2).stake(ethers.parseEther("20"), await token.getAddress());
+    await lpStaking.connect(user1).stake1155(await erc1155Token.getAddress(), 1, 30);
+    await lpStaking.connect(user1).stake1155(await erc1155Token.getAddress(), 2, 40);
+    await lpStaking.connect(user1).unlock(await token.getAddress());
+    await lpStaking.connect(user1).unlock1155(await erc1155Token.getAddress(), 2);
+    const unlock = await lpStaking.userUnlocks1155(user1.address, await erc1155Token.getAddress(), 2);
+
+    const indexer = new LPStakingIndexer(lpStaking, { startBlock, confirmations: 0, batchSize: 3 });
+    const result = await indexer.sync();
+    expect(result.events).to.equal(7);
+    expect(indexer.getPositions()).to.have.lengthOf(4);
+
+    const position = indexer.getPosition(user1.address, await token.getAddress())!;
+    expect(position.staked).to.equal(ethers.parseEther("60"));
+    expect(position.pendingUnlock).to.equal(ethers.parseEther("60"));
+    expect(position.unlockAt).to.equal((await lpStaking.userUnlocks(user1.address, await token.getAddress())).unlockAt);
+
+    const position1155 = indexer.getPosition(user1.address, await erc1155Token.getAddress(), 2n, true)!;
+    expect(position1155.staked).to.equal(40n);
+    expect(position1155.pendingUnlock).to.equal(40n);
+    expect(position1155.unlockAt).to.equal(unlock.unlockAt);
+    expect(indexer.getPosition(user1.address, await erc1155Token.getAddress(), 1n, true)!.pendingUnlock).to.equal(0n);
+    expect(indexer.getUserPositions(user2.address)).to.have.lengthOf(1);
+  });
+
+  it("Should drop positions once they are fully unstaked", async function () {
+    await lpStaking.connect(user1).stake1155(await erc1155Token.getAddress(), 1, 30);
+    await lpStaking.connect(user1).unlock1155(await erc1155Token.getAddress(), 1);
+    await ethers.provider.send("evm_increaseTime", [604800]);
+    await lpStaking.connect(user1).unstake1155(await erc1155Token.getAddress(), 1);
+
+    const indexer = new LPStakingIndexer(lpStaking, { startBlock, confirmations: 0 });
+    await indexer.sync();
+    expect(indexer.getPositions()).to.be.empty;
+  });
+
+  it("Should leave unconfirmed blocks out of the state", async function () {
+    await lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress());
+    await lpStaking.connect(user2).stake(ethers.parseEther("20"), await token.getAddress());
+
+    const indexer = new LPStakingIndexer(lpStaking, { startBlock, confirmations: 1 });
+    await indexer.sync();
+    expect(indexer.indexedBlock).to.equal((await ethers.provider.getBlockNumber()) - 1);
+    expect(indexer.getPositions()).to.have.lengthOf(1);
+
+    await ethers.provider.send("evm_mine");
+    await indexer.sync();
+    expect(indexer.getPositions()).to.have.lengthOf(2);
+  });
+
+  it("Should resume from a JSON checkpoint", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    const file = path.join(dir, "checkpoint.json");
+    try {
+      await lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress());
+      const first = new LPStakingIndexer(lpStaking, {
+        startBlock,
+        confirmations: 0,
+        store: new JsonCheckpointStore(file),
+      });
+      await first.sync();
+
+      await lpStaking.connect(user1).stake(ethers.parseEther("5"), await token.getAddress());
+      const events: number[] = [];
+      const second = new LPStakingIndexer(lpStaking, {
+        startBlock,
+        confirmations: 0,
+        store: new JsonCheckpointStore(file),
+        onEvents: (page) => {
+          events.push(page.length);
+        },
+      });
+      const result = await second.sync();
+      expect(result.fromBlock).to.equal(first.indexedBlock + 1);
+      expect(events).to.deep.equal([1]);
+      expect(second.getPosition(user1.address, await token.getAddress())!.staked).to.equal(ethers.parseEther("55"));
+    } finally {
+      for (const entry of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, entry));
+      fs.rmdirSync(dir);
+    }
+  });
+
+  it("Should reject malformed JSON checkpoints", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    const file = path.join(dir, "checkpoint.json");
+    const write = (data: object) => fs.writeFileSync(file, JSON.stringify(data));
+    const checkpoint = { version: 1, chainId: "31337", address: ZeroAddress, blockNumber: 1, blockHash: ZeroHash };
+    const position = { user: ZeroAddress, token: ZeroAddress, id: "0", is1155: false, staked: "1" };
+    try {
+      write({ ...checkpoint, version: 2, positions: [] });
+      expect(() => new JsonCheckpointStore(file).load()).to.throw(`Unsupported checkpoint version 2 in ${file}`);
+      write({ ...checkpoint, blockNumber: "1", positions: [] });
+      expect(() => new JsonCheckpointStore(file).load()).to.throw(
+        `Invalid checkpoint ${file}: blockNumber must be a whole number`
+      );
+      write({ ...checkpoint, positions: [{ ...position, pendingUnlock: "0", unlockAt: "0" }, position] });
+      expect(() => new JsonCheckpointStore(file).load()).to.throw(
+        `Invalid checkpoint ${file}: position 1 must have user, token, id, is1155, staked, pendingUnlock and unlockAt`
+      );
+    } finally {
+      for (const entry of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, entry));
+      fs.rmdirSync(dir);
+    }
+  });
+
+  it("Should reindex when the checkpoint block was reorged away", async function () {
+    const store = new MemoryCheckpointStore();
+    const snapshot = await ethers.provider.send("evm_snapshot");
+    await lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress());
+    const indexer = new LPStakingIndexer(lpStaking, { startBlock, confirmations: 0, store });
+    await indexer.sync();
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await lpStaking.connect(user2).stake(ethers.parseEther("20"), await token.getAddress());
+    const result = await indexer.sync();
+
+    expect(result.reorged).to.be.true;
+    expect(indexer.getPosition(user1.address, await token.getAddress())).to.be.undefined;
+    expect(indexer.getPosition(user2.address, await token.getAddress())!.staked).to.equal(ethers.parseEther("20"));
+  });
+});
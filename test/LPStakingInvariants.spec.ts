@@ -0,0 +1,310 @@
+import fc from "fast-check";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, MockERC1155 } from "../scripts/@types/index";
+import { LPStakingStorage } from "../scripts/utils/lpstaking-storage";
+
+// Replay a failure with the seed, path and replayPath printed by fast-check, e.g.
+// FUZZ_SEED=-1655262346 FUZZ_PATH="9:7:7:7:6:5:5:5" FUZZ_REPLAY_PATH="RAh:F" npx hardhat test test/LPStakingInvariants.spec.ts
+const FUZZ_RUNS = Number(process.env.FUZZ_RUNS ?? 20);
+const FUZZ_STEPS = Number(process.env.FUZZ_STEPS ?? 25);
+const FUZZ_SEED = process.env.FUZZ_SEED === undefined ? undefined : Number(process.env.FUZZ_SEED);
+const FUZZ_PATH = process.env.FUZZ_PATH;
+const FUZZ_REPLAY_PATH = process.env.FUZZ_REPLAY_PATH;
+
+const ERC20_TOKENS = ["MockERC20", "FeeToken", "FakeERC20"];
+const ERC1155_IDS = [1n, 2n, 3n];
+const USERS = 3;
+const SUPPLY = ethers.parseEther("1000");
+
+interface World {
+  lpStaking: LPStaking;
+  storage: LPStakingStorage;
+  owner: HardhatEthersSigner;
+  hexagate: HardhatEthersSigner;
+  users: HardhatEthersSigner[];
+  erc20s: string[];
+  erc1155: MockERC1155;
+}
+
+type Block = { number: number; timestamp: number };
+type Invariant = (world: World, block: Block) => Promise<void>;
+
+// the invariants a run checks after every step
+interface Model {
+  invariants: Invariant[];
+}
+
+// reverts are expected, the sequences are random, but panics (overflows, ...) are accounting bugs
+async function attempt(action: () => Promise<unknown>) {
+  try {
+    await action();
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!/reverted/.test(message) || /panic code/.test(message)) throw error;
+  }
+}
+
+async function holdersOf(world: World, block: Block, token: string, ids?: bigint[]): Promise<bigint> {
+  let holders = 0n;
+  for (const user of world.users) {
+    const balances = await Promise.all(
+      ids === undefined
+        ? [world.storage.userBalance(user.address, token, block.number)]
+        : ids.map((id) => world.storage.userBalance1155(user.address, token, id, block.number))
+    );
+    if (balances.some((balance) => balance !== 0n)) holders++;
+  }
+  return holders;
+}
+
+async function custody(world: World, block: Block) {
+  const { lpStaking, storage, users } = world;
+  const blockTag = block.number;
+  const address = await lpStaking.getAddress();
+  for (const token of world.erc20s) {
+    const held = await (await ethers.getContractAt("IERC20", token)).balanceOf(address, { blockTag });
+    let sum = 0n;
+    for (const user of users) sum += await storage.userBalance(user.address, token, blockTag);
+    expect(held, `custody of ${token}`).to.be.gte(sum);
+  }
+  const erc1155 = await world.erc1155.getAddress();
+  for (const id of ERC1155_IDS) {
+    const held = await world.erc1155.balanceOf(address, id, { blockTag });
+    let sum = 0n;
+    for (const user of users) sum += await storage.userBalance1155(user.address, erc1155, id, blockTag);
+    expect(held, `custody of ERC1155 id ${id}`).to.be.gte(sum);
+  }
+}
+
+async function holderCounts(world: World, block: Block) {
+  for (const token of world.erc20s) {
+    const count = await world.storage.tokenUserCount(token, block.number);
+    expect(count, `tokenUserCount of ${token}`).to.equal(await holdersOf(world, block, token));
+  }
+}
+
+async function balances(world: World, block: Block) {
+  const { lpStaking, storage } = world;
+  const blockTag = block.number;
+  for (const token of world.erc20s) {
+    for (const user of world.users) {
+      const balance = await storage.userBalance(user.address, token, blockTag);
+      const unlock = await lpStaking.userUnlocks(user.address, token, { blockTag });
+      const matured = unlock.initialized && BigInt(block.timestamp) >= unlock.unlockAt;
+      const reported = await lpStaking.balanceOf(token, user.address, { blockTag });
+      expect(reported, `balanceOf of user ${user.address}, ${token}`).to.equal(matured ? 0n : balance);
+    }
+  }
+}
+
+// known divergence: a user staking several ids is counted once per id
+async function holderCount1155(world: World, block: Block) {
+  const erc1155 = await world.erc1155.getAddress();
+  const count = await world.storage.tokenUserCount(erc1155, block.number);
+  expect(count, "tokenUserCount of ERC1155").to.equal(await holdersOf(world, block, erc1155, ERC1155_IDS));
+}
+
+// known divergence: balanceOf1155 reads the ERC20 unlock of the token, userUnlocks[user][token]
+async function balances1155(world: World, block: Block) {
+  const { lpStaking, storage } = world;
+  const blockTag = block.number;
+  const erc1155 = await world.erc1155.getAddress();
+  for (const id of ERC1155_IDS) {
+    for (const user of world.users) {
+      const balance = await storage.userBalance1155(user.address, erc1155, id, blockTag);
+      const unlock = await lpStaking.userUnlocks1155(user.address, erc1155, id, { blockTag });
+      const matured = unlock.initialized && BigInt(block.timestamp) >= unlock.unlockAt;
+      const reported = await lpStaking.balanceOf1155(erc1155, id, user.address, { blockTag });
+      expect(reported, `balanceOf1155 of user ${user.address}, id ${id}`).to.equal(matured ? 0n : balance);
+    }
+  }
+}
+
+class Step implements fc.AsyncCommand<Model, World> {
+  constructor(private readonly label: string, private readonly action: (world: World) => Promise<unknown>) {}
+
+  public check() {
+    return true;
+  }
+
+  public async run(model: Model, world: World) {
+    await attempt(() => this.action(world));
+    const block = (await ethers.provider.getBlock("latest"))!;
+    for (const invariant of model.invariants) await invariant(world, block);
+  }
+
+  public toString() {
+    return this.label;
+  }
+}
+
+const user = fc.integer({ min: 0, max: USERS - 1 });
+const erc20 = fc.integer({ min: 0, max: ERC20_TOKENS.length - 1 });
+const id = fc.constantFrom(...ERC1155_IDS);
+const amount = fc.oneof(fc.constant(0n), fc.bigInt({ min: 1n, max: SUPPLY / 4n }));
+const amount1155 = fc.bigInt({ min: 0n, max: 40n });
+
+const stake = fc
+  .tuple(user, erc20, amount)
+  .map(
+    ([u, t, a]) =>
+      new Step(`user${u}.stake(${ERC20_TOKENS[t]}, ${a})`, (w) => w.lpStaking.connect(w.users[u]).stake(a, w.erc20s[t]))
+  );
+const stake1155 = fc
+  .tuple(user, id, amount1155)
+  .map(
+    ([u, i, a]) =>
+      new Step(`user${u}.stake1155(${i}, ${a})`, (w) => w.lpStaking.connect(w.users[u]).stake1155(w.erc1155, i, a))
+  );
+const unlock = fc
+  .tuple(user, erc20)
+  .map(
+    ([u, t]) =>
+      new Step(`user${u}.unlock(${ERC20_TOKENS[t]})`, (w) => w.lpStaking.connect(w.users[u]).unlock(w.erc20s[t]))
+  );
+const unlock1155 = fc
+  .tuple(user, id)
+  .map(
+    ([u, i]) => new Step(`user${u}.unlock1155(${i})`, (w) => w.lpStaking.connect(w.users[u]).unlock1155(w.erc1155, i))
+  );
+const unstake = fc
+  .tuple(user, erc20)
+  .map(
+    ([u, t]) =>
+      new Step(`user${u}.unstake(${ERC20_TOKENS[t]})`, (w) => w.lpStaking.connect(w.users[u]).unstake(w.erc20s[t]))
+  );
+const unstake1155 = fc
+  .tuple(user, id)
+  .map(
+    ([u, i]) => new Step(`user${u}.unstake1155(${i})`, (w) => w.lpStaking.connect(w.users[u]).unstake1155(w.erc1155, i))
+  );
+const increaseTime = fc.constantFrom(1, 3600, 86400, 604799, 604800, 1209600).map(
+  (seconds) =>
+    new Step(`increaseTime(${seconds})`, async () => {
+      await ethers.provider.send("evm_increaseTime", [seconds]);
+      await ethers.provider.send("evm_mine", []);
+    })
+);
+const pause = fc
+  .boolean()
+  .map((paused) =>
+    paused
+      ? new Step("pause()", (w) => w.lpStaking.connect(w.hexagate).pause())
+      : new Step("unpause()", (w) => w.lpStaking.connect(w.hexagate).unpause())
+  );
+const lpTokenSupport = fc
+  .tuple(fc.boolean(), erc20)
+  .map(([add, t]) =>
+    add
+      ? new Step(`addLPTokenSupport(${ERC20_TOKENS[t]})`, (w) => w.lpStaking.addLPTokenSupport(w.erc20s[t]))
+      : new Step(`removeLPTokenSupport(${ERC20_TOKENS[t]})`, (w) => w.lpStaking.removeLPTokenSupport(w.erc20s[t]))
+  );
+const erc1155Support = fc
+  .boolean()
+  .map((add) =>
+    add
+      ? new Step("addERC1155TokenSupport()", (w) => w.lpStaking.addERC1155TokenSupport(w.erc1155))
+      : new Step("removeERC1155TokenSupport()", (w) => w.lpStaking.removeERC1155TokenSupport(w.erc1155))
+  );
+
+const steps = [
+  stake,
+  stake1155,
+  unlock,
+  unlock1155,
+  unstake,
+  unstake1155,
+  increaseTime,
+  pause,
+  lpTokenSupport,
+  erc1155Support,
+];
+// the known divergences only need the ERC1155 positions, fewer step kinds reach them in fewer runs
+const erc1155Steps = [stake1155, unlock1155, unstake1155, increaseTime];
+
+describe("LPStaking invariants", function () {
+  let world: World;
+  let snapshot: string;
+
+  before(async function () {
+    const [owner, hexagate, ...users] = await ethers.getSigners();
+    const lpStaking = await (await ethers.getContractFactory("LPStaking", owner)).deploy();
+    await lpStaking.initialize(hexagate.address);
+    const address = await lpStaking.getAddress();
+
+    const erc20s: string[] = [];
+    for (const name of ERC20_TOKENS) {
+      const factory = await ethers.getContractFactory(name, owner);
+      const args = name === "FeeToken" ? ["Fee Token", "FEE", SUPPLY * 10n] : [name, name, 18, SUPPLY * 10n];
+      const token = await ethers.getContractAt("MockERC20", await (await factory.deploy(...args)).getAddress());
+      for (const account of users.slice(0, USERS)) {
+        await token.transfer(account.address, SUPPLY);
+        await token.connect(account).approve(address, ethers.MaxUint256);
+      }
+      await lpStaking.addLPTokenSupport(token);
+      erc20s.push(await token.getAddress());
+    }
+
+    const erc1155 = await (await ethers.getContractFactory("MockERC1155", owner)).deploy();
+    for (const account of users.slice(0, USERS)) {
+      for (const tokenId of ERC1155_IDS) {
+        await erc1155.mint(account.address, tokenId, 100, "0x");
+      }
+      await erc1155.connect(account).setApprovalForAll(address, true);
+    }
+    await lpStaking.addERC1155TokenSupport(erc1155);
+
+    world = {
+      lpStaking,
+      storage: await LPStakingStorage.create(hre, lpStaking),
+      owner,
+      hexagate,
+      users: users.slice(0, USERS),
+      erc20s,
+      erc1155,
+    };
+    snapshot = await ethers.provider.send("evm_snapshot", []);
+  });
+
+  after(async function () {
+    await ethers.provider.send("evm_revert", [snapshot]);
+  });
+
+  function fuzz(invariants: Invariant[], commands = steps) {
+    return fc.asyncProperty(
+      fc.commands(commands, { maxCommands: FUZZ_STEPS, size: "max", replayPath: FUZZ_REPLAY_PATH }),
+      async (cmds) => {
+        // every run starts from the same deployment, snapshots can only be reverted once
+        await ethers.provider.send("evm_revert", [snapshot]);
+        snapshot = await ethers.provider.send("evm_snapshot", []);
+        await fc.asyncModelRun(() => ({ model: { invariants }, real: world }), cmds);
+      }
+    );
+  }
+
+  const parameters = { numRuns: FUZZ_RUNS, seed: FUZZ_SEED, path: FUZZ_PATH };
+
+  it("Should keep custody, holder counts and ERC20 balances consistent", async function () {
+    this.timeout(0);
+    await fc.assert(fuzz([custody, holderCounts, balances]), parameters);
+  });
+
+  // LPStaking does not hold the two invariants below yet, run them with `it` instead of `it.skip`.
+  // tokenUserCount counts an ERC1155 holder once per id: "tokenUserCount of ERC1155: expected 2 to equal 1"
+  // counterexample: user1.stake1155(2, 1), user1.stake1155(1, 1)
+  // FUZZ_SEED=350844886 FUZZ_PATH="0:3:3:3:4:3:3:3:6:5:5:5:5" FUZZ_REPLAY_PATH="KNk:F"
+  it.skip("Should count each ERC1155 holder once in tokenUserCount", async function () {
+    this.timeout(0);
+    await fc.assert(fuzz([holderCount1155], erc1155Steps), parameters);
+  });
+
+  // balanceOf1155 reads the ERC20 unlock of the token: "balanceOf1155 of user 0x90F7...b906, id 3: expected 1 to equal 0"
+  // counterexample: user1.stake1155(3, 1), user1.unlock1155(3), increaseTime(604800)
+  // FUZZ_SEED=1145238745 FUZZ_PATH="3:8:7:8:6:5:5:5:5:5" FUZZ_REPLAY_PATH="OBv:F"
+  it.skip("Should report balanceOf1155 from userUnlocks1155", async function () {
+    this.timeout(0);
+    await fc.assert(fuzz([balances1155], erc1155Steps), parameters);
+  });
+});
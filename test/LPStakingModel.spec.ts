@@ -0,0 +1,140 @@
+import fc from "fast-check";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { DifferentialWorld, Operation, createModel, runDifferential } from "../scripts/model/differential";
+import { supportedTokensFixture } from "./fixtures";
+
+const MODEL_RUNS = Number(process.env.MODEL_RUNS ?? 5);
+const MODEL_STEPS = Number(process.env.MODEL_STEPS ?? 15);
+
+const WEEK = 7 * 86400;
+
+// LPStaking reads the ERC20 unlock of the token in balanceOf1155, the model the unlock of the id
+const KNOWN_DIVERGENCES = { knownDivergences: ["balanceOf1155"] };
+
+describe("LPStaking reference model", function () {
+  // the supported tokens fixture, plus a FakeERC20 whose transfers fail and that is not supported yet
+  async function worldFixture(): Promise<DifferentialWorld> {
+    const { lpStaking, token, feeToken, erc1155, owner, hexagate, user1, user2 } = await loadFixture(
+      supportedTokensFixture
+    );
+    const fake = await ethers.deployContract("FakeERC20", ["Fake", "FAKE", 18, ethers.parseEther("1000")], owner);
+    return {
+      lpStaking,
+      owner,
+      hexagate,
+      users: [user1, user2],
+      erc20s: [
+        { name: "MockERC20", address: await token.getAddress(), behavior: { standard: "erc20" } },
+        { name: "FeeToken", address: await feeToken.getAddress(), behavior: { standard: "erc20", feeDivisor: 100n } },
+        { name: "FakeERC20", address: await fake.getAddress(), behavior: { standard: "erc20", failing: true } },
+      ],
+      erc1155: await erc1155.getAddress(),
+      ids: [1n, 2n],
+    };
+  }
+
+  it("Should match LPStaking through the whole staking and support lifecycle", async function () {
+    const world = await loadFixture(worldFixture);
+    const ether = ethers.parseEther("1");
+    const operations: Operation[] = [
+      { kind: "stake", user: 0, token: 0, amount: 10n * ether },
+      { kind: "stake", user: 1, token: 1, amount: 10n * ether },
+      { kind: "stake", user: 0, token: 2, amount: ether },
+      { kind: "addLPTokenSupport", token: 2 },
+      { kind: "stake", user: 0, token: 2, amount: ether },
+      { kind: "stake", user: 0, token: 0, amount: 1000n * ether },
+      { kind: "stake1155", user: 0, id: 1n, amount: 30n },
+      { kind: "stake1155", user: 1, id: 2n, amount: 60n },
+      { kind: "unlock", user: 0, token: 0 },
+      { kind: "unlock", user: 0, token: 0 },
+      { kind: "unstake", user: 0, token: 0 },
+      { kind: "unlock", user: 1, token: 1 },
+      { kind: "unlock1155", user: 0, id: 1n },
+      { kind: "unstake1155", user: 0, id: 2n },
+      { kind: "removeLPTokenSupport", token: 0 },
+      { kind: "pause", by: 0 },
+      { kind: "pause" },
+      { kind: "unstake", user: 0, token: 0 },
+      { kind: "advance", seconds: WEEK },
+      { kind: "unpause" },
+      { kind: "unstake", user: 0, token: 0 },
+      { kind: "unstake", user: 1, token: 1 },
+      { kind: "unstake1155", user: 0, id: 1n },
+      { kind: "updateUnlockDuration", duration: 0n },
+      { kind: "updateUnlockDuration", duration: 3600n, by: 1 },
+      { kind: "updateUnlockDuration", duration: 3600n },
+      { kind: "unlock1155", user: 1, id: 2n },
+      { kind: "advance", seconds: 3599 },
+      { kind: "unstake1155", user: 1, id: 2n },
+      { kind: "removeLPTokenSupport", token: 0 },
+      { kind: "removeERC1155TokenSupport" },
+      { kind: "addERC1155TokenSupport" },
+    ];
+
+    const trace = await runDifferential(hre, world, await createModel(world), operations, KNOWN_DIVERGENCES);
+    expect(trace).to.have.lengthOf(operations.length);
+    // the matured unlock of id 1 is not reflected until it is unstaked
+    expect(trace[18].knownDivergences).to.deep.equal(['balanceOf1155(id 1, user0): contract "30", model "0"']);
+    expect(trace.map((step) => step.outcome.revert)).to.include.members([
+      "SafeERC20FailedOperation",
+      "ERC20InsufficientBalance",
+      "ERC1155InsufficientBalance",
+      "OwnableUnauthorizedAccount",
+      "Unlock already initialized",
+      "Contract is paused",
+      "Users have staked tokens",
+      "Not Hexagate",
+    ]);
+    expect(trace[1].outcome.events[0].args[1]).to.equal(ethers.parseEther("9.9"));
+  });
+
+  it("Should report the first divergence with the trace", async function () {
+    const world = await loadFixture(worldFixture);
+    const model = await createModel(world);
+    // the model now expects unlocks to mature after a day
+    model.updateUnlockDuration(await world.owner.getAddress(), 86400n);
+
+    const operations: Operation[] = [
+      { kind: "stake", user: 0, token: 0, amount: 100n },
+      { kind: "unlock", user: 0, token: 0 },
+    ];
+    const failure = runDifferential(hre, world, model, operations);
+    await expect(failure).to.be.rejectedWith(
+      "LPStaking diverged from the model at step 1: user0.stake(100, MockERC20)"
+    );
+    await expect(failure).to.be.rejectedWith('unlockDuration: contract "604800", model "86400"');
+  });
+
+  it("Should match LPStaking on random operation sequences", async function () {
+    this.timeout(0);
+    const user = fc.integer({ min: 0, max: 1 });
+    const token = fc.integer({ min: 0, max: 2 });
+    const id = fc.constantFrom(1n, 2n);
+    const by = fc.option(user, { nil: undefined });
+    const operation: fc.Arbitrary<Operation> = fc.oneof(
+      fc.record({ kind: fc.constant("stake" as const), user, token, amount: fc.bigInt(0n, ethers.parseEther("40")) }),
+      fc.record({ kind: fc.constant("stake1155" as const), user, id, amount: fc.bigInt(0n, 60n) }),
+      fc.record({ kind: fc.constantFrom("unlock" as const, "unstake" as const), user, token }),
+      fc.record({ kind: fc.constantFrom("unlock1155" as const, "unstake1155" as const), user, id }),
+      fc.record({ kind: fc.constantFrom("pause" as const, "unpause" as const), by }),
+      fc.record({ kind: fc.constantFrom("addLPTokenSupport" as const, "removeLPTokenSupport" as const), token, by }),
+      fc.record({ kind: fc.constantFrom("addERC1155TokenSupport" as const, "removeERC1155TokenSupport" as const), by }),
+      fc.record({
+        kind: fc.constant("updateUnlockDuration" as const),
+        duration: fc.constantFrom(0n, 60n, BigInt(WEEK)),
+        by,
+      }),
+      fc.record({ kind: fc.constant("advance" as const), seconds: fc.constantFrom(1, 60, WEEK) })
+    );
+
+    await fc.assert(
+      fc.asyncProperty(fc.array(operation, { maxLength: MODEL_STEPS }), async (operations) => {
+        const world = await loadFixture(worldFixture);
+        await runDifferential(hre, world, await createModel(world), operations, KNOWN_DIVERGENCES);
+      }),
+      { numRuns: MODEL_RUNS }
+    );
+  });
+});
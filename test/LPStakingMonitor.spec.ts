@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, MockERC1155, MockERC20 } from "../scripts/@types/index";
+import { RuleConfig, createRules } from "../scripts/monitor/config";
+import { LPStakingMonitor } from "../scripts/monitor/LPStakingMonitor";
+
+interface Scenario {
+  name: string;
+  rules: RuleConfig[];
+  steps: () => Promise<unknown>;
+  // the rules expected to fire, none means the contract stays unpaused
+  fires: string[];
+}
+
+describe("LPStakingMonitor", function () {
+  let lpStaking: LPStaking;
+  let token: MockERC20;
+  let erc1155Token: MockERC1155;
+  let owner: HardhatEthersSigner;
+  let hexagate: HardhatEthersSigner;
+  let user1: HardhatEthersSigner;
+  let user2: HardhatEthersSigner;
+
+  beforeEach(async function () {
+    [owner, hexagate, user1, user2] = await ethers.getSigners();
+
+    const ERC20Mock = await ethers.getContractFactory("MockERC20", owner);
+    token = await ERC20Mock.deploy("Mock Token", "MCK", 18, ethers.parseEther("1000"));
+    const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
+    erc1155Token = await ERC1155Mock.deploy();
+
+    const LPStaking = await ethers.getContractFactory("LPStaking", owner);
+    lpStaking = await LPStaking.deploy();
+    await lpStaking.initialize(hexagate.address);
+    await lpStaking.addLPTokenSupport(await token.getAddress());
+    await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
+    for (const user of [user1, user2]) {
+      await token.transfer(user.address, ethers.parseEther("100"));
+      await token.connect(user).approve(await lpStaking.getAddress(), ethers.MaxUint256);
+      await erc1155Token.mint(user.address, 1, 100, "0x");
+      await erc1155Token.connect(user).setApprovalForAll(await lpStaking.getAddress(), true);
+    }
+  });
+
+  async function stakeAndMature(user: HardhatEthersSigner, amount: bigint) {
+    await lpStaking.connect(user).stake(amount, await token.getAddress());
+    await lpStaking.connect(user).unlock(await token.getAddress());
+  }
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine");
+  }
+
+  // moves tokens out of LPStaking without going through unstake, like an exploit would
+  async function drain(amount: bigint) {
+    const address = await lpStaking.getAddress();
+    await ethers.provider.send("hardhat_impersonateAccount", [address]);
+    await ethers.provider.send("hardhat_setBalance", [address, "0xDE0B6B3A7640000"]);
+    const contract = await ethers.getSigner(address);
+    await token.connect(contract).transfer(owner.address, amount);
+    await ethers.provider.send("hardhat_stopImpersonatingAccount", [address]);
+  }
+
+  const volumeRule: RuleConfig = {
+    type: "unstakeVolume",
+    threshold: ethers.parseEther("100").toString(),
+    window: 3600,
+  };
+
+  const scenarios: Scenario[] = [
+    {
+      name: "regular staking and unstaking",
+      rules: [volumeRule, { type: "custodyDrop" }, { type: "adminChange" }],
+      steps: async () => {
+        await stakeAndMature(user1, ethers.parseEther("60"));
+        await lpStaking.connect(user2).stake1155(await erc1155Token.getAddress(), 1, 40);
+        await increaseTime(604800);
+        await lpStaking.connect(user1).unstake(await token.getAddress());
+      },
+      fires: [],
+    },
+    {
+      name: "unstake volume above the threshold within the window",
+      rules: [volumeRule],
+      steps: async () => {
+        await stakeAndMature(user1, ethers.parseEther("60"));
+        await stakeAndMature(user2, ethers.parseEther("60"));
+        await increaseTime(604800);
+        await lpStaking.connect(user1).unstake(await token.getAddress());
+        await lpStaking.connect(user2).unstake(await token.getAddress());
+      },
+      fires: ["unstakeVolume"],
+    },
+    {
+      name: "unstakes spread over more than the window",
+      rules: [volumeRule],
+      steps: async () => {
+        await stakeAndMature(user1, ethers.parseEther("60"));
+        await stakeAndMature(user2, ethers.parseEther("60"));
+        await increaseTime(604800);
+        await lpStaking.connect(user1).unstake(await token.getAddress());
+        await increaseTime(3600);
+        await lpStaking.connect(user2).unstake(await token.getAddress());
+      },
+      fires: [],
+    },
+    {
+      name: "custody drop without Unstaked events",
+      rules: [{ type: "custodyDrop" }],
+      steps: async () => {
+        await lpStaking.connect(user1).stake(ethers.parseEther("60"), await token.getAddress());
+        await drain(ethers.parseEther("10"));
+      },
+      fires: ["custodyDrop"],
+    },
+    {
+      name: "unlock duration change",
+      rules: [{ type: "adminChange" }],
+      steps: () => lpStaking.updateUnlockDuration(60),
+      fires: ["adminChange"],
+    },
+  ];
+
+  for (const scenario of scenarios) {
+    it(`Should ${scenario.fires.length ? "pause on" : "not pause on"} ${scenario.name}`, async function () {
+      const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+      const monitor = new LPStakingMonitor(lpStaking, {
+        rules: createRules({ rules: scenario.rules }),
+        pauser: hexagate,
+        startBlock,
+      });
+      await scenario.steps();
+      await monitor.poll();
+
+      expect(Array.from(new Set(monitor.alerts.map((alert) => alert.rule)))).to.deep.equal(scenario.fires);
+      expect(await lpStaking.paused()).to.equal(scenario.fires.length > 0);
+    });
+  }
+
+  it("Should fail to pause once the hexagate was replaced", async function () {
+    const monitor = new LPStakingMonitor(lpStaking, {
+      rules: createRules({ rules: [{ type: "adminChange" }] }),
+      pauser: hexagate,
+    });
+    await monitor.poll();
+    await lpStaking.updateHexagateAddress(user2.address);
+
+    await expect(monitor.poll()).to.be.rejectedWith(`${hexagate.address} is no longer the hexagate of LPStaking`);
+    expect(monitor.alerts[0].message).to.match(/^HexagateAddressUpdated/);
+  });
+
+  it("Should retry a failed pause on the next poll", async function () {
+    const monitor = new LPStakingMonitor(lpStaking, {
+      rules: createRules({ rules: [{ type: "custodyDrop" }] }),
+      pauser: hexagate,
+    });
+    await monitor.poll();
+    await lpStaking.updateHexagateAddress(user2.address);
+    await lpStaking.connect(user1).stake(ethers.parseEther("60"), await token.getAddress());
+    await drain(ethers.parseEther("10"));
+    const drained = await ethers.provider.getBlockNumber();
+
+    await expect(monitor.poll()).to.be.rejectedWith(`${hexagate.address} is no longer the hexagate of LPStaking`);
+    expect(monitor.processedBlock).to.equal(drained);
+    expect(await lpStaking.paused()).to.be.false;
+
+    await lpStaking.updateHexagateAddress(hexagate.address);
+    expect(await monitor.poll()).to.be.empty;
+    expect(await lpStaking.paused()).to.be.true;
+    expect(monitor.paused?.blockNumber).to.equal(drained);
+    expect(monitor.alerts.map((alert) => alert.rule)).to.deep.equal(["custodyDrop"]);
+  });
+
+  it("Should only report alerts without a pauser", async function () {
+    const monitor = new LPStakingMonitor(lpStaking, { rules: createRules({ rules: [{ type: "adminChange" }] }) });
+    await monitor.poll();
+    await lpStaking.updateUnlockDuration(60);
+    const alerts = await monitor.poll();
+
+    expect(alerts).to.have.lengthOf(1);
+    expect(alerts[0].message).to.match(/^UnlockDurationUpdated\(60\)/);
+    expect(await lpStaking.paused()).to.be.false;
+  });
+
+  it("Should evaluate blocks as they are mined once started", async function () {
+    const monitor = new LPStakingMonitor(lpStaking, {
+      rules: createRules({ rules: [{ type: "adminChange" }] }),
+      pauser: hexagate,
+    });
+    await monitor.poll();
+    monitor.start();
+    await lpStaking.updateUnlockDuration(60);
+    while (monitor.paused === undefined) await new Promise((resolve) => setTimeout(resolve, 100));
+    await monitor.stop();
+
+    expect(await lpStaking.paused()).to.be.true;
+    expect(monitor.paused.alerts[0].rule).to.equal("adminChange");
+  });
+
+  it("Should reject unknown rule types", function () {
+    expect(() => createRules({ rules: [{ type: "gasPrice" } as unknown as RuleConfig] })).to.throw(
+      "Unknown monitor rule type gasPrice"
+    );
+  });
+});
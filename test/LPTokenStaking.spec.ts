@@ -1,30 +1,33 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { MockERC20, LPStaking, MockERC1155 } from "../scripts/@types/index";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FakeERC20, FeeToken, LPStaking, MockERC1155, MockERC20 } from "../scripts/@types/index";
+import {
+    LPStakingFixture,
+    deployLPStakingFixture,
+    maturedFixture,
+    midUnlockFixture,
+    pausedFixture,
+    supportedTokensFixture,
+} from "./fixtures";
 
 describe("LPStaking", function () {
     
     let lpStaking: LPStaking;
-    let owner: HardhatEthersSigner;
     let hexagate: HardhatEthersSigner;
     let user1: HardhatEthersSigner;
     let user2: HardhatEthersSigner;
     let token: MockERC20;
+    let feeToken: FeeToken;
+    let erc1155Token: MockERC1155;
 
-    beforeEach(async function () {
-        [owner, hexagate, user1, user2] = await ethers.getSigners();
-
-        const ERC20Mock = await ethers.getContractFactory("MockERC20", owner);
-        token = await ERC20Mock.deploy("Mock Token", "MCK", 18, ethers.parseEther("1000"));
-
-        const LPStaking = await ethers.getContractFactory("LPStaking", owner);
-        lpStaking = await LPStaking.deploy();
-        await lpStaking.initialize(hexagate.address);
+    async function load(fixture: () => Promise<LPStakingFixture>) {
+        ({ lpStaking, hexagate, user1, user2, token, feeToken, erc1155: erc1155Token } = await loadFixture(fixture));
+    }
 
-        // Accept ownership step
-        await lpStaking.connect(owner).transferOwnership(owner.address);
-        await lpStaking.connect(owner).acceptOwnership();
+    beforeEach(async function () {
+        await load(deployLPStakingFixture);
     });
 
     describe("Initialization", function () {
@@ -59,9 +62,7 @@ describe("LPStaking", function () {
         });
 
         it("Should not remove LP token support if there are staked tokens", async function () {
-            await lpStaking.addLPTokenSupport(await token.getAddress());
-            await token.transfer(user1.address, ethers.parseEther("100"));
-            await token.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("50"));
+            await load(supportedTokensFixture);
             await lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress());
     
             await expect(lpStaking.removeLPTokenSupport(await token.getAddress())).to.be.revertedWith("Users have staked tokens");
@@ -76,13 +77,6 @@ describe("LPStaking", function () {
     });
 
     describe("ERC1155 Token Support", function () {
-        let erc1155Token: MockERC1155; // Assuming MockERC1155 is the mock contract with mint function
-
-        beforeEach(async function () {
-            const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
-            erc1155Token = await ERC1155Mock.deploy();
-        });
-
         it("Should add ERC1155 token support", async function () {
             await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
             expect(await lpStaking.supportedERC1155Tokens(await erc1155Token.getAddress())).to.be.true;
@@ -108,19 +102,17 @@ describe("LPStaking", function () {
 
     describe("Staking", function () {
         beforeEach(async function () {
-            await lpStaking.addLPTokenSupport(await token.getAddress());
-            await token.transfer(user1.address, ethers.parseEther("100"));
+            await load(supportedTokensFixture);
         });
 
         it("Should stake tokens correctly", async function () {
-            await token.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("50"));
             await lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress());
 
             expect(await lpStaking.balanceOf(await token.getAddress(), user1.address)).to.equal(ethers.parseEther("50"));
+            await expect(lpStaking).to.haveStakeOf(user1, token, ethers.parseEther("50"));
         });
 
         it("Should emit Staked event", async function () {
-            await token.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("50"));
             await expect(lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress()))
                 .to.emit(lpStaking, "Staked")
                 .withArgs(user1.address, ethers.parseEther("50"), await token.getAddress());
@@ -136,9 +128,7 @@ describe("LPStaking", function () {
         });
 
         it("Should revert if ERC20 transferFrom returns false", async function () {
-            const FakeERC20 = await ethers.getContractFactory("FakeERC20", owner);
-            const fakeToken = await FakeERC20.deploy("Fake Token", "FAKE", 18, ethers.parseEther("1000"));
-    
+            const fakeToken = await ethers.deployContract("FakeERC20", ["Fake Token", "FAKE", 18, ethers.parseEther("1000")]);
             await lpStaking.addLPTokenSupport(await fakeToken.getAddress());
             await fakeToken.transfer(user1.address, ethers.parseEther("100"));
             await fakeToken.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("50"));
@@ -148,13 +138,6 @@ describe("LPStaking", function () {
         });
 
         it("Should handle ERC20 tokens with transfer fees correctly", async function () {
-            const FeeToken = await ethers.getContractFactory("FeeToken", owner);
-            const feeToken = await FeeToken.deploy("Fee Token", "FEE", ethers.parseEther("1000").toString());
-    
-            await lpStaking.addLPTokenSupport(await feeToken.getAddress());
-            await feeToken.transfer(user1.address, ethers.parseEther("100"));
-            await feeToken.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("50"));
-    
             await lpStaking.connect(user1).stake(ethers.parseEther("50"), await feeToken.getAddress());
     
             const contractBalance = await feeToken.balanceOf(await lpStaking.getAddress());
@@ -163,29 +146,24 @@ describe("LPStaking", function () {
             // Check that the actual received amount is less due to the transfer fee
             expect(contractBalance).to.be.lessThan(ethers.parseEther("50"));
             expect(userBalance).to.be.equal(contractBalance);
+            await expect(lpStaking).to.haveStakeOf(user1, feeToken, contractBalance);
         });
     
     });
 
     describe("ERC1155 Staking", function () {
-        let erc1155Token: MockERC1155; // Assuming MockERC1155 is the mock contract with mint function
-
         beforeEach(async function () {
-            const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
-            erc1155Token = await ERC1155Mock.deploy();
-            await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
-            await erc1155Token.mint(user1.address, 1, 100, "0x");
+            await load(supportedTokensFixture);
         });
 
         it("Should stake ERC1155 tokens correctly", async function () {
-            await erc1155Token.connect(user1).setApprovalForAll(lpStaking.getAddress(), true);
             await lpStaking.connect(user1).stake1155(await erc1155Token.getAddress(), 1, 50);
 
             expect(await lpStaking.balanceOf1155(await erc1155Token.getAddress(), 1, user1.address)).to.equal(50);
+            await expect(lpStaking).to.haveStake1155Of(user1, erc1155Token, 1, 50);
         });
 
         it("Should emit Staked1155 event", async function () {
-            await erc1155Token.connect(user1).setApprovalForAll(lpStaking.getAddress(), true);
             await expect(lpStaking.connect(user1).stake1155(await erc1155Token.getAddress(), 1, 50))
                 .to.emit(lpStaking, "Staked1155")
                 .withArgs(user1.address, 1, 50, await erc1155Token.getAddress());
@@ -202,9 +180,7 @@ describe("LPStaking", function () {
 
     describe("Unlocking", function () {
         beforeEach(async function () {
-            await lpStaking.addLPTokenSupport(await token.getAddress());
-            await token.transfer(user1.address, ethers.parseEther("100"));
-            await token.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("50"));
+            await load(supportedTokensFixture);
             await lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress());
         });
 
@@ -213,16 +189,13 @@ describe("LPStaking", function () {
     
             const unlockInfo = await lpStaking.userUnlocks(user1.address, await token.getAddress());
             expect(unlockInfo.amount).to.equal(ethers.parseEther("50"));
+            await expect(lpStaking).to.haveUnlockOf(user1, token, ethers.parseEther("50"));
+            await expect(lpStaking).to.haveStakeOf(user1, token, ethers.parseEther("50"));
         });
     
         it("Should update unlock time correctly", async function () {
             await lpStaking.connect(user1).unlock(await token.getAddress());
-            
-            const block = await ethers.provider.getBlock('latest');
-            if (!block) {
-                throw new Error("Failed to fetch the latest block.");
-            }
-            const unlockTime = block.timestamp+ 604800;
+            const unlockTime = (await time.latest()) + 604800;
     
             const unlockInfo = await lpStaking.userUnlocks(user1.address, await token.getAddress());
             expect(unlockInfo.unlockAt).to.be.closeTo(unlockTime, 10);
@@ -243,14 +216,8 @@ describe("LPStaking", function () {
     });
 
     describe("ERC1155 Unlocking", function () {
-        let erc1155Token: MockERC1155; // Assuming MockERC1155 is the mock contract with mint function
-
         beforeEach(async function () {
-            const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
-            erc1155Token = await ERC1155Mock.deploy();
-            await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
-            await erc1155Token.mint(user1.address, 1, 100, "0x");
-            await erc1155Token.connect(user1).setApprovalForAll(lpStaking.getAddress(), true);
+            await load(supportedTokensFixture);
             await lpStaking.connect(user1).stake1155(await erc1155Token.getAddress(), 1, 50);
         });
 
@@ -259,16 +226,13 @@ describe("LPStaking", function () {
 
             const unlockInfo = await lpStaking.userUnlocks1155(user1.address, await erc1155Token.getAddress(), 1);
             expect(unlockInfo.amount).to.equal(50);
+            await expect(lpStaking).to.haveUnlock1155Of(user1, erc1155Token, 1, 50);
+            await expect(lpStaking).to.haveStake1155Of(user1, erc1155Token, 1, 50);
         });
 
         it("Should update unlock time correctly for ERC1155", async function () {
             await lpStaking.connect(user1).unlock1155(await erc1155Token.getAddress(), 1);
-
-            const block = await ethers.provider.getBlock('latest');
-            if (!block) {
-                throw new Error("Failed to fetch the latest block.");
-            }
-            const unlockTime = block.timestamp + 604800;
+            const unlockTime = (await time.latest()) + 604800;
 
             const unlockInfo = await lpStaking.userUnlocks1155(user1.address, await erc1155Token.getAddress(), 1);
             expect(unlockInfo.unlockAt).to.be.closeTo(unlockTime, 10);
@@ -286,24 +250,35 @@ describe("LPStaking", function () {
         });
     });
 
-    describe("Unstaking", function () {
+    describe("Mid-unlock", function () {
         beforeEach(async function () {
-            await lpStaking.addLPTokenSupport(await token.getAddress());
-            await token.transfer(user1.address, ethers.parseEther("100"));
-            await token.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("50"));
-            await lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress());
-            await lpStaking.connect(user1).unlock(await token.getAddress());
+            await load(midUnlockFixture);
+        });
 
-            // Fast forward time by 1 week
-            await ethers.provider.send("evm_increaseTime", [604800]);
-            await ethers.provider.send("evm_mine");
+        it("Should keep counting the stake until the unlock period completes", async function () {
+            expect(await lpStaking.balanceOf(await token.getAddress(), user1.address)).to.equal(ethers.parseEther("50"));
+            await expect(lpStaking).to.haveUnlockOf(user1, token, ethers.parseEther("50"));
+            await expect(lpStaking).to.haveUnlock1155Of(user1, erc1155Token, 1, 50);
+        });
 
-            const FakeERC20 = await ethers.getContractFactory("FakeERC20", owner);
-            this.fakeToken = await FakeERC20.deploy("Fake Token", "FAKE", 18, ethers.parseEther("1000").toString());
-    
-            await lpStaking.addLPTokenSupport(await this.fakeToken.getAddress());
-            await this.fakeToken.transfer(user1.address, ethers.parseEther("100"));
-            await this.fakeToken.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("5000"));
+        it("Should revert unstake before the unlock period completes", async function () {
+            await expect(lpStaking.connect(user1).unstake(await token.getAddress()))
+                .to.be.revertedWith("Unlock period not completed");
+            await expect(lpStaking.connect(user1).unstake1155(await erc1155Token.getAddress(), 1))
+                .to.be.revertedWith("Unlock period not completed");
+        });
+    });
+
+    describe("Unstaking", function () {
+        let fakeToken: FakeERC20;
+
+        beforeEach(async function () {
+            await load(maturedFixture);
+
+            fakeToken = await ethers.deployContract("FakeERC20", ["Fake Token", "FAKE", 18, ethers.parseEther("1000")]);
+            await lpStaking.addLPTokenSupport(await fakeToken.getAddress());
+            await fakeToken.transfer(user1.address, ethers.parseEther("100"));
+            await fakeToken.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("5000"));
         });
 
         it("Should unstake tokens correctly", async function () {
@@ -311,6 +286,8 @@ describe("LPStaking", function () {
 
             expect(await token.balanceOf(user1.address)).to.equal(ethers.parseEther("100"));
             expect(await lpStaking.balanceOf(await token.getAddress(), user1.address)).to.equal(ethers.parseEther("0"));
+            await expect(lpStaking).to.haveStakeOf(user1, token, 0);
+            await expect(lpStaking).to.haveUnlockOf(user1, token, 0);
         });
 
         it("Should unstake the entire unlocked amount", async function () {
@@ -327,11 +304,7 @@ describe("LPStaking", function () {
         });
     
         it("Should update unlock time correctly", async function () {
-            const block = await ethers.provider.getBlock('latest');
-            if (!block) {
-                throw new Error("Failed to fetch the latest block.");
-            }
-            const unlockTime = block.timestamp + 604800;
+            const unlockTime = (await time.latest()) + 604800;
     
             const unlockInfo = await lpStaking.userUnlocks(user1.address, await token.getAddress());
             expect(unlockInfo.unlockAt).to.be.closeTo(unlockTime, 1000000);
@@ -349,30 +322,15 @@ describe("LPStaking", function () {
         });
 
         it("Should revert if ERC20 safeTransfer returns false", async function () {
-            await expect(lpStaking.connect(user1).stake(ethers.parseEther("50"), await this.fakeToken.getAddress())).to.be.reverted;
-            // await lpStaking.connect(user1).unlock(await this.fakeToken.getAddress());
-    
-            // // Fast forward time by 1 week
-            // await ethers.provider.send("evm_increaseTime", [604800]);
-            // await ethers.provider.send("evm_mine");
-    
-            // await expect(lpStaking.connect(user1).unstake(await this.fakeToken.getAddress()))
-            //     .to.be.reverted;
+            await expect(lpStaking.connect(user1).stake(ethers.parseEther("50"), await fakeToken.getAddress())).to.be.reverted;
         });
 
         it("Should handle ERC20 tokens with transfer fees correctly on unstake", async function () {
-            const FeeToken = await ethers.getContractFactory("FeeToken", owner);
-            const feeToken = await FeeToken.deploy("Fee Token", "FEE", ethers.parseEther("1000").toString());
-    
-            await lpStaking.addLPTokenSupport(await feeToken.getAddress());
-            await feeToken.transfer(user1.address, ethers.parseEther("100"));
-            await feeToken.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("50"));
             await lpStaking.connect(user1).stake(ethers.parseEther("50"), await feeToken.getAddress());
             await lpStaking.connect(user1).unlock(await feeToken.getAddress());
     
             // Fast forward time by 1 week
-            await ethers.provider.send("evm_increaseTime", [604800]);
-            await ethers.provider.send("evm_mine");
+            await time.increase(604800);
     
             await lpStaking.connect(user1).unstake(await feeToken.getAddress());
     
@@ -385,19 +343,8 @@ describe("LPStaking", function () {
     });
 
     describe("ERC1155 Unstaking", function () {
-        let erc1155Token: MockERC1155; // Assuming MockERC1155 is the mock contract with mint function
-
         beforeEach(async function () {
-            const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
-            erc1155Token = await ERC1155Mock.deploy();
-            await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
-            await erc1155Token.mint(user1.address, 1, 100, "0x");
-            await erc1155Token.connect(user1).setApprovalForAll(lpStaking.getAddress(), true);
-            await lpStaking.connect(user1).stake1155(await erc1155Token.getAddress(), 1, 50);
-            await lpStaking.connect(user1).unlock1155(await erc1155Token.getAddress(), 1);
-
-            await ethers.provider.send("evm_increaseTime", [604800]);
-            await ethers.provider.send("evm_mine");
+            await load(maturedFixture);
         });
 
         it("Should unstake ERC1155 tokens correctly", async function () {
@@ -405,6 +352,8 @@ describe("LPStaking", function () {
 
             expect(await erc1155Token.balanceOf(user1.address, 1)).to.equal(100);
             expect(await lpStaking.balanceOf1155(await erc1155Token.getAddress(), 1, user1.address)).to.equal(0);
+            await expect(lpStaking).to.haveStake1155Of(user1, erc1155Token, 1, 0);
+            await expect(lpStaking).to.haveUnlock1155Of(user1, erc1155Token, 1, 0);
         });
 
         it("Should emit Unstaked1155 event", async function () {
@@ -420,9 +369,7 @@ describe("LPStaking", function () {
 
     describe("Pause/Unpause", function () {
         beforeEach(async function () {
-            await lpStaking.addLPTokenSupport(await token.getAddress());
-            await token.transfer(user1.address, ethers.parseEther("100"));
-            await token.connect(user1).approve(lpStaking.getAddress(), ethers.parseEther("50"));
+            await load(supportedTokensFixture);
         });
 
         it("Should pause the contract", async function () {
@@ -439,51 +386,36 @@ describe("LPStaking", function () {
         it("Should revert if not Hexagate", async function () {
             await expect(lpStaking.connect(user1).pause()).to.be.revertedWith("Not Hexagate");
         });
+    });
+
+    describe("Paused", function () {
+        beforeEach(async function () {
+            await load(pausedFixture);
+        });
 
         it("Should revert stake when paused", async function () {
-            await lpStaking.connect(hexagate).pause();
             await expect(lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress()))
                 .to.be.revertedWith("Contract is paused");
         });
 
         it("Should revert unlock when paused", async function () {
-            await lpStaking.connect(hexagate).pause();
             await expect(lpStaking.connect(user1).unlock(await token.getAddress()))
                 .to.be.revertedWith("Contract is paused");
         });
 
         it("Should revert unstake when paused", async function () {
-            await lpStaking.connect(hexagate).pause();
             await expect(lpStaking.connect(user1).unstake(await token.getAddress()))
                 .to.be.revertedWith("Contract is paused");
         });
+
+        it("Should keep the stakes while paused", async function () {
+            await expect(lpStaking).to.haveStakeOf(user1, token, ethers.parseEther("50"));
+        });
     });
 
     describe("LPStaking - ERC1155 Unlock and Unstake", function () {
-        
-        let lpStaking: LPStaking;
-        let owner: HardhatEthersSigner;
-        let user1: HardhatEthersSigner;
-        let erc1155Token: MockERC1155;
-
         beforeEach(async function () {
-            [owner, user1] = await ethers.getSigners();
-
-            const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
-            erc1155Token = await ERC1155Mock.deploy();
-
-            const LPStaking = await ethers.getContractFactory("LPStaking", owner);
-            lpStaking = await LPStaking.deploy();
-            await lpStaking.initialize(owner.address);
-
-            // Accept ownership step
-            await lpStaking.connect(owner).transferOwnership(owner.address);
-            await lpStaking.connect(owner).acceptOwnership();
-
-            await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
-            await erc1155Token.mint(user1.address, 1, 100, "0x");
-            await erc1155Token.mint(user1.address, 2, 50, "0x");
-            await erc1155Token.connect(user1).setApprovalForAll(lpStaking.getAddress(), true);
+            await load(supportedTokensFixture);
         });
 
         it("Should unlock the specific ERC1155 token correctly", async function () {
@@ -500,8 +432,7 @@ describe("LPStaking", function () {
             await lpStaking.connect(user1).stake1155(await erc1155Token.getAddress(), 2, 40); 
             await lpStaking.connect(user1).unlock1155(await erc1155Token.getAddress(), 1);
 
-            await ethers.provider.send("evm_increaseTime", [604800]);
-            await ethers.provider.send("evm_mine");
+            await time.increase(604800);
 
             await expect(lpStaking.connect(user1).unstake1155(await erc1155Token.getAddress(), 2)).to.be.revertedWith("Token ID 404");
             await expect(lpStaking.connect(user1).unstake1155(await erc1155Token.getAddress(), 1)).to.emit(lpStaking, "Unstaked1155").withArgs(user1.address, 1, 50, await erc1155Token.getAddress());
@@ -509,30 +440,8 @@ describe("LPStaking", function () {
     });
 
     describe("LPStaking - Multiple ERC1155 Unlocks", function () {
-        
-        let lpStaking: LPStaking;
-        let owner: HardhatEthersSigner;
-        let user1: HardhatEthersSigner;
-        let erc1155Token: MockERC1155;
-
         beforeEach(async function () {
-            [owner, user1] = await ethers.getSigners();
-
-            const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
-            erc1155Token = await ERC1155Mock.deploy();
-
-            const LPStaking = await ethers.getContractFactory("LPStaking", owner);
-            lpStaking = await LPStaking.deploy();
-            await lpStaking.initialize(owner.address);
-
-            // Accept ownership step
-            await lpStaking.connect(owner).transferOwnership(owner.address);
-            await lpStaking.connect(owner).acceptOwnership();
-
-            await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
-            await erc1155Token.mint(user1.address, 1, 100, "0x");
-            await erc1155Token.mint(user1.address, 2, 50, "0x");
-            await erc1155Token.connect(user1).setApprovalForAll(lpStaking.getAddress(), true);
+            await load(supportedTokensFixture);
         });
 
         it("Should unlock multiple ERC1155 tokens correctly", async function () {
@@ -556,8 +465,7 @@ describe("LPStaking", function () {
             await lpStaking.connect(user1).unlock1155(await erc1155Token.getAddress(), 1);
             await lpStaking.connect(user1).unlock1155(await erc1155Token.getAddress(), 2);
 
-            await ethers.provider.send("evm_increaseTime", [604800]);
-            await ethers.provider.send("evm_mine");
+            await time.increase(604800);
 
             await expect(lpStaking.connect(user1).unstake1155(await erc1155Token.getAddress(), 3)).to.be.revertedWith("Token ID 404");
             await expect(lpStaking.connect(user1).unstake1155(await erc1155Token.getAddress(), 1)).to.emit(lpStaking, "Unstaked1155").withArgs(user1.address, 1, 50, await erc1155Token.getAddress());
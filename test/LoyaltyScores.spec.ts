@@ -0,0 +1,189 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  Leaderboard,
+  LoyaltyWindow,
+  TimedPositionEvent,
+  buildLeaderboards,
+  scoreEvents,
+} from "../scripts/weights/loyalty";
+import { PendingUnlockRule } from "../scripts/weights/weights";
+import { supportedTokensFixture } from "./fixtures";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+const ERC1155 = "0x00000000000000000000000000000000000000bb";
+const ALICE = "0x0000000000000000000000000000000000000001";
+const BOB = "0x0000000000000000000000000000000000000002";
+
+let logIndex = 0;
+
+function event(
+  kind: TimedPositionEvent["kind"],
+  user: string,
+  timestamp: number,
+  amount: bigint,
+  extra: { unlockAt?: number; token?: string; id?: bigint } = {}
+): TimedPositionEvent {
+  const base = {
+    blockNumber: timestamp,
+    blockHash: "0x",
+    transactionHash: "0x",
+    logIndex: logIndex++,
+    user,
+    token: extra.token ?? TOKEN,
+    id: extra.id ?? 0n,
+    is1155: extra.id !== undefined,
+    amount,
+    timestamp: BigInt(timestamp),
+  };
+  return kind === "UnlockStarted"
+    ? { ...base, kind, unlockAt: BigInt(extra.unlockAt!) }
+    : { ...base, kind: kind as "Staked" | "Unstaked" };
+}
+
+function window(from: number, to: number, pendingUnlocks: PendingUnlockRule = "matured"): LoyaltyWindow {
+  return { from: BigInt(from), to: BigInt(to), pendingUnlocks };
+}
+
+function tokenSeconds(events: TimedPositionEvent[], scoring: LoyaltyWindow): { [account: string]: bigint } {
+  return Object.fromEntries(scoreEvents(events, scoring).map((score) => [score.account, score.tokenSeconds]));
+}
+
+describe("Loyalty scores", function () {
+  // Alice stakes 100, unlocks it at 10 maturing at 30, tops up 40 at 20 and unstakes the 100 at 50
+  const partialUnlock = () => [
+    event("Staked", ALICE, 0, 100n),
+    event("UnlockStarted", ALICE, 10, 100n, { unlockAt: 30 }),
+    event("Staked", ALICE, 20, 40n),
+    event("Unstaked", ALICE, 50, 100n),
+  ];
+
+  it("Should integrate overlapping stakes and top-ups", function () {
+    const events = [event("Staked", ALICE, 0, 100n), event("Staked", BOB, 10, 50n), event("Staked", ALICE, 20, 50n)];
+    const scores = scoreEvents(events, window(0, 40));
+
+    expect(scores).to.deep.equal([
+      { account: ALICE, token: TOKEN, id: 0n, tokenSeconds: 5000n, staked: 150n, totalStaked: 150n, firstStakedAt: 0n },
+      { account: BOB, token: TOKEN, id: 0n, tokenSeconds: 1500n, staked: 50n, totalStaked: 50n, firstStakedAt: 10n },
+    ]);
+    const [board] = buildLeaderboards(scores);
+    expect(board.tokenSeconds).to.equal(6500n);
+    expect(board.entries.map((entry) => [entry.rank, entry.account, entry.share])).to.deep.equal([
+      [1, ALICE, 0.76923],
+      [2, BOB, 0.230769],
+    ]);
+  });
+
+  it("Should stop counting a partial unlock when the rule says so", function () {
+    // include: 100 * 20 + 140 * 30 + 40 * 10
+    expect(tokenSeconds(partialUnlock(), window(0, 60, "include"))[ALICE]).to.equal(6600n);
+    // exclude: 100 * 10 + 40 * 40, the unlocked 100 stops counting when the unlock starts
+    expect(tokenSeconds(partialUnlock(), window(0, 60, "exclude"))[ALICE]).to.equal(2600n);
+    // matured: 100 * 20 + 140 * 10 + 40 * 30, the unlocked 100 stops counting at 30, between two events
+    expect(tokenSeconds(partialUnlock(), window(0, 60, "matured"))[ALICE]).to.equal(4600n);
+
+    const [score] = scoreEvents(partialUnlock(), window(0, 60));
+    expect(score.staked).to.equal(40n);
+    expect(score.totalStaked).to.equal(140n);
+  });
+
+  it("Should only count the window", function () {
+    // 100 * 5 + 140 * 10 + 40 * 5
+    expect(tokenSeconds(partialUnlock(), window(15, 35))[ALICE]).to.equal(2100n);
+    // the window ends before the unlock matures, so all of it is still staked
+    const [score] = scoreEvents(partialUnlock(), window(0, 25));
+    expect(score.tokenSeconds).to.equal(100n * 20n + 140n * 5n);
+    expect(score.staked).to.equal(140n);
+    // the unlock matures exactly at the end of the window
+    expect(scoreEvents(partialUnlock(), window(0, 30))[0].staked).to.equal(40n);
+
+    // nothing staked during the window leaves no score
+    const left = [event("Staked", BOB, 0, 10n), event("UnlockStarted", BOB, 5, 10n, { unlockAt: 6 })];
+    expect(scoreEvents([...left, event("Unstaked", BOB, 8, 10n)], window(10, 20))).to.deep.equal([]);
+  });
+
+  it("Should keep the history of a position unstaked and staked again", function () {
+    const events = [
+      event("Staked", ALICE, 0, 10n),
+      event("UnlockStarted", ALICE, 10, 10n, { unlockAt: 10 }),
+      event("Unstaked", ALICE, 10, 10n),
+      event("Staked", ALICE, 100, 30n),
+    ];
+    const [score] = scoreEvents(events, window(0, 110));
+    expect(score.tokenSeconds).to.equal(10n * 10n + 30n * 10n);
+    expect(score.firstStakedAt).to.equal(0n);
+    expect(score.totalStaked).to.equal(40n);
+    expect(score.staked).to.equal(30n);
+  });
+
+  it("Should score ERC1155 ids apart", function () {
+    const events = [
+      event("Staked", ALICE, 0, 5n, { token: ERC1155, id: 1n }),
+      event("Staked", ALICE, 0, 7n, { token: ERC1155, id: 2n }),
+      event("UnlockStarted", ALICE, 10, 7n, { token: ERC1155, id: 2n, unlockAt: 15 }),
+    ];
+    const boards = buildLeaderboards(scoreEvents(events, window(0, 20)));
+    expect(boards.map((board) => [board.id, board.tokenSeconds])).to.deep.equal([
+      [1n, 100n],
+      [2n, 7n * 15n],
+    ]);
+  });
+
+  it("Should write the leaderboards from the LPStaking events", async function () {
+    const { lpStaking, token, user1, user2 } = await loadFixture(supportedTokensFixture);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "loyalty-"));
+    const start = (await time.latest()) + 100;
+    await time.setNextBlockTimestamp(start);
+    await lpStaking.connect(user1).stake(ethers.parseEther("10"), token);
+    await time.setNextBlockTimestamp(start + 100);
+    await lpStaking.connect(user2).stake(ethers.parseEther("5"), token);
+    await time.setNextBlockTimestamp(start + 200);
+    await lpStaking.connect(user1).unlock(token);
+    await time.increaseTo(start + 300);
+
+    try {
+      const leaderboards: Leaderboard[] = await hre.run("loyalty:scores", {
+        address: await lpStaking.getAddress(),
+        pendingUnlocks: "exclude",
+        out: path.join(dir, "scores.json"),
+        csv: path.join(dir, "scores.csv"),
+      });
+      const entries = leaderboards.find((board) => board.token === (token.target as string))!.entries;
+      expect(entries.map((entry) => [entry.account, entry.tokenSeconds])).to.deep.equal([
+        [user1.address, ethers.parseEther("10") * 200n],
+        [user2.address, ethers.parseEther("5") * 200n],
+      ]);
+
+      const file = JSON.parse(fs.readFileSync(path.join(dir, "scores.json"), "utf-8"));
+      expect(file).to.include({ from: start, to: start + 300, pendingUnlocks: "exclude" });
+      expect(file.leaderboards[0].entries[1]).to.deep.include({
+        rank: 2,
+        account: user2.address,
+        tokenSeconds: (ethers.parseEther("5") * 200n).toString(),
+        staked: ethers.parseEther("5").toString(),
+      });
+      const csv = fs.readFileSync(path.join(dir, "scores.csv"), "utf-8").trim().split("\n");
+      expect(csv[0]).to.equal("token,id,rank,account,token_seconds,share,staked,total_staked,first_staked_at");
+      expect(csv[1]).to.equal(
+        [
+          token.target,
+          0,
+          1,
+          user1.address,
+          ethers.parseEther("2000"),
+          0.666666,
+          0,
+          ethers.parseEther("10"),
+          start,
+        ].join(",")
+      );
+    } finally {
+      for (const file of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, file));
+      fs.rmdirSync(dir);
+    }
+  });
+});
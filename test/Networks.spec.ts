@@ -0,0 +1,114 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import { Wallet, encryptKeystoreJsonSync } from "ethers";
+import { network } from "hardhat";
+import { setBalance } from "@nomicfoundation/hardhat-network-helpers";
+
+import { DEFAULT_NETWORKS, loadNetworks, resolveNetwork, toHardhatNetworks } from "../scripts/networks/networks";
+import { ImpersonatingProvider } from "../scripts/networks/impersonation";
+
+const KEY = "0x" + "ab".repeat(32);
+
+describe("Networks", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "networks-"));
+  });
+
+  afterEach(function () {
+    for (const file of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, file));
+    fs.rmdirSync(dir);
+  });
+
+  it("Should add the networks of a file to the default ones", function () {
+    const file = path.join(dir, "networks.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        anvil: {
+          url: "http://127.0.0.1:8545",
+          signer: { type: "impersonate", addresses: [Wallet.createRandom().address] },
+        },
+        fuji: { url: "https://fuji.example.com", chainId: 43113, signer: { type: "mnemonic", env: "FUJI_MNEMONIC" } },
+      })
+    );
+
+    const definitions = loadNetworks(file);
+    expect(Object.keys(definitions)).to.have.members(["fuji", "avalanche", "virtualAvalancheCChain", "anvil"]);
+    expect(definitions.avalanche).to.deep.equal(DEFAULT_NETWORKS.avalanche);
+    // nothing is read from the environment before a network is selected
+    expect(toHardhatNetworks(definitions, {})).to.deep.include({
+      fuji: { url: "https://fuji.example.com", chainId: 43113 },
+      virtualAvalancheCChain: { url: "", chainId: undefined },
+    });
+
+    fs.writeFileSync(file, JSON.stringify({ mainnet: { signer: { type: "privateKey", env: "KEY" } } }));
+    expect(() => loadNetworks(file)).to.throw(`Network mainnet in ${file} needs a url or a urlEnv`);
+    fs.writeFileSync(file, JSON.stringify({ mainnet: { url: "http://127.0.0.1:8545", signer: { type: "ledger" } } }));
+    expect(() => loadNetworks(file)).to.throw(`Unknown signer type ledger for network mainnet in ${file}`);
+  });
+
+  it("Should resolve the url and accounts of the selected network from the environment", function () {
+    const avalanche = DEFAULT_NETWORKS.avalanche;
+    expect(() => resolveNetwork("avalanche", avalanche, {})).to.throw(
+      "Network avalanche needs PRIVATE_KEY_MAINNET, set it in .env to the private key of its signer"
+    );
+    expect(() => resolveNetwork("avalanche", avalanche, { PRIVATE_KEY_MAINNET: "0x1234" })).to.throw(
+      "PRIVATE_KEY_MAINNET is not a 32 bytes hex private key"
+    );
+    expect(
+      resolveNetwork("avalanche", avalanche, { PRIVATE_KEY_MAINNET: KEY.slice(2), AVALANCHE_RPC_URL: "http://rpc" })
+    ).to.deep.equal({ url: "http://rpc", accounts: [KEY] });
+
+    expect(() => resolveNetwork("virtualAvalancheCChain", DEFAULT_NETWORKS.virtualAvalancheCChain, {})).to.throw(
+      "Network virtualAvalancheCChain needs TENDERLY_VIRTUAL_RPC_URL, set it in .env to its RPC url"
+    );
+
+    const mnemonic = Wallet.createRandom().mnemonic!.phrase;
+    const definition = { url: "http://rpc", signer: { type: "mnemonic" as const, env: "MNEMONIC", count: 3 } };
+    expect(resolveNetwork("local", definition, { MNEMONIC: mnemonic }).accounts).to.deep.equal({
+      mnemonic,
+      path: "m/44'/60'/0'/0",
+      initialIndex: 0,
+      count: 3,
+      passphrase: "",
+    });
+    expect(resolveNetwork("local", { url: "http://rpc", signer: { type: "unlocked" } }, {}).accounts).to.equal(
+      "remote"
+    );
+  });
+
+  it("Should decrypt a keystore with the password of the environment", function () {
+    const wallet = new Wallet(KEY);
+    // a cheap scrypt, the default one takes seconds
+    const keystore = encryptKeystoreJsonSync(wallet, "secret", { scrypt: { N: 16 } });
+    fs.writeFileSync(path.join(dir, "deployer.json"), keystore);
+    const definition = {
+      url: "http://rpc",
+      signer: { type: "keystore" as const, file: "deployer.json", passwordEnv: "PASSWORD" },
+    };
+
+    expect(resolveNetwork("local", definition, { PASSWORD: "secret" }, dir).accounts).to.deep.equal([KEY]);
+    expect(() => resolveNetwork("local", definition, {}, dir)).to.throw("Network local needs PASSWORD");
+    expect(() => resolveNetwork("local", definition, { PASSWORD: "wrong" }, dir)).to.throw(
+      `Cannot decrypt ${path.join(dir, "deployer.json")} with PASSWORD`
+    );
+  });
+
+  it("Should send from impersonated accounts", async function () {
+    const [holder, recipient] = [Wallet.createRandom().address, Wallet.createRandom().address];
+    await setBalance(holder, 10n ** 18n);
+    const provider = new ImpersonatingProvider(network.provider, [holder]);
+
+    expect(await provider.request({ method: "eth_accounts" })).to.deep.equal([holder]);
+    const hash = await provider.request({
+      method: "eth_sendTransaction",
+      params: [{ from: holder, to: recipient, value: "0x1000" }],
+    });
+    expect(hash).to.be.a("string");
+    expect(await provider.request({ method: "eth_getBalance", params: [recipient, "latest"] })).to.equal("0x1000");
+  });
+});
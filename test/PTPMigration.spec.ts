@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, MockERC20, PTPStaking } from "../scripts/@types/index";
+import { SafeBatch } from "../scripts/admin/safe";
+import { SeedResult } from "../scripts/migration/seed";
+import { PTPSnapshot, isSignedBy, loadSnapshot, ptpMerkleTree } from "../scripts/migration/snapshot";
+
+describe("PTP migration", function () {
+  let ptpStaking: PTPStaking;
+  let ptpToken: MockERC20;
+  let lpStaking: LPStaking;
+  let owner: HardhatEthersSigner;
+  let hexagate: HardhatEthersSigner;
+  let addr1: HardhatEthersSigner;
+  let addr2: HardhatEthersSigner;
+  let out: string;
+
+  beforeEach(async function () {
+    [owner, hexagate, addr1, addr2] = await ethers.getSigners();
+    out = fs.mkdtempSync(path.join(os.tmpdir(), "migration-"));
+
+    const PTPToken = await ethers.getContractFactory("MockERC20", owner);
+    ptpToken = await PTPToken.deploy("PTP Token", "PTP", 18, ethers.parseEther("1000000"));
+    const PTPStaking = await ethers.getContractFactory("PTPStaking");
+    ptpStaking = await PTPStaking.deploy(await ptpToken.getAddress(), owner.address);
+    const LPStaking = await ethers.getContractFactory("LPStaking", owner);
+    lpStaking = await LPStaking.deploy();
+    await lpStaking.initialize(hexagate.address);
+
+    for (const [user, amounts] of [
+      [addr1, ["100", "50"]],
+      [addr2, ["30"]],
+    ] as const) {
+      await ptpToken.transfer(user.address, ethers.parseEther("1000"));
+      await ptpToken.connect(user).approve(await ptpStaking.getAddress(), ethers.MaxUint256);
+      for (const amount of amounts) await ptpStaking.connect(user).stake(ethers.parseEther(amount));
+    }
+  });
+
+  afterEach(function () {
+    for (const file of fs.readdirSync(out)) fs.unlinkSync(path.join(out, file));
+    fs.rmdirSync(out);
+  });
+
+  async function snapshot(sign = false): Promise<PTPSnapshot> {
+    return hre.run("migrate:ptp-snapshot", { ptp: await ptpStaking.getAddress(), out, sign });
+  }
+
+  it("Should snapshot every staker with a merkle root", async function () {
+    const result = await snapshot();
+
+    expect(result.stakers).to.have.lengthOf(2);
+    expect(result.total).to.equal(ethers.parseEther("180"));
+    const byUser = Object.fromEntries(result.stakers.map((staker) => [staker.user, staker.amount]));
+    expect(byUser[addr1.address]).to.equal(ethers.parseEther("150"));
+    expect(byUser[addr2.address]).to.equal(ethers.parseEther("30"));
+    expect(result.root).to.equal(ptpMerkleTree(result.stakers).root);
+
+    const csv = fs.readFileSync(path.join(out, "ptp-snapshot.csv"), "utf-8");
+    expect(csv).to.contain(`${addr1.address},${ethers.parseEther("150")}`);
+    const json = JSON.parse(fs.readFileSync(path.join(out, "ptp-snapshot.json"), "utf-8"));
+    expect(json.proofs[addr2.address]).to.be.an("array");
+  });
+
+  it("Should sign off the root and reject tampered snapshots", async function () {
+    const result = await snapshot(true);
+    expect(isSignedBy(result, owner.address)).to.be.true;
+    const file = path.join(out, "ptp-snapshot.json");
+    expect(loadSnapshot(file).root).to.equal(result.root);
+
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    data.stakers[0].amount = "1";
+    fs.writeFileSync(file, JSON.stringify(data));
+    expect(() => loadSnapshot(file)).to.throw("do not match its merkle root");
+
+    data.stakers[0].amount = 1;
+    fs.writeFileSync(file, JSON.stringify(data));
+    expect(() => loadSnapshot(file)).to.throw(
+      `Invalid snapshot ${file}: staker 0 must have a user and a decimal amount`
+    );
+  });
+
+  it("Should build the treasury batch", async function () {
+    await snapshot();
+    const batch: SafeBatch = await hre.run("migrate:ptp-seed", {
+      snapshot: path.join(out, "ptp-snapshot.json"),
+      address: await lpStaking.getAddress(),
+    });
+
+    expect(batch.meta.createdFromSafeAddress).to.equal(owner.address);
+    expect(batch.transactions.map((tx) => tx.contractMethod.name)).to.deep.equal([
+      "addLPTokenSupport",
+      "transfer",
+      "transfer",
+    ]);
+    expect(batch.transactions[1].to).to.equal(await ptpToken.getAddress());
+  });
+
+  it("Should show the airdropped amounts in a dry run without changing the chain", async function () {
+    await snapshot();
+    const results: SeedResult[] = await hre.run("migrate:ptp-seed", {
+      snapshot: path.join(out, "ptp-snapshot.json"),
+      address: await lpStaking.getAddress(),
+      dryRun: true,
+    });
+
+    expect(results.map((result) => result.received)).to.deep.equal(results.map((result) => result.expected));
+    expect(await ptpToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("970"));
+    expect(await lpStaking.supportedLPTokens(await ptpToken.getAddress())).to.be.false;
+    expect(await ptpToken.balanceOf(await lpStaking.getAddress())).to.equal(0);
+  });
+
+  it("Should refuse a dry run the treasury cannot fund", async function () {
+    await snapshot();
+    await expect(
+      hre.run("migrate:ptp-seed", {
+        snapshot: path.join(out, "ptp-snapshot.json"),
+        address: await lpStaking.getAddress(),
+        treasury: hexagate.address,
+        dryRun: true,
+      })
+    ).to.be.rejectedWith(`The treasury ${hexagate.address} holds 0 PTP`);
+  });
+});
@@ -1,7 +1,9 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { PTPStaking, MockERC20 } from "../scripts/@types/index";
+import { deployPTPStakingFixture } from "./fixtures";
 
 describe("PTPStaking", function () {
   let ptpStaking: PTPStaking;
@@ -11,20 +13,7 @@ describe("PTPStaking", function () {
   let addr1: HardhatEthersSigner, addr2: HardhatEthersSigner;
   
   beforeEach(async function () {
-
-    [owner, addr1, addr2] = await ethers.getSigners();
-
-    // Deploy PTPToken contract
-    let PTPToken = await ethers.getContractFactory("MockERC20", owner);
-    ptpToken = await PTPToken.deploy("PTP Token", "PTP", 18, ethers.parseEther("1000000"));
-
-    // Deploy PTPStaking contract
-    let PTPStaking = await ethers.getContractFactory("PTPStaking");
-    ptpStaking = await PTPStaking.deploy(await ptpToken.getAddress(), owner.address);
-
-    // Distribute some tokens to addr1 and addr2
-    await ptpToken.transfer(addr1.address, ethers.parseEther("1000"));
-    await ptpToken.transfer(addr2.address, ethers.parseEther("1000"));
+    ({ ptpStaking, ptpToken, owner, addr1, addr2 } = await loadFixture(deployPTPStakingFixture));
   });
 
   describe("Deployment", function () {
@@ -53,7 +42,10 @@ describe("PTPStaking", function () {
     });
 
     it("Should fail if not enough allowance", async function () {
-        await expect(await ptpStaking.connect(addr1).stake(await ethers.parseEther("100"))).to.be.reverted;
+      await expect(ptpStaking.connect(addr1).stake(ethers.parseEther("100"))).to.be.revertedWithCustomError(
+        ptpToken,
+        "ERC20InsufficientAllowance"
+      );
     });
 
     it("Should fail if not enough tokens", async function () {
@@ -77,7 +69,9 @@ describe("PTPStaking", function () {
     });
 
     it("Should prevent unauthorized ownership transfer", async function () {
-      await expect(ptpStaking.connect(addr1).transferOwnership(addr2.address)).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(ptpStaking.connect(addr1).transferOwnership(addr2.address))
+        .to.be.revertedWithCustomError(ptpStaking, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
     });
 
     it("Should allow the owner to transfer ownership", async function () {
@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { ContractAst } from "../scripts/analysis/accesses";
+import { DEFAULT_PAIRING_SPEC, checkPairing, comparePair } from "../scripts/analysis/pairing";
+
+describe("Pairing analysis", function () {
+  let ast: ContractAst;
+
+  before(async function () {
+    ast = await ContractAst.create(hre, "LPStaking");
+  });
+
+  it("Should read the state accesses of a function through storage pointers", async function () {
+    const unlock = ast.functionAccesses("unlock1155");
+    expect(unlock.modifiers).to.deep.equal(["whenNotPaused", "nonReentrant"]);
+    expect(unlock.reads).to.deep.equal([
+      "supportedERC1155Tokens",
+      "unlockDuration",
+      "userBalances1155",
+      "userUnlocks1155",
+    ]);
+    expect(unlock.writes).to.deep.equal({ userUnlocks1155: ["id", "token", "unlockDuration", "userBalance"] });
+
+    const remove = ast.functionAccesses("removeLPTokenSupport");
+    expect(remove.writes).to.deep.equal({ supportedLPTokens: [], supportedTokensArray: ["supportedTokensArray"] });
+  });
+
+  it("Should flag stake1155 crediting the requested amount, the shared snapshots and balanceOf1155", async function () {
+    const issues = checkPairing(ast, DEFAULT_PAIRING_SPEC);
+    expect(issues.map((issue) => [issue.pair, issue.kind, issue.subject])).to.deep.equal([
+      ["stake/stake1155", "value", "userBalances1155"],
+      ["stake/stake1155", "value", "userSnapshots"],
+      ["stake/stake1155", "shared", "userSnapshots"],
+      ["balanceOf/balanceOf1155", "read", "userUnlocks1155"],
+      ["balanceOf/balanceOf1155", "read", "userUnlocks"],
+    ]);
+    expect(issues[0].message).to.equal(
+      "stake1155 writes userBalances1155 from amount, stake writes userBalances from actualReceived"
+    );
+  });
+
+  it("Should flag a mapping read from the other asset type", async function () {
+    // balanceOf1155 reads userUnlocks instead of userUnlocks1155
+    const issues = comparePair(
+      DEFAULT_PAIRING_SPEC,
+      ast.functionAccesses("balanceOf"),
+      ast.functionAccesses("balanceOf1155")
+    );
+    expect(issues.map((issue) => issue.message)).to.deep.equal([
+      "balanceOf1155 does not read userUnlocks1155, balanceOf reads userUnlocks",
+      "balanceOf1155 reads userUnlocks, balanceOf does not read its counterpart",
+    ]);
+  });
+
+  it("Should flag missing modifiers and refuse unknown functions", async function () {
+    const issues = comparePair(
+      DEFAULT_PAIRING_SPEC,
+      ast.functionAccesses("stake"),
+      ast.functionAccesses("balanceOf1155")
+    );
+    expect(issues.filter((issue) => issue.kind === "modifier").map((issue) => issue.subject)).to.deep.equal([
+      "whenNotPaused",
+      "nonReentrant",
+    ]);
+    expect(() => ast.functionAccesses("stake721")).to.throw("No function stake721 in LPStaking");
+  });
+
+  it("Should fail the task with the mismatches", async function () {
+    await expect(hre.run("check:pairing")).to.be.rejectedWith(
+      "LPStaking: the ERC20 and ERC1155 paths differ (5 issue(s))"
+    );
+  });
+});
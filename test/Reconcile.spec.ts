@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, MockERC1155, MockERC20 } from "../scripts/@types/index";
+import { LPStakingIndexer } from "../scripts/indexer/LPStakingIndexer";
+import { exceedsTolerance, reconcile } from "../scripts/reconcile/reconcile";
+import { renderTable } from "../scripts/utils/table";
+
+describe("Reconcile", function () {
+  let lpStaking: LPStaking;
+  let token: MockERC20;
+  let idleToken: MockERC20;
+  let erc1155Token: MockERC1155;
+  let owner: HardhatEthersSigner;
+  let hexagate: HardhatEthersSigner;
+  let user1: HardhatEthersSigner;
+  let user2: HardhatEthersSigner;
+
+  beforeEach(async function () {
+    [owner, hexagate, user1, user2] = await ethers.getSigners();
+
+    const ERC20Mock = await ethers.getContractFactory("MockERC20", owner);
+    token = await ERC20Mock.deploy("Mock Token", "MCK", 18, ethers.parseEther("1000"));
+    idleToken = await ERC20Mock.deploy("Idle Token", "IDL", 18, ethers.parseEther("1000"));
+    const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
+    erc1155Token = await ERC1155Mock.deploy();
+
+    const LPStaking = await ethers.getContractFactory("LPStaking", owner);
+    lpStaking = await LPStaking.deploy();
+    await lpStaking.initialize(hexagate.address);
+
+    await lpStaking.addLPTokenSupport(await token.getAddress());
+    await lpStaking.addLPTokenSupport(await idleToken.getAddress());
+    await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
+    for (const user of [user1, user2]) {
+      await token.transfer(user.address, ethers.parseEther("100"));
+      await token.connect(user).approve(await lpStaking.getAddress(), ethers.MaxUint256);
+      await erc1155Token.mint(user.address, 7, 100, "0x");
+      await erc1155Token.connect(user).setApprovalForAll(await lpStaking.getAddress(), true);
+    }
+
+    await lpStaking.connect(user1).stake(ethers.parseEther("50"), await token.getAddress());
+    await lpStaking.connect(user2).stake(ethers.parseEther("25"), await token.getAddress());
+    await lpStaking.connect(user1).stake1155(await erc1155Token.getAddress(), 7, 40);
+  });
+
+  async function positions() {
+    const indexer = new LPStakingIndexer(lpStaking, { confirmations: 0 });
+    await indexer.sync();
+    return indexer.getPositions();
+  }
+
+  it("Should match custody when the ledger is consistent", async function () {
+    const [tokenAddress, idleAddress] = [await token.getAddress(), await idleToken.getAddress()];
+    const results = await reconcile(lpStaking, await positions());
+
+    expect(results).to.have.lengthOf(3);
+    const erc20 = results.find((result) => result.token === tokenAddress)!;
+    expect(erc20.stakers).to.equal(2);
+    expect(erc20.ledger).to.equal(ethers.parseEther("75"));
+    expect(erc20.difference).to.equal(0n);
+    const idle = results.find((result) => result.token === idleAddress)!;
+    expect(idle.ledger).to.equal(0n);
+    const erc1155 = results.find((result) => result.is1155)!;
+    expect(erc1155.id).to.equal(7n);
+    expect(erc1155.custody).to.equal(40n);
+    expect(results.every((result) => !exceedsTolerance(result, 0n))).to.be.true;
+  });
+
+  it("Should report a surplus and apply the tolerance", async function () {
+    await token.connect(user2).transfer(await lpStaking.getAddress(), 10n);
+    const tokenAddress = await token.getAddress();
+    const results = await reconcile(lpStaking, await positions());
+
+    const erc20 = results.find((result) => result.token === tokenAddress)!;
+    expect(erc20.difference).to.equal(10n);
+    expect(exceedsTolerance(erc20, 9n)).to.be.true;
+    expect(exceedsTolerance(erc20, 10n)).to.be.false;
+  });
+
+  it("Should read custody at the indexed block", async function () {
+    const indexer = new LPStakingIndexer(lpStaking, { confirmations: 0 });
+    await indexer.sync();
+    await lpStaking.connect(user2).stake1155(await erc1155Token.getAddress(), 7, 5);
+
+    const results = await reconcile(lpStaking, indexer.getPositions(), indexer.indexedBlock);
+    expect(results.find((result) => result.is1155)!.difference).to.equal(0n);
+  });
+
+  describe("reconcile task", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "reconcile-"));
+    });
+
+    afterEach(function () {
+      for (const file of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, file));
+      fs.rmdirSync(dir);
+    });
+
+    it("Should fail when a difference exceeds the tolerance", async function () {
+      const args = {
+        address: await lpStaking.getAddress(),
+        checkpoint: path.join(dir, "checkpoint.json"),
+        confirmations: 0,
+      };
+      await hre.run("reconcile", args);
+
+      await token.connect(user2).transfer(await lpStaking.getAddress(), 10n);
+      await expect(hre.run("reconcile", args)).to.be.rejectedWith("1 asset(s) differ from the ledger");
+      await hre.run("reconcile", { ...args, tolerance: "10" });
+    });
+  });
+
+  it("Should never wrap a table wider than the terminal", function () {
+    const stdout = { isTTY: process.stdout.isTTY, columns: process.stdout.columns };
+    const columns = process.env.COLUMNS;
+    Object.assign(process.stdout, { isTTY: false, columns: undefined });
+    delete process.env.COLUMNS;
+    try {
+      const row = [ethers.ZeroAddress, ethers.MaxUint256.toString(), "1391772"];
+      const lines = renderTable(["user", "amount", "gas"], [row]).split("\n");
+
+      expect(lines[3].length).to.be.greaterThan(80);
+      expect(lines).to.have.lengthOf(5);
+      expect(lines[3].split("│").map((cell) => cell.trim())).to.deep.equal(["", ...row, ""]);
+    } finally {
+      Object.assign(process.stdout, stdout);
+      if (columns !== undefined) process.env.COLUMNS = columns;
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { LPStaking } from "../scripts/@types/index";
+import { LPStakingIndexer } from "../scripts/indexer/LPStakingIndexer";
+import { buildReport, loadPrices, maturitiesToCsv, reportToCsv } from "../scripts/report/report";
+import { STAKED_1155_AMOUNT, STAKED_AMOUNT, midUnlockFixture } from "./fixtures";
+
+describe("Report", function () {
+  async function indexed(lpStaking: LPStaking) {
+    const indexer = new LPStakingIndexer(lpStaking, { confirmations: 0 });
+    await indexer.sync();
+    return { positions: indexer.getPositions(), blockNumber: indexer.indexedBlock };
+  }
+
+  async function stakedFixture() {
+    const fixture = await loadFixture(midUnlockFixture);
+    await fixture.lpStaking.connect(fixture.user2).stake(ethers.parseEther("20"), await fixture.token.getAddress());
+    return fixture;
+  }
+
+  it("Should total every supported token with its unlocks and maturities", async function () {
+    const { lpStaking, token, feeToken, erc1155 } = await loadFixture(stakedFixture);
+    const { positions, blockNumber } = await indexed(lpStaking);
+    const report = await buildReport(lpStaking, positions, blockNumber);
+
+    expect(report.tokens.map((t) => [t.token, t.id])).to.deep.equal([
+      [await token.getAddress(), undefined],
+      [await feeToken.getAddress(), undefined],
+      [await erc1155.getAddress(), 1n],
+    ]);
+    const [erc20, idle, erc1155Report] = report.tokens;
+    expect(erc20).to.deep.include({
+      symbol: "MCK",
+      decimals: 18,
+      stakers: 2,
+      inUnlock: STAKED_AMOUNT,
+      withdrawable: 0n,
+    });
+    expect(erc20.totalStaked).to.equal(STAKED_AMOUNT + ethers.parseEther("20"));
+    expect(erc20.custody).to.equal(erc20.totalStaked);
+    expect(idle).to.deep.include({ symbol: "FEE", totalStaked: 0n, stakers: 0, inUnlock: 0n });
+    expect(erc1155Report).to.deep.include({ symbol: "", decimals: 0, totalStaked: STAKED_1155_AMOUNT, stakers: 1 });
+    expect(report.tvl).to.be.undefined;
+
+    const unlockAt = (await lpStaking.userUnlocks(positions[0].user, await token.getAddress())).unlockAt;
+    const date = new Date(Number(unlockAt) * 1000).toISOString().slice(0, 10);
+    expect(report.maturities.map((m) => [m.date, m.token, m.amount, m.unlocks])).to.deep.equal([
+      [date, await token.getAddress(), STAKED_AMOUNT, 1],
+      [date, await erc1155.getAddress(), STAKED_1155_AMOUNT, 1],
+    ]);
+  });
+
+  it("Should count matured unlocks as withdrawable instead of upcoming", async function () {
+    const { lpStaking, token } = await loadFixture(stakedFixture);
+    await time.increase(await lpStaking.unlockDuration());
+    const { positions, blockNumber } = await indexed(lpStaking);
+    const report = await buildReport(lpStaking, positions, blockNumber);
+
+    expect(report.maturities).to.be.empty;
+    const address = await token.getAddress();
+    const erc20 = report.tokens.find((t) => t.token === address)!;
+    expect(erc20.withdrawable).to.equal(STAKED_AMOUNT);
+  });
+
+  it("Should price the TVL and export CSV from a price file", async function () {
+    const { lpStaking, token, erc1155 } = await loadFixture(stakedFixture);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "report-"));
+    const file = path.join(dir, "prices.json");
+    fs.writeFileSync(file, JSON.stringify({ [await token.getAddress()]: 2, [`${await erc1155.getAddress()}:1`]: 0.5 }));
+
+    const { positions, blockNumber } = await indexed(lpStaking);
+    const report = await buildReport(lpStaking, positions, blockNumber, loadPrices(file));
+    expect(report.tokens.map((t) => t.tvl)).to.deep.equal([140, undefined, 25]);
+    expect(report.tvl).to.equal(165);
+
+    const csv = reportToCsv(report).trim().split("\n");
+    expect(csv).to.have.lengthOf(4);
+    const total = ethers.parseEther("70");
+    expect(csv[1]).to.equal(`${await token.getAddress()},erc20,,MCK,18,${total},2,${STAKED_AMOUNT},0,${total},2,140`);
+    expect(maturitiesToCsv(report).trim().split("\n")).to.have.lengthOf(3);
+
+    fs.writeFileSync(file, JSON.stringify({ [await token.getAddress()]: "2" }));
+    expect(() => loadPrices(file)).to.throw(`The price of ${await token.getAddress()} in ${file} is not a number`);
+    fs.unlinkSync(file);
+    fs.rmdirSync(dir);
+  });
+
+  it("Should write the report from the task", async function () {
+    const { lpStaking } = await loadFixture(stakedFixture);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "report-"));
+    const [checkpoint, out] = [path.join(dir, "checkpoint.json"), path.join(dir, "report.csv")];
+    await hre.run("report", { address: await lpStaking.getAddress(), format: "csv", out, checkpoint });
+
+    expect(fs.readFileSync(out, "utf-8").trim().split("\n")).to.have.lengthOf(4);
+    const maturities = path.join(dir, "report-maturities.csv");
+    expect(fs.readFileSync(maturities, "utf-8").trim().split("\n")).to.have.lengthOf(3);
+    for (const file of [checkpoint, out, maturities]) fs.unlinkSync(file);
+    fs.rmdirSync(dir);
+  });
+});
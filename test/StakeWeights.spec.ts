@@ -0,0 +1,141 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, MockERC20, PTPStaking } from "../scripts/@types/index";
+import { WeightSnapshot, loadWeightSnapshot, verifyWeightProof } from "../scripts/weights/merkle";
+import { PendingUnlockRule } from "../scripts/weights/weights";
+
+describe("Stake weight snapshots", function () {
+  let lpStaking: LPStaking;
+  let token: MockERC20;
+  let ptpStaking: PTPStaking;
+  let owner: HardhatEthersSigner;
+  let addr1: HardhatEthersSigner;
+  let addr2: HardhatEthersSigner;
+  let stakedBlock: number;
+  let out: string;
+
+  beforeEach(async function () {
+    [owner, , addr1, addr2] = await ethers.getSigners();
+    out = fs.mkdtempSync(path.join(os.tmpdir(), "weights-"));
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20", owner);
+    token = await MockERC20.deploy("PTP Token", "PTP", 18, ethers.parseEther("1000000"));
+    const PTPStaking = await ethers.getContractFactory("PTPStaking");
+    ptpStaking = await PTPStaking.deploy(await token.getAddress(), owner.address);
+    const LPStaking = await ethers.getContractFactory("LPStaking", owner);
+    lpStaking = await LPStaking.deploy();
+    await lpStaking.initialize(owner.address);
+    await lpStaking.addLPTokenSupport(await token.getAddress());
+
+    for (const user of [addr1, addr2]) {
+      await token.transfer(user.address, ethers.parseEther("1000"));
+      await token.connect(user).approve(await lpStaking.getAddress(), ethers.MaxUint256);
+      await token.connect(user).approve(await ptpStaking.getAddress(), ethers.MaxUint256);
+    }
+    await lpStaking.connect(addr1).stake(ethers.parseEther("100"), await token.getAddress());
+    stakedBlock = await ethers.provider.getBlockNumber();
+    await lpStaking.connect(addr2).stake(ethers.parseEther("40"), await token.getAddress());
+    await lpStaking.connect(addr1).unlock(await token.getAddress());
+  });
+
+  afterEach(function () {
+    for (const file of fs.readdirSync(out)) fs.unlinkSync(path.join(out, file));
+    fs.rmdirSync(out);
+  });
+
+  async function snapshot(args: object = {}): Promise<WeightSnapshot> {
+    return hre.run("snapshot:weights", {
+      address: await lpStaking.getAddress(),
+      out: path.join(out, "weights.json"),
+      ...args,
+    });
+  }
+
+  function amounts(result: WeightSnapshot): { [account: string]: bigint } {
+    return Object.fromEntries(
+      Object.entries(result.proofs).map(([account, proofs]) => [account, BigInt(proofs[0].amount)])
+    );
+  }
+
+  it("Should apply the pending unlock rules", async function () {
+    const expected: [PendingUnlockRule, string | undefined][] = [
+      ["include", "100"],
+      ["exclude", undefined],
+      ["matured", "100"],
+    ];
+    for (const [pendingUnlocks, amount] of expected) {
+      const result = amounts(await snapshot({ pendingUnlocks }));
+      expect(result[addr1.address], pendingUnlocks).to.equal(amount && ethers.parseEther(amount));
+      expect(result[addr2.address], pendingUnlocks).to.equal(ethers.parseEther("40"));
+    }
+
+    await ethers.provider.send("evm_increaseTime", [604800]);
+    await ethers.provider.send("evm_mine", []);
+    expect(amounts(await snapshot())[addr1.address]).to.be.undefined;
+    expect(amounts(await snapshot({ pendingUnlocks: "include" }))[addr1.address]).to.equal(ethers.parseEther("100"));
+  });
+
+  it("Should snapshot a past block or the block at a timestamp", async function () {
+    const byBlock = await snapshot({ block: stakedBlock });
+    expect(byBlock.blockNumber).to.equal(stakedBlock);
+    expect(Object.keys(byBlock.proofs)).to.deep.equal([addr1.address]);
+
+    const { timestamp } = (await ethers.provider.getBlock(stakedBlock))!;
+    await ethers.provider.send("evm_increaseTime", [3600]);
+    await ethers.provider.send("evm_mine", []);
+    const byTimestamp = await snapshot({ timestamp });
+    expect(byTimestamp.blockNumber).to.equal(stakedBlock);
+    expect(byTimestamp.root).to.equal(byBlock.root);
+  });
+
+  it("Should add PTPStaking stakes to the PTP token weight", async function () {
+    await ptpStaking.connect(addr2).stake(ethers.parseEther("10"));
+    const result = await snapshot({ ptp: await ptpStaking.getAddress() });
+
+    expect(result.proofs[addr2.address]).to.have.lengthOf(1);
+    expect(result.proofs[addr2.address][0].token).to.equal(await token.getAddress());
+    expect(amounts(result)[addr2.address]).to.equal(ethers.parseEther("50"));
+  });
+
+  it("Should verify the proofs of a saved snapshot and reject tampered weights", async function () {
+    const result = await snapshot();
+    const file = path.join(out, "weights.json");
+    expect(loadWeightSnapshot(file).root).to.equal(result.root);
+    expect(await hre.run("snapshot:verify", { snapshot: file, account: addr2.address })).to.have.lengthOf(1);
+
+    const [{ id, amount, proof }] = result.proofs[addr2.address];
+    const weight = { account: addr2.address, token: await token.getAddress(), id: BigInt(id), amount: BigInt(amount) };
+    expect(verifyWeightProof(result.root, weight, proof)).to.be.true;
+    expect(verifyWeightProof(result.root, { ...weight, amount: weight.amount + 1n }, proof)).to.be.false;
+    expect(verifyWeightProof(result.root, { ...weight, account: addr1.address }, proof)).to.be.false;
+
+    const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+    data.root = ethers.ZeroHash;
+    fs.writeFileSync(file, JSON.stringify(data));
+    expect(() => loadWeightSnapshot(file)).to.throw("does not match its root");
+  });
+
+  it("Should reject malformed weight snapshots", async function () {
+    const result = await snapshot();
+    const file = path.join(out, "weights.json");
+    const write = (data: object) => fs.writeFileSync(file, JSON.stringify(data));
+
+    write({ ...result, tree: undefined });
+    expect(() => loadWeightSnapshot(file)).to.throw(
+      `Invalid weight snapshot ${file}: tree must be a standard-v1 tree dump`
+    );
+    write({ ...result, blockNumber: "1" });
+    expect(() => loadWeightSnapshot(file)).to.throw(
+      `Invalid weight snapshot ${file}: blockNumber must be a whole number`
+    );
+    const [first] = result.proofs[addr2.address];
+    write({ ...result, proofs: { [addr2.address]: [{ ...first, amount: 1 }] } });
+    expect(() => loadWeightSnapshot(file)).to.throw(
+      `Invalid weight snapshot ${file}: proof 0 of ${addr2.address} must have a token, a decimal id and amount, and a proof`
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { LPStaking } from "../scripts/@types/index";
+import { ApiPosition, StakingApi } from "../scripts/api/StakingApi";
+import { LPStakingIndexer } from "../scripts/indexer/LPStakingIndexer";
+import { STAKED_1155_AMOUNT, STAKED_AMOUNT, midUnlockFixture } from "./fixtures";
+
+describe("Staking API", function () {
+  let api: StakingApi;
+  let url: string;
+
+  async function serve(lpStaking: LPStaking) {
+    api = new StakingApi(new LPStakingIndexer(lpStaking, { confirmations: 0 }));
+    const { port } = await api.listen(0);
+    url = `http://127.0.0.1:${port}`;
+  }
+
+  async function get(route: string, method = "GET") {
+    const response = await fetch(`${url}${route}`, { method });
+    return { status: response.status, body: await response.json() };
+  }
+
+  afterEach(async function () {
+    await api?.close();
+  });
+
+  it("Should serve ERC20 and ERC1155 positions in one shape with their unlocks", async function () {
+    const { lpStaking, token, erc1155, user1 } = await loadFixture(midUnlockFixture);
+    await serve(lpStaking);
+    const unlockAt = (await lpStaking.userUnlocks(user1.address, await token.getAddress())).unlockAt;
+
+    const { status, body } = await get(`/users/${user1.address}/positions`);
+    expect(status).to.equal(200);
+    expect(body.blockNumber).to.equal(await ethers.provider.getBlockNumber());
+    const positions: ApiPosition[] = body.data;
+    expect(positions).to.deep.include({
+      user: user1.address,
+      token: await token.getAddress(),
+      standard: "erc20",
+      id: null,
+      staked: STAKED_AMOUNT.toString(),
+      unlock: {
+        amount: STAKED_AMOUNT.toString(),
+        unlockAt: Number(unlockAt),
+        secondsToMaturity: Number(unlockAt) - body.timestamp,
+        withdrawable: false,
+      },
+    });
+    const erc1155Position = positions.find((position) => position.standard === "erc1155")!;
+    expect(erc1155Position).to.include({ token: await erc1155.getAddress(), id: "1" });
+    expect(erc1155Position.staked).to.equal(STAKED_1155_AMOUNT.toString());
+
+    await time.increase(await lpStaking.unlockDuration());
+    const matured: ApiPosition[] = (await get(`/users/${user1.address.toLowerCase()}/positions`)).body.data;
+    for (const position of matured) expect(position.unlock).to.include({ secondsToMaturity: 0, withdrawable: true });
+  });
+
+  it("Should serve the supported tokens and their stakers from the latest block", async function () {
+    const { lpStaking, token, feeToken, erc1155, user1, user2 } = await loadFixture(midUnlockFixture);
+    await serve(lpStaking);
+    expect((await get(`/tokens/${await token.getAddress()}/stakers`)).body.data).to.have.lengthOf(1);
+
+    await lpStaking.connect(user2).stake(ethers.parseEther("20"), await token.getAddress());
+    await lpStaking.connect(user2).stake1155(await erc1155.getAddress(), 2, 10);
+    const stakers: ApiPosition[] = (await get(`/tokens/${await token.getAddress()}/stakers`)).body.data;
+    expect(stakers.map((position) => [position.user, position.unlock === null])).to.deep.equal([
+      [user1.address, false],
+      [user2.address, true],
+    ]);
+    const ids: ApiPosition[] = (await get(`/tokens/${await erc1155.getAddress()}/stakers?id=2`)).body.data;
+    expect(ids.map((position) => [position.user, position.id, position.staked])).to.deep.equal([
+      [user2.address, "2", "10"],
+    ]);
+
+    const { body } = await get("/tokens");
+    expect(body.data.map((t: { token: string; id?: string }) => [t.token, t.id])).to.deep.equal([
+      [await token.getAddress(), undefined],
+      [await feeToken.getAddress(), undefined],
+      [await erc1155.getAddress(), "1"],
+      [await erc1155.getAddress(), "2"],
+    ]);
+    expect(body.data[0]).to.include({ symbol: "MCK", stakers: 2, totalStaked: ethers.parseEther("70").toString() });
+  });
+
+  it("Should answer unknown routes and bad requests with an error", async function () {
+    const { lpStaking } = await loadFixture(midUnlockFixture);
+    await serve(lpStaking);
+
+    expect(await get("/users/0x1234/positions")).to.deep.equal({
+      status: 400,
+      body: { error: "0x1234 is not an address" },
+    });
+    expect((await get(`/tokens/${await lpStaking.getAddress()}/stakers?id=one`)).status).to.equal(400);
+    expect(await get("/positions")).to.deep.equal({ status: 404, body: { error: "No route for /positions" } });
+    expect(await get("/tokens", "POST")).to.deep.equal({ status: 405, body: { error: "POST is not supported" } });
+  });
+});
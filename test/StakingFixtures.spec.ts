@@ -0,0 +1,47 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  STAKED_1155_AMOUNT,
+  STAKED_AMOUNT,
+  maturedFixture,
+  midUnlockFixture,
+  pausedFixture,
+  supportedTokensFixture,
+} from "./fixtures";
+
+describe("Staking fixtures", function () {
+  it("Should restore the scenario state for every test", async function () {
+    const { lpStaking, token, user2 } = await loadFixture(supportedTokensFixture);
+    await lpStaking.connect(user2).stake(ethers.parseEther("10"), await token.getAddress());
+    await expect(lpStaking).to.haveStakeOf(user2, token, ethers.parseEther("10"));
+
+    const restored = await loadFixture(supportedTokensFixture);
+    await expect(restored.lpStaking).to.haveStakeOf(user2, token, 0);
+  });
+
+  it("Should build scenarios on top of each other", async function () {
+    const { lpStaking, token, erc1155, user1 } = await loadFixture(midUnlockFixture);
+    const unlock = await lpStaking.userUnlocks(user1.address, await token.getAddress());
+    expect(unlock.unlockAt).to.be.greaterThan(await time.latest());
+    await expect(lpStaking).to.haveUnlockOf(user1, token, STAKED_AMOUNT);
+    await expect(lpStaking).to.haveStake1155Of(user1, erc1155, 1, 50);
+    await expect(lpStaking).to.haveUnlock1155Of(user1, erc1155, 1, STAKED_1155_AMOUNT);
+
+    await loadFixture(maturedFixture);
+    expect(unlock.unlockAt).to.be.at.most(await time.latest());
+    expect(await lpStaking.balanceOf(await token.getAddress(), user1.address)).to.equal(0);
+
+    const paused = await loadFixture(pausedFixture);
+    expect(await paused.lpStaking.paused()).to.be.true;
+    await expect(paused.lpStaking).to.haveUnlockOf(user1, token, 0);
+  });
+
+  it("Should report the actual stake when the assertion fails", async function () {
+    const { lpStaking, token, user1 } = await loadFixture(midUnlockFixture);
+    await expect(lpStaking).not.to.haveStakeOf(user1, token, 1);
+    await expect(expect(lpStaking).to.haveStakeOf(user1, token, 1)).to.be.rejectedWith(
+      `expected the stake of ${user1.address} in ${await token.getAddress()} to be 1, but it is ${STAKED_AMOUNT}`
+    );
+  });
+});
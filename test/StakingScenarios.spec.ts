@@ -0,0 +1,69 @@
+import * as path from "path";
+import { expect } from "chai";
+import hre from "hardhat";
+import { runScenario } from "../scripts/scenarios/runner";
+import { listScenarios, loadScenario, parseScenario } from "../scripts/scenarios/scenario";
+
+const SCENARIOS_DIR = path.join(__dirname, "scenarios");
+
+describe("Staking scenarios", function () {
+  for (const file of listScenarios(SCENARIOS_DIR)) {
+    const scenario = loadScenario(file);
+    it(`${path.basename(file)}: ${scenario.name}`, async function () {
+      await runScenario(hre, scenario);
+    });
+  }
+
+  it("Should fail with the trace of the steps run", async function () {
+    const scenario = parseScenario(
+      [
+        "name: wrong expectation",
+        "actors: [alice]",
+        "tokens: { LP: { kind: erc20 } }",
+        "balances: { alice: { LP: 10 } }",
+        "steps:",
+        "  - stake: { actor: alice, token: LP, amount: 4 }",
+        "  - advance: 1h",
+        "  - unstake: { actor: alice, token: LP }",
+        "    reverts: Unlock period not completed",
+      ].join("\n"),
+      "inline.yaml"
+    );
+    await expect(runScenario(hre, scenario)).to.be.rejectedWith(
+      [
+        'Scenario "wrong expectation" failed at step 3 (inline.yaml:8): alice unstake(LP)',
+        "  expected it to revert with Unlock period not completed, it reverted with No unlocked amount available",
+        "trace:",
+        "  1. line 6: alice stake(4 LP) -> Staked(alice, 4000000000000000000, LP)",
+        "  2. line 7: advance 1h 0m 0s -> ok",
+        "  3. line 8: alice unstake(LP) -> reverted with No unlocked amount available",
+      ].join("\n")
+    );
+  });
+
+  it("Should reject names the scenario does not define", function () {
+    const steps = (step: string) =>
+      ["actors: [alice]", "tokens: { NFT: { kind: erc1155 } }", "steps:", `  - ${step}`].join("\n");
+    expect(() => parseScenario(steps("stake: { actor: bob, token: NFT, amount: 1 }"), "x.yaml")).to.throw(
+      "Invalid scenario x.yaml, line 4: unknown actor bob"
+    );
+    expect(() => parseScenario(steps("stake: { actor: alice, token: NFT, amount: 1 }"), "x.yaml")).to.throw(
+      "NFT is an ERC1155 token, use the 1155 action"
+    );
+    expect(() => parseScenario(steps("withdraw: { actor: alice }"), "x.yaml")).to.throw(
+      "a step takes one of stake, stake1155"
+    );
+    expect(() => parseScenario(steps("advance: 1 week"), "x.yaml")).to.throw("Invalid duration 1 week");
+  });
+
+  it("Should reject ids and amounts that are not whole numbers with their line", function () {
+    const scenario = (step: string) =>
+      ["actors: [alice]", "tokens: { NFT: { kind: erc1155 } }", "steps:", `  - ${step}`].join("\n");
+    expect(() =>
+      parseScenario(scenario("stake1155: { actor: alice, token: NFT, id: one, amount: 1 }"), "x.yaml")
+    ).to.throw("Invalid scenario x.yaml, line 4: stake1155 id must be a whole number, got one");
+    expect(() => parseScenario(scenario("unlock1155: { actor: alice, token: NFT, id: 1.5 }"), "x.yaml")).to.throw(
+      "Invalid scenario x.yaml, line 4: unlock1155 id must be a whole number, got 1.5"
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  KNOWN_ERRORS,
+  SimulationError,
+  SimulationResult,
+  decodeRevert,
+  formatSimulation,
+  sendSimulated,
+  simulateStakingCall,
+} from "../scripts/contracts/simulation";
+import { deployPTPStakingFixture, midUnlockFixture, supportedTokensFixture } from "./fixtures";
+
+describe("Staking call simulation", function () {
+  it("Should decode require strings, custom errors and panics", function () {
+    const reason = new ethers.Interface(["error Error(string)"]).encodeErrorResult("Error", ["Token ID 404"]);
+    expect(decodeRevert(reason)).to.deep.equal({ kind: "require", reason: "Token ID 404" });
+
+    const reentrant = KNOWN_ERRORS.encodeErrorResult("ReentrancyGuardReentrantCall", []);
+    expect(decodeRevert(reentrant)).to.deep.equal({ kind: "custom", name: "ReentrancyGuardReentrantCall", args: [] });
+
+    const panic = new ethers.Interface(["error Panic(uint256)"]).encodeErrorResult("Panic", [0x11]);
+    expect(decodeRevert(panic)).to.deep.equal({
+      kind: "panic",
+      code: 0x11n,
+      description: "arithmetic overflow or underflow",
+    });
+
+    expect(decodeRevert("0xdeadbeef")).to.deep.equal({ kind: "unknown", data: "0xdeadbeef" });
+  });
+
+  it("Should suggest how long to wait for an unlock", async function () {
+    const { lpStaking, token, erc1155, user1 } = await loadFixture(midUnlockFixture);
+
+    const unstake = await simulateStakingCall(lpStaking, user1.address, "unstake", [await token.getAddress()]);
+    expect(unstake.revert).to.deep.equal({ kind: "require", reason: "Unlock period not completed" });
+    expect(unstake.suggestion).to.match(/^wait 6d 23h 59m \d+s for the unlock to complete$/);
+
+    const unlock = await simulateStakingCall(lpStaking, user1.address, "unlock1155", [await erc1155.getAddress(), 1]);
+    expect(unlock.suggestion).to.match(/^wait \d+d \d+h \d+m \d+s for the unlock in progress and unstake it/);
+
+    const missing = await simulateStakingCall(lpStaking, user1.address, "unstake1155", [await erc1155.getAddress(), 2]);
+    expect(missing.suggestion).to.equal(`call unlock1155(${await erc1155.getAddress()}, 2) first`);
+  });
+
+  it("Should suggest the allowance, balance and approval missing for a stake", async function () {
+    const { lpStaking, token, erc1155, user1 } = await loadFixture(supportedTokensFixture);
+    const spender = await lpStaking.getAddress();
+
+    await token.connect(user1).approve(spender, ethers.parseEther("10"));
+    const allowance = await simulateStakingCall(lpStaking, user1.address, "stake", [ethers.parseEther("30"), token]);
+    expect(allowance.revert).to.deep.include({ kind: "custom", name: "ERC20InsufficientAllowance" });
+    expect(allowance.suggestion).to.equal(`approve 20.0 MCK more to ${spender}`);
+
+    await token.connect(user1).approve(spender, ethers.MaxUint256);
+    const balance = await simulateStakingCall(lpStaking, user1.address, "stake", [ethers.parseEther("130"), token]);
+    expect(balance.suggestion).to.equal(`get 30.0 MCK more, ${user1.address} only holds 100.0 MCK`);
+
+    await erc1155.connect(user1).setApprovalForAll(spender, false);
+    const approval = await simulateStakingCall(lpStaking, user1.address, "stake1155", [erc1155, 1, 10]);
+    expect(approval.revert).to.deep.include({ kind: "custom", name: "ERC1155MissingApprovalForAll" });
+    expect(approval.suggestion).to.equal(`call setApprovalForAll(${spender}, true) on ${await erc1155.getAddress()}`);
+  });
+
+  it("Should decode the OpenZeppelin 5 errors of LPStaking and PTPStaking", async function () {
+    const { lpStaking, owner, hexagate, user1 } = await loadFixture(supportedTokensFixture);
+
+    const ownable = await simulateStakingCall(lpStaking, user1.address, "updateUnlockDuration", [60]);
+    expect(ownable.revert).to.deep.equal({ kind: "custom", name: "OwnableUnauthorizedAccount", args: [user1.address] });
+    expect(ownable.suggestion).to.equal(`send it from the owner ${owner.address}, not ${user1.address}`);
+
+    const pause = await simulateStakingCall(lpStaking, user1.address, "pause", []);
+    expect(pause.suggestion).to.equal(`send it from the hexagate ${hexagate.address}`);
+
+    const fake = await ethers.deployContract("FakeERC20", ["Fake", "FAKE", 18, ethers.parseEther("1000")], owner);
+    await lpStaking.addLPTokenSupport(fake);
+    const failed = await simulateStakingCall(lpStaking, owner.address, "stake", [100, fake]);
+    expect(failed.revert).to.deep.equal({ kind: "custom", name: "SafeERC20FailedOperation", args: [fake.target] });
+
+    const { ptpStaking, addr1 } = await loadFixture(deployPTPStakingFixture);
+    const ptp = await simulateStakingCall(ptpStaking, addr1.address, "stake", [ethers.parseEther("5")]);
+    expect(ptp.suggestion).to.equal(`approve 5.0 PTP more to ${await ptpStaking.getAddress()}`);
+    const zero = await simulateStakingCall(ptpStaking, addr1.address, "stake", [0]);
+    expect(formatSimulation(zero)).to.equal(
+      `stake(0) from ${addr1.address} reverted with "Amount must be greater than zero"\n` +
+        "  fix: pass an amount greater than zero"
+    );
+  });
+
+  it("Should only send calls that go through", async function () {
+    const { lpStaking, token, user1 } = await loadFixture(supportedTokensFixture);
+    const before = await ethers.provider.getBlockNumber();
+
+    const failure = sendSimulated(lpStaking, user1, "unstake", [await token.getAddress()]);
+    await expect(failure).to.be.rejectedWith(SimulationError, 'reverted with "No unlocked amount available"');
+    await expect(failure).to.be.rejectedWith("fix: call unlock first");
+    expect(await ethers.provider.getBlockNumber()).to.equal(before);
+
+    const receipt = await sendSimulated(lpStaking, user1, "stake", [ethers.parseEther("1"), token]);
+    expect(receipt.status).to.equal(1);
+    expect(await lpStaking.balanceOf(token, user1.address)).to.equal(ethers.parseEther("1"));
+  });
+
+  it("Should simulate a call from the CLI", async function () {
+    const { lpStaking, token, user1 } = await loadFixture(midUnlockFixture);
+    const result: SimulationResult = await hre.run("simulate", {
+      from: user1.address,
+      address: await lpStaking.getAddress(),
+      call: `unstake(${await token.getAddress()})`,
+    });
+    expect(result.success).to.equal(false);
+    expect(result.suggestion).to.match(/^wait 6d/);
+
+    const ok: SimulationResult = await hre.run("simulate", {
+      from: user1.address,
+      address: await lpStaking.getAddress(),
+      call: `balanceOf(${await token.getAddress()}, ${user1.address})`,
+    });
+    expect(ok.success).to.equal(true);
+    await expect(
+      hre.run("simulate", { from: user1.address, address: await lpStaking.getAddress(), call: "withdraw()" })
+    ).to.be.rejectedWith("withdraw is not a function of the contract");
+  });
+});
@@ -0,0 +1,125 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { DeploymentRecords, deploymentFile, loadDeployment } from "../scripts/utils/deployments";
+import {
+  StorageEntry,
+  StorageLayout,
+  compareStorageLayouts,
+  formatStorageLayoutReport,
+  getStorageLayout,
+} from "../scripts/utils/storage-layout";
+
+describe("Storage layout check", function () {
+  let layout: StorageLayout;
+
+  before(async function () {
+    layout = await getStorageLayout(hre, "LPStaking");
+  });
+
+  describe("compareStorageLayouts", function () {
+    it("Should read the LPStaking layout without AST ids", async function () {
+      expect(layout.map((entry) => entry.label)).to.include.members(["userBalances1155", "tokenUserCount"]);
+      const unlocks = layout.find((entry) => entry.label === "userUnlocks")!;
+      expect(unlocks.type).to.match(/^mapping\(address => mapping\(address => struct LPStaking.UserUnlock \{/);
+      expect(unlocks.type).to.not.contain("_storage");
+    });
+
+    it("Should accept an identical layout", async function () {
+      expect(compareStorageLayouts(layout, layout)).to.be.empty;
+    });
+
+    it("Should accept appended variables", async function () {
+      const appended = [...layout, { label: "extra", slot: "100", offset: 0, type: "uint256", numberOfBytes: 32 }];
+      expect(compareStorageLayouts(layout, appended)).to.be.empty;
+    });
+
+    it("Should flag reordered variables", async function () {
+      const swapped = layout.map((entry) => {
+        if (entry.label === "userBalances") return { ...entry, label: "userBalances1155" };
+        if (entry.label === "userBalances1155") return { ...entry, label: "userBalances" };
+        return entry;
+      });
+      const issues = compareStorageLayouts(layout, swapped);
+      expect(issues.map((issue) => [issue.kind, issue.label])).to.deep.equal([
+        ["reordered", "userBalances"],
+        ["reordered", "userBalances1155"],
+      ]);
+    });
+
+    it("Should flag retyped variables", async function () {
+      const retyped = layout.map((entry) => (entry.label === "paused" ? { ...entry, type: "uint8" } : entry));
+      const issues = compareStorageLayouts(layout, retyped);
+      expect(issues).to.have.lengthOf(1);
+      expect(issues[0].kind).to.equal("retyped");
+      expect(formatStorageLayoutReport("LPStaking", issues)).to.contain("was bool").and.contain("now uint8");
+    });
+
+    it("Should flag removed and overwritten variables", async function () {
+      const removed = layout.filter((entry) => entry.label !== "tokenUserCount");
+      expect(compareStorageLayouts(layout, removed).map((issue) => issue.kind)).to.deep.equal(["removed"]);
+
+      const replaced = layout.map((entry) =>
+        entry.label === "tokenUserCount" ? { ...entry, label: "newCounter" } : entry
+      );
+      const issues = compareStorageLayouts(layout, replaced);
+      expect(issues).to.have.lengthOf(1);
+      expect(issues[0].current!.label).to.equal("newCounter");
+
+      const inserted = [...layout, { label: "shadow", slot: "0", offset: 10, type: "bool", numberOfBytes: 1 }];
+      expect(compareStorageLayouts(layout, inserted).map((issue) => issue.kind)).to.deep.equal(["overwritten"]);
+    });
+
+    it("Should accept variables packed into the free bytes of a slot", async function () {
+      // hexagate takes the first 20 bytes of slot 0
+      const packed = [...layout, { label: "flag", slot: "0", offset: 20, type: "bool", numberOfBytes: 1 }];
+      expect(compareStorageLayouts(layout, packed)).to.be.empty;
+
+      const wide = [...layout, { label: "wide", slot: "0", offset: 20, type: "uint128", numberOfBytes: 16 }];
+      expect(compareStorageLayouts(layout, wide).map((issue) => [issue.kind, issue.previous.label])).to.deep.equal([
+        ["overwritten", "unlockDuration"],
+      ]);
+    });
+  });
+
+  describe("check:storage-layout", function () {
+    let deployments: string;
+
+    beforeEach(async function () {
+      const [, hexagate] = await ethers.getSigners();
+      deployments = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+      await hre.run("deploy:lpstaking", { hexagate: hexagate.address, deployments });
+    });
+
+    afterEach(function () {
+      for (const file of fs.readdirSync(deployments)) fs.unlinkSync(path.join(deployments, file));
+      fs.rmdirSync(deployments);
+    });
+
+    it("Should record the layout with the deployment", async function () {
+      expect(loadDeployment("hardhat", "LPStaking", deployments)!.storageLayout).to.deep.equal(layout);
+    });
+
+    it("Should pass for a compatible upgrade", async function () {
+      const issues = await hre.run("check:storage-layout", { contract: "MockLPStakingV2", deployments });
+      expect(issues).to.be.empty;
+    });
+
+    it("Should fail with a report and block the upgrade", async function () {
+      const file = deploymentFile("hardhat", deployments);
+      const records: DeploymentRecords = JSON.parse(fs.readFileSync(file, "utf-8"));
+      const find = (label: string) =>
+        records.LPStaking.storageLayout!.find((entry: StorageEntry) => entry.label === label)!;
+      const [balances, balances1155] = [find("userBalances"), find("userBalances1155")];
+      [balances.slot, balances1155.slot] = [balances1155.slot, balances.slot];
+      fs.writeFileSync(file, JSON.stringify(records));
+
+      await expect(hre.run("check:storage-layout", { deployments })).to.be.rejectedWith(
+        "storage layout is incompatible"
+      );
+      await expect(hre.run("upgrade:lpstaking", { deployments })).to.be.rejectedWith("reordered");
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { LPStaking, MockERC1155, MockERC20 } from "../scripts/@types/index";
+import { LPStakingIndexer } from "../scripts/indexer/LPStakingIndexer";
+import { UnlockKeeper } from "../scripts/keeper/UnlockKeeper";
+import { PendingUnlock, formatCountdown } from "../scripts/keeper/schedule";
+import { UnlockNotification, UnlockSink, fileSink, webhookSink } from "../scripts/keeper/sinks";
+
+const UNLOCK_DURATION = 604800;
+
+describe("UnlockKeeper", function () {
+  let lpStaking: LPStaking;
+  let token: MockERC20;
+  let erc1155Token: MockERC1155;
+  let owner: HardhatEthersSigner;
+  let user1: HardhatEthersSigner;
+  let user2: HardhatEthersSigner;
+  let notifications: UnlockNotification[];
+  let memorySink: UnlockSink;
+
+  beforeEach(async function () {
+    [owner, , user1, user2] = await ethers.getSigners();
+
+    const ERC20Mock = await ethers.getContractFactory("MockERC20", owner);
+    token = await ERC20Mock.deploy("Mock Token", "MCK", 18, ethers.parseEther("1000"));
+    const ERC1155Mock = await ethers.getContractFactory("MockERC1155", owner);
+    erc1155Token = await ERC1155Mock.deploy();
+    const LPStaking = await ethers.getContractFactory("LPStaking", owner);
+    lpStaking = await LPStaking.deploy();
+    await lpStaking.initialize(owner.address);
+    await lpStaking.addLPTokenSupport(await token.getAddress());
+    await lpStaking.addERC1155TokenSupport(await erc1155Token.getAddress());
+    for (const user of [user1, user2]) {
+      await token.transfer(user.address, ethers.parseEther("100"));
+      await token.connect(user).approve(await lpStaking.getAddress(), ethers.MaxUint256);
+      await erc1155Token.mint(user.address, 1, 100, "0x");
+      await erc1155Token.connect(user).setApprovalForAll(await lpStaking.getAddress(), true);
+    }
+
+    notifications = [];
+    memorySink = { name: "memory", notify: (notification) => void notifications.push(notification) };
+  });
+
+  function keeper(sinks: UnlockSink[] = [memorySink], signers: HardhatEthersSigner[] = []): UnlockKeeper {
+    return new UnlockKeeper(new LPStakingIndexer(lpStaking, { confirmations: 0 }), { sinks, signers });
+  }
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine");
+  }
+
+  async function stakeAndUnlock() {
+    await lpStaking.connect(user1).stake(ethers.parseEther("10"), await token.getAddress());
+    await lpStaking.connect(user1).unlock(await token.getAddress());
+    await increaseTime(86400);
+    await lpStaking.connect(user2).stake1155(await erc1155Token.getAddress(), 1, 5);
+    await lpStaking.connect(user2).unlock1155(await erc1155Token.getAddress(), 1);
+  }
+
+  it("Should format countdowns", function () {
+    expect(formatCountdown(0n)).to.equal("withdrawable");
+    expect(formatCountdown(59n)).to.equal("59s");
+    expect(formatCountdown(3601n)).to.equal("1h 0m 1s");
+    expect(formatCountdown(BigInt(UNLOCK_DURATION) - 1n)).to.equal("6d 23h 59m 59s");
+  });
+
+  it("Should queue pending unlocks soonest first with the time left", async function () {
+    await lpStaking.connect(user2).stake(ethers.parseEther("5"), await token.getAddress());
+    await stakeAndUnlock();
+    const schedule = await keeper().schedule();
+
+    expect(schedule.map((unlock) => [unlock.user, unlock.is1155])).to.deep.equal([
+      [user1.address, false],
+      [user2.address, true],
+    ]);
+    expect(schedule[0].amount).to.equal(ethers.parseEther("10"));
+    expect(schedule[0].remaining).to.be.closeTo(UNLOCK_DURATION - 86400, 5);
+    expect(schedule[1].remaining).to.be.closeTo(UNLOCK_DURATION, 5);
+    expect(await keeper().schedule(user2.address)).to.have.lengthOf(1);
+  });
+
+  it("Should notify each unlock once, when it becomes withdrawable", async function () {
+    await stakeAndUnlock();
+    const instance = keeper();
+    expect(await instance.poll()).to.be.empty;
+
+    await increaseTime(UNLOCK_DURATION - 86400);
+    await instance.poll();
+    expect(notifications.map((notification) => notification.user)).to.deep.equal([user1.address]);
+    expect(notifications[0].unstakeTransaction).to.be.undefined;
+    expect(await instance.poll()).to.be.empty;
+
+    await increaseTime(86400);
+    await instance.poll();
+    expect(notifications).to.have.lengthOf(2);
+    expect(notifications[1]).to.include({ user: user2.address, is1155: true, id: 1n, amount: 5n });
+  });
+
+  it("Should notify again after a new unlock of the same position", async function () {
+    const instance = keeper();
+    await lpStaking.connect(user1).stake(ethers.parseEther("10"), await token.getAddress());
+    await lpStaking.connect(user1).unlock(await token.getAddress());
+    await increaseTime(UNLOCK_DURATION);
+    await instance.poll();
+
+    await lpStaking.connect(user1).unstake(await token.getAddress());
+    await lpStaking.connect(user1).stake(ethers.parseEther("3"), await token.getAddress());
+    await lpStaking.connect(user1).unlock(await token.getAddress());
+    await increaseTime(UNLOCK_DURATION);
+    await instance.poll();
+    expect(notifications.map((notification) => notification.amount)).to.deep.equal([
+      ethers.parseEther("10"),
+      ethers.parseEther("3"),
+    ]);
+  });
+
+  it("Should unstake the matured unlocks of its own signers only", async function () {
+    await stakeAndUnlock();
+    await increaseTime(UNLOCK_DURATION);
+    const before = await token.balanceOf(user1.address);
+    await keeper([memorySink], [user1]).poll();
+
+    const [mine, other] = notifications;
+    expect(mine.unstakeTransaction).to.be.a("string");
+    expect(await token.balanceOf(user1.address)).to.equal(before + ethers.parseEther("10"));
+    expect(other.unstakeTransaction).to.be.undefined;
+    expect((await lpStaking.userUnlocks1155(user2.address, await erc1155Token.getAddress(), 1)).initialized).to.be.true;
+  });
+
+  it("Should write notifications to a file and a webhook", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "keeper-"));
+    const file = path.join(dir, "unlocks.jsonl");
+    const received: unknown[] = [];
+    const server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push(JSON.parse(body));
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/unlocks`;
+
+    try {
+      await stakeAndUnlock();
+      await increaseTime(UNLOCK_DURATION);
+      await keeper([fileSink(file), webhookSink(url)]).poll();
+
+      const lines = fs
+        .readFileSync(file, "utf-8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(lines).to.have.lengthOf(2);
+      expect(lines[0]).to.include({ user: user1.address, amount: ethers.parseEther("10").toString() });
+      expect(received).to.deep.equal(lines);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+      fs.unlinkSync(file);
+      fs.rmdirSync(dir);
+    }
+  });
+
+  it("Should keep unnotified unlocks when a sink fails", async function () {
+    await stakeAndUnlock();
+    await increaseTime(UNLOCK_DURATION);
+    const failing: UnlockSink = {
+      name: "failing",
+      notify: () => {
+        throw new Error("unreachable");
+      },
+    };
+    const instance = new UnlockKeeper(new LPStakingIndexer(lpStaking, { confirmations: 0 }), {
+      sinks: [memorySink, failing],
+    });
+    await expect(instance.poll()).to.be.rejectedWith("unreachable");
+    instance.sinks.pop();
+    await instance.poll();
+    expect(notifications.map((notification) => notification.user)).to.deep.equal([
+      user1.address,
+      user1.address,
+      user2.address,
+    ]);
+  });
+
+  it("Should list the unlocks with countdowns from the CLI", async function () {
+    await stakeAndUnlock();
+    const schedule: PendingUnlock[] = await hre.run("keeper:unlocks", {
+      address: await lpStaking.getAddress(),
+      user: user1.address,
+    });
+    expect(schedule).to.have.lengthOf(1);
+    expect(formatCountdown(schedule[0].remaining)).to.match(/^5d 23h 59m \d+s$/);
+  });
+});
@@ -0,0 +1,7 @@
+import { use } from "chai";
+import { stakingMatchers } from "./matchers";
+
+use(stakingMatchers);
+
+export * from "./staking";
+export { stakingMatchers } from "./matchers";
@@ -0,0 +1,103 @@
+import hre from "hardhat";
+import { AddressLike, BigNumberish, resolveAddress } from "ethers";
+import { LPStaking } from "../../scripts/@types/index";
+import { LPStakingStorage } from "../../scripts/utils/lpstaking-storage";
+
+// the assertions added by `stakingMatchers`
+declare global {
+  namespace Chai {
+    interface Assertion {
+      // everything `user` staked and has not unstaked yet, an outstanding unlock included
+      haveStakeOf(user: AddressLike, token: AddressLike, amount: BigNumberish): Promise<void>;
+      haveStake1155Of(user: AddressLike, token: AddressLike, id: BigNumberish, amount: BigNumberish): Promise<void>;
+      // the amount of the outstanding unlock, 0 when there is none
+      haveUnlockOf(user: AddressLike, token: AddressLike, amount: BigNumberish): Promise<void>;
+      haveUnlock1155Of(user: AddressLike, token: AddressLike, id: BigNumberish, amount: BigNumberish): Promise<void>;
+    }
+  }
+}
+
+const storages = new WeakMap<LPStaking, Promise<LPStakingStorage>>();
+
+function storageOf(contract: LPStaking): Promise<LPStakingStorage> {
+  if (!storages.has(contract)) storages.set(contract, LPStakingStorage.create(hre, contract));
+  return storages.get(contract)!;
+}
+
+/**
+ * Assertions on the positions held by LPStaking, used as
+ * `await expect(lpStaking).to.haveStakeOf(user, token, amount)`.
+ */
+export function stakingMatchers(chai: Chai.ChaiStatic, utils: Chai.ChaiUtils) {
+  // runs `check` and makes the assertion awaitable, like the hardhat-chai-matchers async assertions
+  function awaitable(assertion: Chai.AssertionStatic, check: (contract: LPStaking) => Promise<void>) {
+    const promise = check(utils.flag(assertion, "object"));
+    return Object.assign(assertion, { then: promise.then.bind(promise), catch: promise.catch.bind(promise) });
+  }
+
+  function assertAmount(assertion: Chai.AssertionStatic, subject: string, actual: bigint, expected: BigNumberish) {
+    assertion.assert(
+      actual === BigInt(expected),
+      `expected ${subject} to be ${expected}, but it is ${actual}`,
+      `expected ${subject} not to be ${expected}`,
+      BigInt(expected).toString(),
+      actual.toString()
+    );
+  }
+
+  chai.Assertion.addMethod(
+    "haveStakeOf",
+    function (this: Chai.AssertionStatic, user: AddressLike, token: AddressLike, amount: BigNumberish) {
+      return awaitable(this, async (contract) => {
+        const [account, asset] = [await resolveAddress(user), await resolveAddress(token)];
+        const actual = await (await storageOf(contract)).userBalance(account, asset);
+        assertAmount(this, `the stake of ${account} in ${asset}`, actual, amount);
+      });
+    }
+  );
+
+  chai.Assertion.addMethod(
+    "haveStake1155Of",
+    function (
+      this: Chai.AssertionStatic,
+      user: AddressLike,
+      token: AddressLike,
+      id: BigNumberish,
+      amount: BigNumberish
+    ) {
+      return awaitable(this, async (contract) => {
+        const [account, asset] = [await resolveAddress(user), await resolveAddress(token)];
+        const actual = await (await storageOf(contract)).userBalance1155(account, asset, BigInt(id));
+        assertAmount(this, `the stake of ${account} in ${asset} id ${id}`, actual, amount);
+      });
+    }
+  );
+
+  chai.Assertion.addMethod(
+    "haveUnlockOf",
+    function (this: Chai.AssertionStatic, user: AddressLike, token: AddressLike, amount: BigNumberish) {
+      return awaitable(this, async (contract) => {
+        const [account, asset] = [await resolveAddress(user), await resolveAddress(token)];
+        const actual = (await contract.userUnlocks(account, asset)).amount;
+        assertAmount(this, `the unlock of ${account} in ${asset}`, actual, amount);
+      });
+    }
+  );
+
+  chai.Assertion.addMethod(
+    "haveUnlock1155Of",
+    function (
+      this: Chai.AssertionStatic,
+      user: AddressLike,
+      token: AddressLike,
+      id: BigNumberish,
+      amount: BigNumberish
+    ) {
+      return awaitable(this, async (contract) => {
+        const [account, asset] = [await resolveAddress(user), await resolveAddress(token)];
+        const actual = (await contract.userUnlocks1155(account, asset, id)).amount;
+        assertAmount(this, `the unlock of ${account} in ${asset} id ${id}`, actual, amount);
+      });
+    }
+  );
+}
@@ -0,0 +1,112 @@
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FeeToken, LPStaking, MockERC1155, MockERC20, PTPStaking } from "../../scripts/@types/index";
+
+export interface LPStakingFixture {
+  lpStaking: LPStaking;
+  token: MockERC20;
+  feeToken: FeeToken;
+  erc1155: MockERC1155;
+  owner: HardhatEthersSigner;
+  hexagate: HardhatEthersSigner;
+  user1: HardhatEthersSigner;
+  user2: HardhatEthersSigner;
+}
+
+export interface PTPStakingFixture {
+  ptpStaking: PTPStaking;
+  ptpToken: MockERC20;
+  owner: HardhatEthersSigner;
+  addr1: HardhatEthersSigner;
+  addr2: HardhatEthersSigner;
+}
+
+// what `user1` holds in the mid-unlock and matured fixtures
+export const STAKED_AMOUNT = ethers.parseEther("50");
+export const STAKED_1155_AMOUNT = 50n;
+
+/**
+ * LPStaking initialized with `hexagate`, and the mock tokens deployed but not supported yet.
+ */
+export async function deployLPStakingFixture(): Promise<LPStakingFixture> {
+  const [owner, hexagate, user1, user2] = await ethers.getSigners();
+  const token = await ethers.deployContract("MockERC20", ["Mock Token", "MCK", 18, ethers.parseEther("1000")], owner);
+  const feeToken = await ethers.deployContract("FeeToken", ["Fee Token", "FEE", ethers.parseEther("1000")], owner);
+  const erc1155 = await ethers.deployContract("MockERC1155", [], owner);
+  const lpStaking = await ethers.deployContract("LPStaking", [], owner);
+  await lpStaking.initialize(hexagate.address);
+  return { lpStaking, token, feeToken, erc1155, owner, hexagate, user1, user2 };
+}
+
+/**
+ * The ERC20, the FeeToken and the ERC1155 supported, both users funded with 100 of the ERC20
+ * tokens, 100 of ERC1155 id 1 and 50 of id 2, and every allowance given to LPStaking.
+ */
+export async function supportedTokensFixture(): Promise<LPStakingFixture> {
+  const fixture = await loadFixture(deployLPStakingFixture);
+  const { lpStaking, token, feeToken, erc1155 } = fixture;
+  await lpStaking.addLPTokenSupport(await token.getAddress());
+  await lpStaking.addLPTokenSupport(await feeToken.getAddress());
+  await lpStaking.addERC1155TokenSupport(await erc1155.getAddress());
+  for (const user of [fixture.user1, fixture.user2]) {
+    await token.transfer(user.address, ethers.parseEther("100"));
+    await feeToken.transfer(user.address, ethers.parseEther("100"));
+    await erc1155.mint(user.address, 1, 100, "0x");
+    await erc1155.mint(user.address, 2, 50, "0x");
+    await token.connect(user).approve(await lpStaking.getAddress(), ethers.MaxUint256);
+    await feeToken.connect(user).approve(await lpStaking.getAddress(), ethers.MaxUint256);
+    await erc1155.connect(user).setApprovalForAll(await lpStaking.getAddress(), true);
+  }
+  return fixture;
+}
+
+/**
+ * `user1` staked `STAKED_AMOUNT` of the ERC20 and `STAKED_1155_AMOUNT` of ERC1155 id 1, and
+ * started unlocking both.
+ */
+export async function midUnlockFixture(): Promise<LPStakingFixture> {
+  const fixture = await loadFixture(supportedTokensFixture);
+  const { lpStaking, token, erc1155, user1 } = fixture;
+  await lpStaking.connect(user1).stake(STAKED_AMOUNT, await token.getAddress());
+  await lpStaking.connect(user1).stake1155(await erc1155.getAddress(), 1, STAKED_1155_AMOUNT);
+  await lpStaking.connect(user1).unlock(await token.getAddress());
+  await lpStaking.connect(user1).unlock1155(await erc1155.getAddress(), 1);
+  return fixture;
+}
+
+/**
+ * The unlocks of the mid-unlock fixture can be unstaked.
+ */
+export async function maturedFixture(): Promise<LPStakingFixture> {
+  const fixture = await loadFixture(midUnlockFixture);
+  await time.increase(await fixture.lpStaking.unlockDuration());
+  return fixture;
+}
+
+/**
+ * `user1` staked `STAKED_AMOUNT` of the ERC20, then the hexagate paused LPStaking.
+ */
+export async function pausedFixture(): Promise<LPStakingFixture> {
+  const fixture = await loadFixture(supportedTokensFixture);
+  const { lpStaking, token, hexagate, user1 } = fixture;
+  await lpStaking.connect(user1).stake(STAKED_AMOUNT, await token.getAddress());
+  await lpStaking.connect(hexagate).pause();
+  return fixture;
+}
+
+/**
+ * PTPStaking owned by `owner`, with 1000 PTP sent to each of `addr1` and `addr2`.
+ */
+export async function deployPTPStakingFixture(): Promise<PTPStakingFixture> {
+  const [owner, addr1, addr2] = await ethers.getSigners();
+  const ptpToken = await ethers.deployContract(
+    "MockERC20",
+    ["PTP Token", "PTP", 18, ethers.parseEther("1000000")],
+    owner
+  );
+  const ptpStaking = await ethers.deployContract("PTPStaking", [await ptpToken.getAddress(), owner.address], owner);
+  await ptpToken.transfer(addr1.address, ethers.parseEther("1000"));
+  await ptpToken.transfer(addr2.address, ethers.parseEther("1000"));
+  return { ptpStaking, ptpToken, owner, addr1, addr2 };
+}
@@ -0,0 +1,116 @@
+import * as fs from "fs";
+import * as path from "path";
+import hre, { ethers } from "hardhat";
+import { HttpNetworkConfig } from "hardhat/types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { IERC1155__factory, IERC20__factory } from "../../scripts/@types/index";
+
+export interface ForkToken {
+  name: string;
+  standard: "erc20" | "erc1155";
+  address: string;
+  // the ERC1155 token id
+  id?: string;
+  // the raw amount staked in the lifecycle test
+  amount: string;
+  // the account impersonated, found in the Transfer logs before the pinned block when omitted
+  holder?: string;
+}
+
+export interface ForkConfig {
+  // the configured network forked, its url comes from hardhat.config.ts
+  network: string;
+  blockNumber: number;
+  // LPStaking, defaults to the recorded deployment and is deployed on the fork when there is none
+  lpStaking?: string;
+  ptpLock: string;
+  // how far back from the pinned block to look for holders
+  holderSearchBlocks?: number;
+  tokens: ForkToken[];
+}
+
+export const FORK_CONFIG_FILE = path.join(__dirname, "avalanche.fork.json");
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+const TRANSFER_SINGLE_TOPIC = ethers.id("TransferSingle(address,address,address,uint256,uint256)");
+const LOG_PAGE = 2000;
+
+/**
+ * Whether the fork tests were asked for, they need an archive RPC the first time they run.
+ */
+export function forkTestsEnabled(): boolean {
+  return ["1", "true"].includes(process.env.FORK_TESTS ?? "");
+}
+
+export function loadForkConfig(file: string = FORK_CONFIG_FILE): ForkConfig {
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+}
+
+export function forkUrl(config: ForkConfig): string {
+  const network = hre.config.networks[config.network] as HttpNetworkConfig | undefined;
+  if (network?.url === undefined) {
+    throw new Error(`Network ${config.network} is not configured in hardhat.config.ts`);
+  }
+  return network.url;
+}
+
+// holders found in earlier runs, next to the hardhat fork cache so that cached runs stay offline
+function holderCacheFile(config: ForkConfig): string {
+  return path.join(hre.config.paths.cache, "fork", `${config.network}-${config.blockNumber}-holders.json`);
+}
+
+function tokenKey(token: ForkToken): string {
+  return token.standard === "erc1155" ? `${token.address.toLowerCase()}:${token.id}` : token.address.toLowerCase();
+}
+
+export async function balanceOf(token: ForkToken, account: string): Promise<bigint> {
+  if (token.standard === "erc1155") {
+    return IERC1155__factory.connect(token.address, ethers.provider).balanceOf(account, BigInt(token.id!));
+  }
+  return IERC20__factory.connect(token.address, ethers.provider).balanceOf(account);
+}
+
+/**
+ * An account holding at least `token.amount` at the fork block, preferring the configured holder.
+ * Only externally owned accounts are picked, ERC1155 contracts may not accept the unstaked tokens.
+ */
+export async function findHolder(config: ForkConfig, token: ForkToken, exclude: string[] = []): Promise<string> {
+  if (token.holder) return token.holder;
+  const file = holderCacheFile(config);
+  const cache: { [token: string]: string } = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : {};
+  if (cache[tokenKey(token)]) return cache[tokenKey(token)];
+
+  const excluded = new Set([ethers.ZeroAddress, ...exclude].map((address) => address.toLowerCase()));
+  const topics = token.standard === "erc1155" ? [TRANSFER_SINGLE_TOPIC] : [TRANSFER_TOPIC];
+  const lowest = config.blockNumber - (config.holderSearchBlocks ?? 200000);
+  for (let to = config.blockNumber; to > lowest; to -= LOG_PAGE) {
+    const logs = await ethers.provider.getLogs({
+      address: token.address,
+      topics,
+      fromBlock: to - LOG_PAGE + 1,
+      toBlock: to,
+    });
+    for (const log of logs.reverse()) {
+      if (token.standard === "erc1155" && BigInt(ethers.dataSlice(log.data, 0, 32)) !== BigInt(token.id!)) continue;
+      const candidate = ethers.getAddress(ethers.dataSlice(log.topics[token.standard === "erc1155" ? 3 : 2], 12));
+      if (excluded.has(candidate.toLowerCase())) continue;
+      excluded.add(candidate.toLowerCase());
+      if ((await ethers.provider.getCode(candidate)) !== "0x") continue;
+      if ((await balanceOf(token, candidate)) < BigInt(token.amount)) continue;
+
+      cache[tokenKey(token)] = candidate;
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(cache, null, 2) + "\n");
+      return candidate;
+    }
+  }
+  throw new Error(
+    `No account holding ${token.amount} of ${token.name} in the ${config.holderSearchBlocks ?? 200000} blocks ` +
+      `before ${config.blockNumber}, set a holder in ${FORK_CONFIG_FILE}`
+  );
+}
+
+export async function impersonate(address: string): Promise<HardhatEthersSigner> {
+  await hre.network.provider.send("hardhat_setBalance", [address, "0x56BC75E2D63100000"]);
+  return ethers.getImpersonatedSigner(address);
+}